@@ -0,0 +1,103 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+import { closeRepositories, initializeRepositories } from '../src/repositories';
+import {
+  BACKUP_DIR,
+  createBackup,
+  getRetentionPolicy,
+  inspectBackup,
+  listBackups,
+  pruneBackups,
+  restoreBackup,
+} from '../src/services/backupService';
+
+const USAGE = `Usage:
+  npm run backup -- create [label]          snapshot every collection
+  npm run backup -- list                    list archives in ${BACKUP_DIR}
+  npm run backup -- inspect <archive>       show manifest and validate an archive
+  npm run backup -- restore <archive> --yes validate, snapshot current data, then swap the archive in
+  npm run backup -- prune                   apply the retention policy`;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function backupCommand() {
+  const [command, ...args] = process.argv.slice(2);
+  const target = args.find(arg => !arg.startsWith('--'));
+
+  try {
+    switch (command) {
+      case 'create': {
+        await initializeRepositories();
+        const archive = await createBackup(target);
+        console.log(`💾 Snapshot written to ${archive}`);
+        break;
+      }
+      case 'list': {
+        const backups = await listBackups();
+        if (backups.length === 0) {
+          console.log(`ℹ️  No snapshots in ${BACKUP_DIR}`);
+          break;
+        }
+        for (const backup of backups) {
+          console.log(`  ${backup.file}  ${backup.createdAt}  ${backup.label}  ${formatSize(backup.sizeBytes)}`);
+        }
+        break;
+      }
+      case 'inspect': {
+        if (!target) throw new Error('inspect needs an archive name or path');
+        const { path: archivePath, manifest, problems } = await inspectBackup(target);
+        console.log(`📦 ${archivePath}`);
+        if (manifest) {
+          console.log(`   Created ${manifest.createdAt} (${manifest.label}) from the ${manifest.dataStore} store, schema v${manifest.schemaVersion}`);
+          for (const [collection, count] of Object.entries(manifest.counts)) {
+            console.log(`   ${collection}: ${count}`);
+          }
+        }
+        if (problems.length > 0) {
+          console.log(`❌ Not restorable:\n  - ${problems.join('\n  - ')}`);
+          process.exitCode = 1;
+        } else {
+          console.log('✅ Archive is valid');
+        }
+        break;
+      }
+      case 'restore': {
+        if (!target) throw new Error('restore needs an archive name or path');
+        if (!args.includes('--yes')) {
+          console.log(`⚠️  This replaces every collection with the contents of ${target}. Stop the server, then re-run with --yes.`);
+          process.exitCode = 1;
+          break;
+        }
+        await initializeRepositories();
+        const { manifest, restored, safetyBackupPath } = await restoreBackup(target);
+        if (safetyBackupPath) console.log(`💾 Current data saved to ${safetyBackupPath}`);
+        const total = Object.values(restored).reduce((sum, count) => sum + count, 0);
+        console.log(`✅ Restored ${total} record(s) from the ${manifest.createdAt} snapshot (schema v${manifest.schemaVersion})`);
+        break;
+      }
+      case 'prune': {
+        const policy = getRetentionPolicy();
+        const deleted = await pruneBackups(policy);
+        console.log(`🧹 Removed ${deleted.length} archive(s) (keep ${policy.keepCount}, max age ${policy.maxAgeDays} days)`);
+        break;
+      }
+      default:
+        console.log(USAGE);
+        if (command) process.exitCode = 1;
+    }
+  } catch (error: any) {
+    console.error('❌ Backup command failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await closeRepositories();
+  }
+}
+
+backupCommand();
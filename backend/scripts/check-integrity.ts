@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+import { closeRepositories, initializeRepositories } from '../src/repositories';
+import { checkIntegrity } from '../src/services/integrityService';
+import { createBackup } from '../src/services/backupService';
+
+/**
+ * Report (and optionally repair) dangling references between collections.
+ *
+ *   npm run check-integrity                      report only
+ *   npm run check-integrity -- --repair          back up, then cascade / clear dangling references
+ *   npm run check-integrity -- --out report.json write the report somewhere specific
+ *
+ * The JSON report goes to reports/integrity-<timestamp>.json unless --out is given.
+ * Exits with code 1 when issues were found and not repaired.
+ */
+async function checkIntegrityCommand() {
+  const args = process.argv.slice(2);
+  const repair = args.includes('--repair');
+  const outIndex = args.indexOf('--out');
+  const outPath = outIndex >= 0 && args[outIndex + 1]
+    ? path.resolve(args[outIndex + 1])
+    : path.join(process.cwd(), 'reports', `integrity-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+
+  try {
+    const dataStore = await initializeRepositories();
+    console.log(`🗄️  Data store: ${dataStore}`);
+
+    if (repair) {
+      const backupPath = await createBackup('pre-integrity-repair');
+      console.log(`💾 Backup written to ${backupPath}`);
+    }
+
+    const report = await checkIntegrity({ repair });
+    await fs.mkdir(path.dirname(outPath), { recursive: true });
+    await fs.writeFile(outPath, JSON.stringify(report, null, 2), 'utf-8');
+
+    if (report.summary.totalIssues === 0) {
+      console.log('✅ No dangling references found');
+    } else {
+      for (const [type, count] of Object.entries(report.summary.byType)) {
+        console.log(`  ${type}: ${count}`);
+      }
+      if (repair) {
+        console.log(`🧹 Repaired ${report.summary.totalIssues} issue(s). Removed: ${JSON.stringify(report.summary.removed)}, updated: ${JSON.stringify(report.summary.updated)}`);
+      } else {
+        console.log(`⚠️  ${report.summary.totalIssues} dangling reference(s). Re-run with --repair to fix them.`);
+        process.exitCode = 1;
+      }
+    }
+    console.log(`📄 Report written to ${outPath}`);
+  } catch (error: any) {
+    console.error('❌ Integrity check failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await closeRepositories();
+  }
+}
+
+checkIntegrityCommand();
@@ -1,23 +1,18 @@
-import fs from 'fs/promises';
+import dotenv from 'dotenv';
 import path from 'path';
 
-const DB_FILE = path.join(process.cwd(), 'data', 'users.json');
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+import { repositories, initializeRepositories, closeRepositories } from '../src/repositories';
+import { createBackup } from '../src/services/backupService';
 
 async function deleteAllAccounts() {
   try {
     console.log('🗑️  Starting account deletion...');
-    
-    // Check if file exists
-    try {
-      await fs.access(DB_FILE);
-    } catch {
-      console.log('ℹ️  No users.json file found. Database is already empty.');
-      return;
-    }
+    const store = await initializeRepositories();
 
     // Read current users
-    const data = await fs.readFile(DB_FILE, 'utf-8');
-    const users = JSON.parse(data);
+    const users = await repositories.users.findAll();
     
     const userCount = users.length;
     
@@ -26,14 +21,20 @@ async function deleteAllAccounts() {
       return;
     }
 
-    // Delete all accounts by writing empty array
-    await fs.writeFile(DB_FILE, JSON.stringify([], null, 2));
+    // Snapshot first so this can be undone with `npm run backup -- restore <archive>`
+    const archive = await createBackup('pre-delete-all-accounts');
+    console.log(`💾 Snapshot written to ${archive}`);
+
+    // Delete all accounts by replacing the collection with an empty one
+    await repositories.users.replaceAll([]);
     
     console.log(`✅ Successfully deleted ${userCount} account(s) from the database.`);
-    console.log(`📁 Database file: ${DB_FILE}`);
+    console.log(`📁 Data store: ${store}`);
   } catch (error: any) {
     console.error('❌ Error deleting accounts:', error.message);
-    process.exit(1);
+    process.exitCode = 1;
+  } finally {
+    await closeRepositories();
   }
 }
 
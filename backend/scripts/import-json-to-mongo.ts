@@ -0,0 +1,40 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+import { COLLECTIONS, StoredRecord } from '../src/repositories';
+import { createJsonDriver } from '../src/repositories/jsonRepository';
+import { createMongoDriver } from '../src/repositories/mongoRepository';
+
+/**
+ * Copy every collection from data/*.json into MongoDB (MONGODB_URI).
+ * Existing Mongo collections are replaced. Run once when switching DATA_STORE to mongo.
+ */
+async function importJsonToMongo() {
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.error('❌ MONGODB_URI is not set');
+    process.exitCode = 1;
+    return;
+  }
+
+  const source = createJsonDriver();
+  const target = createMongoDriver(uri, process.env.MONGODB_DB || undefined);
+
+  try {
+    await target.init();
+    for (const collection of Object.values(COLLECTIONS)) {
+      const records = await source.repository<StoredRecord>(collection).findAll();
+      await target.repository<StoredRecord>(collection).replaceAll(records);
+      console.log(`✅ ${collection}: ${records.length} record(s) copied`);
+    }
+  } catch (error: any) {
+    console.error('❌ Import failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await target.close();
+  }
+}
+
+importJsonToMongo();
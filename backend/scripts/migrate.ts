@@ -0,0 +1,60 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+import { closeRepositories, initializeRepositories } from '../src/repositories';
+import {
+  getAppliedMigrations,
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  runMigrations,
+} from '../src/migrations';
+
+/**
+ * Apply pending data migrations.
+ *
+ *   npm run migrate               apply pending migrations (backup first)
+ *   npm run migrate -- --dry-run  show what each pending migration would change
+ *   npm run migrate -- --status   list applied and pending migrations
+ *   npm run migrate -- --no-backup
+ */
+async function migrate() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const statusOnly = args.includes('--status');
+  const backup = !args.includes('--no-backup');
+
+  try {
+    const dataStore = await initializeRepositories();
+    const version = await getSchemaVersion();
+    console.log(`🗄️  Data store: ${dataStore}, schema v${version} (latest v${LATEST_SCHEMA_VERSION})`);
+
+    if (statusOnly) {
+      const applied = new Map((await getAppliedMigrations()).map(m => [m.version, m]));
+      for (const migration of MIGRATIONS) {
+        const record = applied.get(migration.version);
+        const state = record ? `applied ${record.appliedAt} (${record.changed} changed)` : 'pending';
+        console.log(`  ${String(migration.version).padStart(3, '0')} ${migration.name}: ${state}`);
+      }
+      return;
+    }
+
+    const result = await runMigrations({ dryRun, backup });
+    if (result.applied.length === 0) {
+      console.log('✅ Already up to date');
+    } else if (dryRun) {
+      console.log(`🔍 Dry run: ${result.applied.length} migration(s) would take the schema from v${result.fromVersion} to v${result.toVersion}. Nothing was written.`);
+    } else {
+      console.log(`✅ Schema migrated from v${result.fromVersion} to v${result.toVersion}`);
+    }
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await closeRepositories();
+  }
+}
+
+migrate();
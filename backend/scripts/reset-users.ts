@@ -1,22 +1,29 @@
-import fs from 'fs/promises';
+import dotenv from 'dotenv';
 import path from 'path';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const USERS_FILE = path.join(DATA_DIR, 'users.json');
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+import { repositories, initializeRepositories, closeRepositories } from '../src/repositories';
+import { createBackup } from '../src/services/backupService';
 
 async function resetUsers() {
   try {
-    // Ensure data directory exists
-    await fs.mkdir(DATA_DIR, { recursive: true });
+    const store = await initializeRepositories();
     
-    // Reset users to empty array
-    await fs.writeFile(USERS_FILE, JSON.stringify([], null, 2));
+    // Keep a copy of the current data in case the reset was a mistake
+    const archive = await createBackup('pre-reset-users');
+    console.log(`💾 Snapshot written to ${archive}`);
+
+    // Reset users to empty collection
+    await repositories.users.replaceAll([]);
     
     console.log('✅ All user accounts have been deleted from the database.');
-    console.log(`   File: ${USERS_FILE}`);
+    console.log(`   Data store: ${store}`);
   } catch (error: any) {
     console.error('❌ Error resetting users:', error.message);
-    process.exit(1);
+    process.exitCode = 1;
+  } finally {
+    await closeRepositories();
   }
 }
 
@@ -0,0 +1,126 @@
+import sharp from 'sharp';
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+/**
+ * Named colors used for closet color tags. Every extracted pixel is mapped to the nearest
+ * entry, so tags always come from this list.
+ */
+export const COLOR_PALETTE: Record<string, Rgb> = {
+  black: [22, 22, 24],
+  charcoal: [58, 58, 62],
+  grey: [138, 138, 140],
+  white: [246, 246, 244],
+  ivory: [238, 232, 212],
+  beige: [218, 200, 170],
+  camel: [190, 148, 100],
+  brown: [105, 68, 42],
+  burgundy: [112, 24, 44],
+  red: [196, 32, 42],
+  coral: [240, 122, 100],
+  pink: [238, 160, 186],
+  orange: [232, 118, 32],
+  mustard: [204, 160, 40],
+  yellow: [244, 218, 64],
+  olive: [108, 108, 52],
+  khaki: [186, 176, 128],
+  green: [42, 128, 62],
+  teal: [0, 118, 122],
+  'light blue': [150, 190, 226],
+  blue: [42, 92, 188],
+  navy: [28, 36, 76],
+  purple: [108, 50, 138],
+  lavender: [192, 172, 222],
+};
+
+// Images are reduced to this many pixels on the long edge before counting
+const SAMPLE_SIZE = 64;
+// A color has to cover this share of the garment to become a tag
+const MIN_SHARE = 0.15;
+const MAX_COLORS = 3;
+
+function toLab([r, g, b]: Rgb): Lab {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  // sRGB -> XYZ (D65), normalised by the white point
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+const PALETTE_LAB = Object.entries(COLOR_PALETTE).map(([name, rgb]) => ({ name, lab: toLab(rgb) }));
+
+function nearestColor(rgb: Rgb): string {
+  const [l, a, b] = toLab(rgb);
+  let best = PALETTE_LAB[0];
+  let bestDistance = Infinity;
+  for (const entry of PALETTE_LAB) {
+    const distance = (l - entry.lab[0]) ** 2 + (a - entry.lab[1]) ** 2 + (b - entry.lab[2]) ** 2;
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best.name;
+}
+
+function mostCommon(names: string[]): { name: string; share: number } | null {
+  const counts = new Map<string, number>();
+  for (const name of names) counts.set(name, (counts.get(name) ?? 0) + 1);
+  let top: { name: string; share: number } | null = null;
+  for (const [name, count] of counts) {
+    if (!top || count / names.length > top.share) top = { name, share: count / names.length };
+  }
+  return top;
+}
+
+/**
+ * Dominant palette colors of a garment photo, most prominent first. Transparent pixels
+ * (cutouts) are ignored. For opaque photos the color that fills most of the border is
+ * treated as the backdrop and left out, unless that would leave almost nothing (e.g. a
+ * white shirt on a white background).
+ */
+export async function dominantColors(data: Buffer): Promise<string[]> {
+  const { data: pixels, info } = await sharp(data)
+    .rotate()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const names: string[] = [];
+  const border: string[] = [];
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      const i = (y * info.width + x) * 4;
+      if (pixels[i + 3] < 128) {
+        names.push('');
+        continue;
+      }
+      const name = nearestColor([pixels[i], pixels[i + 1], pixels[i + 2]]);
+      names.push(name);
+      if (x === 0 || y === 0 || x === info.width - 1 || y === info.height - 1) border.push(name);
+    }
+  }
+
+  let garment = names.filter(Boolean);
+  const hasTransparency = garment.length < names.length * 0.95;
+  if (!hasTransparency) {
+    const backdrop = mostCommon(border);
+    const withoutBackdrop = backdrop && backdrop.share >= 0.6 ? garment.filter(n => n !== backdrop.name) : garment;
+    if (withoutBackdrop.length >= garment.length * 0.1) garment = withoutBackdrop;
+  }
+  if (garment.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  for (const name of garment) counts.set(name, (counts.get(name) ?? 0) + 1);
+  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const colors = ranked.filter(([, count]) => count / garment.length >= MIN_SHARE).map(([name]) => name);
+  return (colors.length > 0 ? colors : [ranked[0][0]]).slice(0, MAX_COLORS);
+}
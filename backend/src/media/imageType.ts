@@ -0,0 +1,41 @@
+import sharp from 'sharp';
+
+// HEIF brands used by HEIC photos (iPhone). The prebuilt libvips only decodes the AV1 flavour (AVIF).
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+/** Whether the bytes start with an ISO media `ftyp` box naming a HEIC brand */
+function isHeic(data: Buffer): boolean {
+  if (data.length < 16 || data.toString('latin1', 4, 8) !== 'ftyp') return false;
+  const boxEnd = Math.min(data.readUInt32BE(0), data.length);
+  // Major brand at 8, then the minor version, then compatible brands to the end of the box
+  for (let offset = 8; offset + 4 <= boxEnd; offset += offset === 8 ? 8 : 4) {
+    if (HEIC_BRANDS.includes(data.toString('latin1', offset, offset + 4))) return true;
+  }
+  return false;
+}
+
+/**
+ * Content type of an image read from its bytes, not from what the uploader declared.
+ * Null for anything that isn't one of the supported image formats (see MEDIA_TYPES).
+ */
+export async function detectImageType(data: Buffer): Promise<string | null> {
+  try {
+    const { format, compression } = await sharp(data).metadata();
+    switch (format) {
+      case 'jpeg':
+        return 'image/jpeg';
+      case 'png':
+        return 'image/png';
+      case 'webp':
+        return 'image/webp';
+      case 'gif':
+        return 'image/gif';
+      case 'heif':
+        return compression === 'av1' ? 'image/avif' : 'image/heic';
+      default:
+        return null;
+    }
+  } catch {
+    return isHeic(data) ? 'image/heic' : null;
+  }
+}
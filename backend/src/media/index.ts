@@ -0,0 +1,81 @@
+import { createLocalDiskStore, isMediaKey, MEDIA_TYPES, renditionKey } from './localDiskStore';
+import { MediaStore, MediaStoreKind } from './types';
+
+export * from './types';
+export { isMediaKey, MEDIA_TYPES, renditionKey };
+
+let store: MediaStore | null = null;
+
+/**
+ * MEDIA_STORE selects where uploaded files live: "local" (default, content-addressed
+ * files under MEDIA_DIR). Other backends implement MediaStore and are added here.
+ */
+export function getMediaStoreKind(): MediaStoreKind {
+  const kind = (process.env.MEDIA_STORE || 'local').trim().toLowerCase();
+  if (kind === 'local') return kind;
+  throw new Error(`Unknown MEDIA_STORE "${kind}". Use "local".`);
+}
+
+function createStore(): MediaStore {
+  switch (getMediaStoreKind()) {
+    case 'local':
+      return createLocalDiskStore();
+  }
+}
+
+// Resolved lazily so .env has been loaded before the backend is chosen
+export function getMediaStore(): MediaStore {
+  if (!store) {
+    store = createStore();
+  }
+  return store;
+}
+
+/** Largest accepted upload in bytes (MEDIA_MAX_UPLOAD_MB, default 10). */
+export function getMaxUploadBytes(): number {
+  const mb = Number(process.env.MEDIA_MAX_UPLOAD_MB ?? 10);
+  return (Number.isFinite(mb) && mb > 0 ? mb : 10) * 1024 * 1024;
+}
+
+/**
+ * Origin that media URLs are built on. MEDIA_PUBLIC_URL wins (e.g. a CDN in front of
+ * the API); otherwise the same backend URL used for OAuth callbacks.
+ */
+export function getMediaBaseUrl(): string {
+  const base =
+    process.env.MEDIA_PUBLIC_URL?.trim() ||
+    process.env.BACKEND_URL?.trim() ||
+    process.env.RENDER_EXTERNAL_URL?.trim() ||
+    `http://localhost:${process.env.PORT || 3000}`;
+  return base.replace(/\/+$/, '');
+}
+
+/** Stable URL stored on records in place of the file contents. */
+export function mediaUrl(key: string): string {
+  const current = getMediaStore();
+  if (current.publicUrl) return current.publicUrl(key);
+  return `${getMediaBaseUrl()}/api/media/${key}`;
+}
+
+/** Key of a URL produced by mediaUrl() (a `?v=` version may follow), or null for external URLs. */
+export function mediaKeyFromUrl(url: string): string | null {
+  const match = /\/api\/media\/([^/?#]+)(?:[?#][^/]*)?$/.exec(url);
+  return match && isMediaKey(match[1]) ? match[1] : null;
+}
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)?(;[^,]*)?,/;
+
+export function isDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && DATA_URL_PATTERN.test(value);
+}
+
+/** Decode a `data:` URL into its bytes and content type. Returns null if it isn't one. */
+export function parseDataUrl(value: string): { data: Buffer; contentType: string } | null {
+  const match = DATA_URL_PATTERN.exec(value);
+  if (!match) return null;
+  const contentType = (match[1] || 'text/plain').toLowerCase();
+  const payload = value.slice(match[0].length);
+  const isBase64 = (match[2] || '').split(';').includes('base64');
+  const data = isBase64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload));
+  return { data, contentType };
+}
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { MediaObject, MediaStore, RenditionName, StoredMedia } from './types';
+
+export const MEDIA_DIR = process.env.MEDIA_DIR
+  ? path.resolve(process.env.MEDIA_DIR)
+  : path.join(process.cwd(), 'media');
+
+/** Image types accepted for upload, by the file extension used in their key. */
+export const MEDIA_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+};
+
+const KEY_PATTERN = /^([a-f0-9]{64})(?:\.(thumb|preview|cutout))?\.([a-z0-9]+)$/;
+
+export function isMediaKey(key: string): boolean {
+  const match = KEY_PATTERN.exec(key);
+  return !!match && Object.values(MEDIA_TYPES).includes(match[3]);
+}
+
+/** Key of the `rendition` of an original (which may itself be given as a rendition key). */
+export function renditionKey(originalKey: string, rendition: RenditionName, ext: string): string {
+  return `${originalKey.slice(0, 64)}.${rendition}.${ext}`;
+}
+
+function contentTypeForKey(key: string): string {
+  const ext = key.slice(key.lastIndexOf('.') + 1);
+  const entry = Object.entries(MEDIA_TYPES).find(([, e]) => e === ext);
+  return entry ? entry[0] : 'application/octet-stream';
+}
+
+// Shard by the first two hex characters so no single directory grows unbounded
+function filePath(key: string): string {
+  return path.join(MEDIA_DIR, key.slice(0, 2), key);
+}
+
+function unsupportedTypeError(contentType: string): Error & { code?: string } {
+  const err = new Error(`Unsupported media type "${contentType}"`) as Error & { code?: string };
+  err.code = 'MEDIA_UNSUPPORTED_TYPE';
+  return err;
+}
+
+// Write to a temp file and rename so readers never see a truncated object under its key
+async function write(key: string, data: Buffer): Promise<void> {
+  const target = filePath(key);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, data);
+  await fs.rename(temp, target);
+}
+
+async function fileExists(key: string): Promise<boolean> {
+  try {
+    await fs.access(filePath(key));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function invalidKeyError(key: string): Error & { code?: string } {
+  const err = new Error(`Invalid media key "${key}"`) as Error & { code?: string };
+  err.code = 'MEDIA_INVALID_KEY';
+  return err;
+}
+
+export function createLocalDiskStore(): MediaStore {
+  return {
+    kind: 'local',
+
+    async put(data: Buffer, contentType: string): Promise<StoredMedia> {
+      const ext = MEDIA_TYPES[contentType];
+      if (!ext) throw unsupportedTypeError(contentType);
+
+      const hash = crypto.createHash('sha256').update(data).digest('hex');
+      const key = `${hash}.${ext}`;
+      // Same key means same bytes, so an existing file is already correct
+      if (!(await fileExists(key))) await write(key, data);
+      return { key, contentType, size: data.length };
+    },
+
+    async putRendition(originalKey: string, rendition: RenditionName, data: Buffer, contentType: string): Promise<StoredMedia> {
+      if (!isMediaKey(originalKey)) throw invalidKeyError(originalKey);
+      const ext = MEDIA_TYPES[contentType];
+      if (!ext) throw unsupportedTypeError(contentType);
+
+      const key = renditionKey(originalKey, rendition, ext);
+      await write(key, data);
+      return { key, contentType, size: data.length };
+    },
+
+    async get(key: string): Promise<MediaObject | null> {
+      if (!isMediaKey(key)) throw invalidKeyError(key);
+      try {
+        const data = await fs.readFile(filePath(key));
+        return { data, contentType: contentTypeForKey(key) };
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async exists(key: string): Promise<boolean> {
+      return isMediaKey(key) && fileExists(key);
+    },
+
+    async remove(key: string): Promise<boolean> {
+      if (!isMediaKey(key)) throw invalidKeyError(key);
+      try {
+        await fs.unlink(filePath(key));
+        return true;
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return false;
+        throw error;
+      }
+    },
+  };
+}
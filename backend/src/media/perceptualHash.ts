@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+import { getMediaStore, mediaKeyFromUrl } from './index';
+
+// 9x8 grayscale thumbnail: comparing horizontal neighbours gives 8x8 = 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Difference hash of an image as 16 hex characters. Resizing, recompression and small
+ * exposure changes barely move it, so near-identical photos end up a few bits apart.
+ */
+export async function perceptualHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data)
+    .rotate()
+    .grayscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const bit = pixels[y * HASH_WIDTH + x] > pixels[y * HASH_WIDTH + x + 1] ? 1 : 0;
+      nibble = (nibble << 1) | bit;
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/** Number of differing bits between two hashes (0 = same picture, 64 = opposite). */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    let diff = parseInt(a.slice(i, i + 4), 16) ^ parseInt(b.slice(i, i + 4), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Perceptual hash of an image URL. Null for URLs that aren't in the media store
+ * (external links) or images that can't be decoded.
+ */
+export async function photoHashForUrl(url: string | undefined): Promise<string | null> {
+  const key = url ? mediaKeyFromUrl(url) : null;
+  if (!key) return null;
+  try {
+    const media = await getMediaStore().get(key);
+    return media ? await perceptualHash(media.data) : null;
+  } catch (error: any) {
+    console.warn(`⚠️  Could not hash ${key}: ${error.message}`);
+    return null;
+  }
+}
@@ -0,0 +1,83 @@
+import sharp from 'sharp';
+import { getMediaStore, mediaKeyFromUrl, mediaUrl, renditionKey } from './index';
+import { RenditionName } from './types';
+
+type SizedRendition = Exclude<RenditionName, 'cutout'>;
+
+/** Longest edge in pixels. Images are scaled down to fit, never up. */
+export const RENDITIONS: Record<SizedRendition, number> = {
+  thumb: 400,
+  preview: 800,
+};
+
+export type RenditionFormat = 'webp' | 'jpeg';
+
+const FORMAT_TYPES: Record<RenditionFormat, { contentType: string; ext: string }> = {
+  webp: { contentType: 'image/webp', ext: 'webp' },
+  jpeg: { contentType: 'image/jpeg', ext: 'jpg' },
+};
+
+export interface RenditionUrls {
+  thumbnailUrl: string;
+  previewUrl: string;
+}
+
+/** MEDIA_RENDITION_FORMAT: "webp" (default) or "jpeg". */
+export function getRenditionFormat(): RenditionFormat {
+  const format = (process.env.MEDIA_RENDITION_FORMAT || 'webp').trim().toLowerCase();
+  if (format === 'webp' || format === 'jpeg') return format;
+  throw new Error(`Unknown MEDIA_RENDITION_FORMAT "${format}". Use "webp" or "jpeg".`);
+}
+
+async function encode(original: Buffer, size: number, format: RenditionFormat): Promise<Buffer> {
+  // rotate() applies EXIF orientation so phone photos aren't sideways once the metadata is stripped
+  const pipeline = sharp(original).rotate().resize(size, size, { fit: 'inside', withoutEnlargement: true });
+  return format === 'webp'
+    ? pipeline.webp({ quality: 80 }).toBuffer()
+    : pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: 82, mozjpeg: true }).toBuffer();
+}
+
+/**
+ * Generate any missing renditions of a stored original and return their URLs.
+ * Renditions are keyed by the original, so calling this again is cheap.
+ */
+export async function createRenditions(key: string): Promise<RenditionUrls> {
+  const store = getMediaStore();
+  const { contentType, ext } = FORMAT_TYPES[getRenditionFormat()];
+  const urls: Partial<Record<SizedRendition, string>> = {};
+
+  let original: Buffer | null = null;
+  for (const [name, size] of Object.entries(RENDITIONS) as [SizedRendition, number][]) {
+    const target = renditionKey(key, name, ext);
+    if (!(await store.exists(target))) {
+      if (!original) {
+        const media = await store.get(key);
+        if (!media) {
+          const err = new Error(`Media "${key}" not found`) as Error & { code?: string };
+          err.code = 'MEDIA_NOT_FOUND';
+          throw err;
+        }
+        original = media.data;
+      }
+      await store.putRendition(key, name, await encode(original, size, getRenditionFormat()), contentType);
+    }
+    urls[name] = mediaUrl(target);
+  }
+
+  return { thumbnailUrl: urls.thumb!, previewUrl: urls.preview! };
+}
+
+/**
+ * Rendition URLs for an image URL, generating them if needed. Null for URLs that aren't
+ * in the media store (external links) or images that can't be decoded.
+ */
+export async function renditionsForUrl(url: string | undefined): Promise<RenditionUrls | null> {
+  const key = url ? mediaKeyFromUrl(url) : null;
+  if (!key) return null;
+  try {
+    return await createRenditions(key);
+  } catch (error: any) {
+    console.warn(`⚠️  Could not create renditions for ${key}: ${error.message}`);
+    return null;
+  }
+}
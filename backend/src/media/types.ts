@@ -0,0 +1,48 @@
+/**
+ * Storage abstraction for uploaded media (closet photos, receipts, profile photos,
+ * look composites). Records only hold the URL returned by `mediaUrl(key)`; the bytes
+ * live in whichever store MEDIA_STORE selects, so an S3-compatible backend can be
+ * added without touching routes or records.
+ */
+
+export type MediaStoreKind = 'local';
+
+/**
+ * Derived copies stored next to an original: fixed-size copies generated for every
+ * upload (media/renditions.ts) and background-removed cutouts of closet item photos.
+ */
+export type RenditionName = 'thumb' | 'preview' | 'cutout';
+
+export interface StoredMedia {
+  /**
+   * Content-addressed key: `<sha256>.<ext>`. Identical uploads share a key.
+   * Renditions use `<sha256 of the original>.<rendition>.<ext>`.
+   */
+  key: string;
+  contentType: string;
+  size: number;
+}
+
+export interface MediaObject {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface MediaStore {
+  readonly kind: MediaStoreKind;
+  /** Store the bytes (a no-op when the same content is already stored) and return its key. */
+  put(data: Buffer, contentType: string): Promise<StoredMedia>;
+  /**
+   * Store (or replace) a rendition of `originalKey`. Keyed by the original so it can be
+   * found without a lookup.
+   */
+  putRendition(originalKey: string, rendition: RenditionName, data: Buffer, contentType: string): Promise<StoredMedia>;
+  get(key: string): Promise<MediaObject | null>;
+  exists(key: string): Promise<boolean>;
+  remove(key: string): Promise<boolean>;
+  /**
+   * Direct URL for stores that serve media themselves (e.g. a bucket behind a CDN).
+   * When omitted, media is served through GET /api/media/:key.
+   */
+  publicUrl?(key: string): string;
+}
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { isDataUrl } from '../media';
+
+/**
+ * Images are uploaded through POST /api/media and records only store the URL it returns.
+ * Reject JSON bodies that still carry an image as a base64 data URL (photoUrl,
+ * profilePhotoUrl, receiptPhotoUrl, look items' newItemDetails, ...) at any depth,
+ * instead of saving it inline on the record.
+ */
+
+function findInlineImage(node: unknown, path: string): string | null {
+  if (isDataUrl(node)) {
+    return node.slice(0, 11).toLowerCase() === 'data:image/' ? path : null;
+  }
+  if (!node || typeof node !== 'object') return null;
+  for (const [key, value] of Object.entries(node)) {
+    const found = findInlineImage(value, path ? `${path}.${key}` : key);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function rejectInlineImages(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const field = findInlineImage(req.body, '');
+  if (field) {
+    return res.status(400).json({
+      error: { message: `${field} is an inline image. Upload it with POST /api/media and send the returned url instead.` }
+    });
+  }
+  next();
+}
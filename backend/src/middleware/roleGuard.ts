@@ -38,6 +38,26 @@ export function requireClient(
   next();
 }
 
+/**
+ * Middleware to allow only admins (emails listed in ADMIN_EMAILS, comma-separated)
+ */
+export function requireAdmin(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (!req.userEmail || !adminEmails.includes(req.userEmail.toLowerCase())) {
+    return res.status(403).json({ 
+      error: { message: 'Access denied. This action requires admin privileges.' } 
+    });
+  }
+  next();
+}
+
 /**
  * Middleware to allow both stylists and clients
  * Useful for explicit role checking
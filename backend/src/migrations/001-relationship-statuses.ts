@@ -0,0 +1,26 @@
+import { repositories } from '../repositories';
+import { Migration } from './types';
+
+/**
+ * Relationships used to be marked 'active' as soon as they were created. A relationship
+ * only becomes active once the client accepts the invite (acceptedAt) or approves a look,
+ * so anything 'active' without acceptedAt goes back to 'not_active'.
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'relationship-statuses',
+  description: "Set 'active' relationships that were never accepted to 'not_active'",
+  async up({ dryRun, log }) {
+    const relationships = await repositories.relationships.findAll();
+    const ids = relationships.filter(r => r.status === 'active' && !r.acceptedAt).map(r => r.id);
+    if (ids.length === 0 || dryRun) {
+      log(`${ids.length} relationship(s) active without an accepted invite`);
+      return ids.length;
+    }
+    const changed = await repositories.relationships.updateMany(ids, { status: 'not_active' });
+    log(`${changed} relationship(s) moved from active to not_active`);
+    return changed;
+  },
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+import { repositories } from '../repositories';
+import { Migration } from './types';
+
+/**
+ * Closets created before per-stylist closets have no stylistId. Routes used to treat
+ * "stylistId missing and createdBy === me" as stylist-owned; this makes that explicit:
+ * closets created by a stylist get that stylist's id, everything else is the client's
+ * own closet (stylistId null).
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'closet-stylist-id',
+  description: 'Give every closet an explicit stylistId (stylist id or null for client-owned)',
+  async up({ dryRun, log }) {
+    const [closets, users] = await Promise.all([
+      repositories.closets.findAll(),
+      repositories.users.findAll(),
+    ]);
+    const stylistIds = new Set(users.filter(u => u.userType === 'stylist').map(u => u.id));
+
+    // stylist id -> closets to claim for that stylist
+    const claimed = new Map<string, string[]>();
+    const clientOwned: string[] = [];
+    for (const closet of closets) {
+      if (closet.stylistId != null) continue;
+      if (stylistIds.has(closet.createdBy)) {
+        if (!claimed.has(closet.createdBy)) claimed.set(closet.createdBy, []);
+        claimed.get(closet.createdBy)!.push(closet.id);
+      } else if (closet.stylistId === undefined) {
+        clientOwned.push(closet.id);
+      }
+    }
+
+    const claimedCount = [...claimed.values()].reduce((sum, ids) => sum + ids.length, 0);
+    log(`${claimedCount} closet(s) assigned to the stylist who created them, ${clientOwned.length} marked client-owned`);
+    if (dryRun) return claimedCount + clientOwned.length;
+
+    let changed = 0;
+    for (const [stylistId, ids] of claimed) {
+      changed += await repositories.closets.updateMany(ids, { stylistId });
+    }
+    changed += await repositories.closets.updateMany(clientOwned, { stylistId: null });
+    return changed;
+  },
+};
+
+export default migration;
@@ -0,0 +1,62 @@
+import { repositories } from '../repositories';
+import { LookItem } from '../types';
+import { Migration } from './types';
+
+// Canvas grid used by the look composer when an item has no stored position (percentages)
+const DEFAULT_POSITIONS: [number, number][] = [
+  [5, 5], [38, 5], [71, 5],
+  [5, 38], [38, 38], [71, 38],
+  [5, 71], [38, 71], [71, 71],
+  [22, 22], [55, 22], [22, 55], [55, 55],
+];
+
+/**
+ * Older look items were saved without canvas coordinates, and the frontend filled them in
+ * from a default grid on every render. Store those same grid positions (by sort order
+ * within the look) and a scale of 1 so every look item has a concrete layout.
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'look-item-positions',
+  description: 'Store default canvas positions and scale on look items that have none',
+  async up({ dryRun, log }) {
+    const items = await repositories.lookItems.findAll();
+
+    const byLook = new Map<string, LookItem[]>();
+    for (const item of items) {
+      if (!byLook.has(item.lookId)) byLook.set(item.lookId, []);
+      byLook.get(item.lookId)!.push(item);
+    }
+
+    const updates: { id: string; changes: Partial<LookItem> }[] = [];
+    for (const lookItems of byLook.values()) {
+      lookItems.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+      lookItems.forEach((item, index) => {
+        const [x, y] = DEFAULT_POSITIONS[index % DEFAULT_POSITIONS.length];
+        const changes: Partial<LookItem> = {};
+        if (item.positionX == null) changes.positionX = x;
+        if (item.positionY == null) changes.positionY = y;
+        if (item.scale == null) changes.scale = 1;
+        if (Object.keys(changes).length > 0) updates.push({ id: item.id, changes });
+      });
+    }
+
+    log(`${updates.length} look item(s) without a stored position or scale`);
+    if (dryRun) return updates.length;
+
+    // Only a handful of distinct grid slots, so group identical changes into bulk updates
+    const groups = new Map<string, { changes: Partial<LookItem>; ids: string[] }>();
+    for (const { id, changes } of updates) {
+      const key = JSON.stringify(changes);
+      if (!groups.has(key)) groups.set(key, { changes, ids: [] });
+      groups.get(key)!.ids.push(id);
+    }
+    let changed = 0;
+    for (const { changes, ids } of groups.values()) {
+      changed += await repositories.lookItems.updateMany(ids, changes);
+    }
+    return changed;
+  },
+};
+
+export default migration;
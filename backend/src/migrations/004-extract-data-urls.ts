@@ -0,0 +1,106 @@
+import { CollectionKey, getRepository, COLLECTIONS, StoredRecord } from '../repositories';
+import { getMediaStore, isDataUrl, MEDIA_TYPES, mediaUrl, parseDataUrl } from '../media';
+import { Migration } from './types';
+
+// Collections whose records (or, for trash, snapshots of records) can hold uploaded images
+const COLLECTIONS_WITH_MEDIA: CollectionKey[] = [
+  'users',
+  'clients',
+  'closetItems',
+  'looks',
+  'lookItems',
+  'receipts',
+  'trash',
+];
+
+/**
+ * Photos used to be stored inline as base64 data URLs (photoUrl, profilePhotoUrl,
+ * receiptPhotoUrl, compositeImageUrl, new-purchase details on look items, and copies
+ * of all of those inside trash entries). Move every image data URL into the media
+ * store and keep only its URL on the record. Non-image data URLs are left alone.
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'extract-data-urls',
+  description: 'Move inline base64 images into the media store and store their URLs',
+  async up({ dryRun, log }) {
+    const store = getMediaStore();
+    // The same photo is often copied onto several records; store and hash it once
+    const urlsByDataUrl = new Map<string, string>();
+    let skipped = 0;
+
+    const extract = async (value: string): Promise<string | null> => {
+      const known = urlsByDataUrl.get(value);
+      if (known) return known;
+      const parsed = parseDataUrl(value);
+      if (!parsed || !MEDIA_TYPES[parsed.contentType]) {
+        skipped++;
+        return null;
+      }
+      const url = dryRun ? value : mediaUrl((await store.put(parsed.data, parsed.contentType)).key);
+      urlsByDataUrl.set(value, url);
+      return url;
+    };
+
+    // Replace data URLs anywhere in the value; returns whether anything changed
+    const rewrite = async (node: unknown): Promise<boolean> => {
+      if (!node || typeof node !== 'object') return false;
+      const fields = node as Record<string, unknown>;
+      let changed = false;
+      for (const key of Object.keys(fields)) {
+        const value = fields[key];
+        if (isDataUrl(value)) {
+          const url = await extract(value);
+          if (url) {
+            fields[key] = url;
+            changed = true;
+          }
+        } else if (value && typeof value === 'object') {
+          changed = (await rewrite(value)) || changed;
+        }
+      }
+      return changed;
+    };
+
+    // A top-level field with its data URLs replaced, or undefined if it holds none
+    const rewriteField = async (value: unknown): Promise<unknown> => {
+      if (isDataUrl(value)) return (await extract(value)) ?? undefined;
+      if (!value || typeof value !== 'object') return undefined;
+      const copy = structuredClone(value);
+      return (await rewrite(copy)) ? copy : undefined;
+    };
+
+    let changed = 0;
+    for (const key of COLLECTIONS_WITH_MEDIA) {
+      const repository = getRepository<StoredRecord>(COLLECTIONS[key]);
+      const records = await repository.findAll();
+      let collectionChanged = 0;
+      for (const record of records) {
+        // Only the fields holding data URLs are written, one record at a time, so edits made
+        // while the migration runs (e.g. with the server up) aren't overwritten
+        const updates: Record<string, unknown> = {};
+        const expected: Record<string, unknown> = {};
+        for (const [field, value] of Object.entries(record)) {
+          const rewritten = await rewriteField(value);
+          if (rewritten === undefined) continue;
+          updates[field] = rewritten;
+          // Plain URLs can be checked for concurrent changes; nested values are replaced whole
+          if (typeof value === 'string') expected[field] = value;
+        }
+        if (Object.keys(updates).length === 0) continue;
+        collectionChanged++;
+        if (!dryRun) await repository.update(record.id, updates as Partial<StoredRecord>, expected as Partial<StoredRecord>);
+      }
+      if (collectionChanged === 0) continue;
+
+      log(`${COLLECTIONS[key]}: ${collectionChanged} record(s) with inline images`);
+      changed += collectionChanged;
+    }
+
+    log(`${urlsByDataUrl.size} distinct image(s) ${dryRun ? 'to move' : 'moved'} into the media store`);
+    if (skipped > 0) log(`${skipped} non-image data URL(s) left in place`);
+    return changed;
+  },
+};
+
+export default migration;
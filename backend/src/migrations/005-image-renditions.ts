@@ -0,0 +1,61 @@
+import { repositories } from '../repositories';
+import { mediaKeyFromUrl } from '../media';
+import { renditionsForUrl, RenditionUrls } from '../media/renditions';
+import { Migration } from './types';
+
+/**
+ * Closet items had thumbnailUrl/previewUrl fields that nothing filled in, so grids loaded
+ * full-size photos. Generate thumbnail and preview renditions for every stored image
+ * (closet photos, profile photos, receipts) and record them on closet items. Photos hosted
+ * elsewhere (e.g. Google Drive links) have no renditions and are left as they are.
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'image-renditions',
+  description: 'Generate thumbnail/preview renditions for stored images and set them on closet items',
+  async up({ dryRun, log }) {
+    const [items, clients, users, receipts] = await Promise.all([
+      repositories.closetItems.findAll(),
+      repositories.clients.findAll(),
+      repositories.users.findAll(),
+      repositories.receipts.findAll(),
+    ]);
+
+    const urls = new Set<string>();
+    for (const url of [
+      ...items.map(i => i.photoUrl),
+      ...clients.map(c => c.profilePhotoUrl),
+      ...users.map(u => u.profilePhotoUrl),
+      ...receipts.map(r => r.receiptPhotoUrl),
+    ]) {
+      if (url && mediaKeyFromUrl(url)) urls.add(url);
+    }
+
+    const itemsToUpdate = items.filter(i => urls.has(i.photoUrl));
+    log(`${urls.size} stored image(s); ${itemsToUpdate.length} closet item(s) to link to renditions`);
+    if (dryRun) return itemsToUpdate.length;
+
+    const renditions = new Map<string, RenditionUrls>();
+    let failed = 0;
+    for (const url of urls) {
+      const result = await renditionsForUrl(url);
+      if (result) renditions.set(url, result);
+      else failed++;
+    }
+    if (failed > 0) log(`${failed} image(s) could not be decoded; they keep using the original`);
+
+    // Items are updated one at a time, and only if their photo is still the one rendered,
+    // so edits made while the migration runs (e.g. with the server up) aren't overwritten
+    let changed = 0;
+    for (const item of items) {
+      const result = renditions.get(item.photoUrl);
+      if (!result || (item.thumbnailUrl === result.thumbnailUrl && item.previewUrl === result.previewUrl)) continue;
+      const updated = await repositories.closetItems.update(item.id, result, { photoUrl: item.photoUrl });
+      if (updated) changed++;
+    }
+    log(`${changed} closet item(s) linked to renditions`);
+    return changed;
+  },
+};
+
+export default migration;
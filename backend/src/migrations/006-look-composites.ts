@@ -0,0 +1,44 @@
+import { repositories } from '../repositories';
+import { compositeChanged, storeComposite } from '../services/lookCompositeService';
+import { LookItem } from '../types';
+import { Migration } from './types';
+
+/**
+ * Look composites used to be drawn in the stylist's browser after saving, so some are missing
+ * (the tab was closed first) or out of date, and they differ between browsers. Render every
+ * look with items on the server; looks without items lose their stale composite.
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'look-composites',
+  description: 'Render look composite images on the server',
+  async up({ dryRun, log }) {
+    const [looks, lookItems] = await Promise.all([
+      repositories.looks.findAll(),
+      repositories.lookItems.findAll(),
+    ]);
+
+    const byLook = new Map<string, LookItem[]>();
+    for (const item of lookItems) {
+      if (!byLook.has(item.lookId)) byLook.set(item.lookId, []);
+      byLook.get(item.lookId)!.push(item);
+    }
+
+    const withItems = looks.filter(look => byLook.has(look.id)).length;
+    log(`${withItems} look(s) with items to render; ${looks.length - withItems} without items`);
+    if (dryRun) return withItems;
+
+    // Only the composite fields are written, one look at a time, so other edits made while the
+    // migration runs (e.g. with the server up) aren't overwritten
+    let changed = 0;
+    for (const look of looks) {
+      const composite = await storeComposite(byLook.get(look.id));
+      if (!compositeChanged(look, composite)) continue;
+      if (await repositories.looks.update(look.id, composite)) changed++;
+    }
+    log(`${changed} look(s) got a new composite`);
+    return changed;
+  },
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import { repositories } from '../repositories';
+import { mediaKeyFromUrl } from '../media';
+import { photoHashForUrl } from '../media/perceptualHash';
+import { Migration } from './types';
+
+/**
+ * Duplicate detection compares perceptual hashes of closet photos. Compute the hash for
+ * every item whose photo is in the media store; external photos have none and are never
+ * reported as duplicates.
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'photo-hashes',
+  description: 'Compute perceptual hashes of stored closet item photos',
+  async up({ dryRun, log }) {
+    const items = await repositories.closetItems.findAll();
+    const toHash = items.filter(i => !i.photoHash && i.photoUrl && mediaKeyFromUrl(i.photoUrl));
+    log(`${toHash.length} closet item(s) with a stored photo and no hash`);
+    if (dryRun) return toHash.length;
+
+    // Items often share a photo, so hash each image once
+    const hashes = new Map<string, string | null>();
+    let changed = 0;
+    for (const item of toHash) {
+      if (!hashes.has(item.photoUrl)) hashes.set(item.photoUrl, await photoHashForUrl(item.photoUrl));
+      const photoHash = hashes.get(item.photoUrl);
+      if (!photoHash) continue;
+      // Only if the photo is still the one hashed, so edits made meanwhile aren't overwritten
+      if (await repositories.closetItems.update(item.id, { photoHash }, { photoUrl: item.photoUrl })) changed++;
+    }
+    log(`${changed} closet item(s) hashed`);
+    return changed;
+  },
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { backfillColorTags } from '../services/colorTagService';
+import { Migration } from './types';
+
+/**
+ * Color tags are now suggested from each item's photo (or cutout). Extract them for items
+ * stored before that; items without colors get the suggestions as unreviewed colorTags,
+ * while colors someone already entered are kept as they are.
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'color-tags',
+  description: 'Suggest color tags from stored closet item photos',
+  async up({ dryRun, log }) {
+    const { scanned, updated } = await backfillColorTags({ dryRun });
+    log(`${scanned} closet item(s) with a stored photo and no color suggestions`);
+    if (dryRun) return scanned;
+    log(`${updated} closet item(s) given color suggestions`);
+    return updated;
+  },
+};
+
+export default migration;
@@ -0,0 +1,60 @@
+import { repositories } from '../repositories';
+import { ClientProfile } from '../types';
+import { CLIENT_PROFILE_FIELDS, pickClientProfileFields } from '../utils/database-entities';
+import { Migration } from './types';
+
+/**
+ * Sizes and questionnaire answers used to live on the client record, shared by every stylist
+ * working with the client. Each stylist now has a profile of their own: every existing
+ * relationship gets a profile copied from the client record, and the record keeps only the
+ * shared identity. Clients no stylist works with have nowhere to copy to, so their records are
+ * left as they are.
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'client-profiles',
+  description: 'Copy client sizes and questionnaire answers into a profile per stylist',
+  async up({ dryRun, log }) {
+    const [clients, relationships, profiles] = await Promise.all([
+      repositories.clients.findAll(),
+      repositories.relationships.findAll(),
+      repositories.clientProfiles.findAll(),
+    ]);
+    const clientsById = new Map(clients.map(c => [c.id, c]));
+    const existing = new Set(profiles.map(p => `${p.stylistId}:${p.clientId}`));
+
+    const now = new Date().toISOString();
+    const newProfiles: ClientProfile[] = [];
+    for (const relationship of relationships) {
+      const client = clientsById.get(relationship.clientId);
+      const key = `${relationship.stylistId}:${relationship.clientId}`;
+      if (!client || existing.has(key)) continue;
+      existing.add(key);
+      newProfiles.push({
+        id: `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        clientId: client.id,
+        stylistId: relationship.stylistId,
+        ...pickClientProfileFields(client),
+        createdAt: relationship.createdAt ?? now,
+        updatedAt: now,
+      });
+    }
+    const profiledClientIds = new Set([...profiles, ...newProfiles].map(p => p.clientId));
+    const withProfileFields = clients.filter(c => CLIENT_PROFILE_FIELDS.some(key => c[key] !== undefined));
+    const toTrim = withProfileFields.filter(c => profiledClientIds.has(c.id));
+    const kept = withProfileFields.length - toTrim.length;
+
+    log(`${newProfiles.length} stylist profile(s) to create, ${toTrim.length} client record(s) to trim`);
+    if (kept > 0) log(`${kept} client record(s) without a stylist keep their sizes and answers`);
+    if (dryRun) return newProfiles.length + toTrim.length;
+
+    await repositories.clientProfiles.insertMany(newProfiles);
+    const cleared = Object.fromEntries(CLIENT_PROFILE_FIELDS.map(key => [key, undefined]));
+    for (const client of toTrim) {
+      await repositories.clients.update(client.id, cleared);
+    }
+    return newProfiles.length + toTrim.length;
+  },
+};
+
+export default migration;
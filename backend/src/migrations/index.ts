@@ -0,0 +1,92 @@
+import { repositories } from '../repositories';
+import { createBackup } from '../services/backupService';
+import { cache } from '../utils/cache';
+import { AppliedMigration, Migration, MigrationRunResult } from './types';
+import relationshipStatuses from './001-relationship-statuses';
+import closetStylistId from './002-closet-stylist-id';
+import lookItemPositions from './003-look-item-positions';
+import extractDataUrls from './004-extract-data-urls';
+import imageRenditions from './005-image-renditions';
+import lookComposites from './006-look-composites';
+import photoHashes from './007-photo-hashes';
+import colorTags from './008-color-tags';
+import clientProfiles from './009-client-profiles';
+
+export * from './types';
+
+/** Every migration, in version order. Add new ones at the end with the next version number. */
+export const MIGRATIONS: Migration[] = [
+  relationshipStatuses,
+  closetStylistId,
+  lookItemPositions,
+  extractDataUrls,
+  imageRenditions,
+  lookComposites,
+  photoHashes,
+  colorTags,
+  clientProfiles,
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.length > 0 ? MIGRATIONS[MIGRATIONS.length - 1].version : 0;
+
+/** Highest applied migration version (0 for a store that has never been migrated). */
+export async function getSchemaVersion(): Promise<number> {
+  const applied = await repositories.migrations.findAll();
+  return applied.reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+export async function getAppliedMigrations(): Promise<AppliedMigration[]> {
+  const applied = await repositories.migrations.findAll();
+  return applied.sort((a, b) => a.version - b.version);
+}
+
+export async function getPendingMigrations(): Promise<Migration[]> {
+  const version = await getSchemaVersion();
+  return MIGRATIONS.filter(m => m.version > version);
+}
+
+/**
+ * Apply every pending migration in order. A backup of all collections is taken first
+ * (unless nothing is pending, it's a dry run, or `backup: false`). Stops at the first
+ * failure; versions applied before it stay recorded.
+ */
+export async function runMigrations(
+  options: { dryRun?: boolean; backup?: boolean; log?: (message: string) => void } = {}
+): Promise<MigrationRunResult> {
+  const { dryRun = false, backup = true, log = console.log } = options;
+  const fromVersion = await getSchemaVersion();
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  const result: MigrationRunResult = { fromVersion, toVersion: fromVersion, dryRun, applied: [] };
+
+  if (pending.length === 0) return result;
+
+  if (backup && !dryRun) {
+    result.backupPath = await createBackup(`pre-migrate-v${fromVersion}`);
+    log(`💾 Backup written to ${result.backupPath}`);
+  }
+
+  for (const migration of pending) {
+    const label = `${String(migration.version).padStart(3, '0')}-${migration.name}`;
+    log(`${dryRun ? '🔍 [dry run]' : '🔄'} ${label}: ${migration.description}`);
+    const changed = await migration.up({
+      dryRun,
+      log: message => log(`   ${message}`),
+    });
+
+    if (!dryRun) {
+      await repositories.migrations.insert({
+        id: label,
+        version: migration.version,
+        name: migration.name,
+        appliedAt: new Date().toISOString(),
+        changed,
+      });
+    }
+    result.applied.push({ version: migration.version, name: migration.name, changed });
+    result.toVersion = migration.version;
+  }
+
+  // Migrations write through the repositories directly; drop anything cached from before
+  if (!dryRun) cache.clear();
+  return result;
+}
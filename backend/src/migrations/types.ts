@@ -0,0 +1,35 @@
+/**
+ * A numbered, forward-only data migration. Versions are applied in ascending order
+ * and each one runs exactly once per data store.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  description: string;
+  /** Apply the migration. Returns the number of records changed (or that would change on a dry run). */
+  up(context: MigrationContext): Promise<number>;
+}
+
+export interface MigrationContext {
+  /** When true, report what would change without writing anything */
+  dryRun: boolean;
+  log(message: string): void;
+}
+
+/** Stored in the `migrations` collection, one record per applied version. */
+export interface AppliedMigration {
+  id: string;
+  version: number;
+  name: string;
+  appliedAt: string;
+  changed: number;
+}
+
+export interface MigrationRunResult {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  applied: { version: number; name: string; changed: number }[];
+  /** Directory of the pre-run backup (undefined when nothing was pending or on a dry run) */
+  backupPath?: string;
+}
@@ -0,0 +1,111 @@
+import { User } from '../types/user';
+import {
+  Client,
+  Relationship,
+  Closet,
+  ClosetItem,
+  Subcategory,
+  Look,
+  LookItem,
+  LookRevision,
+  LookStatusEvent,
+  LookRequest,
+  LookTemplate,
+  ChatRoom,
+  Message,
+  Receipt,
+  TrashEntry,
+  BackgroundRemovalJob,
+  WearEvent,
+  ItemStatusEvent,
+  ChangeLogEntry,
+  ClientProfile,
+} from '../types';
+import type { AppliedMigration } from '../migrations/types';
+import { createJsonDriver } from './jsonRepository';
+import { createMongoDriver } from './mongoRepository';
+import {
+  CollectionName,
+  COLLECTIONS,
+  DataStoreKind,
+  Repository,
+  RepositoryDriver,
+  StoredRecord,
+} from './types';
+
+export * from './types';
+
+let driver: RepositoryDriver | null = null;
+
+/**
+ * DATA_STORE selects the backend: "json" (default, files in data/) or "mongo" (MONGODB_URI).
+ */
+export function getDataStoreKind(): DataStoreKind {
+  const kind = (process.env.DATA_STORE || 'json').trim().toLowerCase();
+  if (kind === 'json' || kind === 'mongo') return kind;
+  throw new Error(`Unknown DATA_STORE "${kind}". Use "json" or "mongo".`);
+}
+
+function createDriver(): RepositoryDriver {
+  const kind = getDataStoreKind();
+  if (kind === 'mongo') {
+    const uri = process.env.MONGODB_URI;
+    if (!uri) {
+      throw new Error('DATA_STORE=mongo requires MONGODB_URI to be set');
+    }
+    return createMongoDriver(uri, process.env.MONGODB_DB || undefined);
+  }
+  return createJsonDriver();
+}
+
+// Resolved lazily so .env has been loaded before the backend is chosen
+function getDriver(): RepositoryDriver {
+  if (!driver) {
+    driver = createDriver();
+  }
+  return driver;
+}
+
+export function getRepository<T extends StoredRecord>(collection: CollectionName): Repository<T> {
+  return getDriver().repository<T>(collection);
+}
+
+/** Connect to the configured store. Call once at startup (and from scripts). */
+export async function initializeRepositories(): Promise<DataStoreKind> {
+  const active = getDriver();
+  await active.init();
+  return active.kind;
+}
+
+export async function closeRepositories(): Promise<void> {
+  if (driver) {
+    await driver.close();
+    driver = null;
+  }
+}
+
+/** Typed repositories for every entity */
+export const repositories = {
+  get users() { return getRepository<User>(COLLECTIONS.users); },
+  get clients() { return getRepository<Client>(COLLECTIONS.clients); },
+  get clientProfiles() { return getRepository<ClientProfile>(COLLECTIONS.clientProfiles); },
+  get relationships() { return getRepository<Relationship>(COLLECTIONS.relationships); },
+  get closets() { return getRepository<Closet>(COLLECTIONS.closets); },
+  get closetItems() { return getRepository<ClosetItem>(COLLECTIONS.closetItems); },
+  get subcategories() { return getRepository<Subcategory>(COLLECTIONS.subcategories); },
+  get looks() { return getRepository<Look>(COLLECTIONS.looks); },
+  get lookItems() { return getRepository<LookItem>(COLLECTIONS.lookItems); },
+  get lookRevisions() { return getRepository<LookRevision>(COLLECTIONS.lookRevisions); },
+  get lookStatusEvents() { return getRepository<LookStatusEvent>(COLLECTIONS.lookStatusEvents); },
+  get lookRequests() { return getRepository<LookRequest>(COLLECTIONS.lookRequests); },
+  get lookTemplates() { return getRepository<LookTemplate>(COLLECTIONS.lookTemplates); },
+  get chatRooms() { return getRepository<ChatRoom>(COLLECTIONS.chatRooms); },
+  get messages() { return getRepository<Message>(COLLECTIONS.messages); },
+  get receipts() { return getRepository<Receipt>(COLLECTIONS.receipts); },
+  get migrations() { return getRepository<AppliedMigration>(COLLECTIONS.migrations); },
+  get trash() { return getRepository<TrashEntry>(COLLECTIONS.trash); },
+  get backgroundJobs() { return getRepository<BackgroundRemovalJob>(COLLECTIONS.backgroundJobs); },
+  get wearEvents() { return getRepository<WearEvent>(COLLECTIONS.wearEvents); },
+  get itemStatusEvents() { return getRepository<ItemStatusEvent>(COLLECTIONS.itemStatusEvents); },
+  get changeLog() { return getRepository<ChangeLogEntry>(COLLECTIONS.changeLog); },
+};
@@ -0,0 +1,307 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CollectionName,
+  COLLECTIONS,
+  RecordFilter,
+  Repository,
+  RepositoryDriver,
+  StoredRecord,
+} from './types';
+
+export const DATA_DIR = path.join(process.cwd(), 'data');
+
+// Suffix for in-flight atomic writes; anything left over at startup is from a crash
+const TEMP_SUFFIX = '.tmp';
+
+export function collectionFilePath(collection: CollectionName): string {
+  return path.join(DATA_DIR, `${collection}.json`);
+}
+
+// Ensure data directory exists
+async function ensureDataDirectory() {
+  try {
+    await fs.access(DATA_DIR);
+  } catch {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+  }
+}
+
+/**
+ * Parse JSON from a data file. Throws a DATA_FILE_CORRUPT error naming the file
+ * instead of guessing at a repair: writes are atomic, so a bad file means real corruption.
+ */
+function parseJsonFile<T>(data: string, filePath: string): T {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error: any) {
+    throw corruptFileError(filePath, error.message);
+  }
+  if (!Array.isArray(parsed)) {
+    throw corruptFileError(filePath, 'expected a JSON array');
+  }
+  return parsed as T;
+}
+
+function corruptFileError(filePath: string, reason: string): Error & { code?: string } {
+  const err = new Error(`Invalid JSON in ${path.basename(filePath)}: ${reason}`) as Error & { code?: string };
+  err.code = 'DATA_FILE_CORRUPT';
+  return err;
+}
+
+/**
+ * Write to a temp file in the same directory, fsync it, then rename over the target.
+ * rename() is atomic on POSIX filesystems, so readers see either the old or the new file.
+ */
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}${TEMP_SUFFIX}`;
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(contents, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+// Tail of the pending-write chain per collection
+const collectionLocks = new Map<CollectionName, Promise<unknown>>();
+
+/**
+ * Run a task after every earlier task queued for the same collection has settled.
+ * All read-modify-write cycles on a JSON file go through here so concurrent
+ * requests can't overwrite each other's changes.
+ */
+export async function withCollectionLock<T>(collection: CollectionName, task: () => Promise<T>): Promise<T> {
+  const previous = collectionLocks.get(collection) ?? Promise.resolve();
+  const run = previous.then(task);
+  const tail = run.catch(() => undefined);
+  collectionLocks.set(collection, tail);
+  try {
+    return await run;
+  } finally {
+    if (collectionLocks.get(collection) === tail) {
+      collectionLocks.delete(collection);
+    }
+  }
+}
+
+/**
+ * Run a task while holding every collection's lock, so no write lands part-way through
+ * (consistent snapshots). The task must not write through the repositories itself.
+ */
+export async function withAllCollectionLocks<T>(task: () => Promise<T>): Promise<T> {
+  const collections = Object.values(COLLECTIONS);
+  const acquire = (index: number): Promise<T> =>
+    index === collections.length
+      ? task()
+      : withCollectionLock(collections[index], () => acquire(index + 1));
+  return acquire(0);
+}
+
+/**
+ * Startup check: every existing collection file must be a valid JSON array.
+ * Leftover temp files from an interrupted write are removed (the target file is intact).
+ */
+export async function verifyDataFiles(): Promise<void> {
+  await ensureDataDirectory();
+  const entries = await fs.readdir(DATA_DIR);
+  for (const entry of entries) {
+    if (entry.endsWith(TEMP_SUFFIX)) {
+      await fs.unlink(path.join(DATA_DIR, entry)).catch(() => undefined);
+      console.warn(`[jsonRepository] Removed leftover temp file ${entry} from an interrupted write`);
+    }
+  }
+
+  const problems: string[] = [];
+  for (const collection of Object.values(COLLECTIONS)) {
+    const filePath = collectionFilePath(collection);
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') continue;
+      throw error;
+    }
+    try {
+      parseJsonFile(data, filePath);
+    } catch (error: any) {
+      problems.push(error.message);
+    }
+  }
+
+  if (problems.length > 0) {
+    const err = new Error(
+      `Refusing to start: corrupt data file(s) in ${DATA_DIR}:\n  - ${problems.join('\n  - ')}\n` +
+      'Restore the file(s) from a backup or fix them by hand.'
+    ) as Error & { code?: string };
+    err.code = 'DATA_FILE_CORRUPT';
+    throw err;
+  }
+}
+
+export function matchesFilter<T>(record: T, filter: RecordFilter<T>): boolean {
+  return (Object.keys(filter) as (keyof T)[]).every(
+    key => filter[key] === undefined || record[key] === filter[key]
+  );
+}
+
+/** Shallow merge that drops keys explicitly set to undefined (same result as a JSON round trip). */
+export function mergeRecord<T>(record: T, updates: Partial<T>): T {
+  const merged = { ...record, ...updates } as Record<string, unknown>;
+  for (const key of Object.keys(updates)) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  return merged as T;
+}
+
+/**
+ * JSON file store: one `data/<collection>.json` array per collection.
+ * Every write reads the current file, modifies it and rewrites it whole, serialized
+ * per collection and committed atomically.
+ */
+class JsonRepository<T extends StoredRecord> implements Repository<T> {
+  private readonly filePath: string;
+
+  constructor(readonly collection: CollectionName) {
+    this.filePath = collectionFilePath(collection);
+  }
+
+  private async read(): Promise<T[]> {
+    try {
+      await ensureDataDirectory();
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      return parseJsonFile<T[]>(data, this.filePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async write(records: T[]): Promise<void> {
+    await ensureDataDirectory();
+    await writeFileAtomic(this.filePath, JSON.stringify(records, null, 2));
+  }
+
+  private mutate<R>(task: () => Promise<R>): Promise<R> {
+    return withCollectionLock(this.collection, task);
+  }
+
+  async findAll(): Promise<T[]> {
+    return this.read();
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const records = await this.read();
+    return records.find(r => r.id === id) || null;
+  }
+
+  async findWhere(filter: RecordFilter<T>): Promise<T[]> {
+    const records = await this.read();
+    return records.filter(r => matchesFilter(r, filter));
+  }
+
+  async insert(record: T): Promise<T> {
+    return this.mutate(async () => {
+      const records = await this.read();
+      records.push(record);
+      await this.write(records);
+      return record;
+    });
+  }
+
+  async insertMany(newRecords: T[]): Promise<T[]> {
+    return this.mutate(async () => {
+      if (newRecords.length === 0) return [];
+      const records = await this.read();
+      records.push(...newRecords);
+      await this.write(records);
+      return newRecords;
+    });
+  }
+
+  async update(id: string, updates: Partial<T>, expected?: RecordFilter<T>): Promise<T | null> {
+    return this.mutate(async () => {
+      const records = await this.read();
+      const index = records.findIndex(r => r.id === id);
+      if (index === -1) return null;
+      if (expected && !matchesFilter(records[index], expected)) return null;
+      records[index] = mergeRecord(records[index], updates);
+      await this.write(records);
+      return records[index];
+    });
+  }
+
+  async updateMany(ids: string[], updates: Partial<T>): Promise<number> {
+    return this.mutate(async () => {
+      if (ids.length === 0) return 0;
+      const idSet = new Set(ids);
+      const records = await this.read();
+      let changed = 0;
+      for (let i = 0; i < records.length; i++) {
+        if (idSet.has(records[i].id)) {
+          records[i] = mergeRecord(records[i], updates);
+          changed++;
+        }
+      }
+      if (changed > 0) await this.write(records);
+      return changed;
+    });
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.mutate(async () => {
+      const records = await this.read();
+      const filtered = records.filter(r => r.id !== id);
+      if (filtered.length === records.length) return false;
+      await this.write(filtered);
+      return true;
+    });
+  }
+
+  async removeWhere(filter: RecordFilter<T>): Promise<number> {
+    return this.mutate(async () => {
+      const records = await this.read();
+      const filtered = records.filter(r => !matchesFilter(r, filter));
+      const removed = records.length - filtered.length;
+      if (removed > 0) await this.write(filtered);
+      return removed;
+    });
+  }
+
+  async replaceAll(records: T[]): Promise<void> {
+    return this.mutate(async () => {
+      await this.write(records);
+    });
+  }
+}
+
+export function createJsonDriver(): RepositoryDriver {
+  // One instance per collection; the record type is chosen by the caller, so the cache holds them untyped
+  const repositories = new Map<CollectionName, unknown>();
+  return {
+    kind: 'json',
+    repository<T extends StoredRecord>(collection: CollectionName): Repository<T> {
+      const cached = repositories.get(collection) as Repository<T> | undefined;
+      if (cached) return cached;
+      const repo = new JsonRepository<T>(collection);
+      repositories.set(collection, repo);
+      return repo;
+    },
+    async init() {
+      await verifyDataFiles();
+    },
+    async close() {
+      // Nothing to release for file storage
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { Collection, Db, Filter, MongoClient, OptionalUnlessRequiredId, UpdateFilter } from 'mongodb';
+import {
+  CollectionName,
+  COLLECTIONS,
+  RecordFilter,
+  Repository,
+  RepositoryDriver,
+  StoredRecord,
+} from './types';
+
+// Never leak Mongo's internal _id to the rest of the app
+const PROJECTION = { _id: 0 } as const;
+
+/** Split a partial update into $set / $unset so undefined removes the field (same as the JSON store). */
+function toUpdateDocument<T>(updates: Partial<T>): UpdateFilter<T> {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (key === 'id') continue;
+    if (value === undefined) $unset[key] = '';
+    else $set[key] = value;
+  }
+  return {
+    ...(Object.keys($set).length > 0 && { $set }),
+    ...(Object.keys($unset).length > 0 && { $unset }),
+  } as UpdateFilter<T>;
+}
+
+function toQuery<T>(filter: RecordFilter<T>): Filter<T> {
+  const query: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined) query[key] = value;
+  }
+  return query as Filter<T>;
+}
+
+/**
+ * MongoDB store: one collection per entity, documents keyed by our own `id`
+ * (unique index). Writes touch single documents instead of rewriting the set.
+ */
+class MongoRepository<T extends StoredRecord> implements Repository<T> {
+  constructor(
+    readonly collection: CollectionName,
+    private readonly getDb: () => Promise<Db>
+  ) {}
+
+  private async col(): Promise<Collection<T>> {
+    const db = await this.getDb();
+    return db.collection<T>(this.collection);
+  }
+
+  async findAll(): Promise<T[]> {
+    const col = await this.col();
+    return (await col.find({}, { projection: PROJECTION }).toArray()) as T[];
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const col = await this.col();
+    return (await col.findOne({ id } as Filter<T>, { projection: PROJECTION })) as T | null;
+  }
+
+  async findWhere(filter: RecordFilter<T>): Promise<T[]> {
+    const col = await this.col();
+    return (await col.find(toQuery(filter), { projection: PROJECTION }).toArray()) as T[];
+  }
+
+  async insert(record: T): Promise<T> {
+    const col = await this.col();
+    // insertOne mutates its argument with _id, so insert a copy
+    await col.insertOne({ ...record } as OptionalUnlessRequiredId<T>);
+    return record;
+  }
+
+  async insertMany(records: T[]): Promise<T[]> {
+    if (records.length === 0) return [];
+    const col = await this.col();
+    await col.insertMany(records.map(r => ({ ...r })) as OptionalUnlessRequiredId<T>[]);
+    return records;
+  }
+
+  async update(id: string, updates: Partial<T>, expected?: RecordFilter<T>): Promise<T | null> {
+    const col = await this.col();
+    const query = { ...(expected && toQuery(expected)), id } as Filter<T>;
+    const updateDoc = toUpdateDocument(updates);
+    if (!updateDoc.$set && !updateDoc.$unset) {
+      return (await col.findOne(query, { projection: PROJECTION })) as T | null;
+    }
+    const result = await col.findOneAndUpdate(query, updateDoc, {
+      returnDocument: 'after',
+      projection: PROJECTION,
+    });
+    return (result as T | null) ?? null;
+  }
+
+  async updateMany(ids: string[], updates: Partial<T>): Promise<number> {
+    if (ids.length === 0) return 0;
+    const col = await this.col();
+    const updateDoc = toUpdateDocument(updates);
+    if (!updateDoc.$set && !updateDoc.$unset) return 0;
+    const result = await col.updateMany({ id: { $in: ids } } as Filter<T>, updateDoc);
+    return result.modifiedCount;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const col = await this.col();
+    const result = await col.deleteOne({ id } as Filter<T>);
+    return result.deletedCount > 0;
+  }
+
+  async removeWhere(filter: RecordFilter<T>): Promise<number> {
+    const col = await this.col();
+    const result = await col.deleteMany(toQuery(filter));
+    return result.deletedCount;
+  }
+
+  async replaceAll(records: T[]): Promise<void> {
+    const col = await this.col();
+    await col.deleteMany({});
+    if (records.length > 0) {
+      await col.insertMany(records.map(r => ({ ...r })) as OptionalUnlessRequiredId<T>[]);
+    }
+  }
+}
+
+export function createMongoDriver(uri: string, dbName?: string): RepositoryDriver {
+  let client: MongoClient | null = null;
+  let dbPromise: Promise<Db> | null = null;
+  // One instance per collection; the record type is chosen by the caller, so the cache holds them untyped
+  const repositories = new Map<CollectionName, unknown>();
+
+  const getDb = (): Promise<Db> => {
+    if (!dbPromise) {
+      client = new MongoClient(uri);
+      dbPromise = client.connect().then(async connected => {
+        const db = connected.db(dbName);
+        // Lookups are by our own string id everywhere
+        await Promise.all(
+          Object.values(COLLECTIONS).map(name =>
+            db.collection(name).createIndex({ id: 1 }, { unique: true })
+          )
+        );
+        return db;
+      });
+      // Allow a retry on the next call if the first connection attempt fails
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    kind: 'mongo',
+    repository<T extends StoredRecord>(collection: CollectionName): Repository<T> {
+      const cached = repositories.get(collection) as Repository<T> | undefined;
+      if (cached) return cached;
+      const repo = new MongoRepository<T>(collection, getDb);
+      repositories.set(collection, repo);
+      return repo;
+    },
+    async init() {
+      await getDb();
+    },
+    async close() {
+      if (client) {
+        await client.close();
+        client = null;
+        dbPromise = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Storage abstraction shared by every backend (JSON files, MongoDB).
+ * Entity modules (utils/database.ts, utils/database-entities.ts) only talk to
+ * these interfaces, so the concrete store can be swapped via DATA_STORE.
+ */
+
+/** Every persisted collection. Names double as JSON file names / Mongo collection names. */
+export const COLLECTIONS = {
+  users: 'users',
+  clients: 'clients',
+  /** Each stylist's own profile of a client: sizes, questionnaire answers, notes */
+  clientProfiles: 'client_profiles',
+  relationships: 'relationships',
+  closets: 'closets',
+  closetItems: 'closet_items',
+  subcategories: 'subcategories',
+  looks: 'looks',
+  lookItems: 'look-items',
+  /** Snapshots of looks taken when they are sent for approval (see services/lookRevisionService.ts) */
+  lookRevisions: 'look_revisions',
+  /** Status changes of looks (see services/lookStatusService.ts) */
+  lookStatusEvents: 'look_status_events',
+  lookRequests: 'look-requests',
+  /** Stylists' reusable look formulas (see services/lookTemplateService.ts) */
+  lookTemplates: 'look_templates',
+  chatRooms: 'chat_rooms',
+  messages: 'messages',
+  receipts: 'receipts',
+  /** Applied schema migrations (see src/migrations) */
+  migrations: 'migrations',
+  /** Soft-deleted clients, looks and closet items awaiting restore or purge */
+  trash: 'trash',
+  /** Background removal jobs, one per closet item (see services/backgroundRemovalService.ts) */
+  backgroundJobs: 'background_jobs',
+  /** Days closet items were worn (see services/wearService.ts) */
+  wearEvents: 'wear_events',
+  /** Lifecycle changes of closet items (see services/itemStatusService.ts) */
+  itemStatusEvents: 'item_status_events',
+  /** Append-only edit history of closet items, looks and clients (see services/changeLogService.ts) */
+  changeLog: 'change_log',
+} as const;
+
+export type CollectionKey = keyof typeof COLLECTIONS;
+export type CollectionName = (typeof COLLECTIONS)[CollectionKey];
+
+export interface StoredRecord {
+  id: string;
+}
+
+/** Equality filter: every defined key must match the stored value exactly. */
+export type RecordFilter<T> = { [K in keyof T]?: T[K] };
+
+export interface Repository<T extends StoredRecord> {
+  readonly collection: CollectionName;
+  findAll(): Promise<T[]>;
+  findById(id: string): Promise<T | null>;
+  findWhere(filter: RecordFilter<T>): Promise<T[]>;
+  insert(record: T): Promise<T>;
+  insertMany(records: T[]): Promise<T[]>;
+  /**
+   * Shallow-merge updates into the record. Keys set to undefined are removed. With `expected`,
+   * the record is only changed if it still matches that filter (checked as part of the write);
+   * otherwise null is returned.
+   */
+  update(id: string, updates: Partial<T>, expected?: RecordFilter<T>): Promise<T | null>;
+  /** Apply the same updates to every listed record. Returns number of records changed. */
+  updateMany(ids: string[], updates: Partial<T>): Promise<number>;
+  remove(id: string): Promise<boolean>;
+  removeWhere(filter: RecordFilter<T>): Promise<number>;
+  /** Replace the whole collection (migrations, restores, maintenance scripts). */
+  replaceAll(records: T[]): Promise<void>;
+}
+
+export type DataStoreKind = 'json' | 'mongo';
+
+export interface RepositoryDriver {
+  readonly kind: DataStoreKind;
+  repository<T extends StoredRecord>(collection: CollectionName): Repository<T>;
+  /** Open connections / prepare storage. Safe to call more than once. */
+  init(): Promise<void>;
+  close(): Promise<void>;
+}
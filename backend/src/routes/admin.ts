@@ -0,0 +1,143 @@
+import express, { Response } from 'express';
+import path from 'path';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { requireAdmin } from '../middleware/roleGuard';
+import { checkIntegrity } from '../services/integrityService';
+import { createBackup, inspectBackup, listBackups } from '../services/backupService';
+import { backfillBackgroundRemoval } from '../services/backgroundRemovalService';
+import { backfillColorTags } from '../services/colorTagService';
+import { getAppliedMigrations, getPendingMigrations, LATEST_SCHEMA_VERSION } from '../migrations';
+
+const router = express.Router();
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/migrations
+ * Schema version of the data store, with the applied and pending migrations (read-only;
+ * migrations run at startup or with `npm run migrate`)
+ */
+router.get('/migrations', async (req: AuthRequest, res: Response) => {
+  try {
+    const [applied, pending] = await Promise.all([getAppliedMigrations(), getPendingMigrations()]);
+    res.json({
+      data: {
+        schemaVersion: applied.reduce((max, m) => Math.max(max, m.version), 0),
+        latestVersion: LATEST_SCHEMA_VERSION,
+        applied,
+        pending: pending.map(({ version, name, description }) => ({ version, name, description })),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/admin/integrity
+ * Report dangling references across every collection (read-only)
+ */
+router.get('/integrity', async (req: AuthRequest, res: Response) => {
+  try {
+    const report = await checkIntegrity();
+    res.json({ data: report });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/admin/integrity/repair
+ * Back up all collections, then cascade-delete or clear every dangling reference
+ */
+router.post('/integrity/repair', async (req: AuthRequest, res: Response) => {
+  try {
+    const backupPath = await createBackup('pre-integrity-repair');
+    const report = await checkIntegrity({ repair: true });
+    console.log(`🧹 Integrity repair by ${req.userEmail}: ${report.summary.totalIssues} issue(s), backup at ${backupPath}`);
+    res.json({ data: { ...report, backupPath } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/admin/backups
+ * Snapshot archives in BACKUP_DIR, newest first
+ */
+router.get('/backups', async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ data: await listBackups() });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/admin/backups
+ * Snapshot every collection now ({ label? }, default "manual")
+ */
+router.post('/backups', async (req: AuthRequest, res: Response) => {
+  try {
+    const label = typeof req.body?.label === 'string' ? req.body.label : undefined;
+    const backupPath = await createBackup(label);
+    console.log(`💾 Backup by ${req.userEmail}: ${backupPath}`);
+    res.status(201).json({ data: { file: path.basename(backupPath), path: backupPath } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/admin/backups/:file
+ * Manifest and validation problems of one archive. Only archives listed in BACKUP_DIR can be
+ * inspected; restoring needs the server stopped, so it stays a command (`npm run backup`).
+ */
+router.get('/backups/:file', async (req: AuthRequest, res: Response) => {
+  try {
+    const backup = (await listBackups()).find(b => b.file === req.params.file);
+    if (!backup) {
+      return res.status(404).json({ error: { message: 'Backup not found' } });
+    }
+    try {
+      res.json({ data: { ...backup, ...(await inspectBackup(backup.path)) } });
+    } catch (error: any) {
+      // An archive that can't even be read is reported like any other validation problem
+      if (error.code !== 'BACKUP_INVALID') throw error;
+      res.json({ data: { ...backup, manifest: null, problems: [error.message] } });
+    }
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/admin/background-removal/backfill
+ * Queue background removal for every closet item with an uploaded photo and no cutout
+ */
+router.post('/background-removal/backfill', async (req: AuthRequest, res: Response) => {
+  try {
+    const queued = await backfillBackgroundRemoval();
+    console.log(`✂️  Background removal backfill by ${req.userEmail}: ${queued} item(s) queued`);
+    res.json({ data: { queued } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/admin/color-tags/backfill
+ * Suggest color tags for closet items with a stored photo and no suggestions yet
+ * (every such item with { force: true }). Colors someone has reviewed are left alone.
+ */
+router.post('/color-tags/backfill', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await backfillColorTags({ force: req.body?.force === true });
+    console.log(`🎨 Color tag backfill by ${req.userEmail}: ${result.updated} of ${result.scanned} item(s) updated`);
+    res.json({ data: result });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+export default router;
@@ -1,18 +1,21 @@
 import express, { Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import {
-  getAllClients,
   getRelationshipsByStylist,
-  getAllClosets,
-  getAllClosetItems,
-  getAllLooks,
-  getAllLookItems,
+  getClientIndex,
+  getClosetIndex,
+  getClosetItemIndex,
+  getLookIndex,
+  getLookItemIndex,
   getChatRoomsWithDetails,
   getLookById,
   getClientById,
+  getClientProfileIndex,
+  clientWithProfile,
 } from '../utils/database-entities';
 import { findUserById } from '../utils/database';
 import { getClientByEmail } from '../utils/database-entities';
+import { CLIENT_HIDDEN_LOOK_STATUSES } from '../services/lookStatusService';
 
 const router = express.Router();
 router.use(authenticateToken);
@@ -27,13 +30,13 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     const userId = req.userId!;
     const userType = req.userType!;
 
-    // Load all raw data in parallel (single read per entity, uses cache)
-    const [allClients, allClosets, allClosetItems, allLooks, allLookItems] = await Promise.all([
-      getAllClients(),
-      getAllClosets(),
-      getAllClosetItems(),
-      getAllLooks(),
-      getAllLookItems(),
+    // Indexed views of each collection (built once per cache lifetime, shared across requests)
+    const [clientIndex, closetIndex, closetItemIndex, lookIndex, lookItemIndex] = await Promise.all([
+      getClientIndex(),
+      getClosetIndex(),
+      getClosetItemIndex(),
+      getLookIndex(),
+      getLookItemIndex(),
     ]);
 
     const relationships = await getRelationshipsByStylist(userId);
@@ -42,47 +45,41 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     // 1. CLIENTS - same logic as GET /api/clients (stylist) or myClient (client user)
     let clients: any[] = [];
     let myClient: any = null;
+    let myClientId: string | null = null;
     if (userType === 'stylist') {
-      clients = allClients
-        .filter((c) => clientIds.has(c.id))
-        .map((client) => {
-          const rel = relationships.find((r) => r.clientId === client.id);
-          const status = rel?.status ?? 'not_active';
+      const profiles = (await getClientProfileIndex()).where('stylistId', userId);
+      clients = relationships
+        .map((rel) => ({ rel, client: clientIndex.get(rel.clientId) }))
+        .filter(({ client }) => client !== null)
+        .map(({ rel, client }) => {
+          const status = rel.status ?? 'not_active';
           const relationshipStatus =
-            status === 'active' && rel?.acceptedAt ? 'active'
+            status === 'active' && rel.acceptedAt ? 'active'
             : status === 'invited' ? 'invited'
             : status === 'ended' ? 'ended'
             : 'not_active';
-          return { ...client, relationshipId: rel?.id, relationshipStatus };
+          const profile = profiles.find((p) => p.clientId === rel.clientId) ?? null;
+          return { ...clientWithProfile(client!, profile), relationshipId: rel.id, relationshipStatus };
         });
     } else {
       const user = await findUserById(userId);
       if (user) {
         const client = await getClientByEmail(user.email);
-        if (client) myClient = client;
+        if (client) {
+          myClient = client;
+          myClientId = client.id;
+        }
       }
     }
 
     // 2. CLOSET BATCH - total item count and first closet per client (stylist-scoped)
     const closetBatch: { clientId: string; closet: any; itemCount: number; totalItemCount: number }[] = [];
     if (userType === 'stylist' && clientIds.size > 0) {
-      const closetIdToItems = new Map<string, typeof allClosetItems>();
-      for (const item of allClosetItems) {
-        if (!item.archived) {
-          if (!closetIdToItems.has(item.closetId)) closetIdToItems.set(item.closetId, []);
-          closetIdToItems.get(item.closetId)!.push(item);
-        }
-      }
-
       for (const clientId of clientIds) {
-        const closets = allClosets.filter(
-          (c) =>
-            c.ownerId === clientId &&
-            (c.stylistId === userId || (c.stylistId == null && c.createdBy === userId))
-        );
+        const closets = closetIndex.where('ownerId', clientId).filter((c) => c.stylistId === userId);
         let totalItemCount = 0;
         for (const c of closets) {
-          totalItemCount += (closetIdToItems.get(c.id) || []).length;
+          totalItemCount += closetItemIndex.where('closetId', c.id).filter((item) => !item.archived).length;
         }
         const firstCloset = closets[0] || null;
         closetBatch.push({
@@ -95,40 +92,29 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     }
 
     // 3. LOOKS WITH ITEMS - same logic as GET /api/looks/with-items
-    const lookItemsByLookId = new Map<string, typeof allLookItems>();
-    for (const item of allLookItems) {
-      if (!lookItemsByLookId.has(item.lookId)) lookItemsByLookId.set(item.lookId, []);
-      lookItemsByLookId.get(item.lookId)!.push(item);
-    }
-    const closetItemsById = new Map(allClosetItems.map((i) => [i.id, i]));
-    const clientsById = new Map(allClients.map((c) => [c.id, c]));
-
-    let filteredLooks: typeof allLooks;
+    let filteredLooks;
     if (userType === 'stylist') {
-      filteredLooks = allLooks.filter((l) => l.stylistId === userId);
+      filteredLooks = lookIndex.where('stylistId', userId);
     } else {
-      const user = await findUserById(userId);
-      if (!user) {
-        return res.status(404).json({ error: { message: 'User not found' } });
-      }
-      const client = await getClientByEmail(user.email);
-      if (!client) {
-        filteredLooks = [];
-      } else {
-        filteredLooks = allLooks.filter(
-          (l) => l.clientId === client.id && l.status !== 'draft'
-        );
+      if (!myClient) {
+        const user = await findUserById(userId);
+        if (!user) {
+          return res.status(404).json({ error: { message: 'User not found' } });
+        }
       }
+      filteredLooks = myClientId
+        ? lookIndex.where('clientId', myClientId).filter((l) => !CLIENT_HIDDEN_LOOK_STATUSES.includes(l.status))
+        : [];
     }
 
     const looksWithItems = filteredLooks.map((look) => {
-      const lookItems = lookItemsByLookId.get(look.id) || [];
-      const client = clientsById.get(look.clientId);
+      const lookItems = lookItemIndex.where('lookId', look.id);
+      const client = clientIndex.get(look.clientId);
       const resolvedItems = lookItems.map((li) => {
         if (li.itemType === 'new_purchase' && li.newItemDetails) {
           return { ...li, closetItem: null, newItemDetails: li.newItemDetails };
         }
-        const closetItem = closetItemsById.get(li.itemId);
+        const closetItem = closetItemIndex.get(li.itemId);
         return { ...li, closetItem: closetItem || null };
       });
       return { ...look, client: client || null, items: resolvedItems };
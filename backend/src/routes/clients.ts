@@ -6,15 +6,41 @@ import {
   getClientByEmail,
   createClient,
   updateClient,
-  deleteClient,
   bulkCreateClients,
+  clientWithProfile,
+  getClientProfile,
+  getClientProfileIndex,
+  getRelationshipsByClientId,
+  pickClientProfileFields,
+  saveClientProfile,
 } from '../utils/database-entities';
 import { getRelationshipsByStylist } from '../utils/database-entities';
+import { findUserByEmail } from '../utils/database';
+import { trashClient } from '../services/trashService';
+import { FORM_RESPONSE_ACTOR, getChangeHistory } from '../services/changeLogService';
 import { Client } from '../types';
 
 const router = express.Router();
 
-/** Optional fields that can be updated from the style form (same as client optional fields) */
+/** Shared contact details a stylist may fill in on a client record that others rely on */
+const IDENTITY_GAP_FIELDS = ['phone', 'profilePhotoUrl', 'instagramHandle'] as const;
+
+/** The given shared fields, only where the client record has none yet */
+function identityGaps(client: Client, data: Partial<Client>): Partial<Client> {
+  const gaps: Partial<Client> = {};
+  for (const key of IDENTITY_GAP_FIELDS) {
+    if (!client[key] && data[key]) gaps[key] = data[key];
+  }
+  return gaps;
+}
+
+/** Whether another stylist works with the client or the client has an account of their own */
+async function isSharedClient(client: Client, stylistId: string): Promise<boolean> {
+  const relationships = await getRelationshipsByClientId(client.id);
+  return relationships.some(r => r.stylistId !== stylistId) || !!(await findUserByEmail(client.email));
+}
+
+/** Profile fields that can be updated from the style form */
 const FORM_RESPONSE_FIELDS: (keyof Client)[] = [
   'featuresYouLove', 'wardrobeColors', 'personalStyle', 'dailySchedule',
   'featuresYouDislike', 'styleIcons', 'styleIconsDescription', 'additionalStyleInfo',
@@ -24,7 +50,8 @@ const FORM_RESPONSE_FIELDS: (keyof Client)[] = [
 /**
  * POST /api/clients/form-response
  * Webhook for Google Form (or other) style questionnaire submissions.
- * Matches submission by client email and merges responses into the client record.
+ * Matches submission by client email and merges responses into the profile of every stylist
+ * currently working with the client.
  * Protected by FORM_WEBHOOK_SECRET (x-api-key header) when set.
  */
 router.post('/form-response', async (req: Request, res: Response) => {
@@ -60,15 +87,19 @@ router.post('/form-response', async (req: Request, res: Response) => {
       return res.json({ data: { updated: false, message: 'No fields to update' } });
     }
 
-    const updated = await updateClient(client.id, updates);
-    if (!updated) {
-      return res.status(500).json({ error: { message: 'Failed to update client' } });
+    const relationships = await getRelationshipsByClientId(client.id);
+    if (relationships.length === 0) {
+      return res.status(404).json({ error: { message: 'No stylist is working with this client' } });
+    }
+    for (const relationship of relationships) {
+      await saveClientProfile(client.id, relationship.stylistId, updates, FORM_RESPONSE_ACTOR);
     }
 
     return res.json({
       data: {
         updated: true,
-        clientId: updated.id,
+        clientId: client.id,
+        profilesUpdated: relationships.length,
         message: 'Client profile updated from form response',
       },
     });
@@ -117,6 +148,7 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     // Get all clients that are in relationships
     const allClients = await getClients();
     const clientIds = new Set(relationships.map(r => r.clientId));
+    const profiles = (await getClientProfileIndex()).where('stylistId', stylistId);
     
     // Only show "active" when the client has accepted the invite (acceptedAt set). Otherwise "invited" or "not_active".
     const clients = allClients
@@ -130,7 +162,7 @@ router.get('/', async (req: AuthRequest, res: Response) => {
           : status === 'ended' ? 'ended'
           : 'not_active';
         return {
-          ...client,
+          ...clientWithProfile(client, profiles.find(p => p.clientId === client.id) ?? null),
           relationshipId: relationship?.id,
           relationshipStatus,
         };
@@ -175,7 +207,7 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
         : 'not_active';
       return res.json({
         data: {
-          ...client,
+          ...clientWithProfile(client, await getClientProfile(id, userId)),
           relationshipId: relationship?.id,
           relationshipStatus,
         },
@@ -195,7 +227,7 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
       
-      // Return client data without relationship info for clients
+      // Clients get the shared record only: no relationship info and no stylist's profile
       return res.json({
         data: client,
       });
@@ -205,6 +237,43 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /api/clients/:id/history
+ * Who changed what on the client record and, for stylists, their own profile of the client, most recent first
+ */
+router.get('/:id/history', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const client = await getClientById(id);
+    if (!client) {
+      return res.status(404).json({ error: { message: 'Client not found' } });
+    }
+
+    if (req.userType === 'stylist') {
+      const relationships = await getRelationshipsByStylist(userId);
+      if (!relationships.some(r => r.clientId === id)) {
+        return res.status(403).json({ error: { message: 'Access denied' } });
+      }
+      // Shared record changes plus this stylist's own profile, never other stylists' profiles
+      const profile = await getClientProfile(id, userId);
+      const related = profile ? [{ entityType: 'client_profile' as const, entityId: profile.id }] : [];
+      return res.json({ data: await getChangeHistory('client', id, related) });
+    }
+
+    const { findUserById } = await import('../utils/database');
+    const user = await findUserById(userId);
+    const clientByEmail = user ? await getClientByEmail(user.email) : null;
+    if (!clientByEmail || clientByEmail.id !== id) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+    res.json({ data: await getChangeHistory('client', id) });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
 /**
  * POST /api/clients
  * Create a new client (or link existing client to this stylist)
@@ -251,34 +320,16 @@ router.post('/', async (req: AuthRequest, res: Response) => {
         });
       }
       
-      // Client exists but not linked to THIS stylist - create relationship
-      // Also update client info with any new data provided
-      const updatedClient = await updateClient(existingClient.id, {
-        name: clientData.name,
-        phone: clientData.phone ?? existingClient.phone,
-        sizeTop: clientData.sizeTop ?? existingClient.sizeTop,
-        sizeBottom: clientData.sizeBottom ?? existingClient.sizeBottom,
-        sizeDress: clientData.sizeDress ?? existingClient.sizeDress,
-        sizeShoes: clientData.sizeShoes ?? existingClient.sizeShoes,
-        braSize: clientData.braSize ?? existingClient.braSize,
-        colorPreferences: clientData.colorPreferences ?? existingClient.colorPreferences,
-        profilePhotoUrl: clientData.profilePhotoUrl ?? existingClient.profilePhotoUrl,
-        featuresYouLove: clientData.featuresYouLove ?? existingClient.featuresYouLove,
-        wardrobeColors: clientData.wardrobeColors ?? existingClient.wardrobeColors,
-        personalStyle: clientData.personalStyle ?? existingClient.personalStyle,
-        dailySchedule: clientData.dailySchedule ?? existingClient.dailySchedule,
-        featuresYouDislike: clientData.featuresYouDislike ?? existingClient.featuresYouDislike,
-        styleIcons: clientData.styleIcons ?? existingClient.styleIcons,
-        styleIconsDescription: clientData.styleIconsDescription ?? existingClient.styleIconsDescription,
-        additionalStyleInfo: clientData.additionalStyleInfo ?? existingClient.additionalStyleInfo,
-        instagramHandle: clientData.instagramHandle ?? existingClient.instagramHandle,
-        outfitsPerDayEstimate: clientData.outfitsPerDayEstimate ?? existingClient.outfitsPerDayEstimate,
-        weekdayOutfitDetails: clientData.weekdayOutfitDetails ?? existingClient.weekdayOutfitDetails,
-      });
+      // Client exists but not linked to THIS stylist - create relationship and this stylist's profile.
+      // The shared record is only filled in where it is empty; other stylists may rely on it.
+      const gaps = identityGaps(existingClient, clientData);
+      const updatedClient = Object.keys(gaps).length > 0
+        ? await updateClient(existingClient.id, gaps, stylistId)
+        : existingClient;
       
       let relationship;
       try {
-        relationship = await createRelationship(stylistId, existingClient.id, 'not_active');
+        relationship = await createRelationship(stylistId, existingClient.id, 'not_active', pickClientProfileFields(clientData));
       } catch (relError: any) {
         // If relationship creation fails (e.g., client has active relationship with another stylist)
         return res.status(409).json({ 
@@ -288,17 +339,27 @@ router.post('/', async (req: AuthRequest, res: Response) => {
         });
       }
       
-      const clientWithRel = { ...(updatedClient || existingClient), relationshipId: relationship.id, relationshipStatus: 'not_active' as const };
+      const profile = await getClientProfile(existingClient.id, stylistId);
+      const clientWithRel = {
+        ...clientWithProfile(updatedClient || existingClient, profile),
+        relationshipId: relationship.id,
+        relationshipStatus: 'not_active' as const,
+      };
       return res.status(201).json({ data: clientWithRel });
     }
     
     // Client doesn't exist - create new client
-    const client = await createClient(clientData);
+    const client = await createClient(clientData, stylistId);
     
     // Create relationship with 'not_active' - becomes Active when client accepts invite or approves/changes a look
-    const relationship = await createRelationship(stylistId, client.id, 'not_active');
-    
-    const clientWithRel = { ...client, relationshipId: relationship.id, relationshipStatus: 'not_active' as const };
+    const relationship = await createRelationship(stylistId, client.id, 'not_active', pickClientProfileFields(clientData));
+    
+    const profile = await getClientProfile(client.id, stylistId);
+    const clientWithRel = {
+      ...clientWithProfile(client, profile),
+      relationshipId: relationship.id,
+      relationshipStatus: 'not_active' as const,
+    };
     res.status(201).json({ data: clientWithRel });
   } catch (error: any) {
     console.error('Error creating client:', error);
@@ -337,12 +398,19 @@ router.post('/bulk', async (req: AuthRequest, res: Response) => {
     const { createRelationship } = await import('../utils/database-entities');
     const { getRelationshipsByStylist } = await import('../utils/database-entities');
     
-    const newClients = await bulkCreateClients(clientsData);
+    const newClients = await bulkCreateClients(clientsData, stylistId);
     const existingRelationships = await getRelationshipsByStylist(stylistId);
     const existingClientIds = new Set(existingRelationships.map(r => r.clientId));
     
     console.log(`📊 Bulk import stats: ${clientsData.length} in CSV, ${newClients.length} newly created, ${existingClientIds.size} already have relationships`);
     
+    // Each stylist's profile of a client starts from the CSV row for that email
+    const rowsByEmail = new Map<string, any>();
+    for (const clientData of clientsData) {
+      const emailLower = clientData.email.toLowerCase().trim();
+      if (!rowsByEmail.has(emailLower)) rowsByEmail.set(emailLower, clientData);
+    }
+    
     // Collect all unique clients to link (deduplicate by client ID)
     const clientsToLinkMap = new Map<string, { id: string; email: string }>();
     
@@ -391,7 +459,8 @@ router.post('/bulk', async (req: AuthRequest, res: Response) => {
     for (const client of allClientsToLink) {
       try {
         console.log(`🔗 Creating relationship for client ${client.id} (${client.email})`);
-        const relationship = await createRelationship(stylistId, client.id, 'not_active');
+        const row = rowsByEmail.get(client.email.toLowerCase()) ?? {};
+        const relationship = await createRelationship(stylistId, client.id, 'not_active', pickClientProfileFields(row));
         successfulRelationships.push(relationship);
       } catch (error: any) {
         console.error(`❌ Failed to create relationship for ${client.email}:`, error.message);
@@ -446,7 +515,10 @@ router.post('/bulk', async (req: AuthRequest, res: Response) => {
 
 /**
  * PUT /api/clients/:id
- * Update a client
+ * Update a client: name and contact details go to the shared record, sizes, questionnaire
+ * answers and notes to this stylist's profile. Once another stylist works with the client or
+ * the client has an account, the shared name and email stay as they are and contact details
+ * are only filled in where empty.
  */
 router.put('/:id', async (req: AuthRequest, res: Response) => {
   try {
@@ -461,12 +533,21 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
-    const updatedClient = await updateClient(id, req.body);
+    const client = await getClientById(id);
+    if (!client) {
+      return res.status(404).json({ error: { message: 'Client not found' } });
+    }
+    
+    const identity = (await isSharedClient(client, stylistId)) ? identityGaps(client, req.body) : req.body;
+    const updatedClient = Object.keys(identity).length > 0
+      ? await updateClient(id, identity, stylistId)
+      : client;
     if (!updatedClient) {
       return res.status(404).json({ error: { message: 'Client not found' } });
     }
+    const profile = await saveClientProfile(id, stylistId, req.body, stylistId);
     
-    res.json({ data: updatedClient });
+    res.json({ data: clientWithProfile(updatedClient, profile) });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
@@ -474,7 +555,8 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
 
 /**
  * DELETE /api/clients/:id
- * Delete a client
+ * Remove a client from this stylist's roster: this stylist's share goes to the trash, and the
+ * client record itself only when no other stylist works with them and they have no account
  */
 router.delete('/:id', async (req: AuthRequest, res: Response) => {
   try {
@@ -489,20 +571,12 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
-    const deleted = await deleteClient(id);
-    if (!deleted) {
+    const entry = await trashClient(id, stylistId);
+    if (!entry) {
       return res.status(404).json({ error: { message: 'Client not found' } });
     }
     
-    // Also delete relationships (in a real app, you'd handle this with foreign keys)
-    const { getAllRelationships, updateRelationshipStatus } = await import('../utils/database-entities');
-    const allRelationships = await getAllRelationships();
-    const clientRelationships = allRelationships.filter(r => r.clientId === id);
-    await Promise.all(
-      clientRelationships.map(r => updateRelationshipStatus(r.id, 'ended'))
-    );
-    
-    res.json({ data: { success: true } });
+    res.json({ data: { success: true, trashId: entry.id } });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
@@ -510,7 +584,8 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
 
 /**
  * DELETE /api/clients
- * Delete all clients for the authenticated stylist
+ * Remove every client from the authenticated stylist's roster, as DELETE /api/clients/:id does
+ * for one (each restorable on its own)
  */
 router.delete('/', async (req: AuthRequest, res: Response) => {
   try {
@@ -524,8 +599,8 @@ router.delete('/', async (req: AuthRequest, res: Response) => {
       return res.json({ data: { success: true, deletedCount: 0, message: 'No clients to delete' } });
     }
     
-    // Delete all clients that have relationships with this stylist
-    const { getAllClients, deleteClient } = await import('../utils/database-entities');
+    // Trash all clients that have relationships with this stylist
+    const { getAllClients } = await import('../utils/database-entities');
     const allClients = await getAllClients();
     const clientsToDelete = allClients.filter(c => clientIds.has(c.id));
     
@@ -534,8 +609,8 @@ router.delete('/', async (req: AuthRequest, res: Response) => {
     
     for (const client of clientsToDelete) {
       try {
-        const deleted = await deleteClient(client.id);
-        if (deleted) {
+        const entry = await trashClient(client.id, stylistId);
+        if (entry) {
           deletedCount++;
         }
       } catch (error: any) {
@@ -5,18 +5,42 @@ import {
   getClosetItemById,
   createClosetItem,
   updateClosetItem,
-  deleteClosetItem,
   bulkCreateClosetItems,
-  searchClosetItems,
+  moveClosetItems,
 } from '../utils/database-entities';
-import { getClosetById } from '../utils/database-entities';
+import { getClientById, getClientByEmail, getClosetById, getClosetsByOwnerId, getReceiptById } from '../utils/database-entities';
 import { getRelationshipsByStylist } from '../utils/database-entities';
+import { trashClosetItem } from '../services/trashService';
+import {
+  enqueueBackgroundRemoval,
+  getBackgroundRemovalJob,
+  restoreOriginalPhoto,
+} from '../services/backgroundRemovalService';
+import { findDuplicateGroups, findDuplicatesOf, mergeClosetItems } from '../services/duplicateService';
+import { deleteWear, getItemWears, getWearStats, logWears } from '../services/wearService';
+import { normalizeItemTags, parseSearchQuery, searchCloset } from '../services/closetSearchService';
+import { changeItemStatus, getProceedsReport, getStatusHistory, setItemArchived } from '../services/itemStatusService';
+import { getChangeHistory } from '../services/changeLogService';
+import { Client, Closet, ClosetItem } from '../types';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
+// Cutouts are made in the background; failing to queue one must not fail the save
+function queueCutouts(items: ClosetItem[]): void {
+  void (async () => {
+    for (const item of items) {
+      try {
+        await enqueueBackgroundRemoval(item);
+      } catch (error: any) {
+        console.error(`❌ Could not queue background removal for item ${item.id}:`, error.message);
+      }
+    }
+  })();
+}
+
 // Helper to check if user can access closet
 async function canAccessCloset(
   userId: string,
@@ -37,25 +61,39 @@ async function canAccessCloset(
     const client = await getClientByEmail(user.email);
     if (!client) return false;
     
-    return client.id === closet.ownerId && (closet.stylistId == null || closet.stylistId === undefined);
+    return client.id === closet.ownerId && closet.stylistId === null;
   }
   
   // Stylist: check relationship and (stylist-owned closet or client's own closet for look editing)
   const relationships = await getRelationshipsByStylist(userId);
   const hasRelationship = relationships.some(r => r.clientId === closet.ownerId);
-  const ownsCloset = closet.stylistId === userId || (closet.stylistId == null && closet.createdBy === userId);
-  const isClientOwnCloset = closet.stylistId == null || closet.stylistId === undefined;
+  const ownsCloset = closet.stylistId === userId;
+  const isClientOwnCloset = closet.stylistId === null;
   return hasRelationship && (ownsCloset || isClientOwnCloset);
 }
 
+// A linked receipt must exist and be for the closet's owner; empty values unlink it
+async function receiptLinkError(receiptId: unknown, closetId: string): Promise<string | null> {
+  if (receiptId === undefined || receiptId === null || receiptId === '') return null;
+  const receipt = typeof receiptId === 'string' ? await getReceiptById(receiptId) : null;
+  const closet = await getClosetById(closetId);
+  if (!receipt || !closet || receipt.clientId !== closet.ownerId) {
+    return "receiptId must be a receipt for the closet's client";
+  }
+  return null;
+}
+
 /**
  * GET /api/closet-items
- * Get closet items, optionally filtered by closetId, search query, and category
+ * Search a closet's items: ?closetId=&q=&category=&subcategory=&brand=&color=&season=&occasion=
+ * &fabric=&fit=&tag=&match=all|any&sort=&archived=. Facet values are comma-separated or repeated;
+ * values of one facet are ORed, facets are combined by match (default all). Returns the items
+ * with their total and item counts per facet value.
  */
 router.get('/', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId!;
-    const { closetId, search, category } = req.query;
+    const { closetId } = req.query;
     
     if (closetId && typeof closetId === 'string') {
       // Check access
@@ -64,22 +102,107 @@ router.get('/', async (req: AuthRequest, res: Response) => {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
       
-      // Search or get all
-      if (search || category) {
-        const items = await searchClosetItems(
-          closetId,
-          search as string | undefined,
-          category as string | undefined
-        );
-        return res.json({ data: items });
-      }
-      
-      const items = await getAllClosetItems(closetId);
-      return res.json({ data: items });
+      const result = await searchCloset(closetId, parseSearchQuery(req.query));
+      return res.json({ data: result.items, total: result.total, facets: result.facets });
     }
     
     // If no closetId, return empty or all accessible (for admins)
     res.json({ data: [] });
+  } catch (error: any) {
+    if (error?.code === 'SEARCH_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/closet-items/duplicates?closetId=
+ * Groups of items in the closet whose photos look alike
+ * NOTE: This route MUST come before /:id to avoid being treated as an ID
+ */
+router.get('/duplicates', async (req: AuthRequest, res: Response) => {
+  try {
+    const { closetId } = req.query;
+    if (!closetId || typeof closetId !== 'string') {
+      return res.status(400).json({ error: { message: 'closetId is required' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const groups = await findDuplicateGroups(closetId);
+    res.json({ data: groups });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/closet-items/wear-stats?closetId=
+ * Wear count, last worn date, price and cost per wear for every item in the closet
+ * NOTE: This route MUST come before /:id to avoid being treated as an ID
+ */
+router.get('/wear-stats', async (req: AuthRequest, res: Response) => {
+  try {
+    const { closetId } = req.query;
+    if (!closetId || typeof closetId !== 'string') {
+      return res.status(400).json({ error: { message: 'closetId is required' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const stats = await getWearStats(await getAllClosetItems(closetId));
+    res.json({ data: stats });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/closet-items/proceeds?clientId=
+ * Consigned and sold items with their amounts, per client. Stylists get every client (or just
+ * clientId) across the closets they can open; clients get their own closets.
+ * NOTE: This route MUST come before /:id to avoid being treated as an ID
+ */
+router.get('/proceeds', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { clientId } = req.query;
+    const clients: Client[] = [];
+    const closets: Closet[] = [];
+
+    if (req.userType === 'stylist') {
+      const relationships = await getRelationshipsByStylist(userId);
+      let clientIds = [...new Set(relationships.map(r => r.clientId))];
+      if (typeof clientId === 'string' && clientId) {
+        if (!clientIds.includes(clientId)) {
+          return res.status(403).json({ error: { message: 'Access denied' } });
+        }
+        clientIds = [clientId];
+      }
+      for (const id of clientIds) {
+        const client = await getClientById(id);
+        if (!client) continue;
+        clients.push(client);
+        closets.push(...(await getClosetsByOwnerId(id)).filter(c => c.stylistId === userId || c.stylistId === null));
+      }
+    } else {
+      const { findUserById } = await import('../utils/database');
+      const user = await findUserById(userId);
+      if (!user) return res.status(404).json({ error: { message: 'User not found' } });
+      const client = await getClientByEmail(user.email);
+      if (!client) return res.status(404).json({ error: { message: 'Client profile not found' } });
+      clients.push(client);
+      closets.push(...(await getClosetsByOwnerId(client.id)).filter(c => c.stylistId === null));
+    }
+
+    res.json({ data: await getProceedsReport(clients, closets) });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
@@ -140,10 +263,20 @@ router.post('/', async (req: AuthRequest, res: Response) => {
     if (!Array.isArray(itemData.colorTags)) {
       itemData.colorTags = [];
     }
+    itemData.tags = normalizeItemTags(itemData.tags);
+
+    const receiptError = await receiptLinkError(itemData.receiptId, itemData.closetId);
+    if (receiptError) {
+      return res.status(400).json({ error: { message: receiptError } });
+    }
     
     const item = await createClosetItem(itemData, userId);
+    queueCutouts([item]);
     res.status(201).json({ data: item });
   } catch (error: any) {
+    if (error?.code === 'TAGS_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
     res.status(500).json({ error: { message: error.message } });
   }
 });
@@ -179,11 +312,63 @@ router.post('/bulk', async (req: AuthRequest, res: Response) => {
       if (!Array.isArray(itemData.colorTags)) {
         itemData.colorTags = [];
       }
+      itemData.tags = normalizeItemTags(itemData.tags);
+      const receiptError = await receiptLinkError(itemData.receiptId, itemData.closetId);
+      if (receiptError) {
+        return res.status(400).json({ error: { message: receiptError } });
+      }
     }
     
     const items = await bulkCreateClosetItems(itemsData, userId);
-    res.status(201).json({ data: items });
+    queueCutouts(items);
+    // Flag photos that look like items already in the closet (or each other) so they can be merged
+    const duplicates = await findDuplicatesOf(items);
+    res.status(201).json({ data: items, duplicates });
+  } catch (error: any) {
+    if (error?.code === 'TAGS_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/closet-items/move
+ * Move items to another closet of the same client. Body: { itemIds: string[], toClosetId: string }
+ * Requires access to the target closet and to every item's closet.
+ */
+router.post('/move', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { itemIds, toClosetId } = req.body;
+    if (!Array.isArray(itemIds) || itemIds.length === 0 || itemIds.some((id: unknown) => typeof id !== 'string')) {
+      return res.status(400).json({ error: { message: 'itemIds must be a non-empty array of closet item IDs' } });
+    }
+    if (!toClosetId || typeof toClosetId !== 'string') {
+      return res.status(400).json({ error: { message: 'toClosetId is required' } });
+    }
+
+    const closetIds = new Set([toClosetId]);
+    for (const itemId of itemIds) {
+      const item = await getClosetItemById(itemId);
+      if (!item) {
+        return res.status(404).json({ error: { message: `Closet item ${itemId} not found` } });
+      }
+      closetIds.add(item.closetId);
+    }
+    for (const closetId of closetIds) {
+      const hasAccess = await canAccessCloset(userId, req.userType!, closetId);
+      if (!hasAccess) {
+        return res.status(403).json({ error: { message: `Access denied to closet ${closetId}` } });
+      }
+    }
+
+    const moved = await moveClosetItems(itemIds, toClosetId, userId);
+    res.json({ data: { moved, count: moved.length } });
   } catch (error: any) {
+    if (error?.code === 'MOVE_INVALID_ITEMS') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
     res.status(500).json({ error: { message: error.message } });
   }
 });
@@ -208,16 +393,323 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
+    const receiptError = await receiptLinkError(req.body.receiptId, item.closetId);
+    if (receiptError) {
+      return res.status(400).json({ error: { message: receiptError } });
+    }
+    if ('receiptId' in req.body && !req.body.receiptId) req.body.receiptId = undefined;
+    if ('tags' in req.body) req.body.tags = normalizeItemTags(req.body.tags);
+    
     const updated = await updateClosetItem(id, req.body, userId);
+    if (updated && updated.photoUrl !== item.photoUrl) queueCutouts([updated]);
+    res.json({ data: updated });
+  } catch (error: any) {
+    if (error?.code === 'TAGS_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/closet-items/:id/background-removal
+ * Status of the item's background removal job and its cutout URL, if any
+ */
+router.get('/:id/background-removal', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const job = await getBackgroundRemovalJob(item.id);
+    res.json({ data: { job, cutoutUrl: item.cutoutUrl ?? null } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/closet-items/:id/background-removal
+ * Re-run background removal on the item's photo (replaces any existing cutout)
+ */
+router.post('/:id/background-removal', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const job = await enqueueBackgroundRemoval(item, { force: true });
+    if (!job) {
+      return res.status(400).json({ error: { message: 'Only uploaded photos can have their background removed' } });
+    }
+    res.status(202).json({ data: job });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * DELETE /api/closet-items/:id/background-removal
+ * Restore the original photo: drop the cutout and cancel any queued job
+ */
+router.delete('/:id/background-removal', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const updated = await restoreOriginalPhoto(item.id);
     res.json({ data: updated });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
 });
 
+/**
+ * GET /api/closet-items/:id/wears
+ * The item's wear log, most recent first, with its wear stats
+ */
+router.get('/:id/wears', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    res.json({ data: await getItemWears(item) });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/closet-items/:id/wears
+ * Log a wear. Body: { wornOn?: 'YYYY-MM-DD' (default today), note?: string }
+ */
+router.post('/:id/wears', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const [wear] = await logWears([item.id], { wornOn: req.body.wornOn, note: req.body.note }, req.userId!);
+    res.status(201).json({ data: wear });
+  } catch (error: any) {
+    if (error?.code === 'WEAR_INVALID_DATE') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'WEAR_ALREADY_LOGGED') {
+      return res.status(409).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * DELETE /api/closet-items/:id/wears/:wearId
+ * Remove a wear logged by mistake
+ */
+router.delete('/:id/wears/:wearId', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const deleted = await deleteWear(item.id, req.params.wearId);
+    if (!deleted) {
+      return res.status(404).json({ error: { message: 'Wear not found' } });
+    }
+    res.json({ data: { success: true } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/closet-items/:id/history
+ * Who changed what on the item, most recent first
+ */
+router.get('/:id/history', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    res.json({ data: await getChangeHistory('closet_item', item.id) });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/closet-items/:id/status
+ * The item's current status and its status history, most recent first
+ */
+router.get('/:id/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    res.json({
+      data: {
+        status: item.status ?? 'active',
+        expectedBackOn: item.expectedBackOn,
+        history: await getStatusHistory(item.id),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/closet-items/:id/status
+ * Change the item's lifecycle status. Body: { status, changedOn?: 'YYYY-MM-DD' (default today),
+ * note?, amount? (consigned or sold), expectedBackOn? (away states) }
+ */
+router.post('/:id/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const { status, changedOn, note, amount, expectedBackOn } = req.body;
+    const result = await changeItemStatus(item, { status, changedOn, note, amount, expectedBackOn }, req.userId!);
+    res.status(201).json({ data: result });
+  } catch (error: any) {
+    if (error?.code === 'STATUS_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'STATUS_UNCHANGED') {
+      return res.status(409).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/closet-items/:id/archive
+ * Archive the item or bring it back. Body: { archived: boolean }. Donated and sold items
+ * stay archived until their status changes.
+ */
+router.post('/:id/archive', async (req: AuthRequest, res: Response) => {
+  try {
+    const { archived } = req.body;
+    if (typeof archived !== 'boolean') {
+      return res.status(400).json({ error: { message: 'archived must be true or false' } });
+    }
+
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    res.json({ data: await setItemArchived(item, archived, req.userId!) });
+  } catch (error: any) {
+    if (error?.code === 'STATUS_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'STATUS_UNCHANGED') {
+      return res.status(409).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/closet-items/:id/merge
+ * Merge duplicates into this item: their look items and look requests move to it and the
+ * duplicates go to the trash. Body: { itemIds: string[] } (items in the same closet)
+ */
+router.post('/:id/merge', async (req: AuthRequest, res: Response) => {
+  try {
+    const { itemIds } = req.body;
+    if (!Array.isArray(itemIds) || itemIds.length === 0 || itemIds.some((id: unknown) => typeof id !== 'string')) {
+      return res.status(400).json({ error: { message: 'itemIds must be a non-empty array of closet item IDs' } });
+    }
+
+    const item = await getClosetItemById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: { message: 'Closet item not found' } });
+    }
+
+    const hasAccess = await canAccessCloset(req.userId!, req.userType!, item.closetId);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const result = await mergeClosetItems(item, itemIds, req.userId!);
+    res.json({ data: result });
+  } catch (error: any) {
+    if (error?.code === 'MERGE_INVALID_ITEM') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
 /**
  * DELETE /api/closet-items/:id
- * Delete a closet item (stylists and clients with closet access)
+ * Move a closet item to the trash (stylists and clients with closet access)
  */
 router.delete('/:id', async (req: AuthRequest, res: Response) => {
   try {
@@ -235,12 +727,12 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
-    const deleted = await deleteClosetItem(id);
-    if (!deleted) {
+    const entry = await trashClosetItem(id, userId);
+    if (!entry) {
       return res.status(404).json({ error: { message: 'Closet item not found' } });
     }
     
-    res.json({ data: { success: true } });
+    res.json({ data: { success: true, trashId: entry.id } });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
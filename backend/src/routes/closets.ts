@@ -6,16 +6,35 @@ import {
   getClosetsByOwnerId,
   getOrCreateCloset,
   createCloset,
-  getAllClosets,
+  updateCloset,
+  getClosetIndex,
+  getClosetItemIndex,
   getAllClosetItems,
+  moveClosetItems,
 } from '../utils/database-entities';
 import { getRelationshipsByStylist } from '../utils/database-entities';
+import { getClosetAnalytics, parseTargetMix } from '../services/closetAnalyticsService';
+import { trashCloset } from '../services/trashService';
+import { Closet } from '../types';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
+// Stylists manage the closets they keep for a client; clients manage their own closets
+async function canManageCloset(userId: string, userType: string, closet: Closet): Promise<boolean> {
+  if (userType === 'stylist') {
+    const relationships = await getRelationshipsByStylist(userId);
+    return closet.stylistId === userId && relationships.some(r => r.clientId === closet.ownerId);
+  }
+  const { findUserById } = await import('../utils/database');
+  const { getClientByEmail } = await import('../utils/database-entities');
+  const user = await findUserById(userId);
+  const client = user ? await getClientByEmail(user.email) : null;
+  return !!client && closet.ownerId === client.id && closet.stylistId === null;
+}
+
 /**
  * GET /api/closets
  * Get all closets accessible to the authenticated user
@@ -29,10 +48,8 @@ router.get('/', async (req: AuthRequest, res: Response) => {
       const relationships = await getRelationshipsByStylist(userId);
       const clientIds = relationships.map(r => r.clientId);
       
-      const allClosets = await getAllClosets();
-      const closets = allClosets.filter(
-        c => clientIds.includes(c.ownerId) && (c.stylistId === userId || (c.stylistId == null && c.createdBy === userId))
-      );
+      const closetIndex = await getClosetIndex();
+      const closets = closetIndex.where('stylistId', userId).filter(c => clientIds.includes(c.ownerId));
       
       return res.json({ data: closets });
     }
@@ -44,8 +61,8 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     if (!user) return res.status(404).json({ error: { message: 'User not found' } });
     const client = await getClientByEmail(user.email);
     if (!client) return res.json({ data: [] });
-    const closet = await getClosetByOwnerId(client.id);
-    res.json({ data: closet ? [closet] : [] });
+    const closets = await getClosetsByOwnerId(client.id);
+    res.json({ data: closets.filter(c => c.stylistId === null) });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
@@ -109,9 +126,7 @@ router.get('/by-owner/:ownerId', async (req: AuthRequest, res: Response) => {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
       const all = await getClosetsByOwnerId(ownerId);
-      closets = all.filter(
-        c => c.stylistId === userId || (c.stylistId == null && c.createdBy === userId)
-      );
+      closets = all.filter(c => c.stylistId === userId);
     } else {
       const { findUserById } = await import('../utils/database');
       const { getClientByEmail } = await import('../utils/database-entities');
@@ -122,15 +137,14 @@ router.get('/by-owner/:ownerId', async (req: AuthRequest, res: Response) => {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
       const all = await getClosetsByOwnerId(ownerId);
-      closets = all.filter(c => c.stylistId == null || c.stylistId === undefined);
+      closets = all.filter(c => c.stylistId === null);
     }
 
-    const allItems = await getAllClosetItems();
-    const countByClosetId = new Map<string, number>();
-    for (const item of allItems) {
-      if (!item.archived) countByClosetId.set(item.closetId, (countByClosetId.get(item.closetId) ?? 0) + 1);
-    }
-    const withCounts = closets.map(c => ({ ...c, itemCount: countByClosetId.get(c.id) ?? 0 }));
+    const itemIndex = await getClosetItemIndex();
+    const withCounts = closets.map(c => ({
+      ...c,
+      itemCount: itemIndex.where('closetId', c.id).filter(item => !item.archived).length,
+    }));
     return res.json({ data: withCounts });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
@@ -228,29 +242,67 @@ router.post('/', async (req: AuthRequest, res: Response) => {
 });
 
 /**
- * GET /api/closets/:id
- * Get a specific closet by ID
+ * GET /api/closets/:id/analytics?target=tops:30,bottoms:20
+ * Closet composition: counts by category and subcategory, colors, brands, archived ratio,
+ * items never used in a look, and gaps against a target category mix (CLOSET_TARGET_MIX
+ * unless `target` is given). Stylists with the client, or the client for their own closet.
  */
-router.get('/:id', async (req: AuthRequest, res: Response) => {
+router.get('/:id/analytics', async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const userId = req.userId!;
-    
+
     const closet = await getClosetById(id);
     if (!closet) {
       return res.status(404).json({ error: { message: 'Closet not found' } });
     }
-    
-    // If stylist, check relationship and closet belongs to this stylist
+
     if (req.userType === 'stylist') {
       const relationships = await getRelationshipsByStylist(userId);
       const hasRelationship = relationships.some(r => r.clientId === closet.ownerId);
-      const ownsCloset = closet.stylistId === userId || (closet.stylistId == null && closet.createdBy === userId);
-      if (!hasRelationship || !ownsCloset) {
+      const canView = closet.stylistId === userId || closet.stylistId === null;
+      if (!hasRelationship || !canView) {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
-    } else if (closet.ownerId !== userId) {
-      // Clients can only access their own closet
+    } else {
+      const { findUserById } = await import('../utils/database');
+      const { getClientByEmail } = await import('../utils/database-entities');
+      const user = await findUserById(userId);
+      const client = user ? await getClientByEmail(user.email) : null;
+      if (!client || closet.ownerId !== client.id || closet.stylistId !== null) {
+        return res.status(403).json({ error: { message: 'Access denied' } });
+      }
+    }
+
+    const { target } = req.query;
+    const targetMix = typeof target === 'string' && target.trim() ? parseTargetMix(target) : undefined;
+    const analytics = await getClosetAnalytics(id, targetMix);
+    res.json({ data: analytics });
+  } catch (error: any) {
+    if (error?.code === 'ANALYTICS_INVALID_TARGET') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/closets/:id
+ * Get a specific closet by ID
+ */
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+    
+    const closet = await getClosetById(id);
+    if (!closet) {
+      return res.status(404).json({ error: { message: 'Closet not found' } });
+    }
+    
+    // Stylists see the closets they keep for their clients; clients see their own
+    const hasAccess = await canManageCloset(userId, req.userType!, closet);
+    if (!hasAccess) {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
@@ -260,6 +312,79 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/closets/:id
+ * Rename a closet. Body: { name: string } (required, unique per client)
+ */
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const closet = await getClosetById(req.params.id);
+    if (!closet) {
+      return res.status(404).json({ error: { message: 'Closet not found' } });
+    }
+
+    const hasAccess = await canManageCloset(req.userId!, req.userType!, closet);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const { name } = req.body;
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: { message: 'Closet name is required' } });
+    }
+
+    const updated = await updateCloset(closet.id, { name });
+    res.json({ data: updated });
+  } catch (error: any) {
+    if (error?.code === 'DUPLICATE_CLOSET_NAME') {
+      return res.status(400).json({ error: { message: 'A closet with this name already exists for this client' } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * DELETE /api/closets/:id?moveItemsTo=closetId
+ * Move a closet to the trash. Its items go to the trash with it, unless moveItemsTo names
+ * another closet of the same client to move them into first.
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const closet = await getClosetById(req.params.id);
+    if (!closet) {
+      return res.status(404).json({ error: { message: 'Closet not found' } });
+    }
+
+    const hasAccess = await canManageCloset(userId, req.userType!, closet);
+    if (!hasAccess) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const { moveItemsTo } = req.query;
+    let movedItems = 0;
+    if (moveItemsTo !== undefined) {
+      const target = typeof moveItemsTo === 'string' ? await getClosetById(moveItemsTo) : null;
+      if (!target || target.id === closet.id || target.ownerId !== closet.ownerId) {
+        return res.status(400).json({ error: { message: 'moveItemsTo must be another closet of the same client' } });
+      }
+      if (!(await canManageCloset(userId, req.userType!, target))) {
+        return res.status(403).json({ error: { message: 'Access denied to the target closet' } });
+      }
+      const items = await getAllClosetItems(closet.id);
+      movedItems = (await moveClosetItems(items.map(i => i.id), target.id, userId)).length;
+    }
+
+    const entry = await trashCloset(closet.id, userId);
+    if (!entry) {
+      return res.status(404).json({ error: { message: 'Closet not found' } });
+    }
+    res.json({ data: { success: true, trashId: entry.id, movedItems } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
 /**
  * POST /api/closets/batch
  * Get multiple clients' closets with item counts. Returns all closets per client and totalItemCount.
@@ -285,26 +410,16 @@ router.post('/batch', async (req: AuthRequest, res: Response) => {
       }
     }
     
-    const allClosets = await getAllClosets();
-    const allItems = await getAllClosetItems();
-    const itemsByCloset = new Map<string, typeof allItems>();
-    for (const item of allItems) {
-      if (!item.archived) {
-        if (!itemsByCloset.has(item.closetId)) itemsByCloset.set(item.closetId, []);
-        itemsByCloset.get(item.closetId)!.push(item);
-      }
-    }
+    const [closetIndex, itemIndex] = await Promise.all([getClosetIndex(), getClosetItemIndex()]);
     
     const result = clientIds.map(clientId => {
-      const closets = allClosets.filter(
-        c =>
-          c.ownerId === clientId &&
-          (req.userType !== 'stylist' || c.stylistId === userId || (c.stylistId == null && c.createdBy === userId))
-      );
+      const closets = closetIndex
+        .where('ownerId', clientId)
+        .filter(c => req.userType !== 'stylist' || c.stylistId === userId);
       const closetsWithCount = closets.map(c => ({
         id: c.id,
         name: c.name,
-        itemCount: (itemsByCloset.get(c.id) || []).length,
+        itemCount: itemIndex.where('closetId', c.id).filter(item => !item.archived).length,
       }));
       const totalItemCount = closetsWithCount.reduce((sum, c) => sum + c.itemCount, 0);
       return {
@@ -346,25 +461,15 @@ router.post('/batch-with-items', async (req: AuthRequest, res: Response) => {
       }
     }
     
-    const allClosets = await getAllClosets();
-    const allItems = await getAllClosetItems();
-    const closetIdToItems = new Map<string, typeof allItems>();
-    for (const item of allItems) {
-      if (!item.archived) {
-        if (!closetIdToItems.has(item.closetId)) closetIdToItems.set(item.closetId, []);
-        closetIdToItems.get(item.closetId)!.push(item);
-      }
-    }
+    const [closetIndex, itemIndex] = await Promise.all([getClosetIndex(), getClosetItemIndex()]);
     
     const result = clientIds.map(clientId => {
-      const closets = allClosets.filter(
-        c =>
-          c.ownerId === clientId &&
-          (req.userType !== 'stylist' || c.stylistId === userId || (c.stylistId == null && c.createdBy === userId))
-      );
+      const closets = closetIndex
+        .where('ownerId', clientId)
+        .filter(c => req.userType !== 'stylist' || c.stylistId === userId);
       const closetsWithItems = closets.map(c => ({
         ...c,
-        items: closetIdToItems.get(c.id) || [],
+        items: itemIndex.where('closetId', c.id).filter(item => !item.archived),
       }));
       const firstCloset = closetsWithItems[0] || null;
       return {
@@ -11,6 +11,7 @@ import {
   getLookById,
 } from '../utils/database-entities';
 import { getAllLooks } from '../utils/database-entities';
+import { EDITABLE_LOOK_STATUSES } from '../services/lookStatusService';
 
 const router = express.Router();
 
@@ -164,6 +165,10 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
+    if (!EDITABLE_LOOK_STATUSES.includes(look.status)) {
+      return res.status(400).json({ error: { message: `Cannot change the items of a look with status "${look.status}"` } });
+    }
+    
     const item = await createLookItem(lookItemData);
     res.status(201).json({ data: item });
   } catch (error: any) {
@@ -205,6 +210,10 @@ router.post('/bulk', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
+    if (!EDITABLE_LOOK_STATUSES.includes(look.status)) {
+      return res.status(400).json({ error: { message: `Cannot change the items of a look with status "${look.status}"` } });
+    }
+    
     // Validate required fields
     for (const itemData of itemsData) {
       if (!itemData.itemId) {
@@ -247,6 +256,10 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Clients cannot modify look items' } });
     }
     
+    if (!EDITABLE_LOOK_STATUSES.includes(look.status)) {
+      return res.status(400).json({ error: { message: `Cannot change the items of a look with status "${look.status}"` } });
+    }
+    
     const updated = await updateLookItem(id, req.body);
     res.json({ data: updated });
   } catch (error: any) {
@@ -282,6 +295,10 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Clients cannot delete look items' } });
     }
     
+    if (!EDITABLE_LOOK_STATUSES.includes(look.status)) {
+      return res.status(400).json({ error: { message: `Cannot change the items of a look with status "${look.status}"` } });
+    }
+    
     const deleted = await deleteLookItem(id);
     if (!deleted) {
       return res.status(404).json({ error: { message: 'Look item not found' } });
@@ -295,7 +312,7 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
 
 /**
  * DELETE /api/look-items/look/:lookId
- * Delete all items for a look (used when deleting a look)
+ * Delete all items of a look the stylist can still edit
  */
 router.delete('/look/:lookId', async (req: AuthRequest, res: Response) => {
   try {
@@ -316,6 +333,10 @@ router.delete('/look/:lookId', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
+    if (!EDITABLE_LOOK_STATUSES.includes(look.status)) {
+      return res.status(400).json({ error: { message: `Cannot change the items of a look with status "${look.status}"` } });
+    }
+    
     const deletedCount = await deleteLookItemsByLookId(lookId);
     res.json({ data: { success: true, deletedCount } });
   } catch (error: any) {
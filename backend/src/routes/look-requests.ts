@@ -55,7 +55,8 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       const allItems = closet ? await getAllClosetItems(closet.id) : [];
       const itemImages = itemIds
         .slice(0, 6)
-        .map(id => allItems.find(i => i.id === id)?.photoUrl)
+        .map(id => allItems.find(i => i.id === id))
+        .map(item => item?.thumbnailUrl || item?.photoUrl)
         .filter(Boolean) as string[];
 
       const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:5137').replace(/\/$/, '');
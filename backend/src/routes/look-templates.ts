@@ -0,0 +1,106 @@
+import express, { Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { requireStylist } from '../middleware/roleGuard';
+import {
+  applyLookTemplate,
+  createLookTemplate,
+  deleteLookTemplate,
+  getLookTemplate,
+  getLookTemplates,
+  updateLookTemplate,
+} from '../services/lookTemplateService';
+
+const router = express.Router();
+router.use(authenticateToken);
+
+/**
+ * GET /api/look-templates
+ * The current stylist's look templates, by name.
+ */
+router.get('/', requireStylist, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ data: await getLookTemplates(req.userId!) });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/look-templates
+ * Create a template. Body: { name, description?, occasion?, slots } where each slot is
+ * { category, subcategory?, label?, colorTags?, positionX?, positionY?, scale? }, or
+ * { name, description?, occasion?, lookId } to save one of the stylist's looks as a template.
+ */
+router.post('/', requireStylist, async (req: AuthRequest, res: Response) => {
+  try {
+    const template = await createLookTemplate(req.userId!, req.body ?? {});
+    res.status(201).json({ data: template });
+  } catch (error: any) {
+    if (error?.code === 'TEMPLATE_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'LOOK_NOT_FOUND') {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * PUT /api/look-templates/:id
+ * Update a template's name, description, occasion or slots.
+ */
+router.put('/:id', requireStylist, async (req: AuthRequest, res: Response) => {
+  try {
+    const template = await updateLookTemplate(req.params.id, req.userId!, req.body ?? {});
+    res.json({ data: template });
+  } catch (error: any) {
+    if (error?.code === 'TEMPLATE_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'TEMPLATE_NOT_FOUND') {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * DELETE /api/look-templates/:id
+ * Delete a template. Looks made from it are not affected.
+ */
+router.delete('/:id', requireStylist, async (req: AuthRequest, res: Response) => {
+  try {
+    await deleteLookTemplate(req.params.id, req.userId!);
+    res.json({ data: { success: true } });
+  } catch (error: any) {
+    if (error?.code === 'TEMPLATE_NOT_FOUND') {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/look-templates/:id/apply
+ * Fill the template's slots from a client's closet. Body: { clientId, eventDate? }
+ * Returns look item drafts in slot order: closet items that match (with the item), and
+ * new_purchase placeholders for slots nothing fits. Nothing is saved.
+ */
+router.post('/:id/apply', requireStylist, async (req: AuthRequest, res: Response) => {
+  try {
+    const template = await getLookTemplate(req.params.id, req.userId!);
+    const items = await applyLookTemplate(template, req.body?.clientId, req.userId!, req.body?.eventDate);
+    res.json({ data: { template, items } });
+  } catch (error: any) {
+    if (error?.code === 'TEMPLATE_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'TEMPLATE_NOT_FOUND' || error?.code === 'CLIENT_NOT_FOUND') {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+export default router;
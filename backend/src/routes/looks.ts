@@ -1,4 +1,4 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { requireStylist } from '../middleware/roleGuard';
 import {
@@ -6,25 +6,42 @@ import {
   getLookById,
   createLook,
   updateLook,
-  deleteLook,
-  deleteLookItemsByLookId,
-  getOrCreateChatRoom,
-  deleteChatRoomByLookId,
-  deleteMessagesByChatRoomId,
-  getChatRoomByLookId,
   getAllLookItems,
-  getAllClosetItems,
-  getAllClosets,
+  getLookIndex,
+  getLookItemIndex,
+  getClosetIndex,
+  getClosetItemIndex,
+  getClientIndex,
   getRelationshipsByStylist,
-  getRelationshipByStylistAndClient,
-  updateRelationshipStatus,
 } from '../utils/database-entities';
 import { findUserById } from '../utils/database';
-import { getClientById, getAllClients } from '../utils/database-entities';
-import { sendLookApprovalEmail } from '../services/emailService';
+import { getClientById, getClientByEmail } from '../utils/database-entities';
+import { trashLook } from '../services/trashService';
+import { getLookComposite, isSignedLookComposite } from '../services/lookCompositeService';
+import { logWears } from '../services/wearService';
+import { getChangeHistory } from '../services/changeLogService';
+import { diffLookRevisions, getLookRevisions, restoreLookRevision } from '../services/lookRevisionService';
+import { getOpenLookFeedback } from '../services/lookFeedbackService';
+import { parseSuggestionRequest, suggestOutfits } from '../services/outfitSuggestionService';
+import {
+  allowedLookTransitions,
+  CLIENT_HIDDEN_LOOK_STATUSES,
+  EDITABLE_LOOK_STATUSES,
+  getLookStatusHistory,
+  transitionLook,
+} from '../services/lookStatusService';
+import { ClosetItem, Look } from '../types';
 
 const router = express.Router();
 
+/** The stylist who created the look, or the client it is for */
+async function canReadLook(req: AuthRequest, look: Look): Promise<boolean> {
+  if (req.userType === 'stylist') return look.stylistId === req.userId;
+  const user = await findUserById(req.userId!);
+  const client = user ? await getClientByEmail(user.email) : null;
+  return !!client && look.clientId === client.id;
+}
+
 /**
  * GET /api/looks/public/:id/check
  * Public endpoint to check look info and if client user exists
@@ -63,6 +80,51 @@ router.get('/public/:id/check', async (req: Request, res: Response) => {
   }
 });
 
+/** Signed composite links (see lookCompositeUrl) stand in for a token; anything else needs one */
+function authenticateComposite(req: AuthRequest, res: Response, next: NextFunction) {
+  const { exp, sig } = req.query;
+  if (typeof exp === 'string' && typeof sig === 'string' && isSignedLookComposite(req.params.id, exp, sig)) {
+    return next();
+  }
+  authenticateToken(req, res, next);
+}
+
+/**
+ * GET /api/looks/:id/composite.png
+ * Image of the look as it currently stands, rendered on the server from its items.
+ * Needs a token with access to the look, or a signed link from an email. It is
+ * revalidated rather than cached for good.
+ */
+router.get('/:id/composite.png', authenticateComposite, async (req: AuthRequest, res: Response) => {
+  try {
+    const look = await getLookById(req.params.id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+    // Signed links go to the client, so they follow what the client may see
+    if (req.userId && !(await canReadLook(req, look))) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+    if (req.userType !== 'stylist' && CLIENT_HIDDEN_LOOK_STATUSES.includes(look.status)) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+
+    const composite = await getLookComposite(look.id);
+    if (!composite) {
+      return res.status(404).json({ error: { message: 'Look not found or has no items' } });
+    }
+
+    const etag = `"${composite.key}"`;
+    res.set({ 'Content-Type': 'image/png', 'Cache-Control': 'private, no-cache', ETag: etag });
+    if (req.headers['if-none-match'] === etag) {
+      return res.status(304).end();
+    }
+    res.send(composite.data);
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
 // All other routes require authentication
 router.use(authenticateToken);
 
@@ -99,9 +161,9 @@ router.get('/', async (req: AuthRequest, res: Response) => {
         return res.json({ data: [] });
       }
       
-      // Get all looks for this client (exclude drafts - clients shouldn't see drafts)
+      // Get all looks for this client (not drafts or archived looks)
       const allLooks = await getAllLooks(undefined, client.id);
-      const looks = allLooks.filter(look => look.status !== 'draft');
+      const looks = allLooks.filter(look => !CLIENT_HIDDEN_LOOK_STATUSES.includes(look.status));
       res.json({ data: looks });
     }
   } catch (error: any) {
@@ -119,38 +181,18 @@ router.get('/with-items', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId!;
     
-    // Get all data in parallel (all are cached)
-    const [allLooks, allLookItems, allClosetItems, allClosets, allClients] = await Promise.all([
-      getAllLooks(),
-      getAllLookItems(),
-      getAllClosetItems(),
-      getAllClosets(),
-      getAllClients(),
+    // Indexed views shared across requests (rebuilt only after writes)
+    const [lookIndex, lookItemIndex, closetItemIndex, clientIndex] = await Promise.all([
+      getLookIndex(),
+      getLookItemIndex(),
+      getClosetItemIndex(),
+      getClientIndex(),
     ]);
     
-    // Build lookup maps for efficiency
-    const lookItemsByLookId = new Map<string, typeof allLookItems>();
-    for (const item of allLookItems) {
-      if (!lookItemsByLookId.has(item.lookId)) {
-        lookItemsByLookId.set(item.lookId, []);
-      }
-      lookItemsByLookId.get(item.lookId)!.push(item);
-    }
-    
-    const closetItemsById = new Map<string, typeof allClosetItems[0]>();
-    for (const item of allClosetItems) {
-      closetItemsById.set(item.id, item);
-    }
-    
-    const clientsById = new Map<string, typeof allClients[0]>();
-    for (const client of allClients) {
-      clientsById.set(client.id, client);
-    }
-    
     // Filter looks based on user type
     let filteredLooks;
     if (req.userType === 'stylist') {
-      filteredLooks = allLooks.filter(look => look.stylistId === userId);
+      filteredLooks = lookIndex.where('stylistId', userId);
     } else {
       // For clients: find their client record by user email
       const { findUserById } = await import('../utils/database');
@@ -166,15 +208,13 @@ router.get('/with-items', async (req: AuthRequest, res: Response) => {
         return res.json({ data: [] });
       }
       
-      filteredLooks = allLooks.filter(look => 
-        look.clientId === client.id && look.status !== 'draft'
-      );
+      filteredLooks = lookIndex.where('clientId', client.id).filter(look => !CLIENT_HIDDEN_LOOK_STATUSES.includes(look.status));
     }
     
     // Build response with all related data
     const result = filteredLooks.map(look => {
-      const lookItems = lookItemsByLookId.get(look.id) || [];
-      const client = clientsById.get(look.clientId);
+      const lookItems = lookItemIndex.where('lookId', look.id);
+      const client = clientIndex.get(look.clientId);
       
       // Get actual closet items for each look item
       const resolvedItems = lookItems.map(lookItem => {
@@ -186,7 +226,7 @@ router.get('/with-items', async (req: AuthRequest, res: Response) => {
           };
         }
         
-        const closetItem = closetItemsById.get(lookItem.itemId);
+        const closetItem = closetItemIndex.get(lookItem.itemId);
         return {
           ...lookItem,
           closetItem: closetItem || null,
@@ -224,26 +264,20 @@ router.get('/all-closet-items', async (req: AuthRequest, res: Response) => {
     const relationships = await getRelationshipsByStylist(userId);
     const clientIds = new Set(relationships.map(r => r.clientId));
     
-    // Get all data in parallel (all are cached)
-    const [allClosets, allClosetItems] = await Promise.all([
-      getAllClosets(),
-      getAllClosetItems(),
-    ]);
+    const [closetIndex, closetItemIndex] = await Promise.all([getClosetIndex(), getClosetItemIndex()]);
     
-    // Build closet to owner map
+    // Walk each client's closets rather than scanning every item in the store
     const closetToOwner = new Map<string, string>();
-    for (const closet of allClosets) {
-      closetToOwner.set(closet.id, closet.ownerId);
+    const accessibleItems: ClosetItem[] = [];
+    for (const clientId of clientIds) {
+      for (const closet of closetIndex.where('ownerId', clientId)) {
+        closetToOwner.set(closet.id, clientId);
+        accessibleItems.push(...closetItemIndex.where('closetId', closet.id).filter(item => !item.archived));
+      }
     }
     
-    // Filter items to only those belonging to stylist's clients
-    const accessibleItems = allClosetItems.filter(item => {
-      const ownerId = closetToOwner.get(item.closetId);
-      return ownerId && clientIds.has(ownerId) && !item.archived;
-    });
-    
     // Group by client for easier frontend consumption
-    const itemsByClient = new Map<string, typeof allClosetItems>();
+    const itemsByClient = new Map<string, ClosetItem[]>();
     for (const item of accessibleItems) {
       const ownerId = closetToOwner.get(item.closetId)!;
       if (!itemsByClient.has(ownerId)) {
@@ -292,18 +326,20 @@ router.get('/:id/with-items', async (req: AuthRequest, res: Response) => {
       if (!client || look.clientId !== client.id) {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
+      if (CLIENT_HIDDEN_LOOK_STATUSES.includes(look.status)) {
+        return res.status(404).json({ error: { message: 'Look not found' } });
+      }
     }
     
-    const [allLookItems, allClosetItems] = await Promise.all([
+    const [allLookItems, closetItemIndex] = await Promise.all([
       getAllLookItems(lookId),
-      getAllClosetItems(),
+      getClosetItemIndex(),
     ]);
-    const closetItemsById = new Map(allClosetItems.map((i) => [i.id, i]));
     const resolvedItems = allLookItems.map((lookItem) => {
       if (lookItem.itemType === 'new_purchase' && lookItem.newItemDetails) {
         return { ...lookItem, closetItem: null as any, newItemDetails: lookItem.newItemDetails };
       }
-      const closetItem = closetItemsById.get(lookItem.itemId) || null;
+      const closetItem = closetItemIndex.get(lookItem.itemId);
       return { ...lookItem, closetItem };
     });
     
@@ -354,6 +390,9 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
       if (!client || look.clientId !== client.id) {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
+      if (CLIENT_HIDDEN_LOOK_STATUSES.includes(look.status)) {
+        return res.status(404).json({ error: { message: 'Look not found' } });
+      }
     }
     
     res.json({ data: look });
@@ -362,6 +401,114 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /api/looks/:id/history
+ * Who changed what on the look, most recent first
+ */
+router.get('/:id/history', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const look = await getLookById(id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+
+    if (req.userType === 'stylist') {
+      if (look.stylistId !== userId) {
+        return res.status(403).json({ error: { message: 'Access denied' } });
+      }
+    } else {
+      const user = await findUserById(userId);
+      const client = user ? await getClientByEmail(user.email) : null;
+      if (!client || look.clientId !== client.id) {
+        return res.status(403).json({ error: { message: 'Access denied' } });
+      }
+      if (CLIENT_HIDDEN_LOOK_STATUSES.includes(look.status)) {
+        return res.status(404).json({ error: { message: 'Look not found' } });
+      }
+    }
+
+    res.json({ data: await getChangeHistory('look', id) });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/looks/:id/revisions
+ * What the look looked like each time it was sent for approval, newest first
+ */
+router.get('/:id/revisions', async (req: AuthRequest, res: Response) => {
+  try {
+    const look = await getLookById(req.params.id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+    if (!(await canReadLook(req, look))) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    res.json({ data: await getLookRevisions(look.id) });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/looks/:id/revisions/diff?from=1&to=2
+ * Items added, removed and moved and details changed between two revisions.
+ * Defaults to the latest revision and the one before it.
+ */
+router.get('/:id/revisions/diff', async (req: AuthRequest, res: Response) => {
+  try {
+    const look = await getLookById(req.params.id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+    if (!(await canReadLook(req, look))) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const from = req.query.from !== undefined ? Number(req.query.from) : undefined;
+    const to = req.query.to !== undefined ? Number(req.query.to) : undefined;
+    res.json({ data: await diffLookRevisions(look.id, from, to) });
+  } catch (error: any) {
+    if (error?.code === 'REVISION_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'REVISION_NOT_FOUND') {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/looks/:id/revisions/:revision/restore
+ * Start a new draft look from an old revision (parentLookId points back at this look)
+ */
+router.post('/:id/revisions/:revision/restore', requireStylist, async (req: AuthRequest, res: Response) => {
+  try {
+    const look = await getLookById(req.params.id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+    if (look.stylistId !== req.userId) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const restored = await restoreLookRevision(look, Number(req.params.revision), req.userId!);
+    res.status(201).json({ data: restored });
+  } catch (error: any) {
+    if (error?.code === 'REVISION_NOT_FOUND') {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
 /**
  * POST /api/looks
  * Create a new look
@@ -376,6 +523,9 @@ router.post('/', requireStylist, async (req: AuthRequest, res: Response) => {
     if (!lookData.clientId || !lookData.name) {
       return res.status(400).json({ error: { message: 'clientId and name are required' } });
     }
+    if (lookData.status !== undefined && lookData.status !== 'draft') {
+      return res.status(400).json({ error: { message: 'New looks start as drafts; send them for approval afterwards' } });
+    }
     
     const look = await createLook(lookData, userId);
     res.status(201).json({ data: look });
@@ -384,9 +534,35 @@ router.post('/', requireStylist, async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * POST /api/looks/suggest
+ * Suggest outfits from a client's closet, best first. Body: { clientId, occasion?, season?,
+ * eventDate?, anchorItemIds?, rules? } where rules overrides any of { shoes, outerwear, bag }
+ * ('required' | 'optional' | 'never'), avoidColorClashes, recentWearDays and limit.
+ * Each suggestion lists its items with canvas positions; nothing is saved.
+ */
+router.post('/suggest', requireStylist, async (req: AuthRequest, res: Response) => {
+  try {
+    const request = parseSuggestionRequest(req.body ?? {});
+    const suggestions = await suggestOutfits(req.userId!, request);
+    res.json({ data: { rules: request.rules, suggestions } });
+  } catch (error: any) {
+    if (error?.code === 'SUGGEST_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'CLIENT_NOT_FOUND') {
+      return res.status(404).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
 /**
  * PUT /api/looks/:id
- * Update a look
+ * Update a look. Clients can only change its status. Stylists can edit drafts and looks with
+ * changes requested or withdrawn; editing one of the latter makes it a draft again. A status
+ * in the body (with an optional reason) goes through the look status table. A client requesting
+ * changes can add itemFeedback (see POST /api/looks/:id/status).
  */
 router.put('/:id', async (req: AuthRequest, res: Response) => {
   try {
@@ -397,170 +573,201 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
     if (!look) {
       return res.status(404).json({ error: { message: 'Look not found' } });
     }
+
+    // The composite is rendered on the server whenever the look's items change
+    const { status, reason, itemFeedback, compositeImageUrl: _composite, compositeMissingItemIds: _missing, ...updates } = req.body;
+    const origin = req.headers.origin;
     
-    // Clients can only update status (approve/decline)
     if (req.userType === 'client') {
-      // For clients: find their client record by user email, then check if look belongs to that client
-      const { findUserById } = await import('../utils/database');
-      const { getClientByEmail } = await import('../utils/database-entities');
-      
-      const user = await findUserById(userId);
-      if (!user) {
-        return res.status(404).json({ error: { message: 'User not found' } });
-      }
-      
-      // Find client record by user email
-      const client = await getClientByEmail(user.email);
-      if (!client || look.clientId !== client.id) {
+      if (!(await canReadLook(req, look))) {
         return res.status(403).json({ error: { message: 'Access denied' } });
       }
-      
-      // Only allow status updates for clients
-      if (req.body.status && ['approved', 'changes_requested'].includes(req.body.status)) {
-        // Check if current status allows this change
-        if (look.status !== 'pending') {
-          return res.status(400).json({ error: { message: 'Can only approve or request changes for pending looks' } });
-        }
-        
-        console.log(`🔄 Client updating look status: ${look.id} from "${look.status}" to "${req.body.status}"`);
-        const updated = await updateLook(id, { status: req.body.status });
-
-        // Mark client as Active when they approve or request changes on a look
-        if (updated) {
-          const rel = await getRelationshipByStylistAndClient(look.stylistId, look.clientId);
-          if (rel && rel.status !== 'active') {
-            await updateRelationshipStatus(rel.id, 'active');
-            console.log(`✅ Relationship marked active (client responded to look)`);
-          }
-        }
-
-        if (updated) {
-          console.log(`✅ Look status updated successfully: ${updated.id} -> ${updated.status}`);
-          console.log(`   Look name: ${updated.name}`);
-          console.log(`   Stylist ID: ${updated.stylistId}`);
-          console.log(`   Client ID: ${updated.clientId}`);
-        } else {
-          console.error(`❌ Failed to update look: ${id}`);
-        }
-        
-        return res.json({ data: updated });
-      } else {
+      if (status === undefined || Object.keys(updates).length > 0) {
         return res.status(403).json({ error: { message: 'Clients can only update look status' } });
       }
+      const updated = await transitionLook(look, status, { userId, userType: 'client' }, { reason, itemFeedback, origin });
+      return res.json({ data: updated });
     }
     
     // Stylists can update all fields of looks they created
     if (look.stylistId !== userId) {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
-    
-    // Prevent editing looks with status 'pending' or 'approved'
-    if (look.status === 'pending' || look.status === 'approved') {
-      return res.status(400).json({ 
-        error: { message: `Cannot edit looks with status "${look.status}". Only drafts and looks with changes requested can be edited.` } 
-      });
+
+    const actor = { userId, userType: 'stylist' as const };
+    let updated = look;
+    if (Object.keys(updates).length > 0) {
+      if (!EDITABLE_LOOK_STATUSES.includes(look.status)) {
+        return res.status(400).json({
+          error: { message: `Cannot edit looks with status "${look.status}". Only drafts and looks with changes requested or withdrawn can be edited.` }
+        });
+      }
+      // The version the client answered is kept as a revision
+      if (look.status !== 'draft' && status === undefined) {
+        updated = await transitionLook(look, 'draft', actor, { origin });
+      }
+      updated = (await updateLook(id, updates, userId)) ?? updated;
     }
-    
-    // If editing a 'changes_requested' look, automatically reset status to 'draft'
-    // (unless status is explicitly being set to something else)
-    const updateData = { ...req.body };
-    if (look.status === 'changes_requested' && !req.body.status) {
-      updateData.status = 'draft';
-      console.log(`🔄 Look "${look.name}" has changes requested - resetting status to "draft" for editing`);
+
+    if (status !== undefined && status !== updated.status) {
+      updated = await transitionLook(updated, status, actor, { reason, itemFeedback, origin });
     }
     
-    // Check if status is being changed to 'pending' (send for approval)
-    // At this point look.status can only be 'draft' or 'changes_requested' (others returned early)
-    const isSendingForApproval = updateData.status === 'pending';
-    
-    console.log('🔍 Look update check:', {
-      requestedStatus: updateData.status,
-      currentStatus: look.status,
-      isSendingForApproval,
-      lookId: id,
+    res.json({ data: updated });
+  } catch (error: any) {
+    if (error?.code === 'LOOK_STATUS_INVALID' || error?.code === 'LOOK_FEEDBACK_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'LOOK_TRANSITION_DENIED') {
+      return res.status(409).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/looks/:id/status
+ * The look's status, the statuses the current user can move it to, and every change so far
+ * (newest first)
+ */
+router.get('/:id/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const look = await getLookById(req.params.id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+    if (!(await canReadLook(req, look))) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    res.json({
+      data: {
+        status: look.status,
+        allowed: allowedLookTransitions(look.status, req.userType === 'client' ? 'client' : 'stylist'),
+        history: await getLookStatusHistory(look.id),
+      },
     });
-    
-    const updated = await updateLook(id, updateData);
-    
-    // If sending for approval, create a chat room for this look (if not exists)
-    if (isSendingForApproval && updated) {
-      try {
-        const chatRoom = await getOrCreateChatRoom(updated.id, updated.stylistId, updated.clientId);
-        console.log(`💬 Chat room created/retrieved for look "${updated.name}":`, chatRoom.id);
-      } catch (chatRoomError: any) {
-        console.error('❌ Failed to create chat room:', chatRoomError.message);
-        // Don't fail the request if chat room creation fails
-      }
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/looks/:id/status
+ * Move the look to another status. Body: { status, reason?, itemFeedback? }. itemFeedback is a
+ * client's per-item verdict when requesting changes:
+ * [{ lookItemId, verdict: 'up' | 'down', reasons?: ('fit' | 'color' | 'occasion' | 'comfort')[], comment? }]
+ */
+router.post('/:id/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const look = await getLookById(req.params.id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
     }
-    
-    // If sending for approval, send email notification to client
-    if (isSendingForApproval && updated) {
-      console.log('📧 Attempting to send look approval email...');
-      try {
-        // Get client and stylist info
-        const client = await getClientById(updated.clientId);
-        const stylist = await findUserById(updated.stylistId);
-        
-        console.log('🔍 Email send check:', {
-          clientId: updated.clientId,
-          clientEmail: client?.email,
-          clientName: client?.name,
-          stylistId: updated.stylistId,
-          stylistName: stylist?.name,
-          hasClient: !!client,
-          hasClientEmail: !!client?.email,
-          hasStylist: !!stylist,
-        });
-        
-        if (client && client.email && stylist) {
-          const frontendUrl = (process.env.FRONTEND_URL?.trim() || req.headers.origin || 'http://localhost:5137').replace(/\/$/, '');
-          // Include lookId in the link so users can go directly to the specific look
-          const lookLink = `${frontendUrl}/looks?lookId=${updated.id}`;
-          
-          console.log('📨 Sending look approval notification email to:', client.email);
-          console.log('   Look:', updated.name);
-          console.log('   Client:', client.name);
-          console.log('   Stylist:', stylist.name);
-          console.log('   Link:', lookLink);
-          
-          await sendLookApprovalEmail({
-            to: client.email,
-            clientName: client.name,
-            stylistName: stylist.name,
-            lookName: updated.name,
-            lookLink,
-            customMessage: updated.stylingNotes ? `Styling Notes: ${updated.stylingNotes}` : undefined,
-          });
-          
-          console.log('✅ Look approval email sent successfully to:', client.email);
-        } else {
-          const missing = [];
-          if (!client) missing.push('client');
-          if (!client?.email) missing.push('client email');
-          if (!stylist) missing.push('stylist');
-          console.warn('⚠️ Could not send look approval email: missing', missing.join(', '));
-        }
-      } catch (emailError: any) {
-        // Don't fail the request if email fails, just log it
-        console.error('❌ Failed to send look approval email:', emailError.message);
-        console.error('   Error stack:', emailError.stack);
-        if (emailError.response) {
-          console.error('   SendGrid error:', JSON.stringify(emailError.response.body, null, 2));
-        }
+    if (!(await canReadLook(req, look))) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    const updated = await transitionLook(
+      look,
+      req.body.status,
+      { userId: req.userId!, userType: req.userType === 'client' ? 'client' : 'stylist' },
+      { reason: req.body.reason, itemFeedback: req.body.itemFeedback, origin: req.headers.origin }
+    );
+    res.json({ data: updated });
+  } catch (error: any) {
+    if (error?.code === 'LOOK_STATUS_INVALID' || error?.code === 'LOOK_FEEDBACK_INVALID') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'LOOK_TRANSITION_DENIED') {
+      return res.status(409).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/looks/:id/feedback
+ * The client's latest request for changes with its per-item feedback, or null once the look has
+ * been sent to them again
+ */
+router.get('/:id/feedback', async (req: AuthRequest, res: Response) => {
+  try {
+    const look = await getLookById(req.params.id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+    if (!(await canReadLook(req, look))) {
+      return res.status(403).json({ error: { message: 'Access denied' } });
+    }
+
+    res.json({ data: await getOpenLookFeedback(look.id) });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/looks/:id/wears
+ * "I wore this look": log a wear for every closet item in an approved look and mark it worn.
+ * Body: { wornOn?: 'YYYY-MM-DD' (default today), note?: string }
+ */
+router.post('/:id/wears', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const look = await getLookById(id);
+    if (!look) {
+      return res.status(404).json({ error: { message: 'Look not found' } });
+    }
+
+    // Check access: stylist created it or client it's for
+    if (req.userType === 'stylist') {
+      if (look.stylistId !== userId) {
+        return res.status(403).json({ error: { message: 'Access denied' } });
       }
     } else {
-      console.log('ℹ️ Not sending email - isSendingForApproval:', isSendingForApproval, 'hasUpdated:', !!updated);
+      const { getClientByEmail } = await import('../utils/database-entities');
+      const user = await findUserById(userId);
+      const client = user ? await getClientByEmail(user.email) : null;
+      if (!client || look.clientId !== client.id) {
+        return res.status(403).json({ error: { message: 'Access denied' } });
+      }
     }
-    
-    res.json({ data: updated });
+
+    if (look.status !== 'approved' && look.status !== 'worn') {
+      return res.status(400).json({ error: { message: 'Only approved looks can be logged as worn' } });
+    }
+
+    // New purchases aren't in the closet yet, so only closet items get a wear
+    const closetItemIndex = await getClosetItemIndex();
+    const itemIds = (await getAllLookItems(id))
+      .filter(li => li.itemType === 'closet_item' && closetItemIndex.get(li.itemId))
+      .map(li => li.itemId);
+    if (itemIds.length === 0) {
+      return res.status(400).json({ error: { message: 'This look has no closet items to log' } });
+    }
+
+    const wears = await logWears(itemIds, { wornOn: req.body.wornOn, lookId: id, note: req.body.note }, userId);
+    if (look.status === 'approved') {
+      await transitionLook(look, 'worn', { userId, userType: req.userType === 'client' ? 'client' : 'stylist' });
+    }
+    res.status(201).json({ data: wears });
   } catch (error: any) {
+    if (error?.code === 'WEAR_INVALID_DATE') {
+      return res.status(400).json({ error: { message: error.message } });
+    }
+    if (error?.code === 'WEAR_ALREADY_LOGGED') {
+      return res.status(409).json({ error: { message: error.message } });
+    }
     res.status(500).json({ error: { message: error.message } });
   }
 });
 
 /**
  * DELETE /api/looks/:id
- * Delete a look
+ * Move a look to the trash
  */
 router.delete('/:id', async (req: AuthRequest, res: Response) => {
   try {
@@ -577,23 +784,13 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
-    // Delete associated look items first
-    await deleteLookItemsByLookId(id);
-    
-    // Delete associated chat room and messages
-    const chatRoom = await getChatRoomByLookId(id);
-    if (chatRoom) {
-      await deleteMessagesByChatRoomId(chatRoom.id);
-      await deleteChatRoomByLookId(id);
-      console.log(`💬 Deleted chat room and messages for look: ${id}`);
-    }
-    
-    const deleted = await deleteLook(id);
-    if (!deleted) {
+    // Look items, chat room and messages go to the trash with it
+    const entry = await trashLook(id, userId);
+    if (!entry) {
       return res.status(404).json({ error: { message: 'Look not found' } });
     }
     
-    res.json({ data: { success: true } });
+    res.json({ data: { success: true, trashId: entry.id } });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
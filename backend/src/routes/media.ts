@@ -0,0 +1,86 @@
+import express, { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getMaxUploadBytes, getMediaStore, isMediaKey, MEDIA_TYPES, mediaUrl } from '../media';
+import { detectImageType } from '../media/imageType';
+import { renditionsForUrl } from '../media/renditions';
+
+const router = express.Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: getMaxUploadBytes(), files: 1 },
+});
+
+// Run multer for the single "file" field and turn its errors into the usual JSON shape
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `File must be smaller than ${Math.round(getMaxUploadBytes() / (1024 * 1024))}MB`
+        : error.message;
+      return res.status(400).json({ error: { message } });
+    }
+    if (error) return next(error);
+    next();
+  });
+}
+
+/**
+ * POST /api/media
+ * Upload an image (multipart/form-data, field "file"). The type is read from the file's
+ * bytes; the declared mimetype is ignored. Returns its stable URL plus thumbnail/preview
+ * rendition URLs (omitted if the image can't be decoded, e.g. HEIC).
+ */
+router.post('/', authenticateToken, receiveFile, async (req: AuthRequest, res: Response) => {
+  try {
+    const file = (req as AuthRequest & { file?: Express.Multer.File }).file;
+    if (!file) {
+      return res.status(400).json({ error: { message: 'No file uploaded (expected field "file")' } });
+    }
+    const contentType = await detectImageType(file.buffer);
+    if (!contentType || !MEDIA_TYPES[contentType]) {
+      return res.status(400).json({
+        error: { message: `Unsupported image type. Allowed: ${Object.keys(MEDIA_TYPES).join(', ')}` },
+      });
+    }
+
+    const stored = await getMediaStore().put(file.buffer, contentType);
+    const url = mediaUrl(stored.key);
+    const renditions = await renditionsForUrl(url);
+    res.status(201).json({ data: { ...stored, url, ...renditions } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * GET /api/media/:key
+ * Serve an uploaded file. Public so it works in <img src>; keys are unguessable content hashes.
+ */
+router.get('/:key', async (req: Request, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!isMediaKey(key)) {
+      return res.status(404).json({ error: { message: 'Media not found' } });
+    }
+
+    const media = await getMediaStore().get(key);
+    if (!media) {
+      return res.status(404).json({ error: { message: 'Media not found' } });
+    }
+
+    // Content never changes under a key, so clients may cache it forever
+    res.set({
+      'Content-Type': media.contentType,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      ETag: `"${key}"`,
+    });
+    res.send(media.data);
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+export default router;
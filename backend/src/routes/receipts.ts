@@ -1,69 +1,20 @@
 import express, { Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { getRelationshipsByStylist } from '../utils/database-entities';
-import { findUserById } from '../utils/database';
+import {
+  getRelationshipsByStylist,
+  getReceiptsByStylist,
+  getReceiptById,
+  createReceipt,
+  updateReceipt,
+  deleteReceipt,
+} from '../utils/database-entities';
+import { CreateReceiptDto } from '../types';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
-interface Receipt {
-  id: string;
-  stylistId: string;
-  clientId: string;
-  storeName: string;
-  purchaseDate: string;
-  totalAmount: number;
-  itemsList: string[];
-  receiptPhotoUrl?: string;
-  notes?: string;
-  createdAt: string;
-}
-
-interface CreateReceiptDto {
-  clientId: string;
-  storeName: string;
-  purchaseDate: string;
-  totalAmount: number;
-  itemsList: string[];
-  receiptPhotoUrl?: string;
-  notes?: string;
-}
-
-// Simple JSON file storage (same pattern as other entities)
-import fs from 'fs/promises';
-import path from 'path';
-
-const DATA_DIR = path.join(process.cwd(), 'data');
-const RECEIPTS_FILE = path.join(DATA_DIR, 'receipts.json');
-
-async function ensureDataDirectory() {
-  try {
-    await fs.access(DATA_DIR);
-  } catch {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-  }
-}
-
-async function readReceipts(): Promise<Receipt[]> {
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(RECEIPTS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
-}
-
-async function writeReceipts(receipts: Receipt[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(RECEIPTS_FILE, JSON.stringify(receipts, null, 2));
-}
-
 /**
  * GET /api/receipts
  * Get all receipts for the authenticated stylist
@@ -73,14 +24,8 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     const stylistId = req.userId!;
     const { clientId } = req.query;
     
-    const receipts = await readReceipts();
-    let filtered = receipts.filter(r => r.stylistId === stylistId);
-    
-    if (clientId) {
-      filtered = filtered.filter(r => r.clientId === clientId);
-    }
-    
-    res.json({ data: filtered });
+    const receipts = await getReceiptsByStylist(stylistId, clientId as string | undefined);
+    res.json({ data: receipts });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
@@ -95,8 +40,7 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const stylistId = req.userId!;
     
-    const receipts = await readReceipts();
-    const receipt = receipts.find(r => r.id === id);
+    const receipt = await getReceiptById(id);
     
     if (!receipt) {
       return res.status(404).json({ error: { message: 'Receipt not found' } });
@@ -134,17 +78,7 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
-    const receipts = await readReceipts();
-    const newReceipt: Receipt = {
-      id: `receipt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      stylistId,
-      ...receiptData,
-      itemsList: receiptData.itemsList || [],
-      createdAt: new Date().toISOString(),
-    };
-    
-    receipts.push(newReceipt);
-    await writeReceipts(receipts);
+    const newReceipt = await createReceipt(receiptData, stylistId);
     
     res.status(201).json({ data: newReceipt });
   } catch (error: any) {
@@ -161,26 +95,19 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const stylistId = req.userId!;
     
-    const receipts = await readReceipts();
-    const index = receipts.findIndex(r => r.id === id);
+    const receipt = await getReceiptById(id);
     
-    if (index === -1) {
+    if (!receipt) {
       return res.status(404).json({ error: { message: 'Receipt not found' } });
     }
     
-    if (receipts[index].stylistId !== stylistId) {
+    if (receipt.stylistId !== stylistId) {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
-    const { id: receiptId, stylistId: receiptStylistId, createdAt, ...updates } = req.body;
-    receipts[index] = {
-      ...receipts[index],
-      ...updates,
-    };
-    
-    await writeReceipts(receipts);
+    const updated = await updateReceipt(id, req.body);
     
-    res.json({ data: receipts[index] });
+    res.json({ data: updated });
   } catch (error: any) {
     res.status(500).json({ error: { message: error.message } });
   }
@@ -195,19 +122,17 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
     const stylistId = req.userId!;
     
-    const receipts = await readReceipts();
-    const index = receipts.findIndex(r => r.id === id);
+    const receipt = await getReceiptById(id);
     
-    if (index === -1) {
+    if (!receipt) {
       return res.status(404).json({ error: { message: 'Receipt not found' } });
     }
     
-    if (receipts[index].stylistId !== stylistId) {
+    if (receipt.stylistId !== stylistId) {
       return res.status(403).json({ error: { message: 'Access denied' } });
     }
     
-    receipts.splice(index, 1);
-    await writeReceipts(receipts);
+    await deleteReceipt(id);
     
     res.json({ data: { success: true } });
   } catch (error: any) {
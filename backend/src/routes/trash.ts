@@ -0,0 +1,76 @@
+import express, { Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getTrashEntry, listTrash, purgeTrashEntry, restoreFromTrash } from '../services/trashService';
+import { TrashEntityType } from '../types';
+
+const router = express.Router();
+router.use(authenticateToken);
+
+const ENTITY_TYPES: TrashEntityType[] = ['client', 'look', 'closet_item', 'closet'];
+
+/**
+ * GET /api/trash
+ * List what the authenticated user has deleted, newest first. Optional ?type=client|look|closet_item|closet
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const type = req.query.type as TrashEntityType | undefined;
+    if (type && !ENTITY_TYPES.includes(type)) {
+      return res.status(400).json({ error: { message: `type must be one of: ${ENTITY_TYPES.join(', ')}` } });
+    }
+    const entries = await listTrash(req.userId!, type);
+    res.json({ data: entries });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * POST /api/trash/:id/restore
+ * Restore a deleted client, look, closet item or closet together with its dependent records
+ */
+router.post('/:id/restore', async (req: AuthRequest, res: Response) => {
+  try {
+    const entry = await getTrashEntry(req.params.id);
+    if (!entry || entry.deletedBy !== req.userId) {
+      return res.status(404).json({ error: { message: 'Trash entry not found' } });
+    }
+
+    const result = await restoreFromTrash(entry.id, req.userId!);
+    if (!result) {
+      return res.status(404).json({ error: { message: 'Trash entry not found' } });
+    }
+    res.json({
+      data: {
+        entityType: result.entry.entityType,
+        record: result.entry.record,
+        restored: result.restored,
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === 'TRASH_CONFLICT' || error?.code === 'TRASH_PARENT_MISSING') {
+      return res.status(409).json({ error: { message: error.message } });
+    }
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+/**
+ * DELETE /api/trash/:id
+ * Permanently delete a trash entry (cannot be undone)
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const entry = await getTrashEntry(req.params.id);
+    if (!entry || entry.deletedBy !== req.userId) {
+      return res.status(404).json({ error: { message: 'Trash entry not found' } });
+    }
+
+    await purgeTrashEntry(entry.id);
+    res.json({ data: { success: true } });
+  } catch (error: any) {
+    res.status(500).json({ error: { message: error.message } });
+  }
+});
+
+export default router;
@@ -35,8 +35,18 @@ import inviteRoutes from './routes/invites';
 import lookRequestRoutes from './routes/look-requests';
 import bootstrapRoutes from './routes/bootstrap';
 import subcategoryRoutes from './routes/subcategories';
+import lookTemplateRoutes from './routes/look-templates';
+import adminRoutes from './routes/admin';
+import trashRoutes from './routes/trash';
+import mediaRoutes from './routes/media';
 import { errorHandler } from './middleware/errorHandler';
-import { migrateRelationshipStatuses } from './utils/database-entities';
+import { rejectInlineImages } from './middleware/inlineImages';
+import { initializeRepositories } from './repositories';
+import { runMigrations } from './migrations';
+import { startBackupSchedule } from './services/backupService';
+import { startTrashPurgeSchedule } from './services/trashService';
+import { startBackgroundRemovalQueue } from './services/backgroundRemovalService';
+import { registerLookNotifications } from './services/lookNotificationService';
 
 const app = express();
 const httpServer = createServer(app);
@@ -57,10 +67,11 @@ app.use(cors({
   origin: frontendOrigins,
   credentials: true,
 }));
-// Increase body size limit to handle bulk uploads with multiple base64 images
-// Note: Frontend sends in chunks; this allows large single requests if needed (e.g. 100+ items)
-app.use(express.json({ limit: '100mb' }));
-app.use(express.urlencoded({ extended: true, limit: '100mb' }));
+// Images go through POST /api/media as multipart uploads, so JSON bodies only carry URLs;
+// 2mb still leaves room for bulk requests (e.g. 100+ closet items)
+app.use(express.json({ limit: '2mb' }));
+app.use(express.urlencoded({ extended: true, limit: '2mb' }));
+app.use(rejectInlineImages);
 
 // Request logging middleware
 app.use((req, res, next) => {
@@ -145,19 +156,42 @@ app.use('/api/messages', messageRoutes);
 app.use('/api/receipts', receiptRoutes);
 app.use('/api/invites', inviteRoutes);
 app.use('/api/look-requests', lookRequestRoutes);
+app.use('/api/look-templates', lookTemplateRoutes);
 app.use('/api/bootstrap', bootstrapRoutes);
 app.use('/api/subcategories', subcategoryRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/media', mediaRoutes);
 
 // Error handling middleware (must be last)
 app.use(errorHandler);
 
-httpServer.listen(PORT, async () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📱 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5137'}`);
-  console.log(`🔌 Socket.IO server ready for real-time messaging`);
-  try {
-    await migrateRelationshipStatuses();
-  } catch (e) {
-    console.error('Migration warning:', e);
+async function startServer() {
+  // Connect to the configured data store (DATA_STORE=json|mongo) before accepting requests
+  const dataStore = await initializeRepositories();
+  console.log(`🗄️  Data store: ${dataStore}`);
+
+  // Bring the stored data up to the current schema version (MIGRATE_ON_BOOT=false to skip)
+  if (process.env.MIGRATE_ON_BOOT !== 'false') {
+    const migration = await runMigrations();
+    if (migration.applied.length > 0) {
+      console.log(`✅ Schema migrated from v${migration.fromVersion} to v${migration.toVersion}`);
+    }
   }
+
+  startBackupSchedule();
+  startTrashPurgeSchedule();
+  startBackgroundRemovalQueue();
+  registerLookNotifications();
+
+  httpServer.listen(PORT, () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📱 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5137'}`);
+    console.log(`🔌 Socket.IO server ready for real-time messaging`);
+  });
+}
+
+startServer().catch((error) => {
+  console.error('❌ Failed to start server:', error);
+  process.exit(1);
 });
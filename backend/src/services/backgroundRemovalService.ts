@@ -0,0 +1,254 @@
+import sharp from 'sharp';
+import { repositories } from '../repositories';
+import { getMediaStore, mediaKeyFromUrl, mediaUrl, renditionKey } from '../media';
+import { BackgroundRemovalJob, ClosetItem } from '../types';
+import { cache, CACHE_PREFIXES } from '../utils/cache';
+import { scheduleCompositesForClosetItems } from './lookCompositeService';
+import { refreshColorTags } from './colorTagService';
+
+// Cutouts are only drawn on the look canvas and composites, so cap their size
+const CUTOUT_MAX_EDGE = 1024;
+
+type RemoveBackground = (image: Blob, config?: { model?: 'small' | 'medium'; output?: { format?: 'image/png' } }) => Promise<Blob>;
+
+let removeBackgroundFn: RemoveBackground | null = null;
+let running = false;
+let wakeRequested = false;
+
+/** BACKGROUND_REMOVAL=false turns the queue off (jobs stay queued until it is turned back on). */
+export function isBackgroundRemovalEnabled(): boolean {
+  return (process.env.BACKGROUND_REMOVAL ?? 'true').trim().toLowerCase() !== 'false';
+}
+
+/** BACKGROUND_REMOVAL_MODEL: "medium" (default, better edges) or "small" (faster). */
+function getModel(): 'small' | 'medium' {
+  return process.env.BACKGROUND_REMOVAL_MODEL?.trim().toLowerCase() === 'small' ? 'small' : 'medium';
+}
+
+// The library pulls in onnxruntime and its model weights, so only load it once a job runs.
+// require() rather than import(): if its native sharp binding is missing, a failed dynamic
+// import takes the whole process down instead of just rejecting.
+function loadRemoveBackground(): RemoveBackground {
+  if (!removeBackgroundFn) {
+    const mod = require('@imgly/background-removal-node') as { removeBackground: unknown };
+    removeBackgroundFn = mod.removeBackground as RemoveBackground;
+  }
+  return removeBackgroundFn;
+}
+
+function cutoutKey(sourceKey: string): string {
+  return renditionKey(sourceKey, 'cutout', 'png');
+}
+
+function invalidateClosetItems(): void {
+  cache.invalidateByPrefix(CACHE_PREFIXES.CLOSET_ITEMS);
+}
+
+export async function getBackgroundRemovalJob(itemId: string): Promise<BackgroundRemovalJob | null> {
+  const [job] = await repositories.backgroundJobs.findWhere({ itemId });
+  return job ?? null;
+}
+
+/**
+ * Queue a cutout of the item's photo. Returns null when the photo isn't in the media store
+ * (external links can't be processed). A photo that was already cut out, e.g. the same
+ * image on another item, is linked right away without running the model again unless
+ * `force` is set.
+ */
+export async function enqueueBackgroundRemoval(
+  item: ClosetItem,
+  options: { force?: boolean } = {}
+): Promise<BackgroundRemovalJob | null> {
+  const sourceKey = mediaKeyFromUrl(item.photoUrl);
+  if (!sourceKey) return null;
+  const force = options.force ?? false;
+
+  const existing = await getBackgroundRemovalJob(item.id);
+  if (existing && existing.sourceKey === sourceKey) {
+    // A job already running for this photo can't be re-forced without racing it
+    if (existing.status === 'processing') return existing;
+    if (!force && existing.status === 'queued') return existing;
+    if (!force && existing.status === 'done' && item.cutoutUrl) return existing;
+  }
+
+  const now = new Date().toISOString();
+  const job: BackgroundRemovalJob = {
+    id: existing?.id ?? `bgjob_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    itemId: item.id,
+    sourceKey,
+    status: 'queued',
+    force,
+    attempts: 0,
+    createdAt: now,
+  };
+
+  if (!force && (await getMediaStore().exists(cutoutKey(sourceKey)))) {
+    await linkCutout([item.id], sourceKey);
+    job.status = 'done';
+    job.finishedAt = now;
+  }
+
+  if (existing) {
+    await repositories.backgroundJobs.update(job.id, {
+      ...job,
+      error: undefined,
+      startedAt: undefined,
+      finishedAt: job.finishedAt,
+    });
+  } else {
+    await repositories.backgroundJobs.insert(job);
+  }
+
+  if (job.status === 'queued') wakeWorker();
+  return job;
+}
+
+/**
+ * Go back to the original photo: drop the item's cutout link and any queued job.
+ * The cutout file itself stays in the media store (other items may share the photo).
+ */
+export async function restoreOriginalPhoto(itemId: string): Promise<ClosetItem | null> {
+  const job = await getBackgroundRemovalJob(itemId);
+  if (job) await repositories.backgroundJobs.remove(job.id);
+
+  await repositories.closetItems.update(itemId, { cutoutUrl: undefined });
+  invalidateClosetItems();
+  await scheduleCompositesForClosetItems([itemId]);
+  return refreshColorTags(itemId);
+}
+
+/**
+ * Point items at the cutout of their photo. The cutout key is fixed per photo and media is
+ * served as immutable, so each link gets a fresh version and a re-run isn't hidden by caches.
+ */
+async function linkCutout(itemIds: string[], sourceKey: string): Promise<void> {
+  const cutoutUrl = `${mediaUrl(cutoutKey(sourceKey))}?v=${Date.now().toString(36)}`;
+  await repositories.closetItems.updateMany(itemIds, { cutoutUrl });
+  invalidateClosetItems();
+  // Looks draw the cutout in place of the photo, and without a backdrop its colors read truer
+  await scheduleCompositesForClosetItems(itemIds);
+  for (const itemId of itemIds) await refreshColorTags(itemId);
+}
+
+async function runJob(job: BackgroundRemovalJob): Promise<void> {
+  const startedAt = new Date().toISOString();
+  await repositories.backgroundJobs.update(job.id, { status: 'processing', startedAt, attempts: job.attempts + 1 });
+
+  try {
+    const item = await repositories.closetItems.findById(job.itemId);
+    // The item was deleted or got a new photo (which queued its own job) while this one waited
+    if (!item || mediaKeyFromUrl(item.photoUrl) !== job.sourceKey) {
+      await repositories.backgroundJobs.remove(job.id);
+      return;
+    }
+
+    const store = getMediaStore();
+    // A forced re-run replaces the stored cutout in place; other items with the same photo
+    // share it, so they are relinked with the new version too
+    const linked = [item.id];
+    if (job.force || !(await store.exists(cutoutKey(job.sourceKey)))) {
+      const original = await store.get(job.sourceKey);
+      if (!original) throw new Error('Original photo is missing from the media store');
+
+      const removeBackground = loadRemoveBackground();
+      const result = await removeBackground(new Blob([original.data], { type: original.contentType }), {
+        model: getModel(),
+        output: { format: 'image/png' },
+      });
+      const cutout = await sharp(Buffer.from(await result.arrayBuffer()))
+        .resize(CUTOUT_MAX_EDGE, CUTOUT_MAX_EDGE, { fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer();
+      await store.putRendition(job.sourceKey, 'cutout', cutout, 'image/png');
+      const sharing = await repositories.closetItems.findAll();
+      for (const other of sharing) {
+        if (other.id !== item.id && other.cutoutUrl && mediaKeyFromUrl(other.photoUrl) === job.sourceKey) {
+          linked.push(other.id);
+        }
+      }
+    }
+
+    await linkCutout(linked, job.sourceKey);
+    await repositories.backgroundJobs.update(job.id, {
+      status: 'done',
+      force: undefined,
+      error: undefined,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    const message = String(error?.message ?? error).trim();
+    console.error(`❌ Background removal failed for item ${job.itemId}: ${message}`);
+    await repositories.backgroundJobs.update(job.id, {
+      status: 'failed',
+      error: message,
+      finishedAt: new Date().toISOString(),
+    });
+  }
+}
+
+async function nextQueuedJob(): Promise<BackgroundRemovalJob | null> {
+  const queued = await repositories.backgroundJobs.findWhere({ status: 'queued' });
+  queued.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return queued[0] ?? null;
+}
+
+// Jobs run one at a time: the model is CPU-heavy and loads a few hundred MB
+function wakeWorker(): void {
+  if (!isBackgroundRemovalEnabled()) return;
+  wakeRequested = true;
+  if (running) return;
+
+  running = true;
+  void (async () => {
+    try {
+      while (wakeRequested) {
+        wakeRequested = false;
+        let job = await nextQueuedJob();
+        while (job) {
+          await runJob(job);
+          job = await nextQueuedJob();
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ Background removal queue stopped:', error.message);
+    } finally {
+      running = false;
+    }
+  })();
+}
+
+/**
+ * Queue cutouts for every closet item with a stored photo and no cutout yet.
+ * Returns how many jobs were queued (or linked to an existing cutout).
+ */
+export async function backfillBackgroundRemoval(): Promise<number> {
+  const items = await repositories.closetItems.findAll();
+  let queued = 0;
+  for (const item of items) {
+    if (item.cutoutUrl || !mediaKeyFromUrl(item.photoUrl)) continue;
+    if (await enqueueBackgroundRemoval(item)) queued++;
+  }
+  return queued;
+}
+
+/**
+ * Start working through the queue. Jobs left 'processing' by a restart are queued again.
+ */
+export function startBackgroundRemovalQueue(): void {
+  if (!isBackgroundRemovalEnabled()) {
+    console.log('⏸️  Background removal disabled (BACKGROUND_REMOVAL=false)');
+    return;
+  }
+
+  void (async () => {
+    try {
+      const interrupted = await repositories.backgroundJobs.findWhere({ status: 'processing' });
+      if (interrupted.length > 0) {
+        await repositories.backgroundJobs.updateMany(interrupted.map(j => j.id), { status: 'queued' });
+      }
+      wakeWorker();
+    } catch (error) {
+      console.error('❌ Background removal queue failed to start:', error);
+    }
+  })();
+}
@@ -0,0 +1,269 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { COLLECTIONS, getDataStoreKind, getRepository, StoredRecord } from '../repositories';
+import { withAllCollectionLocks } from '../repositories/jsonRepository';
+import { cache } from '../utils/cache';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const BACKUP_DIR = process.env.BACKUP_DIR
+  ? path.resolve(process.env.BACKUP_DIR)
+  : path.join(process.cwd(), 'backups');
+
+const SNAPSHOT_FORMAT = 'turnstyle-snapshot';
+const SNAPSHOT_VERSION = 1;
+// snapshot-<ISO timestamp with : and . replaced by ->-<label>.json.gz
+const ARCHIVE_PATTERN = /^snapshot-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)-(.+)\.json\.gz$/;
+
+export interface BackupManifest {
+  label: string;
+  createdAt: string;
+  dataStore: string;
+  /** Highest applied migration at snapshot time */
+  schemaVersion: number;
+  counts: Record<string, number>;
+}
+
+interface SnapshotArchive {
+  format: string;
+  version: number;
+  manifest: BackupManifest;
+  collections: Record<string, StoredRecord[]>;
+}
+
+export interface BackupInfo {
+  file: string;
+  path: string;
+  label: string;
+  createdAt: string;
+  sizeBytes: number;
+}
+
+export interface RetentionPolicy {
+  /** Always keep at least this many of the newest archives */
+  keepCount: number;
+  /** Beyond keepCount, delete archives older than this */
+  maxAgeDays: number;
+}
+
+function backupError(message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = 'BACKUP_INVALID';
+  return err;
+}
+
+function parseArchiveName(file: string): { createdAt: string; label: string } | null {
+  const match = ARCHIVE_PATTERN.exec(file);
+  if (!match) return null;
+  const createdAt = match[1].replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z');
+  return { createdAt, label: match[2] };
+}
+
+/** Accept a bare archive name (looked up in BACKUP_DIR) or a path. */
+export function resolveArchivePath(file: string): string {
+  return path.basename(file) === file ? path.join(BACKUP_DIR, file) : path.resolve(file);
+}
+
+async function readAllCollections(): Promise<Record<string, StoredRecord[]>> {
+  const collections: Record<string, StoredRecord[]> = {};
+  for (const collection of Object.values(COLLECTIONS)) {
+    collections[collection] = await getRepository<StoredRecord>(collection).findAll();
+  }
+  return collections;
+}
+
+/**
+ * Write every collection into one gzipped archive, backups/snapshot-<timestamp>-<label>.json.gz.
+ * On the JSON store all collection locks are held while reading, so the snapshot is consistent.
+ * Returns the archive path.
+ */
+export async function createBackup(label: string = 'manual'): Promise<string> {
+  const collections = getDataStoreKind() === 'json'
+    ? await withAllCollectionLocks(readAllCollections)
+    : await readAllCollections();
+
+  const createdAt = new Date().toISOString();
+  const safeLabel = label.toLowerCase().replace(/[^a-z0-9-]+/g, '-') || 'manual';
+  const counts: Record<string, number> = {};
+  for (const [name, records] of Object.entries(collections)) {
+    counts[name] = records.length;
+  }
+  const migrations = (collections[COLLECTIONS.migrations] ?? []) as (StoredRecord & { version?: number })[];
+  const archive: SnapshotArchive = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    manifest: {
+      label: safeLabel,
+      createdAt,
+      dataStore: getDataStoreKind(),
+      schemaVersion: migrations.reduce((max, m) => Math.max(max, m.version ?? 0), 0),
+      counts,
+    },
+    collections,
+  };
+
+  await fs.mkdir(BACKUP_DIR, { recursive: true });
+  const filePath = path.join(BACKUP_DIR, `snapshot-${createdAt.replace(/[:.]/g, '-')}-${safeLabel}.json.gz`);
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, await gzip(JSON.stringify(archive)));
+  await fs.rename(tempPath, filePath);
+  return filePath;
+}
+
+/** Archives in BACKUP_DIR, newest first. Reads file names and sizes only. */
+export async function listBackups(): Promise<BackupInfo[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(BACKUP_DIR);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const backups: BackupInfo[] = [];
+  for (const file of entries) {
+    const parsed = parseArchiveName(file);
+    if (!parsed) continue;
+    const filePath = path.join(BACKUP_DIR, file);
+    const stat = await fs.stat(filePath);
+    backups.push({ file, path: filePath, ...parsed, sizeBytes: stat.size });
+  }
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function loadArchive(filePath: string): Promise<SnapshotArchive> {
+  let raw: Buffer;
+  try {
+    raw = await fs.readFile(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') throw backupError(`Backup not found: ${filePath}`);
+    throw error;
+  }
+  try {
+    return JSON.parse((await gunzip(raw)).toString('utf-8')) as SnapshotArchive;
+  } catch (error: any) {
+    throw backupError(`${path.basename(filePath)} is not a readable snapshot archive: ${error.message}`);
+  }
+}
+
+/** Everything that would make an archive unsafe to restore. Empty list means valid. */
+function validateArchive(archive: SnapshotArchive): string[] {
+  const problems: string[] = [];
+  if (archive?.format !== SNAPSHOT_FORMAT) problems.push('not a snapshot archive (unknown format)');
+  if (archive?.version !== SNAPSHOT_VERSION) problems.push(`unsupported snapshot version ${archive?.version}`);
+  if (!archive?.manifest || !archive?.collections || typeof archive.collections !== 'object') {
+    problems.push('manifest or collections missing');
+    return problems;
+  }
+
+  for (const collection of Object.values(COLLECTIONS)) {
+    const records = archive.collections[collection];
+    // Collections added after the snapshot was taken restore as empty
+    if (records === undefined) continue;
+    if (!Array.isArray(records)) {
+      problems.push(`${collection}: expected an array`);
+      continue;
+    }
+    const ids = new Set<string>();
+    records.forEach((record, index) => {
+      if (!record || typeof record !== 'object' || typeof record.id !== 'string' || !record.id) {
+        problems.push(`${collection}[${index}]: record has no id`);
+      } else if (ids.has(record.id)) {
+        problems.push(`${collection}: duplicate id ${record.id}`);
+      } else {
+        ids.add(record.id);
+      }
+    });
+    const expected = archive.manifest.counts?.[collection];
+    if (expected !== undefined && expected !== records.length) {
+      problems.push(`${collection}: manifest says ${expected} record(s), archive has ${records.length}`);
+    }
+  }
+  return problems;
+}
+
+/** Load an archive and check it without touching the data store. */
+export async function inspectBackup(file: string): Promise<{ path: string; manifest: BackupManifest | null; problems: string[] }> {
+  const filePath = resolveArchivePath(file);
+  const archive = await loadArchive(filePath);
+  return { path: filePath, manifest: archive?.manifest ?? null, problems: validateArchive(archive) };
+}
+
+/**
+ * Validate an archive and swap its contents in for every collection. A snapshot of the
+ * current data is taken first (unless `backup: false`) so the restore itself can be undone.
+ * Restored data is brought up to date by the normal migration run on next startup.
+ */
+export async function restoreBackup(
+  file: string,
+  options: { backup?: boolean } = {}
+): Promise<{ manifest: BackupManifest; restored: Record<string, number>; safetyBackupPath?: string }> {
+  const { backup = true } = options;
+  const filePath = resolveArchivePath(file);
+  const archive = await loadArchive(filePath);
+  const problems = validateArchive(archive);
+  if (problems.length > 0) {
+    throw backupError(`Refusing to restore ${path.basename(filePath)}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  const safetyBackupPath = backup ? await createBackup('pre-restore') : undefined;
+
+  const restored: Record<string, number> = {};
+  for (const collection of Object.values(COLLECTIONS)) {
+    const records = archive.collections[collection] ?? [];
+    await getRepository<StoredRecord>(collection).replaceAll(records);
+    restored[collection] = records.length;
+  }
+  cache.clear();
+  return { manifest: archive.manifest, restored, safetyBackupPath };
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+  const keepCount = Number(process.env.BACKUP_RETENTION_COUNT ?? 7);
+  const maxAgeDays = Number(process.env.BACKUP_RETENTION_DAYS ?? 30);
+  return {
+    keepCount: Number.isFinite(keepCount) && keepCount >= 0 ? keepCount : 7,
+    maxAgeDays: Number.isFinite(maxAgeDays) && maxAgeDays >= 0 ? maxAgeDays : 30,
+  };
+}
+
+/** Delete archives beyond the newest `keepCount` that are older than `maxAgeDays`. Returns deleted file names. */
+export async function pruneBackups(policy: RetentionPolicy = getRetentionPolicy()): Promise<string[]> {
+  const backups = await listBackups();
+  const cutoff = Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000;
+  const deleted: string[] = [];
+  for (const backup of backups.slice(policy.keepCount)) {
+    if (new Date(backup.createdAt).getTime() < cutoff) {
+      await fs.unlink(backup.path);
+      deleted.push(backup.file);
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Take a snapshot every BACKUP_INTERVAL_HOURS (default 24, 0 disables) and apply
+ * the retention policy after each one.
+ */
+export function startBackupSchedule(): void {
+  const hours = Number(process.env.BACKUP_INTERVAL_HOURS ?? 24);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    console.log('⏸️  Scheduled snapshots disabled (BACKUP_INTERVAL_HOURS=0)');
+    return;
+  }
+
+  const policy = getRetentionPolicy();
+  setInterval(async () => {
+    try {
+      const archive = await createBackup('scheduled');
+      const pruned = await pruneBackups(policy);
+      console.log(`💾 Scheduled snapshot written to ${archive}${pruned.length > 0 ? `, pruned ${pruned.length} old archive(s)` : ''}`);
+    } catch (error) {
+      console.error('❌ Scheduled snapshot failed:', error);
+    }
+  }, hours * 60 * 60 * 1000).unref();
+  console.log(`⏰ Snapshots every ${hours}h to ${BACKUP_DIR} (keep ${policy.keepCount}, max age ${policy.maxAgeDays} days)`);
+}
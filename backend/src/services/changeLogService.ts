@@ -0,0 +1,139 @@
+import { repositories } from '../repositories';
+import { ChangeLogAction, ChangeLogEntityType, ChangeLogEntry, FieldChange } from '../types';
+import { findUserById } from '../utils/database';
+
+/**
+ * Fields left out of the log: bookkeeping, values the server derives (renditions, hashes,
+ * color suggestions, wear counts, composites) and relationship data joined onto clients.
+ */
+const IGNORED_FIELDS = new Set([
+  'id',
+  'createdAt',
+  'createdBy',
+  'updatedAt',
+  'updatedBy',
+  'thumbnailUrl',
+  'previewUrl',
+  'photoHash',
+  'cutoutUrl',
+  'suggestedColorTags',
+  'colorTagsAuto',
+  'wearCount',
+  'lastWorn',
+  'compositeImageUrl',
+  'compositeMissingItemIds',
+  'relationshipId',
+  'relationshipStatus',
+]);
+
+/** changedBy of edits made by questionnaire submissions (POST /api/clients/form-response) */
+export const FORM_RESPONSE_ACTOR = 'form-response';
+
+export interface ChangeLogEntryWithActor extends ChangeLogEntry {
+  /** Name of the user who made the change, when the account still exists */
+  changedByName?: string;
+}
+
+type Fields = object | null | undefined;
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Fields whose values differ between two versions of a record, in a stable order */
+export function diffFields(before: Fields, after: Fields): FieldChange[] {
+  const prev = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(prev), ...Object.keys(next)])]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .sort();
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (sameValue(prev[field], next[field])) continue;
+    changes.push({
+      field,
+      ...(!isEmpty(prev[field]) && { before: prev[field] }),
+      ...(!isEmpty(next[field]) && { after: next[field] }),
+    });
+  }
+  return changes;
+}
+
+function newEntry(
+  entityType: ChangeLogEntityType,
+  entityId: string,
+  action: ChangeLogAction,
+  changes: FieldChange[],
+  changedBy: string
+): ChangeLogEntry {
+  return {
+    id: `change_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    entityType,
+    entityId,
+    action,
+    changes,
+    changedBy,
+    changedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Append a change to an entity's history. Creates log every field that was set, updates only
+ * the fields that changed (an update that changed nothing is not logged), deletes and restores
+ * just the event.
+ */
+export async function recordChange(
+  entityType: ChangeLogEntityType,
+  entityId: string,
+  action: ChangeLogAction,
+  changedBy: string,
+  before?: Fields,
+  after?: Fields
+): Promise<void> {
+  const changes = action === 'create' || action === 'update' ? diffFields(before, after) : [];
+  if (action === 'update' && changes.length === 0) return;
+  await repositories.changeLog.insert(newEntry(entityType, entityId, action, changes, changedBy));
+}
+
+/** Log the creation of several records of one type at once */
+export async function recordCreates(
+  entityType: ChangeLogEntityType,
+  records: { id: string }[],
+  changedBy: string
+): Promise<void> {
+  if (records.length === 0) return;
+  await repositories.changeLog.insertMany(
+    records.map(record => newEntry(entityType, record.id, 'create', diffFields(null, record), changedBy))
+  );
+}
+
+/**
+ * An entity's changes, most recent first, with the names of the people who made them.
+ * Changes of related entities (e.g. a stylist's profile of a client) are merged in.
+ */
+export async function getChangeHistory(
+  entityType: ChangeLogEntityType,
+  entityId: string,
+  related: { entityType: ChangeLogEntityType; entityId: string }[] = []
+): Promise<ChangeLogEntryWithActor[]> {
+  const entries: ChangeLogEntry[] = [];
+  for (const ref of [{ entityType, entityId }, ...related]) {
+    entries.push(...(await repositories.changeLog.findWhere(ref)));
+  }
+  entries.sort((a, b) => b.changedAt.localeCompare(a.changedAt) || b.id.localeCompare(a.id));
+
+  const names = new Map<string, string | undefined>();
+  for (const changedBy of new Set(entries.map(e => e.changedBy))) {
+    const name = changedBy === FORM_RESPONSE_ACTOR ? 'Questionnaire form' : (await findUserById(changedBy))?.name;
+    names.set(changedBy, name);
+  }
+  return entries.map(entry => {
+    const changedByName = names.get(entry.changedBy);
+    return { ...entry, ...(changedByName && { changedByName }) };
+  });
+}
@@ -0,0 +1,192 @@
+import { ClosetItem, ItemCategory } from '../types';
+import { getAllClosetItems, getLookItemIndex } from '../utils/database-entities';
+
+export const ITEM_CATEGORIES: ItemCategory[] = [
+  'tops',
+  'bottoms',
+  'dresses',
+  'outerwear',
+  'shoes',
+  'accessories',
+  'bags',
+  'others',
+];
+
+/** Relative weight of each category in a well-balanced closet (usually percentages) */
+export type TargetMix = Partial<Record<ItemCategory, number>>;
+
+const DEFAULT_TARGET_MIX: TargetMix = {
+  tops: 25,
+  bottoms: 20,
+  dresses: 10,
+  outerwear: 10,
+  shoes: 15,
+  accessories: 10,
+  bags: 5,
+  others: 5,
+};
+
+export interface CategoryCount {
+  category: ItemCategory;
+  count: number;
+  subcategories: { name: string; count: number }[];
+}
+
+export interface WardrobeGap {
+  category: ItemCategory;
+  /** Target and actual share of active items, 0-1 */
+  targetShare: number;
+  actualShare: number;
+  count: number;
+  targetCount: number;
+  /** Items to add to reach the target */
+  missing: number;
+}
+
+export interface ClosetAnalytics {
+  closetId: string;
+  totalItems: number;
+  activeItems: number;
+  archivedItems: number;
+  /** archivedItems / totalItems (0 for an empty closet) */
+  archivedRatio: number;
+  /** Breakdowns below cover active (non-archived) items */
+  categories: CategoryCount[];
+  colors: { color: string; count: number }[];
+  brands: { brand: string; count: number }[];
+  unbrandedItems: number;
+  /** Active items no look has ever used */
+  neverUsedInLooks: { count: number; items: Pick<ClosetItem, 'id' | 'name' | 'category' | 'thumbnailUrl' | 'photoUrl'>[] };
+  targetMix: TargetMix;
+  /** Categories below their target share, biggest shortfall first */
+  gaps: WardrobeGap[];
+}
+
+function analyticsError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+/**
+ * Parse a target mix such as "tops:30,bottoms:20,shoes:15" (percent or any relative weights;
+ * categories left out have no target). Throws ANALYTICS_INVALID_TARGET on bad input.
+ */
+export function parseTargetMix(value: string): TargetMix {
+  const mix: TargetMix = {};
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [name, weight] = part.split(':').map(p => p.trim());
+    const category = name?.toLowerCase() as ItemCategory;
+    const share = Number(weight);
+    if (!ITEM_CATEGORIES.includes(category) || !Number.isFinite(share) || share < 0) {
+      throw analyticsError('ANALYTICS_INVALID_TARGET', `Invalid target mix entry "${part}". Use category:weight, e.g. tops:30`);
+    }
+    mix[category] = share;
+  }
+  if (Object.values(mix).reduce((sum, share) => sum + (share ?? 0), 0) <= 0) {
+    throw analyticsError('ANALYTICS_INVALID_TARGET', 'Target mix needs at least one category with a weight above 0');
+  }
+  return mix;
+}
+
+/** CLOSET_TARGET_MIX: default target mix for wardrobe gaps, e.g. "tops:25,bottoms:20,shoes:15". */
+export function getTargetMix(): TargetMix {
+  const value = process.env.CLOSET_TARGET_MIX;
+  if (!value?.trim()) return DEFAULT_TARGET_MIX;
+  try {
+    return parseTargetMix(value);
+  } catch (error: any) {
+    console.warn(`⚠️  Ignoring CLOSET_TARGET_MIX: ${error.message}`);
+    return DEFAULT_TARGET_MIX;
+  }
+}
+
+/** Most common first, ties alphabetically */
+function ranked(counts: Map<string, number>): [string, number][] {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function wardrobeGaps(categories: CategoryCount[], activeItems: number, targetMix: TargetMix): WardrobeGap[] {
+  const totalWeight = Object.values(targetMix).reduce((sum, share) => sum + (share ?? 0), 0);
+  if (activeItems === 0 || totalWeight <= 0) return [];
+
+  const gaps: WardrobeGap[] = [];
+  for (const { category, count } of categories) {
+    const targetShare = (targetMix[category] ?? 0) / totalWeight;
+    const targetCount = Math.round(targetShare * activeItems);
+    if (count >= targetCount) continue;
+    gaps.push({
+      category,
+      targetShare: Math.round(targetShare * 1000) / 1000,
+      actualShare: Math.round((count / activeItems) * 1000) / 1000,
+      count,
+      targetCount,
+      missing: targetCount - count,
+    });
+  }
+  return gaps.sort((a, b) => b.missing - a.missing);
+}
+
+/** Composition of a closet: categories, colors, brands, archive ratio, unused items and gaps against a target mix. */
+export async function getClosetAnalytics(closetId: string, targetMix: TargetMix = getTargetMix()): Promise<ClosetAnalytics> {
+  const items = await getAllClosetItems(closetId);
+  const active = items.filter(item => !item.archived);
+
+  const subcategoryCounts = new Map<ItemCategory, Map<string, number>>(ITEM_CATEGORIES.map(c => [c, new Map()]));
+  const categoryCounts = new Map<string, number>();
+  const colorCounts = new Map<string, number>();
+  const brandCounts = new Map<string, number>();
+  let unbrandedItems = 0;
+
+  for (const item of active) {
+    // Unknown categories from old data are counted as "others"
+    const category = ITEM_CATEGORIES.includes(item.category) ? item.category : 'others';
+    increment(categoryCounts, category);
+    if (item.subcategory?.trim()) increment(subcategoryCounts.get(category)!, item.subcategory.trim());
+
+    for (const color of new Set((item.colorTags ?? []).map(c => c.trim().toLowerCase()).filter(Boolean))) {
+      increment(colorCounts, color);
+    }
+    if (item.brand?.trim()) increment(brandCounts, item.brand.trim());
+    else unbrandedItems++;
+  }
+
+  const categories = ITEM_CATEGORIES.map(category => ({
+    category,
+    count: categoryCounts.get(category) ?? 0,
+    subcategories: ranked(subcategoryCounts.get(category)!).map(([name, count]) => ({ name, count })),
+  }));
+
+  const lookItemIndex = await getLookItemIndex();
+  const neverUsed = active.filter(
+    item => !lookItemIndex.where('itemId', item.id).some(li => li.itemType === 'closet_item')
+  );
+
+  return {
+    closetId,
+    totalItems: items.length,
+    activeItems: active.length,
+    archivedItems: items.length - active.length,
+    archivedRatio: items.length > 0 ? Math.round(((items.length - active.length) / items.length) * 1000) / 1000 : 0,
+    categories,
+    colors: ranked(colorCounts).map(([color, count]) => ({ color, count })),
+    brands: ranked(brandCounts).map(([brand, count]) => ({ brand, count })),
+    unbrandedItems,
+    neverUsedInLooks: {
+      count: neverUsed.length,
+      items: neverUsed.map(({ id, name, category, thumbnailUrl, photoUrl }) => ({
+        id,
+        name,
+        category,
+        ...(thumbnailUrl && { thumbnailUrl }),
+        photoUrl,
+      })),
+    },
+    targetMix,
+    gaps: wardrobeGaps(categories, active.length, targetMix),
+  };
+}
@@ -0,0 +1,372 @@
+import { ClosetItem, ItemTags, Season } from '../types';
+import { getAllClosetItems } from '../utils/database-entities';
+import { itemStatus } from './itemStatusService';
+
+export const TAG_GROUPS = ['season', 'occasion', 'fabric', 'fit', 'custom'] as const;
+export type TagGroup = (typeof TAG_GROUPS)[number];
+
+export const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+const MAX_TAGS_PER_GROUP = 20;
+const MAX_TAG_LENGTH = 40;
+
+/** Facets of GET /api/closet-items; "tag" is the custom tag group, "status" the lifecycle state */
+export const SEARCH_FACETS = [
+  'status',
+  'category',
+  'subcategory',
+  'brand',
+  'color',
+  'season',
+  'occasion',
+  'fabric',
+  'fit',
+  'tag',
+] as const;
+export type SearchFacet = (typeof SEARCH_FACETS)[number];
+
+export const SEARCH_SORTS = [
+  'relevance',
+  'newest',
+  'oldest',
+  'name',
+  'brand',
+  'most_worn',
+  'least_worn',
+  'recently_worn',
+] as const;
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+export type FacetMatch = 'all' | 'any';
+
+export interface ClosetSearchQuery {
+  /** Free text; every word has to match the item (small typos are allowed on name and brand) */
+  q?: string;
+  /** Selected values per facet; an item matches a facet when it has any of the selected values */
+  filters: Partial<Record<SearchFacet, string[]>>;
+  /** all: items must match every filtered facet (AND); any: at least one of them (OR) */
+  match: FacetMatch;
+  /** Defaults to relevance when there is a query, else the closet's own order */
+  sort?: SearchSort;
+  /** true: archived items only, false: active items only, unset: both */
+  archived?: boolean;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export type FacetCounts = Record<SearchFacet, FacetValue[]>;
+
+export interface ClosetSearchResult {
+  items: ClosetItem[];
+  total: number;
+  /**
+   * Item counts per facet value. Each facet is counted as if its own selection were cleared
+   * (with match=any, as if no facet were filtered), so counts show what selecting a value gives.
+   */
+  facets: FacetCounts;
+}
+
+function searchError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+// ==================== TAGS ====================
+
+/**
+ * Validate the tags of a request body: an object with a list (or comma-separated string) per
+ * tag group. Values are trimmed, lower-cased and de-duplicated, "fall" is stored as "autumn",
+ * and empty groups are dropped. Throws TAGS_INVALID on bad input.
+ */
+export function normalizeItemTags(value: unknown): ItemTags | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw searchError('TAGS_INVALID', 'tags must be an object of tag lists, e.g. { "season": ["winter"] }');
+  }
+
+  const tags: Record<string, string[]> = {};
+  for (const [group, raw] of Object.entries(value)) {
+    if (!TAG_GROUPS.includes(group as TagGroup)) {
+      throw searchError('TAGS_INVALID', `Unknown tag group "${group}". Use ${TAG_GROUPS.join(', ')}`);
+    }
+    const list: unknown = typeof raw === 'string' ? raw.split(',') : raw ?? [];
+    if (!Array.isArray(list) || list.some(v => typeof v !== 'string')) {
+      throw searchError('TAGS_INVALID', `tags.${group} must be a list of strings`);
+    }
+
+    let values = (list as string[]).map(v => v.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+    if (group === 'season') {
+      values = values.map(v => (v === 'fall' ? 'autumn' : v));
+      const unknown = values.find(v => !SEASONS.includes(v as Season));
+      if (unknown) {
+        throw searchError('TAGS_INVALID', `Unknown season "${unknown}". Use ${SEASONS.join(', ')}`);
+      }
+    }
+    values = [...new Set(values)];
+    if (values.some(v => v.length > MAX_TAG_LENGTH)) {
+      throw searchError('TAGS_INVALID', `Tags can be at most ${MAX_TAG_LENGTH} characters`);
+    }
+    if (values.length > MAX_TAGS_PER_GROUP) {
+      throw searchError('TAGS_INVALID', `tags.${group} can have at most ${MAX_TAGS_PER_GROUP} values`);
+    }
+    if (values.length > 0) tags[group] = values;
+  }
+  return Object.keys(tags).length > 0 ? (tags as ItemTags) : undefined;
+}
+
+// ==================== QUERY PARSING ====================
+
+// Repeated params (?season=winter&season=autumn) and comma lists (?season=winter,autumn) both work
+function listParam(name: string, value: unknown): string[] {
+  if (value === undefined) return [];
+  const parts = Array.isArray(value) ? value : [value];
+  if (parts.some(p => typeof p !== 'string')) {
+    throw searchError('SEARCH_INVALID', `${name} must be a list of values`);
+  }
+  return (parts as string[]).flatMap(p => p.split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+/** Read a search from GET /api/closet-items query params. Throws SEARCH_INVALID on bad input. */
+export function parseSearchQuery(params: Record<string, unknown>): ClosetSearchQuery {
+  const text = params.q ?? params.search;
+  if (text !== undefined && typeof text !== 'string') {
+    throw searchError('SEARCH_INVALID', 'q must be a string');
+  }
+
+  const filters: ClosetSearchQuery['filters'] = {};
+  for (const facet of SEARCH_FACETS) {
+    const values = listParam(facet, params[facet]);
+    if (values.length > 0) filters[facet] = values;
+  }
+
+  const match = params.match ?? 'all';
+  if (match !== 'all' && match !== 'any') {
+    throw searchError('SEARCH_INVALID', 'match must be "all" or "any"');
+  }
+
+  const sort = params.sort;
+  if (sort !== undefined && !SEARCH_SORTS.includes(sort as SearchSort)) {
+    throw searchError('SEARCH_INVALID', `sort must be one of ${SEARCH_SORTS.join(', ')}`);
+  }
+
+  const archived = params.archived;
+  if (archived !== undefined && archived !== 'true' && archived !== 'false') {
+    throw searchError('SEARCH_INVALID', 'archived must be "true" or "false"');
+  }
+
+  return {
+    ...(text?.trim() && { q: text.trim() }),
+    filters,
+    match,
+    ...(sort !== undefined && { sort: sort as SearchSort }),
+    ...(archived !== undefined && { archived: archived === 'true' }),
+  };
+}
+
+// ==================== TEXT MATCHING ====================
+
+/** Lower-case without accents, so "Névé" matches "neve" */
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function words(text: string | undefined): string[] {
+  return text ? fold(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean) : [];
+}
+
+/** Typos tolerated in a query word: none for short words, one from 4 letters, two from 8 */
+function allowedTypos(term: string): number {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+}
+
+/**
+ * Edit distance counting a swap of two neighbouring letters as one edit (optimal string
+ * alignment). Stops early with max + 1 once the distance is certain to exceed max.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      row.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+interface SearchField {
+  words: string[];
+  weight: number;
+  /** Whether misspelled query words may match this field */
+  fuzzy: boolean;
+}
+
+function searchFields(item: ClosetItem): SearchField[] {
+  const tagWords = [
+    item.category,
+    item.subcategory,
+    ...(item.colorTags ?? []),
+    ...TAG_GROUPS.flatMap(group => item.tags?.[group] ?? []),
+  ].flatMap(words);
+  return [
+    { words: words(item.name), weight: 3, fuzzy: true },
+    { words: words(item.brand), weight: 2, fuzzy: true },
+    { words: tagWords, weight: 1, fuzzy: false },
+    { words: words(item.notes), weight: 0.5, fuzzy: false },
+  ];
+}
+
+/** How well one query word matches a field: exact > prefix > typo > substring, 0 for no match */
+function termScore(term: string, field: SearchField): number {
+  let best = 0;
+  const maxTypos = field.fuzzy ? allowedTypos(term) : 0;
+  for (const word of field.words) {
+    if (word === term) return field.weight;
+    let score = 0;
+    if (word.startsWith(term)) score = 0.8;
+    else if (maxTypos > 0 && editDistance(term, word, maxTypos) <= maxTypos) score = 0.6;
+    else if (term.length >= 3 && word.includes(term)) score = 0.4;
+    best = Math.max(best, score * field.weight);
+  }
+  return best;
+}
+
+/** Relevance of an item for the query words; 0 unless every word matches somewhere */
+function textScore(item: ClosetItem, terms: string[], phrase: string): number {
+  const fields = searchFields(item);
+  let total = 0;
+  for (const term of terms) {
+    const score = Math.max(...fields.map(field => termScore(term, field)));
+    if (score === 0) return 0;
+    total += score;
+  }
+  // Names containing the whole query as typed rank first
+  return terms.length > 1 && fold(item.name).includes(phrase) ? total + 2 : total;
+}
+
+// ==================== FACETS ====================
+
+function facetValues(item: ClosetItem, facet: SearchFacet): string[] {
+  switch (facet) {
+    case 'category':
+      return [item.category];
+    case 'subcategory':
+      return item.subcategory?.trim() ? [item.subcategory.trim()] : [];
+    case 'brand':
+      return item.brand?.trim() ? [item.brand.trim()] : [];
+    case 'color':
+      return (item.colorTags ?? []).map(c => c.trim().toLowerCase()).filter(Boolean);
+    case 'tag':
+      return item.tags?.custom ?? [];
+    case 'status':
+      return [itemStatus(item)];
+    default:
+      return item.tags?.[facet] ?? [];
+  }
+}
+
+// Facet values match case-insensitively ("Zara" and "zara" are one brand)
+const facetKey = (value: string): string => value.trim().toLowerCase();
+
+function countFacet(items: ClosetItem[], facet: SearchFacet, selected: string[]): FacetValue[] {
+  const counts = new Map<string, FacetValue>();
+  for (const item of items) {
+    for (const value of new Set(facetValues(item, facet))) {
+      const key = facetKey(value);
+      const entry = counts.get(key) ?? counts.set(key, { value, count: 0 }).get(key)!;
+      entry.count++;
+    }
+  }
+  // Keep selected values listed even when nothing matches them any more
+  for (const value of selected) {
+    if (!counts.has(facetKey(value))) counts.set(facetKey(value), { value, count: 0 });
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// ==================== SORTING ====================
+
+const byName = (a: ClosetItem, b: ClosetItem): number =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+const COMPARATORS: Record<Exclude<SearchSort, 'relevance'>, (a: ClosetItem, b: ClosetItem) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  name: byName,
+  // Items without a brand go last
+  brand: (a, b) =>
+    Number(!a.brand?.trim()) - Number(!b.brand?.trim()) ||
+    (a.brand ?? '').localeCompare(b.brand ?? '', undefined, { sensitivity: 'base' }) ||
+    byName(a, b),
+  most_worn: (a, b) => (b.wearCount ?? 0) - (a.wearCount ?? 0) || (b.lastWorn ?? '').localeCompare(a.lastWorn ?? ''),
+  least_worn: (a, b) => (a.wearCount ?? 0) - (b.wearCount ?? 0) || (a.lastWorn ?? '').localeCompare(b.lastWorn ?? ''),
+  // Never-worn items go last
+  recently_worn: (a, b) => (b.lastWorn ?? '').localeCompare(a.lastWorn ?? '') || byName(a, b),
+};
+
+// ==================== SEARCH ====================
+
+/** Run a search over a list of items (usually one closet's) */
+export function searchItems(items: ClosetItem[], query: ClosetSearchQuery): ClosetSearchResult {
+  const terms = [...new Set(words(query.q))];
+  const phrase = terms.join(' ');
+
+  // Items matching the text and archive state; facets narrow these down
+  const scores = new Map<ClosetItem, number>();
+  for (const item of items) {
+    if (query.archived !== undefined && !!item.archived !== query.archived) continue;
+    const score = terms.length > 0 ? textScore(item, terms, phrase) : 0;
+    if (terms.length === 0 || score > 0) scores.set(item, score);
+  }
+  const candidates = [...scores.keys()];
+
+  const filtered = SEARCH_FACETS.filter(facet => (query.filters[facet] ?? []).length > 0);
+  const selected = new Map(filtered.map(facet => [facet, new Set(query.filters[facet]!.map(facetKey))]));
+  const matchesFacet = (item: ClosetItem, facet: SearchFacet): boolean =>
+    facetValues(item, facet).some(value => selected.get(facet)!.has(facetKey(value)));
+  const matchesFilters = (item: ClosetItem, skip?: SearchFacet): boolean => {
+    const facets = filtered.filter(facet => facet !== skip);
+    if (facets.length === 0) return true;
+    return query.match === 'any'
+      ? facets.some(facet => matchesFacet(item, facet))
+      : facets.every(facet => matchesFacet(item, facet));
+  };
+
+  const results = candidates.filter(item => matchesFilters(item));
+  const sort = query.sort ?? (terms.length > 0 ? 'relevance' : undefined);
+  if (sort === 'relevance') {
+    results.sort((a, b) => scores.get(b)! - scores.get(a)!);
+  } else if (sort) {
+    results.sort(COMPARATORS[sort]);
+  }
+
+  const facets = Object.fromEntries(
+    SEARCH_FACETS.map(facet => {
+      const pool = query.match === 'any' ? candidates : candidates.filter(item => matchesFilters(item, facet));
+      return [facet, countFacet(pool, facet, query.filters[facet] ?? [])];
+    })
+  ) as FacetCounts;
+
+  return { items: results, total: results.length, facets };
+}
+
+/** Search one closet's items */
+export async function searchCloset(closetId: string, query: ClosetSearchQuery): Promise<ClosetSearchResult> {
+  return searchItems(await getAllClosetItems(closetId), query);
+}
@@ -0,0 +1,82 @@
+import { repositories } from '../repositories';
+import { getMediaStore, mediaKeyFromUrl } from '../media';
+import { dominantColors } from '../media/dominantColors';
+import { ClosetItem } from '../types';
+import { cache, CACHE_PREFIXES } from '../utils/cache';
+
+/**
+ * Suggested color tags for an image URL. Null for URLs that aren't in the media store
+ * (external links) or images that can't be decoded.
+ */
+export async function suggestColorTags(url: string | undefined): Promise<string[] | null> {
+  const key = url ? mediaKeyFromUrl(url) : null;
+  if (!key) return null;
+  try {
+    const media = await getMediaStore().get(key);
+    return media ? await dominantColors(media.data) : null;
+  } catch (error: any) {
+    console.warn(`⚠️  Could not extract colors from ${key}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Changes that record new suggestions on an item. Suggestions also become the item's
+ * colorTags (flagged with colorTagsAuto) unless someone has set colors by hand.
+ */
+export function colorTagChanges(
+  item: Pick<ClosetItem, 'colorTags' | 'colorTagsAuto'>,
+  suggested: string[] | null
+): Partial<Pick<ClosetItem, 'suggestedColorTags' | 'colorTags' | 'colorTagsAuto'>> {
+  const changes: Partial<Pick<ClosetItem, 'suggestedColorTags' | 'colorTags' | 'colorTagsAuto'>> = {
+    suggestedColorTags: suggested ?? undefined,
+  };
+  const isUnreviewed = item.colorTagsAuto || (item.colorTags ?? []).length === 0;
+  if (isUnreviewed && suggested && suggested.length > 0) {
+    changes.colorTags = suggested;
+    changes.colorTagsAuto = true;
+  }
+  return changes;
+}
+
+/** Colors are read from the cutout when there is one (no backdrop to filter out), else the photo. */
+async function suggestItemColorTags(item: ClosetItem): Promise<string[] | null> {
+  const fromCutout = item.cutoutUrl ? await suggestColorTags(item.cutoutUrl) : null;
+  return fromCutout ?? suggestColorTags(item.photoUrl);
+}
+
+/** Re-extract an item's colors (e.g. once its cutout is ready). Returns the updated item. */
+export async function refreshColorTags(itemId: string): Promise<ClosetItem | null> {
+  const item = await repositories.closetItems.findById(itemId);
+  if (!item) return null;
+  const suggested = await suggestItemColorTags(item);
+  if (!suggested) return item;
+
+  const updated = await repositories.closetItems.update(itemId, colorTagChanges(item, suggested));
+  cache.invalidateByPrefix(CACHE_PREFIXES.CLOSET_ITEMS);
+  return updated;
+}
+
+/**
+ * Extract colors for every closet item with a stored photo that has no suggestions yet
+ * (all of them with `force`). Returns how many items were scanned and updated.
+ */
+export async function backfillColorTags(
+  options: { force?: boolean; dryRun?: boolean } = {}
+): Promise<{ scanned: number; updated: number }> {
+  const items = await repositories.closetItems.findAll();
+  const pending = items.filter(
+    item => (options.force || !item.suggestedColorTags) && mediaKeyFromUrl(item.cutoutUrl || item.photoUrl)
+  );
+  if (options.dryRun) return { scanned: pending.length, updated: 0 };
+
+  let updated = 0;
+  for (const item of pending) {
+    const suggested = await suggestItemColorTags(item);
+    if (!suggested) continue;
+    await repositories.closetItems.update(item.id, colorTagChanges(item, suggested));
+    updated++;
+  }
+  if (updated > 0) cache.invalidateByPrefix(CACHE_PREFIXES.CLOSET_ITEMS);
+  return { scanned: pending.length, updated };
+}
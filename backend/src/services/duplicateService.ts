@@ -0,0 +1,158 @@
+import { repositories } from '../repositories';
+import { hammingDistance } from '../media/perceptualHash';
+import { ClosetItem } from '../types';
+import {
+  deleteLookItem,
+  getAllClosetItems,
+  getLookItemIndex,
+  updateLookItem,
+} from '../utils/database-entities';
+import { trashClosetItem } from './trashService';
+import { moveWears } from './wearService';
+
+export interface DuplicateMatch {
+  itemId: string;
+  /** Differing bits between the two photo hashes (0 = same picture) */
+  distance: number;
+}
+
+/** Items in one closet whose photos look alike. Oldest first, so the first is the natural keeper. */
+export interface DuplicateGroup {
+  items: ClosetItem[];
+  /** Largest distance between any item and the group's first item */
+  distance: number;
+}
+
+export interface MergeResult {
+  item: ClosetItem;
+  mergedItemIds: string[];
+  lookItemsMoved: number;
+  lookItemsRemoved: number;
+  lookRequestsUpdated: number;
+  wearsMoved: number;
+}
+
+/** DUPLICATE_HASH_DISTANCE: most differing hash bits (of 64) for two photos to count as duplicates. Default 8. */
+export function getDuplicateDistance(): number {
+  const distance = Number(process.env.DUPLICATE_HASH_DISTANCE ?? 8);
+  return Number.isFinite(distance) && distance >= 0 ? distance : 8;
+}
+
+function byCreatedAt(a: ClosetItem, b: ClosetItem): number {
+  return a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Likely duplicates of freshly created items among everything else in their closets
+ * (including each other). Only items with a match are listed.
+ */
+export async function findDuplicatesOf(items: ClosetItem[]): Promise<{ itemId: string; matches: DuplicateMatch[] }[]> {
+  const maxDistance = getDuplicateDistance();
+  const results: { itemId: string; matches: DuplicateMatch[] }[] = [];
+  const closetItems = new Map<string, ClosetItem[]>();
+
+  for (const item of items) {
+    if (!item.photoHash) continue;
+    if (!closetItems.has(item.closetId)) closetItems.set(item.closetId, await getAllClosetItems(item.closetId));
+
+    const matches: DuplicateMatch[] = [];
+    for (const other of closetItems.get(item.closetId)!) {
+      if (other.id === item.id || !other.photoHash) continue;
+      const distance = hammingDistance(item.photoHash, other.photoHash);
+      if (distance <= maxDistance) matches.push({ itemId: other.id, distance });
+    }
+    if (matches.length > 0) {
+      results.push({ itemId: item.id, matches: matches.sort((a, b) => a.distance - b.distance) });
+    }
+  }
+  return results;
+}
+
+/**
+ * Group a closet's items by photo similarity. Items are linked when their hashes are within
+ * the duplicate distance, and linked items form one group, so A~B and B~C puts A, B and C
+ * together. Archived items are included; items without a hash (external photos) are not.
+ */
+export async function findDuplicateGroups(closetId: string): Promise<DuplicateGroup[]> {
+  const maxDistance = getDuplicateDistance();
+  const items = (await getAllClosetItems(closetId)).filter(i => i.photoHash).sort(byCreatedAt);
+
+  // Union-find over item positions
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (hammingDistance(items[i].photoHash!, items[j].photoHash!) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, ClosetItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(item);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => ({
+      items: group,
+      distance: Math.max(...group.slice(1).map(item => hammingDistance(group[0].photoHash!, item.photoHash!))),
+    }));
+}
+
+/**
+ * Fold duplicates into `keep`: look items and look requests that used a duplicate now use
+ * `keep` (a look that already has `keep` just loses the duplicate) and their wears join its
+ * wear log, then the duplicates go to the trash. All items must be in the same closet.
+ */
+export async function mergeClosetItems(keep: ClosetItem, duplicateIds: string[], mergedBy: string): Promise<MergeResult> {
+  const ids = [...new Set(duplicateIds)].filter(id => id !== keep.id);
+  for (const id of ids) {
+    const duplicate = await repositories.closetItems.findById(id);
+    if (!duplicate || duplicate.closetId !== keep.closetId) {
+      const err = new Error(`Closet item ${id} is not in the same closet`) as Error & { code?: string };
+      err.code = 'MERGE_INVALID_ITEM';
+      throw err;
+    }
+  }
+  const merged = new Set(ids);
+
+  const lookItemIndex = await getLookItemIndex();
+  const looksWithKeep = new Set(
+    lookItemIndex.where('itemId', keep.id).filter(li => li.itemType === 'closet_item').map(li => li.lookId)
+  );
+  let lookItemsMoved = 0;
+  let lookItemsRemoved = 0;
+  for (const lookItem of ids.flatMap(id => lookItemIndex.where('itemId', id))) {
+    if (lookItem.itemType !== 'closet_item') continue;
+    if (looksWithKeep.has(lookItem.lookId)) {
+      await deleteLookItem(lookItem.id);
+      lookItemsRemoved++;
+    } else {
+      await updateLookItem(lookItem.id, { itemId: keep.id });
+      looksWithKeep.add(lookItem.lookId);
+      lookItemsMoved++;
+    }
+  }
+
+  let lookRequestsUpdated = 0;
+  for (const request of await repositories.lookRequests.findAll()) {
+    if (!request.itemIds.some(itemId => merged.has(itemId))) continue;
+    const itemIds = [...new Set(request.itemIds.map(itemId => (merged.has(itemId) ? keep.id : itemId)))];
+    await repositories.lookRequests.update(request.id, { itemIds });
+    lookRequestsUpdated++;
+  }
+
+  const wearsMoved = await moveWears(ids, keep.id);
+
+  // Nothing references the duplicates any more, so restoring one from the trash brings back just the item
+  for (const id of ids) {
+    await trashClosetItem(id, mergedBy);
+  }
+
+  const item = (await repositories.closetItems.findById(keep.id)) ?? keep;
+  return { item, mergedItemIds: ids, lookItemsMoved, lookItemsRemoved, lookRequestsUpdated, wearsMoved };
+}
@@ -150,6 +150,7 @@ export async function sendLookApprovalEmail({
   stylistName,
   lookName,
   lookLink,
+  compositeImageUrl,
   customMessage,
 }: {
   to: string;
@@ -157,6 +158,7 @@ export async function sendLookApprovalEmail({
   stylistName: string;
   lookName: string;
   lookLink: string;
+  compositeImageUrl?: string;
   customMessage?: string;
 }): Promise<void> {
   const apiKey = getSendGridKey();
@@ -207,6 +209,7 @@ ${stylistName}
           </p>
           <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h3 style="color: #333; margin-top: 0;">${lookName}</h3>
+            ${compositeImageUrl ? `<img src="${compositeImageUrl}" alt="${lookName}" width="300" style="display: block; max-width: 100%; height: auto; margin: 0 auto 12px; border-radius: 4px;" />` : ''}
             ${customMessage ? '' : '<p style="color: #666; margin-bottom: 0;">You can review the look and approve it or request changes.</p>'}
           </div>
           <div style="margin: 30px 0; text-align: center;">
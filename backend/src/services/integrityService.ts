@@ -0,0 +1,241 @@
+import { CollectionKey, COLLECTIONS, getDataStoreKind, getRepository, StoredRecord } from '../repositories';
+import { cache } from '../utils/cache';
+
+type AnyRecord = StoredRecord & Record<string, any>;
+
+/**
+ * A foreign-key style reference between collections.
+ * cascade: the referencing record can't exist without its target and is deleted.
+ * nullify: the reference is optional; the field is cleared (or the id dropped from the array).
+ */
+interface ReferenceRule {
+  collection: CollectionKey;
+  field: string;
+  target: CollectionKey;
+  repair: 'cascade' | 'nullify';
+  /** Field holds an array of ids */
+  array?: boolean;
+  /** Only records matching this are checked (e.g. closet-item look items, not new purchases) */
+  when?: (record: AnyRecord) => boolean;
+}
+
+const REFERENCE_RULES: ReferenceRule[] = [
+  { collection: 'relationships', field: 'clientId', target: 'clients', repair: 'cascade' },
+  { collection: 'relationships', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'clientProfiles', field: 'clientId', target: 'clients', repair: 'cascade' },
+  { collection: 'clientProfiles', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'closets', field: 'ownerId', target: 'clients', repair: 'cascade' },
+  { collection: 'closets', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'closetItems', field: 'closetId', target: 'closets', repair: 'cascade' },
+  { collection: 'subcategories', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'looks', field: 'clientId', target: 'clients', repair: 'cascade' },
+  { collection: 'looks', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'looks', field: 'parentLookId', target: 'looks', repair: 'nullify' },
+  { collection: 'lookItems', field: 'lookId', target: 'looks', repair: 'cascade' },
+  {
+    collection: 'lookItems',
+    field: 'itemId',
+    target: 'closetItems',
+    repair: 'cascade',
+    when: record => record.itemType === 'closet_item',
+  },
+  { collection: 'lookRequests', field: 'clientId', target: 'clients', repair: 'cascade' },
+  { collection: 'lookRequests', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'lookRequests', field: 'itemIds', target: 'closetItems', repair: 'nullify', array: true },
+  { collection: 'lookTemplates', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'lookTemplates', field: 'sourceLookId', target: 'looks', repair: 'nullify' },
+  { collection: 'lookRevisions', field: 'lookId', target: 'looks', repair: 'cascade' },
+  { collection: 'lookStatusEvents', field: 'lookId', target: 'looks', repair: 'cascade' },
+  { collection: 'chatRooms', field: 'lookId', target: 'looks', repair: 'cascade' },
+  { collection: 'chatRooms', field: 'clientId', target: 'clients', repair: 'cascade' },
+  { collection: 'chatRooms', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'messages', field: 'chatRoomId', target: 'chatRooms', repair: 'cascade' },
+  { collection: 'receipts', field: 'clientId', target: 'clients', repair: 'cascade' },
+  { collection: 'receipts', field: 'stylistId', target: 'users', repair: 'cascade' },
+  { collection: 'closetItems', field: 'receiptId', target: 'receipts', repair: 'nullify' },
+  { collection: 'backgroundJobs', field: 'itemId', target: 'closetItems', repair: 'cascade' },
+  { collection: 'wearEvents', field: 'itemId', target: 'closetItems', repair: 'cascade' },
+  { collection: 'wearEvents', field: 'lookId', target: 'looks', repair: 'nullify' },
+  { collection: 'itemStatusEvents', field: 'itemId', target: 'closetItems', repair: 'cascade' },
+];
+
+const CHECKED_COLLECTIONS: CollectionKey[] = [
+  'users',
+  'clients',
+  'relationships',
+  'clientProfiles',
+  'closets',
+  'closetItems',
+  'subcategories',
+  'looks',
+  'lookItems',
+  'lookRevisions',
+  'lookStatusEvents',
+  'lookRequests',
+  'lookTemplates',
+  'chatRooms',
+  'messages',
+  'receipts',
+  'backgroundJobs',
+  'wearEvents',
+  'itemStatusEvents',
+];
+
+export interface IntegrityIssue {
+  /** e.g. "lookItems.lookId -> looks" */
+  type: string;
+  collection: CollectionKey;
+  recordId: string;
+  field: string;
+  missingId: string;
+  repair: 'cascade' | 'nullify';
+  /** 1 for problems in the stored data; higher passes are orphans created by cascading a repair */
+  pass: number;
+}
+
+export interface IntegrityReport {
+  generatedAt: string;
+  dataStore: string;
+  repaired: boolean;
+  recordCounts: Record<string, number>;
+  summary: {
+    totalIssues: number;
+    byType: Record<string, number>;
+    removed: Record<string, number>;
+    updated: Record<string, number>;
+  };
+  issues: IntegrityIssue[];
+}
+
+function ruleType(rule: ReferenceRule): string {
+  return `${rule.collection}.${rule.field} -> ${rule.target}`;
+}
+
+/** Find every dangling reference in the snapshot. Empty values (null, undefined, '') are not references. */
+function findIssues(snapshot: Map<CollectionKey, Map<string, AnyRecord>>, pass: number): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  for (const rule of REFERENCE_RULES) {
+    const targets = snapshot.get(rule.target)!;
+    for (const record of snapshot.get(rule.collection)!.values()) {
+      if (rule.when && !rule.when(record)) continue;
+      const value = record[rule.field];
+      const ids: unknown[] = rule.array ? (Array.isArray(value) ? value : []) : [value];
+      for (const id of ids) {
+        if (typeof id !== 'string' || id === '' || targets.has(id)) continue;
+        issues.push({
+          type: ruleType(rule),
+          collection: rule.collection,
+          recordId: record.id,
+          field: rule.field,
+          missingId: id,
+          repair: rule.repair,
+          pass,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Walk every collection and report references to records that no longer exist.
+ * With `repair`, dangling records are deleted (cascade) or their references cleared
+ * (nullify), repeating until nothing new is orphaned, and the changes are written back.
+ */
+export async function checkIntegrity(options: { repair?: boolean } = {}): Promise<IntegrityReport> {
+  const { repair = false } = options;
+
+  const snapshot = new Map<CollectionKey, Map<string, AnyRecord>>();
+  const recordCounts: Record<string, number> = {};
+  for (const key of CHECKED_COLLECTIONS) {
+    const records = await getRepository<AnyRecord>(COLLECTIONS[key]).findAll();
+    snapshot.set(key, new Map(records.map(r => [r.id, r])));
+    recordCounts[key] = records.length;
+  }
+
+  const issues = findIssues(snapshot, 1);
+  const removed = new Map<CollectionKey, Set<string>>();
+  // collection -> record id -> fields that were cleared
+  const updated = new Map<CollectionKey, Map<string, Set<string>>>();
+
+  if (repair) {
+    let pending = issues;
+    let pass = 1;
+    while (pending.length > 0) {
+      for (const issue of pending) {
+        const records = snapshot.get(issue.collection)!;
+        const record = records.get(issue.recordId);
+        if (!record) continue; // already removed by an earlier issue this pass
+
+        if (issue.repair === 'cascade') {
+          records.delete(issue.recordId);
+          if (!removed.has(issue.collection)) removed.set(issue.collection, new Set());
+          removed.get(issue.collection)!.add(issue.recordId);
+        } else {
+          const value = record[issue.field];
+          const cleared = Array.isArray(value) ? value.filter((id: unknown) => id !== issue.missingId) : undefined;
+          records.set(issue.recordId, { ...record, [issue.field]: cleared });
+          if (!updated.has(issue.collection)) updated.set(issue.collection, new Map());
+          const fields = updated.get(issue.collection)!;
+          if (!fields.has(issue.recordId)) fields.set(issue.recordId, new Set());
+          fields.get(issue.recordId)!.add(issue.field);
+        }
+      }
+      pass++;
+      pending = findIssues(snapshot, pass);
+      issues.push(...pending);
+    }
+
+    await applyRepairs(snapshot, removed, updated);
+  }
+
+  const byType: Record<string, number> = {};
+  for (const issue of issues) {
+    byType[issue.type] = (byType[issue.type] ?? 0) + 1;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    dataStore: getDataStoreKind(),
+    repaired: repair,
+    recordCounts,
+    summary: {
+      totalIssues: issues.length,
+      byType,
+      removed: Object.fromEntries([...removed].map(([key, ids]) => [key, ids.size])),
+      updated: Object.fromEntries(
+        [...updated].map(([key, ids]) => [key, [...ids.keys()].filter(id => !removed.get(key)?.has(id)).length])
+      ),
+    },
+    issues,
+  };
+}
+
+/** Write repairs record by record rather than rewriting whole collections. */
+async function applyRepairs(
+  snapshot: Map<CollectionKey, Map<string, AnyRecord>>,
+  removed: Map<CollectionKey, Set<string>>,
+  updated: Map<CollectionKey, Map<string, Set<string>>>
+): Promise<void> {
+  for (const [key, ids] of removed) {
+    const repo = getRepository<AnyRecord>(COLLECTIONS[key]);
+    for (const id of ids) {
+      await repo.remove(id);
+    }
+  }
+  for (const [key, records] of updated) {
+    const repo = getRepository<AnyRecord>(COLLECTIONS[key]);
+    for (const [id, fields] of records) {
+      if (removed.get(key)?.has(id)) continue;
+      const record = snapshot.get(key)!.get(id)!;
+      // Only the cleared fields, so concurrent edits to the rest of the record survive
+      const changes: Partial<AnyRecord> = {};
+      for (const field of fields) changes[field] = record[field];
+      await repo.update(id, changes);
+    }
+  }
+  if (removed.size > 0 || updated.size > 0) {
+    // Repairs bypass the entity helpers, so nothing cached can be trusted
+    cache.clear();
+  }
+}
@@ -0,0 +1,269 @@
+import { repositories } from '../repositories';
+import { Client, Closet, ClosetItem, ItemStatus, ItemStatusEvent } from '../types';
+import { cache, CACHE_PREFIXES } from '../utils/cache';
+import { recordChange } from './changeLogService';
+
+export const ITEM_STATUSES: readonly ItemStatus[] = [
+  'active',
+  'tailoring',
+  'dry_cleaning',
+  'lent_out',
+  'consigned',
+  'donated',
+  'sold',
+];
+
+/** Out of the closet for now; these may carry expectedBackOn */
+export const AWAY_STATUSES: readonly ItemStatus[] = ['tailoring', 'dry_cleaning', 'lent_out', 'consigned'];
+
+/** Out of the closet for good; items in these states are archived */
+export const GONE_STATUSES: readonly ItemStatus[] = ['donated', 'sold'];
+
+/** States a change can record an amount for */
+const AMOUNT_STATUSES: readonly ItemStatus[] = ['consigned', 'sold'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface StatusChangeInput {
+  status?: unknown;
+  /** YYYY-MM-DD; defaults to today */
+  changedOn?: unknown;
+  note?: unknown;
+  amount?: unknown;
+  expectedBackOn?: unknown;
+}
+
+export interface ProceedsEntry {
+  itemId: string;
+  itemName: string;
+  closetId: string;
+  closetName: string;
+  /** Day the item was consigned or sold */
+  date?: string;
+  amount?: number;
+}
+
+export interface ClientProceeds {
+  clientId: string;
+  clientName: string;
+  /** Items out on consignment now, with the agreed payout when one was recorded */
+  consigned: ProceedsEntry[];
+  sold: ProceedsEntry[];
+  consignedTotal: number;
+  soldTotal: number;
+}
+
+function statusError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+export function itemStatus(item: ClosetItem): ItemStatus {
+  return item.status ?? 'active';
+}
+
+/**
+ * Whether an item can be worn: active items always, away items only when they are expected
+ * back by onDate, gone (and archived) items never. Without a date, away items are unavailable.
+ */
+export function isItemAvailable(item: ClosetItem, onDate?: string): boolean {
+  if (item.archived) return false;
+  const status = itemStatus(item);
+  if (status === 'active') return true;
+  if (!AWAY_STATUSES.includes(status)) return false;
+  return !!onDate && !!item.expectedBackOn && item.expectedBackOn <= onDate.slice(0, 10);
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function parseDate(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !DATE_ONLY.test(value) || new Date(value).toISOString().slice(0, 10) !== value) {
+    throw statusError('STATUS_INVALID', `${field} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+/** Validate a status change against the item's current state */
+function parseChange(item: ClosetItem, input: StatusChangeInput) {
+  const status = input.status;
+  if (typeof status !== 'string' || !ITEM_STATUSES.includes(status as ItemStatus)) {
+    throw statusError('STATUS_INVALID', `status must be one of: ${ITEM_STATUSES.join(', ')}`);
+  }
+  const next = status as ItemStatus;
+  const previous = itemStatus(item);
+  if (next === previous) {
+    throw statusError('STATUS_UNCHANGED', `Item is already ${next.replace('_', ' ')}`);
+  }
+
+  const changedOn = parseDate(input.changedOn, 'changedOn') ?? today();
+  // Days are UTC; allowing tomorrow lets clients ahead of UTC date a change on their own today
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  if (changedOn > tomorrow) {
+    throw statusError('STATUS_INVALID', 'Status changes cannot be dated in the future');
+  }
+  // The log is in date order; a change can't land before the one it follows
+  if (item.statusChangedOn && changedOn < item.statusChangedOn) {
+    throw statusError('STATUS_INVALID', `changedOn cannot be before the current status's date (${item.statusChangedOn})`);
+  }
+
+  const expectedBackOn = parseDate(input.expectedBackOn, 'expectedBackOn');
+  if (expectedBackOn && !AWAY_STATUSES.includes(next)) {
+    throw statusError('STATUS_INVALID', 'expectedBackOn only applies to items that are away');
+  }
+  if (expectedBackOn && expectedBackOn < changedOn) {
+    throw statusError('STATUS_INVALID', 'expectedBackOn cannot be before the change');
+  }
+
+  let amount: number | undefined;
+  if (input.amount !== undefined && input.amount !== null && input.amount !== '') {
+    if (!AMOUNT_STATUSES.includes(next)) {
+      throw statusError('STATUS_INVALID', 'amount can only be recorded for consigned or sold items');
+    }
+    amount = typeof input.amount === 'number' ? input.amount : Number(input.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw statusError('STATUS_INVALID', 'amount must be a number of zero or more');
+    }
+    amount = Math.round(amount * 100) / 100;
+  }
+
+  const note = typeof input.note === 'string' ? input.note.trim() : '';
+  return { status: next, previousStatus: previous, changedOn, expectedBackOn, amount, note };
+}
+
+/**
+ * Record a status change and apply it to the item. Going to donated or sold archives the item;
+ * coming back from there unarchives it. Throws STATUS_INVALID or STATUS_UNCHANGED.
+ */
+export async function changeItemStatus(
+  item: ClosetItem,
+  input: StatusChangeInput,
+  changedBy: string
+): Promise<{ item: ClosetItem; event: ItemStatusEvent }> {
+  const change = parseChange(item, input);
+  const event: ItemStatusEvent = {
+    id: `status_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    itemId: item.id,
+    status: change.status,
+    previousStatus: change.previousStatus,
+    changedOn: change.changedOn,
+    ...(change.note && { note: change.note }),
+    ...(change.amount !== undefined && { amount: change.amount }),
+    ...(change.expectedBackOn && { expectedBackOn: change.expectedBackOn }),
+    changedBy,
+    createdAt: new Date().toISOString(),
+  };
+  await repositories.itemStatusEvents.insert(event);
+
+  const wasGone = GONE_STATUSES.includes(change.previousStatus);
+  const isGone = GONE_STATUSES.includes(change.status);
+  const updated = await repositories.closetItems.update(item.id, {
+    status: change.status,
+    statusChangedOn: change.changedOn,
+    expectedBackOn: change.expectedBackOn,
+    ...(isGone !== wasGone && { archived: isGone }),
+    updatedBy: changedBy,
+    updatedAt: new Date().toISOString(),
+  });
+  cache.invalidateByPrefix(CACHE_PREFIXES.CLOSET_ITEMS);
+  if (updated) await recordChange('closet_item', item.id, 'update', changedBy, item, updated);
+  return { item: updated ?? item, event };
+}
+
+/**
+ * Archive an item or bring it back. Donated and sold items stay archived until their status
+ * changes, so `archived` always agrees with the status log. Throws STATUS_INVALID or STATUS_UNCHANGED.
+ */
+export async function setItemArchived(item: ClosetItem, archived: boolean, changedBy: string): Promise<ClosetItem> {
+  if (item.archived === archived) {
+    throw statusError('STATUS_UNCHANGED', archived ? 'Item is already archived' : 'Item is not archived');
+  }
+  const status = itemStatus(item);
+  if (!archived && GONE_STATUSES.includes(status)) {
+    throw statusError('STATUS_INVALID', `Item is ${status}; change its status to bring it back`);
+  }
+
+  const updated = await repositories.closetItems.update(item.id, {
+    archived,
+    updatedBy: changedBy,
+    updatedAt: new Date().toISOString(),
+  });
+  cache.invalidateByPrefix(CACHE_PREFIXES.CLOSET_ITEMS);
+  if (updated) await recordChange('closet_item', item.id, 'update', changedBy, item, updated);
+  return updated ?? item;
+}
+
+/** An item's status changes, most recent first */
+export async function getStatusHistory(itemId: string): Promise<ItemStatusEvent[]> {
+  const events = await repositories.itemStatusEvents.findWhere({ itemId });
+  return events.sort((a, b) => b.changedOn.localeCompare(a.changedOn) || b.createdAt.localeCompare(a.createdAt));
+}
+
+/** The latest change that put the item in its current status */
+function latestEvent(events: ItemStatusEvent[], status: ItemStatus): ItemStatusEvent | undefined {
+  return events.find(e => e.status === status);
+}
+
+/**
+ * Consigned and sold items per client, across the given closets. Amounts come from the
+ * change that consigned or sold each item.
+ */
+export async function getProceedsReport(clients: Client[], closets: Closet[]): Promise<ClientProceeds[]> {
+  const closetsById = new Map(closets.map(c => [c.id, c]));
+  const items = (await repositories.closetItems.findAll()).filter(item => {
+    const status = itemStatus(item);
+    return closetsById.has(item.closetId) && (status === 'consigned' || status === 'sold');
+  });
+
+  const eventsByItem = new Map<string, ItemStatusEvent[]>();
+  const itemIds = new Set(items.map(i => i.id));
+  for (const event of await repositories.itemStatusEvents.findAll()) {
+    if (!itemIds.has(event.itemId)) continue;
+    if (!eventsByItem.has(event.itemId)) eventsByItem.set(event.itemId, []);
+    eventsByItem.get(event.itemId)!.push(event);
+  }
+  eventsByItem.forEach(events =>
+    events.sort((a, b) => b.changedOn.localeCompare(a.changedOn) || b.createdAt.localeCompare(a.createdAt))
+  );
+
+  const report = new Map<string, ClientProceeds>(
+    clients.map(client => [
+      client.id,
+      { clientId: client.id, clientName: client.name, consigned: [], sold: [], consignedTotal: 0, soldTotal: 0 },
+    ])
+  );
+  for (const item of items) {
+    const closet = closetsById.get(item.closetId)!;
+    const entry = report.get(closet.ownerId);
+    if (!entry) continue;
+    const status = itemStatus(item);
+    const event = latestEvent(eventsByItem.get(item.id) ?? [], status);
+    const row: ProceedsEntry = {
+      itemId: item.id,
+      itemName: item.name,
+      closetId: closet.id,
+      closetName: closet.name,
+      ...((event?.changedOn ?? item.statusChangedOn) && { date: event?.changedOn ?? item.statusChangedOn }),
+      ...(event?.amount !== undefined && { amount: event.amount }),
+    };
+    if (status === 'sold') {
+      entry.sold.push(row);
+      entry.soldTotal += row.amount ?? 0;
+    } else {
+      entry.consigned.push(row);
+      entry.consignedTotal += row.amount ?? 0;
+    }
+  }
+
+  const byDate = (a: ProceedsEntry, b: ProceedsEntry) => (b.date ?? '').localeCompare(a.date ?? '');
+  return [...report.values()].map(entry => ({
+    ...entry,
+    consigned: entry.consigned.sort(byDate),
+    sold: entry.sold.sort(byDate),
+    consignedTotal: Math.round(entry.consignedTotal * 100) / 100,
+    soldTotal: Math.round(entry.soldTotal * 100) / 100,
+  }));
+}
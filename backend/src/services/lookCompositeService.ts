@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { repositories } from '../repositories';
+import { getMediaBaseUrl, getMediaStore, mediaKeyFromUrl, mediaUrl, parseDataUrl } from '../media';
+import { ClosetItem, Look, LookItem } from '../types';
+import { cache, CACHE_PREFIXES } from '../utils/cache';
+import { signLinkValue } from '../utils/jwt';
+
+// Same layout the look composer saves positions against: percentages of a 600x800
+// canvas, with a scale of 1 drawing an item in a 180px square
+export const COMPOSITE_WIDTH = 600;
+export const COMPOSITE_HEIGHT = 800;
+const BASE_ITEM_SIZE = 180;
+
+// Item edits usually arrive as a burst of requests (remove, bulk add, reposition)
+const RENDER_DELAY_MS = 1500;
+// Signed composite links outlive the email they were sent in by about a month
+const COMPOSITE_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+type ItemImage = Pick<ClosetItem, 'photoUrl' | 'previewUrl' | 'cutoutUrl'>;
+
+const pendingRenders = new Map<string, NodeJS.Timeout>();
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Signed URL that always serves the look's current composite without a login (for emails,
+ * which can't send a token). The signature covers the look id and the expiry.
+ */
+export function lookCompositeUrl(lookId: string): string {
+  const exp = Math.floor(Date.now() / 1000) + COMPOSITE_LINK_TTL_SECONDS;
+  const sig = signLinkValue(`${lookId}.${exp}`);
+  return `${getMediaBaseUrl()}/api/looks/${lookId}/composite.png?exp=${exp}&sig=${sig}`;
+}
+
+/** Whether `exp` and `sig` come from lookCompositeUrl(lookId) and haven't expired. */
+export function isSignedLookComposite(lookId: string, exp: string, sig: string): boolean {
+  const expiresAt = Number(exp);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+  const expected = Buffer.from(signLinkValue(`${lookId}.${exp}`));
+  const given = Buffer.from(sig);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+function invalidateLooks(): void {
+  cache.invalidateByPrefix(CACHE_PREFIXES.LOOKS);
+}
+
+/**
+ * Bytes of an item image from the media store or a legacy data URL. External links are
+ * user-supplied, so the server never fetches them (they'd let anyone make it request internal
+ * addresses); such items are left out of the composite and listed on the look. Null if the image can't be loaded.
+ */
+async function loadImage(url: string): Promise<Buffer | null> {
+  try {
+    const key = mediaKeyFromUrl(url);
+    if (key) return (await getMediaStore().get(key))?.data ?? null;
+
+    return parseDataUrl(url)?.data ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** The image drawn for a look item: its cutout, then the preview rendition, then the original photo. */
+async function imageForLookItem(lookItem: LookItem): Promise<string | undefined> {
+  const image: Partial<ItemImage> | null | undefined = lookItem.itemType === 'new_purchase'
+    ? lookItem.newItemDetails
+    : await repositories.closetItems.findById(lookItem.itemId);
+  return image?.cutoutUrl || image?.previewUrl || image?.photoUrl || undefined;
+}
+
+/**
+ * Draw one item into its box (aspect ratio kept, transparent padding) and crop whatever
+ * falls outside the canvas. Null when the image can't be decoded or is entirely off-canvas.
+ */
+async function drawItem(data: Buffer, lookItem: LookItem): Promise<sharp.OverlayOptions | null> {
+  const size = Math.max(1, Math.round(BASE_ITEM_SIZE * (lookItem.scale ?? 1)));
+  const left = Math.round(((lookItem.positionX ?? 0) / 100) * COMPOSITE_WIDTH);
+  const top = Math.round(((lookItem.positionY ?? 0) / 100) * COMPOSITE_HEIGHT);
+
+  const visibleLeft = Math.max(left, 0);
+  const visibleTop = Math.max(top, 0);
+  const visibleWidth = Math.min(left + size, COMPOSITE_WIDTH) - visibleLeft;
+  const visibleHeight = Math.min(top + size, COMPOSITE_HEIGHT) - visibleTop;
+  if (visibleWidth <= 0 || visibleHeight <= 0) return null;
+
+  try {
+    const input = await sharp(data)
+      .rotate()
+      .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .extract({ left: visibleLeft - left, top: visibleTop - top, width: visibleWidth, height: visibleHeight })
+      .png()
+      .toBuffer();
+    return { input, left: visibleLeft, top: visibleTop };
+  } catch {
+    return null;
+  }
+}
+
+interface RenderedComposite {
+  image: Buffer;
+  /** Look items with a picture that couldn't be loaded (e.g. an external link), so not drawn */
+  missingItemIds: string[];
+}
+
+/**
+ * Render a look's items onto a white canvas. Items are layered by sort order, so the same
+ * items, positions and images always produce the same PNG (and the same media key).
+ */
+async function renderCompositeImage(lookItems: LookItem[]): Promise<RenderedComposite> {
+  const ordered = [...lookItems].sort((a, b) => a.sortOrder - b.sortOrder || a.id.localeCompare(b.id));
+
+  const overlays: sharp.OverlayOptions[] = [];
+  const missingItemIds: string[] = [];
+  for (const lookItem of ordered) {
+    const url = await imageForLookItem(lookItem);
+    const data = url ? await loadImage(url) : null;
+    if (url && !data) missingItemIds.push(lookItem.id);
+    const overlay = data ? await drawItem(data, lookItem) : null;
+    if (overlay) overlays.push(overlay);
+  }
+
+  const image = await sharp({
+    create: { width: COMPOSITE_WIDTH, height: COMPOSITE_HEIGHT, channels: 3, background: '#ffffff' },
+  })
+    .composite(overlays)
+    .removeAlpha()
+    .png()
+    .toBuffer();
+  return { image, missingItemIds };
+}
+
+/** The look fields a render writes: the composite's URL and which items it leaves out */
+export async function storeComposite(
+  lookItems: LookItem[] | undefined
+): Promise<Pick<Look, 'compositeImageUrl' | 'compositeMissingItemIds'>> {
+  if (!lookItems || lookItems.length === 0) {
+    return { compositeImageUrl: undefined, compositeMissingItemIds: undefined };
+  }
+  const { image, missingItemIds } = await renderCompositeImage(lookItems);
+  const stored = await getMediaStore().put(image, 'image/png');
+  return {
+    compositeImageUrl: mediaUrl(stored.key),
+    compositeMissingItemIds: missingItemIds.length > 0 ? missingItemIds : undefined,
+  };
+}
+
+/** Whether a render changed anything on the look */
+export function compositeChanged(
+  look: Look,
+  composite: Pick<Look, 'compositeImageUrl' | 'compositeMissingItemIds'>
+): boolean {
+  return composite.compositeImageUrl !== look.compositeImageUrl
+    || (composite.compositeMissingItemIds ?? []).join() !== (look.compositeMissingItemIds ?? []).join();
+}
+
+async function renderNow(lookId: string): Promise<Look | null> {
+  const look = await repositories.looks.findById(lookId);
+  if (!look) return null;
+
+  const composite = await storeComposite(await repositories.lookItems.findWhere({ lookId }));
+  if (!compositeChanged(look, composite)) return look;
+  // Not an edit by the stylist, so updatedAt stays as it is
+  const updated = await repositories.looks.update(lookId, composite);
+  invalidateLooks();
+  return updated;
+}
+
+/**
+ * Re-render a look's composite and store it as `look.compositeImageUrl` (cleared for looks
+ * without items), with `compositeMissingItemIds` listing the items it couldn't draw. Renders run one at a time. Returns the updated look, or null if it's gone.
+ */
+export function renderLookComposite(lookId: string): Promise<Look | null> {
+  const timer = pendingRenders.get(lookId);
+  if (timer) {
+    clearTimeout(timer);
+    pendingRenders.delete(lookId);
+  }
+
+  const render = renderQueue.then(() => renderNow(lookId));
+  renderQueue = render.catch(() => undefined);
+  return render;
+}
+
+/** Re-render shortly, once a burst of edits to the look's items has settled. */
+export function scheduleLookComposite(lookId: string): void {
+  const existing = pendingRenders.get(lookId);
+  if (existing) clearTimeout(existing);
+
+  pendingRenders.set(lookId, setTimeout(() => {
+    pendingRenders.delete(lookId);
+    renderLookComposite(lookId).catch(error => {
+      console.error(`❌ Could not render composite for look ${lookId}:`, error.message);
+    });
+  }, RENDER_DELAY_MS));
+}
+
+export function isLookCompositePending(lookId: string): boolean {
+  return pendingRenders.has(lookId);
+}
+
+/** Re-render every look that shows one of these closet items (e.g. after its photo or cutout changed). */
+export async function scheduleCompositesForClosetItems(itemIds: string[]): Promise<void> {
+  const ids = new Set(itemIds);
+  const lookItems = await repositories.lookItems.findAll();
+  const lookIds = new Set(lookItems.filter(li => ids.has(li.itemId)).map(li => li.lookId));
+  lookIds.forEach(scheduleLookComposite);
+}
+
+async function readComposite(look: Look | null): Promise<{ key: string; data: Buffer } | null> {
+  const key = look?.compositeImageUrl ? mediaKeyFromUrl(look.compositeImageUrl) : null;
+  const stored = key ? await getMediaStore().get(key) : null;
+  return key && stored ? { key, data: stored.data } : null;
+}
+
+/**
+ * Bytes of the look's current composite, rendering it first if edits are still pending or
+ * it was never rendered here. Null when the look doesn't exist or has no items.
+ */
+export async function getLookComposite(lookId: string): Promise<{ key: string; data: Buffer } | null> {
+  let look = await repositories.looks.findById(lookId);
+  if (!look) return null;
+  if (isLookCompositePending(lookId)) look = await renderLookComposite(lookId);
+
+  const composite = await readComposite(look);
+  if (composite || !look) return composite;
+  return readComposite(await renderLookComposite(lookId));
+}
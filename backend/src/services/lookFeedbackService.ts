@@ -0,0 +1,66 @@
+import { repositories } from '../repositories';
+import { LookFeedbackReason, LookItem, LookItemFeedback, LookStatusEvent } from '../types';
+
+export const LOOK_FEEDBACK_REASONS: readonly LookFeedbackReason[] = ['fit', 'color', 'occasion', 'comfort'];
+
+function feedbackError(message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = 'LOOK_FEEDBACK_INVALID';
+  return err;
+}
+
+async function lookItemName(lookItem: LookItem): Promise<string | undefined> {
+  if (lookItem.itemType === 'new_purchase') return lookItem.newItemDetails?.name;
+  return (await repositories.closetItems.findById(lookItem.itemId))?.name;
+}
+
+/**
+ * Check a client's per-item feedback against the look's items. Each entry is
+ * { lookItemId, verdict: 'up' | 'down', reasons?, comment? } and an item may appear once.
+ * The item id and name are copied in so the feedback still reads after the look is edited.
+ */
+export async function parseLookItemFeedback(lookId: string, input: unknown): Promise<LookItemFeedback[]> {
+  if (!Array.isArray(input)) throw feedbackError('itemFeedback must be an array');
+
+  const lookItems = new Map((await repositories.lookItems.findWhere({ lookId })).map(li => [li.id, li]));
+  const feedback: LookItemFeedback[] = [];
+  for (const entry of input) {
+    const { lookItemId, verdict, reasons = [], comment } = (entry ?? {}) as Record<string, unknown>;
+    const lookItem = typeof lookItemId === 'string' ? lookItems.get(lookItemId) : undefined;
+    if (!lookItem) throw feedbackError('itemFeedback refers to an item that is not in this look');
+    if (feedback.some(f => f.lookItemId === lookItem.id)) {
+      throw feedbackError(`Feedback for look item ${lookItem.id} was given twice`);
+    }
+    if (verdict !== 'up' && verdict !== 'down') throw feedbackError('verdict must be "up" or "down"');
+    if (!Array.isArray(reasons) || !reasons.every(r => LOOK_FEEDBACK_REASONS.includes(r))) {
+      throw feedbackError(`reasons must be a list of: ${LOOK_FEEDBACK_REASONS.join(', ')}`);
+    }
+    if (comment !== undefined && typeof comment !== 'string') throw feedbackError('comment must be a string');
+
+    const name = await lookItemName(lookItem);
+    const text = comment?.trim();
+    feedback.push({
+      lookItemId: lookItem.id,
+      itemId: lookItem.itemId,
+      ...(name && { name }),
+      verdict,
+      ...(reasons.length > 0 && { reasons: [...new Set(reasons as LookFeedbackReason[])] }),
+      ...(text && { comment: text }),
+    });
+  }
+  return feedback;
+}
+
+/**
+ * The client's latest request for changes, as long as the look hasn't been sent to them again
+ * since. Null when there is nothing left to act on.
+ */
+export async function getOpenLookFeedback(lookId: string): Promise<LookStatusEvent | null> {
+  const events = (await repositories.lookStatusEvents.findWhere({ lookId }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  for (const event of events) {
+    if (event.status === 'pending') return null;
+    if (event.status === 'changes_requested') return event;
+  }
+  return null;
+}
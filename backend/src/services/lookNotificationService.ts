@@ -0,0 +1,57 @@
+import { getIO } from '../socket/socket';
+import { findUserByEmail, findUserById } from '../utils/database';
+import { getClientById } from '../utils/database-entities';
+import { sendLookApprovalEmail } from './emailService';
+import { lookCompositeUrl } from './lookCompositeService';
+import { LookStatusChange, onLookStatusChange } from './lookStatusService';
+
+/** Tell the stylist and the client (if they have an account) about the change as it happens */
+async function pushStatusChange({ look, event }: LookStatusChange): Promise<void> {
+  let io;
+  try {
+    io = getIO();
+  } catch {
+    return; // Not running as the web server (e.g. a CLI script)
+  }
+  const client = await getClientById(look.clientId);
+  const clientUser = client?.email ? await findUserByEmail(client.email) : null;
+  const payload = { look, event };
+  io.to(`user:${look.stylistId}`).emit('look-status-changed', payload);
+  if (clientUser) io.to(`user:${clientUser.id}`).emit('look-status-changed', payload);
+}
+
+/** Email the client a link to review a look that was just sent for approval */
+async function emailApprovalRequest({ look, event, origin }: LookStatusChange): Promise<void> {
+  if (event.status !== 'pending') return;
+
+  const client = await getClientById(look.clientId);
+  const stylist = await findUserById(look.stylistId);
+  if (!client?.email || !stylist) {
+    console.warn(`⚠️ Could not send look approval email for look ${look.id}: missing client email or stylist`);
+    return;
+  }
+
+  const frontendUrl = (process.env.FRONTEND_URL?.trim() || origin || 'http://localhost:5137').replace(/\/$/, '');
+  try {
+    await sendLookApprovalEmail({
+      to: client.email,
+      clientName: client.name,
+      stylistName: stylist.name,
+      lookName: look.name,
+      // Links straight to the look
+      lookLink: `${frontendUrl}/looks?lookId=${look.id}`,
+      compositeImageUrl: lookCompositeUrl(look.id),
+      customMessage: look.stylingNotes ? `Styling Notes: ${look.stylingNotes}` : undefined,
+    });
+    console.log('✅ Look approval email sent successfully to:', client.email);
+  } catch (error: any) {
+    // Sending still succeeded; the client can find the look in the app
+    console.error('❌ Failed to send look approval email:', error.message);
+  }
+}
+
+/** Hook notifications up to look status changes. Call once at startup. */
+export function registerLookNotifications(): void {
+  onLookStatusChange(pushStatusChange);
+  onLookStatusChange(emailApprovalRequest);
+}
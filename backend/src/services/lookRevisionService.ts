@@ -0,0 +1,192 @@
+import { repositories } from '../repositories';
+import { FieldChange, Look, LookItem, LookRevision, LookRevisionItem } from '../types';
+import { bulkCreateLookItems, createLook } from '../utils/database-entities';
+import { diffFields } from './changeLogService';
+import { renderLookComposite } from './lookCompositeService';
+
+/** Where an item sits on the look canvas */
+type Placement = Pick<LookRevisionItem, 'positionX' | 'positionY' | 'scale'>;
+
+export interface MovedLookItem {
+  itemId: string;
+  name?: string;
+  before: Placement;
+  after: Placement;
+}
+
+export interface LookRevisionDiff {
+  from: number;
+  to: number;
+  /** Changes to name, occasion, event date and styling notes */
+  fields: FieldChange[];
+  added: LookRevisionItem[];
+  removed: LookRevisionItem[];
+  /** Items in both revisions whose position or size changed */
+  moved: MovedLookItem[];
+}
+
+function revisionError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+async function snapshotItem(lookItem: LookItem): Promise<LookRevisionItem> {
+  const source = lookItem.itemType === 'new_purchase'
+    ? lookItem.newItemDetails
+    : await repositories.closetItems.findById(lookItem.itemId);
+  const imageUrl = source?.previewUrl || source?.photoUrl;
+  return {
+    itemId: lookItem.itemId,
+    itemType: lookItem.itemType,
+    ...(lookItem.newItemDetails && { newItemDetails: lookItem.newItemDetails }),
+    sortOrder: lookItem.sortOrder,
+    ...(lookItem.positionX != null && { positionX: lookItem.positionX }),
+    ...(lookItem.positionY != null && { positionY: lookItem.positionY }),
+    ...(lookItem.scale != null && { scale: lookItem.scale }),
+    ...(source?.name && { name: source.name }),
+    ...(imageUrl && { imageUrl }),
+  };
+}
+
+/**
+ * Freeze the look as it is being sent for approval: its details, items with their positions,
+ * and a freshly rendered composite. The revision is returned unsaved, so the caller can store it
+ * together with the status change. Returns null if the look no longer exists.
+ */
+export async function buildLookRevision(lookId: string, createdBy: string): Promise<LookRevision | null> {
+  let look: Look | null;
+  try {
+    look = await renderLookComposite(lookId);
+  } catch (error: any) {
+    // An older composite is better than no revision at all
+    console.error(`❌ Could not render composite for look ${lookId}:`, error.message);
+    look = await repositories.looks.findById(lookId);
+  }
+  if (!look) return null;
+
+  const lookItems = (await repositories.lookItems.findWhere({ lookId }))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id.localeCompare(b.id));
+  const items: LookRevisionItem[] = [];
+  for (const lookItem of lookItems) items.push(await snapshotItem(lookItem));
+
+  const previous = await repositories.lookRevisions.findWhere({ lookId });
+  const revision: LookRevision = {
+    id: `lookrev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    lookId,
+    revision: previous.reduce((max, r) => Math.max(max, r.revision), 0) + 1,
+    name: look.name,
+    ...(look.occasion && { occasion: look.occasion }),
+    ...(look.eventDate && { eventDate: look.eventDate }),
+    ...(look.stylingNotes && { stylingNotes: look.stylingNotes }),
+    items,
+    ...(look.compositeImageUrl && { compositeImageUrl: look.compositeImageUrl }),
+    ...(look.compositeMissingItemIds && { compositeMissingItemIds: look.compositeMissingItemIds }),
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  return revision;
+}
+
+/** Note the client's answer on the revision they were looking at (the latest one) */
+export async function recordLookResponse(
+  lookId: string,
+  response: NonNullable<LookRevision['response']>
+): Promise<void> {
+  const [latest] = await getLookRevisions(lookId);
+  if (!latest || latest.response) return;
+  await repositories.lookRevisions.update(latest.id, { response, respondedAt: new Date().toISOString() });
+}
+
+/** A look's revisions, newest first */
+export async function getLookRevisions(lookId: string): Promise<LookRevision[]> {
+  const revisions = await repositories.lookRevisions.findWhere({ lookId });
+  return revisions.sort((a, b) => b.revision - a.revision);
+}
+
+async function findRevision(lookId: string, revision: number): Promise<LookRevision> {
+  const [found] = await repositories.lookRevisions.findWhere({ lookId, revision });
+  if (!found) throw revisionError('REVISION_NOT_FOUND', `Revision ${revision} not found`);
+  return found;
+}
+
+function placement(item: LookRevisionItem): Placement {
+  return { positionX: item.positionX, positionY: item.positionY, scale: item.scale };
+}
+
+const lookDetails = (revision: LookRevision) => ({
+  name: revision.name,
+  occasion: revision.occasion,
+  eventDate: revision.eventDate,
+  stylingNotes: revision.stylingNotes,
+});
+
+/**
+ * What changed from one revision to another. Items are matched by itemId. Without `to` the
+ * latest revision is used, without `from` the one before `to`.
+ */
+export async function diffLookRevisions(lookId: string, from?: number, to?: number): Promise<LookRevisionDiff> {
+  for (const value of [from, to]) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw revisionError('REVISION_INVALID', 'Revisions are numbered from 1');
+    }
+  }
+  const toNumber = to ?? (await getLookRevisions(lookId))[0]?.revision;
+  if (toNumber === undefined) throw revisionError('REVISION_NOT_FOUND', 'This look has not been sent for approval yet');
+  const fromNumber = from ?? toNumber - 1;
+  if (fromNumber < 1) throw revisionError('REVISION_INVALID', 'There is no earlier revision to compare with');
+
+  const before = await findRevision(lookId, fromNumber);
+  const after = await findRevision(lookId, toNumber);
+  const beforeItems = new Map(before.items.map(item => [item.itemId, item]));
+  const afterItems = new Map(after.items.map(item => [item.itemId, item]));
+
+  const moved: MovedLookItem[] = [];
+  for (const item of after.items) {
+    const previous = beforeItems.get(item.itemId);
+    if (!previous || JSON.stringify(placement(previous)) === JSON.stringify(placement(item))) continue;
+    moved.push({
+      itemId: item.itemId,
+      ...(item.name && { name: item.name }),
+      before: placement(previous),
+      after: placement(item),
+    });
+  }
+
+  return {
+    from: fromNumber,
+    to: toNumber,
+    fields: diffFields(lookDetails(before), lookDetails(after)),
+    added: after.items.filter(item => !beforeItems.has(item.itemId)),
+    removed: before.items.filter(item => !afterItems.has(item.itemId)),
+    moved,
+  };
+}
+
+/**
+ * Start a new draft look from an old revision: same client, details, items and positions,
+ * with parentLookId pointing at the original. Closet items deleted since are left out. The
+ * original look and its revisions stay as they are.
+ */
+export async function restoreLookRevision(
+  look: Look,
+  revision: number,
+  stylistId: string
+): Promise<{ look: Look; items: LookItem[] }> {
+  const source = await findRevision(look.id, revision);
+  const draft = await createLook({
+    clientId: look.clientId,
+    ...lookDetails(source),
+    status: 'draft',
+    parentLookId: look.id,
+  }, stylistId);
+  const available: LookRevisionItem[] = [];
+  for (const item of source.items) {
+    if (item.itemType === 'closet_item' && !(await repositories.closetItems.findById(item.itemId))) continue;
+    available.push(item);
+  }
+  const items = available.length > 0
+    ? await bulkCreateLookItems(available.map(({ name: _name, imageUrl: _image, ...item }) => ({ ...item, lookId: draft.id })))
+    : [];
+  return { look: draft, items };
+}
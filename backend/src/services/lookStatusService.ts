@@ -0,0 +1,192 @@
+import { repositories } from '../repositories';
+import { Look, LookStatus, LookStatusEvent } from '../types';
+import { findUserById } from '../utils/database';
+import {
+  getOrCreateChatRoom,
+  getLookById,
+  getRelationshipByStylistAndClient,
+  updateLookStatus,
+  updateRelationshipStatus,
+} from '../utils/database-entities';
+import { parseLookItemFeedback } from './lookFeedbackService';
+import { buildLookRevision, recordLookResponse } from './lookRevisionService';
+
+export const LOOK_STATUSES: readonly LookStatus[] = [
+  'draft',
+  'pending',
+  'approved',
+  'changes_requested',
+  'withdrawn',
+  'worn',
+  'archived',
+];
+
+/** Statuses a stylist can edit a look in. Editing moves it back to draft. */
+export const EDITABLE_LOOK_STATUSES: readonly LookStatus[] = ['draft', 'changes_requested', 'withdrawn'];
+
+/** Looks clients don't see: never sent, or put away by the stylist */
+export const CLIENT_HIDDEN_LOOK_STATUSES: readonly LookStatus[] = ['draft', 'archived'];
+
+export type LookActorType = 'stylist' | 'client';
+
+/** Every allowed move: current status -> new status -> who may make it */
+const TRANSITIONS: Record<LookStatus, Partial<Record<LookStatus, readonly LookActorType[]>>> = {
+  draft: { pending: ['stylist'], archived: ['stylist'] },
+  pending: { approved: ['client'], changes_requested: ['client'], withdrawn: ['stylist'] },
+  changes_requested: { draft: ['stylist'], pending: ['stylist'], archived: ['stylist'] },
+  withdrawn: { draft: ['stylist'], pending: ['stylist'], archived: ['stylist'] },
+  approved: { worn: ['stylist', 'client'], archived: ['stylist'] },
+  worn: { archived: ['stylist'] },
+  archived: { draft: ['stylist'] },
+};
+
+export interface LookStatusActor {
+  userId: string;
+  userType: LookActorType;
+}
+
+export interface LookStatusEventWithActor extends LookStatusEvent {
+  changedByName?: string;
+}
+
+/** What listeners get for each status change */
+export interface LookStatusChange {
+  look: Look;
+  event: LookStatusEvent;
+  /** Origin of the request that made the change, for links in notifications */
+  origin?: string;
+}
+
+type LookStatusListener = (change: LookStatusChange) => void | Promise<void>;
+
+const listeners: LookStatusListener[] = [];
+
+function lookStatusError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+export function isLookStatus(value: unknown): value is LookStatus {
+  return typeof value === 'string' && (LOOK_STATUSES as readonly string[]).includes(value);
+}
+
+/** Statuses this kind of user can move a look to from its current status */
+export function allowedLookTransitions(from: LookStatus, actorType: LookActorType): LookStatus[] {
+  return (Object.entries(TRANSITIONS[from]) as [LookStatus, readonly LookActorType[]][])
+    .filter(([, actors]) => actors.includes(actorType))
+    .map(([to]) => to);
+}
+
+/** Subscribe to every look status change (notifications). Listener errors are logged, not thrown. */
+export function onLookStatusChange(listener: LookStatusListener): void {
+  listeners.push(listener);
+}
+
+function emitLookStatusChange(change: LookStatusChange): void {
+  for (const listener of listeners) {
+    Promise.resolve()
+      .then(() => listener(change))
+      .catch(error => console.error(`❌ Look status listener failed for look ${change.look.id}:`, error.message));
+  }
+}
+
+/** Side effects of particular moves: opening the chat on send, noting the client's answer */
+async function applyTransitionEffects(look: Look, from: LookStatus): Promise<void> {
+  if (look.status === 'pending') {
+    try {
+      await getOrCreateChatRoom(look.id, look.stylistId, look.clientId);
+    } catch (error: any) {
+      // The chat can still be opened later; don't fail the send over it
+      console.error('❌ Failed to create chat room:', error.message);
+    }
+  }
+
+  if (from === 'pending' && (look.status === 'approved' || look.status === 'changes_requested')) {
+    await recordLookResponse(look.id, look.status);
+    // A client who answers a look is an active client
+    const relationship = await getRelationshipByStylistAndClient(look.stylistId, look.clientId);
+    if (relationship && relationship.status !== 'active') {
+      await updateRelationshipStatus(relationship.id, 'active');
+    }
+  }
+}
+
+/**
+ * Move a look to a new status if the transition table allows it for this user, log the move
+ * and notify listeners. Throws LOOK_STATUS_INVALID for unknown statuses, LOOK_TRANSITION_DENIED
+ * for moves the table doesn't allow (or that another change beat to the look) and
+ * LOOK_FEEDBACK_INVALID for bad item feedback, which only a request for changes may carry.
+ */
+export async function transitionLook(
+  look: Look,
+  status: unknown,
+  actor: LookStatusActor,
+  options: { reason?: unknown; itemFeedback?: unknown; origin?: string } = {}
+): Promise<Look> {
+  if (!isLookStatus(status)) {
+    throw lookStatusError('LOOK_STATUS_INVALID', `status must be one of: ${LOOK_STATUSES.join(', ')}`);
+  }
+  if (options.reason !== undefined && typeof options.reason !== 'string') {
+    throw lookStatusError('LOOK_STATUS_INVALID', 'reason must be a string');
+  }
+  const from = look.status;
+  if (!allowedLookTransitions(from, actor.userType).includes(status)) {
+    throw lookStatusError(
+      'LOOK_TRANSITION_DENIED',
+      from === status
+        ? `The look is already ${from}`
+        : `A ${actor.userType} can't move a look from "${from}" to "${status}"`
+    );
+  }
+  if (options.itemFeedback !== undefined && status !== 'changes_requested') {
+    throw lookStatusError('LOOK_FEEDBACK_INVALID', 'Item feedback can only be given when requesting changes');
+  }
+  const itemFeedback = options.itemFeedback !== undefined
+    ? await parseLookItemFeedback(look.id, options.itemFeedback)
+    : [];
+
+  // Freeze what the client is sent before committing, so a failure here leaves the look as it was
+  const revision = status === 'pending' ? await buildLookRevision(look.id, actor.userId) : null;
+
+  // The status only changes if nobody moved the look since it was read (e.g. two client answers)
+  const updated = await updateLookStatus(look.id, from, status, actor.userId);
+  if (!updated) {
+    if (!(await getLookById(look.id))) throw lookStatusError('LOOK_NOT_FOUND', 'Look not found');
+    throw lookStatusError('LOOK_TRANSITION_DENIED', `The look is no longer "${from}"`);
+  }
+  if (revision) await repositories.lookRevisions.insert(revision);
+
+  const reason = typeof options.reason === 'string' ? options.reason.trim() : '';
+  const event: LookStatusEvent = {
+    id: `lookstatus_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    lookId: look.id,
+    status,
+    previousStatus: from,
+    ...(reason && { reason }),
+    ...(itemFeedback.length > 0 && { itemFeedback }),
+    changedBy: actor.userId,
+    createdAt: new Date().toISOString(),
+  };
+  await repositories.lookStatusEvents.insert(event);
+  console.log(`🔄 Look "${updated.name}" moved from "${from}" to "${status}"`);
+
+  await applyTransitionEffects(updated, from);
+  emitLookStatusChange({ look: updated, event, origin: options.origin });
+  return updated;
+}
+
+/** A look's status changes, newest first, with the names of the people who made them */
+export async function getLookStatusHistory(lookId: string): Promise<LookStatusEventWithActor[]> {
+  const events = (await repositories.lookStatusEvents.findWhere({ lookId }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+
+  const names = new Map<string, string | undefined>();
+  for (const userId of new Set(events.map(e => e.changedBy))) {
+    names.set(userId, (await findUserById(userId))?.name);
+  }
+  return events.map(event => {
+    const changedByName = names.get(event.changedBy);
+    return { ...event, ...(changedByName && { changedByName }) };
+  });
+}
@@ -0,0 +1,260 @@
+import { repositories } from '../repositories';
+import { ClosetItem, ItemCategory, LookItem, LookTemplate, LookTemplateSlot } from '../types';
+import { getClientClosetItems, getLookById, getRelationshipByStylistAndClient } from '../utils/database-entities';
+import { isItemAvailable } from './itemStatusService';
+
+const ITEM_CATEGORIES: readonly ItemCategory[] = [
+  'tops', 'bottoms', 'dresses', 'outerwear', 'shoes', 'accessories', 'bags', 'others',
+];
+
+const MAX_SLOTS = 20;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A look item ready to be added to a new look: a closet match, or something to buy */
+export interface TemplateLookItemDraft {
+  /** Index of the template slot the item fills */
+  slotIndex: number;
+  itemType: LookItem['itemType'];
+  itemId: string;
+  /** For new_purchase drafts: what to buy */
+  newItemDetails?: { name: string; category: ItemCategory; subcategory?: string; colorTags?: string[] };
+  /** For closet_item drafts: the matched item */
+  closetItem?: ClosetItem;
+  sortOrder: number;
+  positionX: number;
+  positionY: number;
+  scale: number;
+}
+
+function templateError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+/** Where slot `index` goes when no position is given: three per row, as in the look builder */
+function gridPosition(index: number): Pick<LookTemplateSlot, 'positionX' | 'positionY'> {
+  return { positionX: (index % 3) * 33 + 5, positionY: Math.floor(index / 3) * 33 + 5 };
+}
+
+function optionalText(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw templateError('TEMPLATE_INVALID', `${field} must be a string`);
+  return value.trim() || undefined;
+}
+
+function numberOr(value: unknown, field: string, fallback: number): number {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw templateError('TEMPLATE_INVALID', `${field} must be a number`);
+  }
+  return value;
+}
+
+function normalizeColors(colors: string[]): string[] {
+  return [...new Set(colors.map(c => c.trim().toLowerCase()).filter(Boolean))];
+}
+
+/** Validate a template's slots. Positions default to a grid and scale to 1. */
+export function parseTemplateSlots(input: unknown): LookTemplateSlot[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw templateError('TEMPLATE_INVALID', 'slots must be a non-empty array');
+  }
+  if (input.length > MAX_SLOTS) {
+    throw templateError('TEMPLATE_INVALID', `A template can have at most ${MAX_SLOTS} slots`);
+  }
+  return input.map((raw, index) => {
+    const field = `slots[${index}]`;
+    const { category, subcategory, label, colorTags, positionX, positionY, scale } = (raw ?? {}) as Record<string, unknown>;
+    if (!ITEM_CATEGORIES.includes(category as ItemCategory)) {
+      throw templateError('TEMPLATE_INVALID', `${field}.category must be one of: ${ITEM_CATEGORIES.join(', ')}`);
+    }
+    if (colorTags !== undefined && (!Array.isArray(colorTags) || !colorTags.every(c => typeof c === 'string'))) {
+      throw templateError('TEMPLATE_INVALID', `${field}.colorTags must be a list of strings`);
+    }
+    const slotScale = numberOr(scale, `${field}.scale`, 1);
+    if (slotScale <= 0) throw templateError('TEMPLATE_INVALID', `${field}.scale must be positive`);
+
+    const subcategoryText = optionalText(subcategory, `${field}.subcategory`);
+    const labelText = optionalText(label, `${field}.label`);
+    const colors = normalizeColors((colorTags as string[] | undefined) ?? []);
+    const grid = gridPosition(index);
+    return {
+      category: category as ItemCategory,
+      ...(subcategoryText && { subcategory: subcategoryText }),
+      ...(labelText && { label: labelText }),
+      ...(colors.length > 0 && { colorTags: colors }),
+      positionX: numberOr(positionX, `${field}.positionX`, grid.positionX),
+      positionY: numberOr(positionY, `${field}.positionY`, grid.positionY),
+      scale: slotScale,
+    };
+  });
+}
+
+/**
+ * Slots from the items of one of the stylist's looks, in look order and where they sit on the
+ * canvas. Only kind and colors are kept, not names: those describe one client's wardrobe.
+ */
+async function slotsFromLook(lookId: unknown, stylistId: string): Promise<LookTemplateSlot[]> {
+  const look = typeof lookId === 'string' ? await getLookById(lookId) : null;
+  if (!look || look.stylistId !== stylistId) throw templateError('LOOK_NOT_FOUND', 'Look not found');
+
+  const lookItems = (await repositories.lookItems.findWhere({ lookId: look.id }))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id.localeCompare(b.id));
+  const slots: LookTemplateSlot[] = [];
+  for (const lookItem of lookItems) {
+    const source: Partial<ClosetItem> | null | undefined = lookItem.itemType === 'new_purchase'
+      ? lookItem.newItemDetails
+      : await repositories.closetItems.findById(lookItem.itemId);
+    if (!source?.category || !ITEM_CATEGORIES.includes(source.category)) continue;
+    const grid = gridPosition(slots.length);
+    const colors = normalizeColors(source.colorTags ?? []);
+    slots.push({
+      category: source.category,
+      ...(source.subcategory && { subcategory: source.subcategory }),
+      ...(colors.length > 0 && { colorTags: colors }),
+      positionX: lookItem.positionX ?? grid.positionX,
+      positionY: lookItem.positionY ?? grid.positionY,
+      scale: lookItem.scale ?? 1,
+    });
+  }
+  if (slots.length === 0) throw templateError('TEMPLATE_INVALID', 'The look has no items to make a template from');
+  return slots.slice(0, MAX_SLOTS);
+}
+
+/** A stylist's templates, by name */
+export async function getLookTemplates(stylistId: string): Promise<LookTemplate[]> {
+  const templates = await repositories.lookTemplates.findWhere({ stylistId });
+  return templates.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+}
+
+/** One of the stylist's templates. Throws TEMPLATE_NOT_FOUND for anyone else's. */
+export async function getLookTemplate(id: string, stylistId: string): Promise<LookTemplate> {
+  const template = await repositories.lookTemplates.findById(id);
+  if (!template || template.stylistId !== stylistId) throw templateError('TEMPLATE_NOT_FOUND', 'Template not found');
+  return template;
+}
+
+/**
+ * Create a template from { name, description?, occasion?, slots } or, to save an existing look,
+ * { name, lookId }. Throws TEMPLATE_INVALID for bad input and LOOK_NOT_FOUND for an unknown look.
+ */
+export async function createLookTemplate(stylistId: string, input: Record<string, unknown>): Promise<LookTemplate> {
+  const name = optionalText(input.name, 'name');
+  if (!name) throw templateError('TEMPLATE_INVALID', 'name is required');
+  const description = optionalText(input.description, 'description');
+  const occasion = optionalText(input.occasion, 'occasion');
+  const slots = input.lookId !== undefined
+    ? await slotsFromLook(input.lookId, stylistId)
+    : parseTemplateSlots(input.slots);
+
+  const now = new Date().toISOString();
+  const template: LookTemplate = {
+    id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    stylistId,
+    name,
+    ...(description && { description }),
+    ...(occasion && { occasion }),
+    slots,
+    ...(typeof input.lookId === 'string' && { sourceLookId: input.lookId }),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await repositories.lookTemplates.insert(template);
+  return template;
+}
+
+/** Change a template's name, description, occasion or slots */
+export async function updateLookTemplate(
+  id: string,
+  stylistId: string,
+  input: Record<string, unknown>
+): Promise<LookTemplate> {
+  const template = await getLookTemplate(id, stylistId);
+  const updates: Partial<LookTemplate> = {};
+  if (input.name !== undefined) {
+    const name = optionalText(input.name, 'name');
+    if (!name) throw templateError('TEMPLATE_INVALID', 'name cannot be empty');
+    updates.name = name;
+  }
+  // An empty description or occasion clears it
+  if (input.description !== undefined) updates.description = optionalText(input.description, 'description');
+  if (input.occasion !== undefined) updates.occasion = optionalText(input.occasion, 'occasion');
+  if (input.slots !== undefined) updates.slots = parseTemplateSlots(input.slots);
+
+  const updated = await repositories.lookTemplates.update(template.id, { ...updates, updatedAt: new Date().toISOString() });
+  if (!updated) throw templateError('TEMPLATE_NOT_FOUND', 'Template not found');
+  return updated;
+}
+
+export async function deleteLookTemplate(id: string, stylistId: string): Promise<void> {
+  const template = await getLookTemplate(id, stylistId);
+  await repositories.lookTemplates.remove(template.id);
+}
+
+/** How well an item fits a slot of its category: the same subcategory counts most, then shared colors */
+function slotScore(slot: LookTemplateSlot, item: ClosetItem): number {
+  let score = 0;
+  if (slot.subcategory && item.subcategory?.toLowerCase() === slot.subcategory.toLowerCase()) score += 10;
+  const colors = new Set((item.colorTags ?? []).map(c => c.toLowerCase()));
+  score += (slot.colorTags ?? []).filter(c => colors.has(c)).length;
+  return score;
+}
+
+/** Best item for a slot; on a tie the one worn least recently, so the closet gets rotated */
+function bestMatch(slot: LookTemplateSlot, candidates: ClosetItem[]): ClosetItem | undefined {
+  return candidates
+    .filter(item => item.category === slot.category)
+    .map(item => ({ item, score: slotScore(slot, item) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.item.lastWorn ?? '').localeCompare(b.item.lastWorn ?? '') ||
+      a.item.name.localeCompare(b.item.name)
+    )[0]?.item;
+}
+
+/**
+ * Fill a template's slots for a client: each slot gets the best matching item from the client's
+ * closets (their own and the stylist's) that can be worn on eventDate, each item at most once.
+ * Slots nothing fits become new_purchase placeholders. Nothing is saved; the drafts go into a
+ * new look. Throws CLIENT_NOT_FOUND when the stylist doesn't work with the client.
+ */
+export async function applyLookTemplate(
+  template: LookTemplate,
+  clientId: unknown,
+  stylistId: string,
+  eventDate?: unknown
+): Promise<TemplateLookItemDraft[]> {
+  if (typeof clientId !== 'string' || !(await getRelationshipByStylistAndClient(stylistId, clientId))) {
+    throw templateError('CLIENT_NOT_FOUND', 'Client not found');
+  }
+  if (eventDate !== undefined && (typeof eventDate !== 'string' || !DATE_ONLY.test(eventDate.slice(0, 10)))) {
+    throw templateError('TEMPLATE_INVALID', 'eventDate must be a date in YYYY-MM-DD format');
+  }
+
+  const candidates = (await getClientClosetItems(clientId, stylistId))
+    .filter(item => isItemAvailable(item, eventDate as string | undefined));
+
+  const used = new Set<string>();
+  return template.slots.map((slot, slotIndex) => {
+    const placement = { sortOrder: slotIndex, positionX: slot.positionX, positionY: slot.positionY, scale: slot.scale };
+    const match = bestMatch(slot, candidates.filter(item => !used.has(item.id)));
+    if (match) {
+      used.add(match.id);
+      return { slotIndex, itemType: 'closet_item', itemId: match.id, closetItem: match, ...placement };
+    }
+    return {
+      slotIndex,
+      itemType: 'new_purchase',
+      itemId: `newitem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      newItemDetails: {
+        name: slot.label || slot.subcategory || slot.category,
+        category: slot.category,
+        ...(slot.subcategory && { subcategory: slot.subcategory }),
+        ...(slot.colorTags && { colorTags: slot.colorTags }),
+      },
+      ...placement,
+    };
+  });
+}
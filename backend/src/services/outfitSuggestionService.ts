@@ -0,0 +1,422 @@
+import { ClosetItem, ItemCategory, Season } from '../types';
+import { getClientClosetItems, getRelationshipByStylistAndClient } from '../utils/database-entities';
+import { SEASONS } from './closetSearchService';
+import { isItemAvailable } from './itemStatusService';
+
+/** Whether an outfit must, may or must not include a kind of piece */
+export type PieceRule = 'required' | 'optional' | 'never';
+
+/** How outfits are put together; any field can be overridden per request */
+export interface OutfitRules {
+  shoes: PieceRule;
+  /** 'optional' adds a layer only when one goes with the rest of the outfit */
+  outerwear: PieceRule;
+  bag: PieceRule;
+  /** Leave out outfits with accent colors that fight (red with pink, ...) */
+  avoidColorClashes: boolean;
+  /** Skip items worn in the last this many days (0 = don't skip any) */
+  recentWearDays: number;
+  /** Most outfits to return */
+  limit: number;
+}
+
+export const DEFAULT_OUTFIT_RULES: OutfitRules = {
+  shoes: 'required',
+  outerwear: 'optional',
+  bag: 'optional',
+  avoidColorClashes: true,
+  recentWearDays: 7,
+  limit: 5,
+};
+
+export type OutfitRole = 'outerwear' | 'top' | 'dress' | 'bottom' | 'shoes' | 'bag' | 'accessory';
+
+export interface SuggestedLookItem {
+  itemId: string;
+  role: OutfitRole;
+  closetItem: ClosetItem;
+  sortOrder: number;
+  positionX: number;
+  positionY: number;
+  scale: number;
+}
+
+export interface OutfitSuggestion {
+  score: number;
+  /** Why the outfit ranked where it did, for the stylist */
+  reasons: string[];
+  items: SuggestedLookItem[];
+}
+
+export interface OutfitSuggestionRequest {
+  clientId: string;
+  occasion?: string;
+  season?: Season;
+  eventDate?: string;
+  /** Items every suggestion must include */
+  anchorItemIds: string[];
+  rules: OutfitRules;
+}
+
+const PIECE_RULES: readonly PieceRule[] = ['required', 'optional', 'never'];
+
+const MAX_LIMIT = 20;
+const MAX_ANCHORS = 5;
+// Best items kept per role before combining, so large closets stay quick
+const POOL_SIZE = 12;
+// A piece that isn't an anchor shows up in at most this many suggestions
+const MAX_REPEATS = 2;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ROLE_BY_CATEGORY: Record<ItemCategory, OutfitRole> = {
+  tops: 'top',
+  bottoms: 'bottom',
+  dresses: 'dress',
+  outerwear: 'outerwear',
+  shoes: 'shoes',
+  bags: 'bag',
+  accessories: 'accessory',
+  others: 'accessory',
+};
+
+/** Canvas order, back to front */
+const ROLE_ORDER: readonly OutfitRole[] = ['outerwear', 'top', 'dress', 'bottom', 'shoes', 'bag', 'accessory'];
+
+/**
+ * Where each role sits on the look canvas, in percent as LookComposer stores positions:
+ * outerwear on the left, the outfit down the middle, bag and accessories on the right.
+ */
+const ROLE_POSITIONS: Record<Exclude<OutfitRole, 'accessory'>, { positionX: number; positionY: number }> = {
+  outerwear: { positionX: 5, positionY: 5 },
+  top: { positionX: 38, positionY: 5 },
+  dress: { positionX: 38, positionY: 5 },
+  bottom: { positionX: 38, positionY: 38 },
+  shoes: { positionX: 38, positionY: 71 },
+  bag: { positionX: 71, positionY: 38 },
+};
+const ACCESSORY_POSITIONS = [
+  { positionX: 71, positionY: 5 },
+  { positionX: 71, positionY: 71 },
+  { positionX: 5, positionY: 38 },
+  { positionX: 5, positionY: 71 },
+];
+
+/** Colors (from the color tag palette) that go with anything */
+const NEUTRALS = new Set(['black', 'charcoal', 'grey', 'white', 'ivory', 'beige', 'camel', 'brown', 'navy', 'khaki']);
+
+const pairKey = (a: string, b: string): string => [a, b].sort().join('+');
+
+/** Accent colors that work together */
+const COLOR_PAIRINGS = new Set(
+  [
+    ['blue', 'orange'],
+    ['blue', 'yellow'],
+    ['light blue', 'coral'],
+    ['light blue', 'pink'],
+    ['teal', 'coral'],
+    ['teal', 'mustard'],
+    ['purple', 'mustard'],
+    ['lavender', 'yellow'],
+    ['green', 'pink'],
+    ['olive', 'burgundy'],
+    ['olive', 'mustard'],
+    ['burgundy', 'pink'],
+  ].map(([a, b]) => pairKey(a, b))
+);
+
+/** Accent colors that fight */
+const COLOR_CLASHES = new Set(
+  [
+    ['red', 'pink'],
+    ['red', 'orange'],
+    ['red', 'green'],
+    ['red', 'purple'],
+    ['orange', 'pink'],
+    ['orange', 'purple'],
+  ].map(([a, b]) => pairKey(a, b))
+);
+
+function suggestError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+function parseRules(input: unknown): OutfitRules {
+  if (input === undefined || input === null) return DEFAULT_OUTFIT_RULES;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw suggestError('SUGGEST_INVALID', 'rules must be an object');
+  }
+  const rules: OutfitRules = { ...DEFAULT_OUTFIT_RULES };
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    switch (key) {
+      case 'shoes':
+      case 'outerwear':
+      case 'bag':
+        if (!PIECE_RULES.includes(value as PieceRule)) {
+          throw suggestError('SUGGEST_INVALID', `rules.${key} must be one of: ${PIECE_RULES.join(', ')}`);
+        }
+        rules[key] = value as PieceRule;
+        break;
+      case 'avoidColorClashes':
+        if (typeof value !== 'boolean') throw suggestError('SUGGEST_INVALID', 'rules.avoidColorClashes must be true or false');
+        rules.avoidColorClashes = value;
+        break;
+      case 'recentWearDays':
+        if (!Number.isInteger(value) || (value as number) < 0) {
+          throw suggestError('SUGGEST_INVALID', 'rules.recentWearDays must be a whole number of days');
+        }
+        rules.recentWearDays = value as number;
+        break;
+      case 'limit':
+        if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_LIMIT) {
+          throw suggestError('SUGGEST_INVALID', `rules.limit must be between 1 and ${MAX_LIMIT}`);
+        }
+        rules.limit = value as number;
+        break;
+      default:
+        throw suggestError('SUGGEST_INVALID', `Unknown rule "${key}"`);
+    }
+  }
+  return rules;
+}
+
+/** Validate a suggestion request: { clientId, occasion?, season?, eventDate?, anchorItemIds?, rules? } */
+export function parseSuggestionRequest(body: Record<string, unknown>): OutfitSuggestionRequest {
+  const { clientId, occasion, season, eventDate, anchorItemIds = [], rules } = body;
+  if (typeof clientId !== 'string' || !clientId) throw suggestError('SUGGEST_INVALID', 'clientId is required');
+  if (occasion !== undefined && typeof occasion !== 'string') {
+    throw suggestError('SUGGEST_INVALID', 'occasion must be a string');
+  }
+  if (season !== undefined && !SEASONS.includes(season as Season)) {
+    throw suggestError('SUGGEST_INVALID', `season must be one of: ${SEASONS.join(', ')}`);
+  }
+  if (eventDate !== undefined && (typeof eventDate !== 'string' || !DATE_ONLY.test(eventDate.slice(0, 10)))) {
+    throw suggestError('SUGGEST_INVALID', 'eventDate must be a date in YYYY-MM-DD format');
+  }
+  if (!Array.isArray(anchorItemIds) || !anchorItemIds.every(id => typeof id === 'string')) {
+    throw suggestError('SUGGEST_INVALID', 'anchorItemIds must be a list of item ids');
+  }
+  if (anchorItemIds.length > MAX_ANCHORS) {
+    throw suggestError('SUGGEST_INVALID', `At most ${MAX_ANCHORS} anchor items can be given`);
+  }
+  const occasionText = occasion?.trim();
+  return {
+    clientId,
+    ...(occasionText && { occasion: occasionText }),
+    ...(season !== undefined && { season: season as Season }),
+    ...(eventDate !== undefined && { eventDate: (eventDate as string).slice(0, 10) }),
+    anchorItemIds: [...new Set(anchorItemIds as string[])],
+    rules: parseRules(rules),
+  };
+}
+
+const colorsOf = (item: ClosetItem): string[] => (item.colorTags ?? []).map(c => c.trim().toLowerCase()).filter(Boolean);
+
+const accentsOf = (item: ClosetItem): string[] => colorsOf(item).filter(c => !NEUTRALS.has(c));
+
+/** How well two pieces go together: positive for a match, null when their colors clash */
+function pairHarmony(a: ClosetItem, b: ClosetItem): number | null {
+  if (colorsOf(a).length === 0 || colorsOf(b).length === 0) return 0;
+  const accentsA = accentsOf(a);
+  const accentsB = accentsOf(b);
+  if (accentsA.length === 0 || accentsB.length === 0) return 1;
+  let matched = false;
+  for (const ca of accentsA) {
+    for (const cb of accentsB) {
+      if (COLOR_CLASHES.has(pairKey(ca, cb))) return null;
+      if (ca === cb || COLOR_PAIRINGS.has(pairKey(ca, cb))) matched = true;
+    }
+  }
+  return matched ? 2 : 0;
+}
+
+/** Color score of a whole outfit; null when any two pieces clash */
+function outfitHarmony(items: ClosetItem[]): number | null {
+  let score = 0;
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const pair = pairHarmony(items[i], items[j]);
+      if (pair === null) return null;
+      score += pair;
+    }
+  }
+  // More than two accent colors starts to look busy
+  const accents = new Set(items.flatMap(accentsOf));
+  return score - Math.max(0, accents.size - 2);
+}
+
+function daysSinceWorn(item: ClosetItem, onDate: string): number | null {
+  if (!item.lastWorn) return null;
+  return Math.max(0, Math.floor((Date.parse(onDate) - Date.parse(item.lastWorn.slice(0, 10))) / DAY_MS));
+}
+
+const matchesOccasion = (item: ClosetItem, occasion: string): boolean =>
+  (item.tags?.occasion ?? []).some(o => o.toLowerCase() === occasion.toLowerCase());
+
+/** Items the engine may pick for an outfit (anchors are always used) */
+function isEligible(item: ClosetItem, request: OutfitSuggestionRequest, onDate: string): boolean {
+  if (!isItemAvailable(item, request.eventDate)) return false;
+  const seasons = item.tags?.season ?? [];
+  if (request.season && seasons.length > 0 && !seasons.includes(request.season)) return false;
+  // Items tagged for other occasions only are left out; untagged items can go anywhere
+  if (request.occasion && (item.tags?.occasion ?? []).length > 0 && !matchesOccasion(item, request.occasion)) return false;
+  const days = daysSinceWorn(item, onDate);
+  return !(request.rules.recentWearDays > 0 && days !== null && days < request.rules.recentWearDays);
+}
+
+/** How suitable a single piece is: tagged for the occasion and season, and not worn lately */
+function itemScore(item: ClosetItem, request: OutfitSuggestionRequest, onDate: string): number {
+  let score = 0;
+  if (request.occasion && matchesOccasion(item, request.occasion)) score += 2;
+  if (request.season && (item.tags?.season ?? []).includes(request.season)) score += 1;
+  const days = daysSinceWorn(item, onDate);
+  score += days === null ? 1 : Math.min(days / 30, 1);
+  return score;
+}
+
+function layout(items: ClosetItem[]): SuggestedLookItem[] {
+  let accessories = 0;
+  return items
+    .map(item => ({ item, role: ROLE_BY_CATEGORY[item.category] ?? 'accessory' }))
+    .sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role))
+    .map(({ item, role }, sortOrder) => ({
+      itemId: item.id,
+      role,
+      closetItem: item,
+      sortOrder,
+      ...(role === 'accessory' ? ACCESSORY_POSITIONS[accessories++ % ACCESSORY_POSITIONS.length] : ROLE_POSITIONS[role]),
+      scale: 1,
+    }));
+}
+
+function reasonsFor(items: ClosetItem[], request: OutfitSuggestionRequest, onDate: string): string[] {
+  const reasons: string[] = [];
+  const { occasion } = request;
+  if (occasion) {
+    const tagged = items.filter(item => matchesOccasion(item, occasion)).length;
+    if (tagged > 0) reasons.push(`${tagged} of ${items.length} pieces tagged for ${occasion}`);
+  }
+  const colors = [...new Set(items.flatMap(colorsOf))];
+  if (colors.length > 0) reasons.push(`Colors: ${colors.join(', ')}`);
+  const neverWorn = items.filter(item => daysSinceWorn(item, onDate) === null).length;
+  if (neverWorn > 0) reasons.push(`${neverWorn} ${neverWorn === 1 ? 'piece' : 'pieces'} not worn yet`);
+  return reasons;
+}
+
+/**
+ * Rank outfits from a client's closet. Each outfit is a top and bottom or a dress, plus shoes,
+ * outerwear and a bag as the rules ask, and always includes the anchor items. Pieces are
+ * scored on occasion and season tags and how long since they were worn, outfits on top of
+ * that on how their colors go together. Throws CLIENT_NOT_FOUND when the stylist doesn't work
+ * with the client and SUGGEST_INVALID for anchors that can't be combined.
+ */
+export async function suggestOutfits(stylistId: string, request: OutfitSuggestionRequest): Promise<OutfitSuggestion[]> {
+  if (!(await getRelationshipByStylistAndClient(stylistId, request.clientId))) {
+    throw suggestError('CLIENT_NOT_FOUND', 'Client not found');
+  }
+  const { rules } = request;
+  const onDate = request.eventDate ?? new Date().toISOString().slice(0, 10);
+  const closetItems = await getClientClosetItems(request.clientId, stylistId);
+
+  const fixed = new Map<OutfitRole, ClosetItem>();
+  const extras: ClosetItem[] = [];
+  for (const id of request.anchorItemIds) {
+    const item = closetItems.find(i => i.id === id);
+    if (!item || item.archived) throw suggestError('SUGGEST_INVALID', `Anchor item ${id} is not in the client's closet`);
+    if (!isItemAvailable(item, request.eventDate)) {
+      throw suggestError('SUGGEST_INVALID', `Anchor item ${id} is not available${request.eventDate ? ` on ${request.eventDate}` : ''}`);
+    }
+    const role = ROLE_BY_CATEGORY[item.category] ?? 'accessory';
+    if (role === 'accessory') {
+      extras.push(item);
+    } else if (fixed.has(role)) {
+      throw suggestError('SUGGEST_INVALID', `Only one anchor item can be ${item.category}`);
+    } else {
+      fixed.set(role, item);
+    }
+  }
+  if (fixed.has('dress') && (fixed.has('top') || fixed.has('bottom'))) {
+    throw suggestError('SUGGEST_INVALID', 'A dress anchor cannot be combined with a top or bottom anchor');
+  }
+
+  const scores = new Map<string, number>();
+  for (const item of closetItems) scores.set(item.id, itemScore(item, request, onDate));
+  const anchorIds = new Set(request.anchorItemIds);
+  const pool = (role: OutfitRole): ClosetItem[] => {
+    const anchor = fixed.get(role);
+    if (anchor) return [anchor];
+    return closetItems
+      .filter(item => ROLE_BY_CATEGORY[item.category] === role && !anchorIds.has(item.id) && isEligible(item, request, onDate))
+      .sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || a.name.localeCompare(b.name))
+      .slice(0, POOL_SIZE);
+  };
+
+  const bases: ClosetItem[][] = [];
+  if (!fixed.has('dress')) {
+    for (const top of pool('top')) {
+      for (const bottom of pool('bottom')) bases.push([top, bottom]);
+    }
+  }
+  if (!fixed.has('top') && !fixed.has('bottom')) {
+    for (const dress of pool('dress')) bases.push([dress]);
+  }
+
+  const finishing: { role: OutfitRole; rule: PieceRule; options: ClosetItem[] }[] = (['shoes', 'outerwear', 'bag'] as const)
+    .map(role => ({ role, rule: fixed.has(role) ? 'required' : rules[role], options: pool(role) }));
+
+  const candidates: { items: ClosetItem[]; score: number }[] = [];
+  for (const base of bases) {
+    let items = [...base, ...extras];
+    let complete = true;
+    for (const { rule, options } of finishing) {
+      if (rule === 'never') continue;
+      const baseHarmony = outfitHarmony(items);
+      let best: { item: ClosetItem; gain: number } | null = null;
+      for (const option of options) {
+        const harmony = outfitHarmony([...items, option]);
+        if (harmony === null && rules.avoidColorClashes) continue;
+        const gain = (harmony ?? 0) - (baseHarmony ?? 0) + (scores.get(option.id) ?? 0);
+        if (!best || gain > best.gain) best = { item: option, gain };
+      }
+      if (best && (rule === 'required' || best.gain > (scores.get(best.item.id) ?? 0))) {
+        items = [...items, best.item];
+      } else if (rule === 'required') {
+        complete = false;
+        break;
+      }
+    }
+    if (!complete) continue;
+    const harmony = outfitHarmony(items);
+    if (harmony === null && rules.avoidColorClashes) continue;
+    const fit = items.reduce((sum, item) => sum + (scores.get(item.id) ?? 0), 0);
+    candidates.push({ items, score: Math.round((fit + (harmony ?? 0)) * 100) / 100 });
+  }
+
+  candidates.sort((a, b) =>
+    b.score - a.score ||
+    a.items.map(i => i.id).join().localeCompare(b.items.map(i => i.id).join())
+  );
+  // Variety first: outfits that keep reusing the same pieces only fill the places left over
+  const uses = new Map<string, number>();
+  const picked: typeof candidates = [];
+  const repeats: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (picked.length >= rules.limit) break;
+    if (candidate.items.some(item => !anchorIds.has(item.id) && (uses.get(item.id) ?? 0) >= MAX_REPEATS)) {
+      repeats.push(candidate);
+      continue;
+    }
+    candidate.items.forEach(item => uses.set(item.id, (uses.get(item.id) ?? 0) + 1));
+    picked.push(candidate);
+  }
+  picked.push(...repeats.slice(0, rules.limit - picked.length));
+
+  return picked.map(candidate => ({
+    score: candidate.score,
+    reasons: reasonsFor(candidate.items, request, onDate),
+    items: layout(candidate.items),
+  }));
+}
@@ -0,0 +1,458 @@
+import { CollectionKey, COLLECTIONS, getRepository, repositories, StoredRecord } from '../repositories';
+import { ChatRoom, Client, ClientProfile, Closet, ClosetItem, ItemStatusEvent, Look, LookItem, LookRevision, LookStatusEvent, Message, TrashEntityType, TrashEntry, WearEvent } from '../types';
+import { cache } from '../utils/cache';
+import {
+  deleteClient,
+  deleteClientForStylist,
+  deleteClosetItem,
+  deleteChatRoomByLookId,
+  deleteCloset,
+  deleteClosetItemsByClosetId,
+  deleteLook,
+  deleteLookItemsByLookId,
+  deleteMessagesByChatRoomId,
+  getChatRoomByLookId,
+  getClientProfile,
+  getRelationshipByStylistAndClient,
+  pickClientProfileFields,
+} from '../utils/database-entities';
+import { findUserByEmail } from '../utils/database';
+import { scheduleLookComposite } from './lookCompositeService';
+import { recordChange } from './changeLogService';
+
+type Dependents = TrashEntry['dependents'];
+
+/** Parents before children, so every restored reference points at a record that already exists. */
+const RESTORE_ORDER: CollectionKey[] = [
+  'clients',
+  'relationships',
+  'clientProfiles',
+  'closets',
+  'closetItems',
+  'wearEvents',
+  'itemStatusEvents',
+  'looks',
+  'lookItems',
+  'lookRevisions',
+  'lookStatusEvents',
+  'lookRequests',
+  'chatRooms',
+  'messages',
+  'receipts',
+];
+
+/** Collection the trashed record itself goes back to */
+const ENTITY_COLLECTIONS: Record<TrashEntityType, CollectionKey> = {
+  client: 'clients',
+  look: 'looks',
+  closet_item: 'closetItems',
+  closet: 'closets',
+};
+
+export interface TrashSummary {
+  id: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  label: string;
+  deletedAt: string;
+  deletedBy: string;
+  /** When the purge job will remove it for good */
+  expiresAt: string;
+  dependentCounts: Record<string, number>;
+}
+
+function trashError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+  return Number.isFinite(days) && days >= 0 ? days : 30;
+}
+
+function summarize(entry: TrashEntry, retentionDays: number): TrashSummary {
+  const expiresAt = new Date(new Date(entry.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+  const dependentCounts: Record<string, number> = {};
+  for (const [collection, records] of Object.entries(entry.dependents)) {
+    if (records.length > 0) dependentCounts[collection] = records.length;
+  }
+  return {
+    id: entry.id,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    label: entry.label,
+    deletedAt: entry.deletedAt,
+    deletedBy: entry.deletedBy,
+    expiresAt: expiresAt.toISOString(),
+    dependentCounts,
+  };
+}
+
+async function findWhereIn<T extends StoredRecord>(
+  key: CollectionKey,
+  field: keyof T,
+  values: string[]
+): Promise<T[]> {
+  const repo = getRepository<T>(COLLECTIONS[key]);
+  const found = new Map<string, T>();
+  for (const value of values) {
+    for (const record of await repo.findWhere({ [field]: value } as Partial<T>)) {
+      found.set(record.id, record);
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Look items built from these closet items, their wears and status logs, and the look requests whose
+ * itemIds mention them. All are cleaned up when a closet item is deleted (see deleteClosetItem).
+ */
+async function collectClosetItemReferences(itemIds: string[]): Promise<{
+  lookItems: LookItem[];
+  wearEvents: WearEvent[];
+  itemStatusEvents: ItemStatusEvent[];
+  detachedItemIds: Record<string, string[]>;
+}> {
+  const lookItems = (await findWhereIn<LookItem>('lookItems', 'itemId', itemIds))
+    .filter(li => li.itemType === 'closet_item');
+  const wearEvents = await findWhereIn<WearEvent>('wearEvents', 'itemId', itemIds);
+  const itemStatusEvents = await findWhereIn<ItemStatusEvent>('itemStatusEvents', 'itemId', itemIds);
+
+  const ids = new Set(itemIds);
+  const detachedItemIds: Record<string, string[]> = {};
+  for (const request of await repositories.lookRequests.findAll()) {
+    const detached = request.itemIds.filter(itemId => ids.has(itemId));
+    if (detached.length > 0) detachedItemIds[request.id] = detached;
+  }
+  return { lookItems, wearEvents, itemStatusEvents, detachedItemIds };
+}
+
+/** Look items, chat room and messages that belong to these looks */
+async function collectLookDependents(lookIds: string[]): Promise<Dependents> {
+  const chatRooms = await findWhereIn<ChatRoom>('chatRooms', 'lookId', lookIds);
+  return {
+    lookItems: await findWhereIn<LookItem>('lookItems', 'lookId', lookIds),
+    lookRevisions: await findWhereIn<LookRevision>('lookRevisions', 'lookId', lookIds),
+    lookStatusEvents: await findWhereIn<LookStatusEvent>('lookStatusEvents', 'lookId', lookIds),
+    chatRooms,
+    messages: await findWhereIn<Message>('messages', 'chatRoomId', chatRooms.map(r => r.id)),
+  };
+}
+
+function mergeDependents(...groups: Dependents[]): Dependents {
+  const merged: Dependents = {};
+  for (const group of groups) {
+    for (const [collection, records] of Object.entries(group)) {
+      const byId = new Map((merged[collection] ?? []).map(r => [r.id, r]));
+      for (const record of records) byId.set(record.id, record);
+      merged[collection] = [...byId.values()];
+    }
+  }
+  return merged;
+}
+
+/** Log a delete or restore in the history of the trashed item, look, client or (for a stylist's share) profile */
+async function recordTrashChange(entry: TrashEntry, action: 'delete' | 'restore', changedBy: string): Promise<void> {
+  if (entry.entityType === 'closet') return;
+  if (!entry.stylistScoped) {
+    await recordChange(entry.entityType, entry.entityId, action, changedBy);
+    return;
+  }
+  for (const profile of entry.dependents.clientProfiles ?? []) {
+    await recordChange('client_profile', profile.id, action, changedBy);
+  }
+}
+
+async function addToTrash(
+  entityType: TrashEntityType,
+  record: Client | Look | ClosetItem | Closet,
+  label: string,
+  deletedBy: string,
+  dependents: Dependents,
+  detachedItemIds?: Record<string, string[]>,
+  stylistScoped?: boolean
+): Promise<TrashEntry> {
+  const entry: TrashEntry = {
+    id: `trash_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    entityType,
+    entityId: record.id,
+    label,
+    record,
+    dependents,
+    detachedItemIds: detachedItemIds && Object.keys(detachedItemIds).length > 0 ? detachedItemIds : undefined,
+    ...(stylistScoped && { stylistScoped }),
+    deletedAt: new Date().toISOString(),
+    deletedBy,
+  };
+  // Written before anything is removed: if the delete fails halfway, restore skips records still present
+  await repositories.trash.insert(entry);
+  await recordTrashChange(entry, 'delete', deletedBy);
+  return entry;
+}
+
+/**
+ * Move a client to the trash. While another stylist works with the client or the client has
+ * an account, only the deleting stylist's share goes: their relationship and profile, their
+ * closets and items, looks (items, chat rooms, messages), look requests and receipts. Otherwise
+ * the client goes too, with everything deleteClient cascades to.
+ */
+export async function trashClient(id: string, deletedBy: string): Promise<TrashEntry | null> {
+  const client = await repositories.clients.findById(id);
+  if (!client) return null;
+
+  const sharedWith = (await repositories.relationships.findWhere({ clientId: id })).filter(r => r.stylistId !== deletedBy);
+  const stylistScoped = sharedWith.length > 0 || !!(await findUserByEmail(client.email));
+  const inScope = <T extends { stylistId?: string | null }>(records: T[]): T[] =>
+    stylistScoped ? records.filter(r => r.stylistId === deletedBy) : records;
+
+  const closets = inScope(await repositories.closets.findWhere({ ownerId: id }));
+  const closetItems = await findWhereIn<ClosetItem>('closetItems', 'closetId', closets.map(c => c.id));
+  const looks = inScope(await repositories.looks.findWhere({ clientId: id }));
+  const itemReferences = await collectClosetItemReferences(closetItems.map(i => i.id));
+  const lookRequests = inScope(await repositories.lookRequests.findWhere({ clientId: id }));
+  // Requests removed with the client don't need their item ids put back separately
+  for (const request of lookRequests) delete itemReferences.detachedItemIds[request.id];
+
+  const lookDependents = await collectLookDependents(looks.map(l => l.id));
+  // Chat rooms are found through their look; pick up any stray ones by clientId as well
+  const chatRooms = mergeDependents(
+    { chatRooms: lookDependents.chatRooms },
+    { chatRooms: inScope(await repositories.chatRooms.findWhere({ clientId: id })) }
+  ).chatRooms;
+
+  const dependents = mergeDependents(
+    {
+      relationships: inScope(await repositories.relationships.findWhere({ clientId: id })),
+      clientProfiles: inScope(await repositories.clientProfiles.findWhere({ clientId: id })),
+      closets,
+      closetItems,
+      looks,
+      lookRequests,
+      chatRooms,
+      messages: await findWhereIn<Message>('messages', 'chatRoomId', chatRooms.map(r => r.id)),
+      receipts: inScope(await repositories.receipts.findWhere({ clientId: id })),
+    },
+    { lookItems: lookDependents.lookItems },
+    {
+      lookItems: itemReferences.lookItems,
+      wearEvents: itemReferences.wearEvents,
+      itemStatusEvents: itemReferences.itemStatusEvents,
+    }
+  );
+
+  const entry = await addToTrash(
+    'client', client, client.name, deletedBy, dependents, itemReferences.detachedItemIds, stylistScoped
+  );
+  if (stylistScoped) {
+    await deleteClientForStylist(id, deletedBy);
+  } else {
+    await deleteClient(id);
+  }
+  return entry;
+}
+
+/** Move a look to the trash with its look items, chat room and messages. */
+export async function trashLook(id: string, deletedBy: string): Promise<TrashEntry | null> {
+  const look = await repositories.looks.findById(id);
+  if (!look) return null;
+
+  const entry = await addToTrash('look', look, look.name, deletedBy, await collectLookDependents([id]));
+
+  await deleteLookItemsByLookId(id);
+  const chatRoom = await getChatRoomByLookId(id);
+  if (chatRoom) {
+    await deleteMessagesByChatRoomId(chatRoom.id);
+    await deleteChatRoomByLookId(id);
+  }
+  await deleteLook(id);
+  return entry;
+}
+
+/** Move a closet item to the trash with its wears, remembering which looks and look requests used it. */
+export async function trashClosetItem(id: string, deletedBy: string): Promise<TrashEntry | null> {
+  const item = await repositories.closetItems.findById(id);
+  if (!item) return null;
+
+  const { detachedItemIds, ...references } = await collectClosetItemReferences([id]);
+  const entry = await addToTrash('closet_item', item, item.name, deletedBy, references, detachedItemIds);
+  await deleteClosetItem(id);
+  return entry;
+}
+
+/** Move a closet to the trash with its items and their wears, remembering which looks and look requests used them. */
+export async function trashCloset(id: string, deletedBy: string): Promise<TrashEntry | null> {
+  const closet = await repositories.closets.findById(id);
+  if (!closet) return null;
+
+  const closetItems = await repositories.closetItems.findWhere({ closetId: id });
+  const { detachedItemIds, ...references } = await collectClosetItemReferences(closetItems.map(i => i.id));
+  const entry = await addToTrash('closet', closet, closet.name, deletedBy, { closetItems, ...references }, detachedItemIds);
+  await deleteClosetItemsByClosetId(id);
+  await deleteCloset(id);
+  return entry;
+}
+
+/** Trash entries deleted by this user, newest first. */
+export async function listTrash(deletedBy: string, entityType?: TrashEntityType): Promise<TrashSummary[]> {
+  const retentionDays = getTrashRetentionDays();
+  const entries = await repositories.trash.findWhere(entityType ? { deletedBy, entityType } : { deletedBy });
+  return entries
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    .map(entry => summarize(entry, retentionDays));
+}
+
+export async function getTrashEntry(id: string): Promise<TrashEntry | null> {
+  return repositories.trash.findById(id);
+}
+
+/** Refuse restores that would leave the record pointing at something that no longer exists. */
+async function assertRestorable(entry: TrashEntry): Promise<void> {
+  if (entry.entityType === 'client') {
+    const client = entry.record as Client;
+    const sameEmail = (await repositories.clients.findAll())
+      .find(c => c.id !== client.id && c.email.toLowerCase() === client.email.toLowerCase());
+    if (sameEmail) {
+      throw trashError('TRASH_CONFLICT', `Another client with email ${client.email} already exists`);
+    }
+  } else if (entry.entityType === 'look') {
+    const look = entry.record as Look;
+    if (!(await repositories.clients.findById(look.clientId))) {
+      throw trashError('TRASH_PARENT_MISSING', 'The client for this look has been deleted. Restore the client first.');
+    }
+  } else if (entry.entityType === 'closet') {
+    const closet = entry.record as Closet;
+    if (!(await repositories.clients.findById(closet.ownerId))) {
+      throw trashError('TRASH_PARENT_MISSING', 'The client for this closet has been deleted. Restore the client first.');
+    }
+    const lower = closet.name.trim().toLowerCase();
+    const sameName = (await repositories.closets.findWhere({ ownerId: closet.ownerId }))
+      .find(c => c.id !== closet.id && c.name.trim().toLowerCase() === lower);
+    if (sameName) {
+      throw trashError('TRASH_CONFLICT', `The client already has a closet named "${sameName.name}". Rename it first.`);
+    }
+  } else {
+    const item = entry.record as ClosetItem;
+    if (!(await repositories.closets.findById(item.closetId))) {
+      throw trashError('TRASH_PARENT_MISSING', 'The closet this item belonged to no longer exists');
+    }
+  }
+}
+
+/**
+ * Put a trashed record and its dependents back. Records that still exist are left as they are;
+ * look items, revisions, status logs and chat rooms whose look is gone (e.g. trashed separately) are dropped.
+ * Returns the restored record and a count per collection.
+ */
+export async function restoreFromTrash(
+  id: string,
+  restoredBy: string
+): Promise<{ entry: TrashEntry; restored: Record<string, number> } | null> {
+  const entry = await repositories.trash.findById(id);
+  if (!entry) return null;
+  await assertRestorable(entry);
+
+  const toRestore: Dependents = mergeDependents(entry.dependents, {
+    [ENTITY_COLLECTIONS[entry.entityType]]: [entry.record],
+  });
+
+  const liveIds = async (key: CollectionKey): Promise<Set<string>> =>
+    new Set((await getRepository(COLLECTIONS[key]).findAll()).map(r => r.id));
+
+  const restored: Record<string, number> = {};
+  for (const key of RESTORE_ORDER) {
+    const records = toRestore[key] ?? [];
+    if (records.length === 0) continue;
+
+    const existing = await liveIds(key);
+    let missing = records.filter(r => !existing.has(r.id));
+    if (key === 'lookItems' || key === 'lookRevisions' || key === 'lookStatusEvents' || key === 'chatRooms') {
+      const looks = await liveIds('looks');
+      missing = missing.filter(r => looks.has(r.lookId));
+    } else if (key === 'wearEvents' || key === 'itemStatusEvents') {
+      const items = await liveIds('closetItems');
+      missing = missing.filter(r => items.has(r.itemId));
+    } else if (key === 'messages') {
+      const chatRooms = await liveIds('chatRooms');
+      missing = missing.filter(r => chatRooms.has(r.chatRoomId));
+    } else if (key === 'relationships' || key === 'clientProfiles') {
+      // The stylist may have added the client again since the delete: what is live wins,
+      // and a live profile only takes the trashed one's answers where it has none
+      const kept: typeof missing = [];
+      for (const record of missing) {
+        if (key === 'relationships') {
+          if (!(await getRelationshipByStylistAndClient(record.stylistId, record.clientId))) kept.push(record);
+          continue;
+        }
+        const live = await getClientProfile(record.clientId, record.stylistId);
+        if (live) await fillProfileGaps(live, record as ClientProfile);
+        else kept.push(record);
+      }
+      missing = kept;
+    }
+    if (missing.length > 0) {
+      await getRepository<StoredRecord>(COLLECTIONS[key]).insertMany(missing);
+      restored[key] = missing.length;
+    }
+  }
+
+  for (const [requestId, itemIds] of Object.entries(entry.detachedItemIds ?? {})) {
+    const request = await repositories.lookRequests.findById(requestId);
+    if (!request) continue;
+    const missing = itemIds.filter(itemId => !request.itemIds.includes(itemId));
+    if (missing.length > 0) {
+      await repositories.lookRequests.update(requestId, { itemIds: [...request.itemIds, ...missing] });
+    }
+  }
+
+  await repositories.trash.remove(id);
+  await recordTrashChange(entry, 'restore', restoredBy);
+  // Restores write through the repositories directly, across many collections
+  cache.clear();
+  if (entry.entityType === 'closet_item' || entry.entityType === 'closet') {
+    // Looks that used the items get them back on their composite
+    new Set((toRestore.lookItems ?? []).map(r => r.lookId as string)).forEach(scheduleLookComposite);
+  }
+  return { entry, restored };
+}
+
+/** Copy profile fields from a trashed profile into the live one where it has no value */
+async function fillProfileGaps(live: ClientProfile, trashed: ClientProfile): Promise<void> {
+  const gaps = Object.fromEntries(
+    Object.entries(pickClientProfileFields(trashed)).filter(([key]) => live[key as keyof ClientProfile] === undefined)
+  );
+  if (Object.keys(gaps).length > 0) {
+    await repositories.clientProfiles.update(live.id, gaps);
+  }
+}
+
+/** Permanently delete one trash entry. Its records are already gone from the live collections. */
+export async function purgeTrashEntry(id: string): Promise<boolean> {
+  return repositories.trash.remove(id);
+}
+
+/** Permanently delete every entry older than the retention window. Returns how many were purged. */
+export async function purgeExpiredTrash(retentionDays: number = getTrashRetentionDays()): Promise<number> {
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const expired = (await repositories.trash.findAll()).filter(e => new Date(e.deletedAt).getTime() < cutoff);
+  for (const entry of expired) {
+    await repositories.trash.remove(entry.id);
+  }
+  return expired.length;
+}
+
+/** Purge expired trash at startup and then once a day. */
+export function startTrashPurgeSchedule(): void {
+  const retentionDays = getTrashRetentionDays();
+  const purge = async () => {
+    try {
+      const purged = await purgeExpiredTrash(retentionDays);
+      if (purged > 0) console.log(`🗑️  Purged ${purged} trash entr${purged === 1 ? 'y' : 'ies'} older than ${retentionDays} days`);
+    } catch (error) {
+      console.error('❌ Trash purge failed:', error);
+    }
+  };
+  void purge();
+  setInterval(purge, 24 * 60 * 60 * 1000).unref();
+}
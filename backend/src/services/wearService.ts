@@ -0,0 +1,208 @@
+import { repositories } from '../repositories';
+import { ClosetItem, Receipt, WearEvent } from '../types';
+import { cache, CACHE_PREFIXES } from '../utils/cache';
+
+export interface WearStats {
+  itemId: string;
+  wearCount: number;
+  lastWorn?: string;
+  /** Purchase price read from purchaseInfo or the linked receipt, when there is one */
+  price?: number;
+  /** price / wearCount, rounded to cents; unset until the item has a price and a wear */
+  costPerWear?: number;
+}
+
+export interface LogWearOptions {
+  /** YYYY-MM-DD; defaults to today */
+  wornOn?: unknown;
+  lookId?: string;
+  note?: string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// 89, 89.99, 89,99, 1,299.00 or 1.299,00
+const AMOUNT = String.raw`\d+(?:[.,]\d{3})*(?:[.,]\d{1,2})?`;
+const CURRENCY = String.raw`(?:[$€£]|\b(?:usd|eur|gbp)\b)`;
+const CURRENCY_BEFORE = new RegExp(`${CURRENCY}\\s*(${AMOUNT})`, 'i');
+const CURRENCY_AFTER = new RegExp(`(${AMOUNT})\\s*${CURRENCY}`, 'i');
+const BARE_AMOUNT = new RegExp(`^\\s*(${AMOUNT})\\s*$`);
+// "Silk blouse - 120" or "Silk blouse: 120.00" on a receipt line
+const TRAILING_AMOUNT = new RegExp(`(?:\\s[-–:]?|:)\\s*(${AMOUNT})\\s*$`);
+
+function wearError(code: string, message: string): Error & { code?: string } {
+  const err = new Error(message) as Error & { code?: string };
+  err.code = code;
+  return err;
+}
+
+function toNumber(amount: string): number {
+  // The last separator is the decimal point when one or two digits follow it
+  const decimal = amount.match(/[.,](\d{1,2})$/);
+  const whole = (decimal ? amount.slice(0, -decimal[0].length) : amount).replace(/[.,]/g, '');
+  return Number(decimal ? `${whole}.${decimal[1]}` : whole);
+}
+
+/** A price in free text such as purchaseInfo ("Zara, $49.99", "120 EUR", "45"), if there is one */
+export function parsePrice(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const match = text.match(CURRENCY_BEFORE) ?? text.match(CURRENCY_AFTER) ?? text.match(BARE_AMOUNT);
+  const price = match ? toNumber(match[1]) : NaN;
+  return Number.isFinite(price) && price > 0 ? price : undefined;
+}
+
+/**
+ * What the item cost according to its receipt: the price on the line that names the item,
+ * or the whole total when the receipt lists a single item.
+ */
+function receiptPrice(item: ClosetItem, receipt: Receipt): number | undefined {
+  const name = item.name.trim().toLowerCase();
+  const line = name ? receipt.itemsList.find(entry => entry.toLowerCase().includes(name)) : undefined;
+  if (line) {
+    const trailing = line.match(TRAILING_AMOUNT);
+    const price = parsePrice(line) ?? (trailing ? toNumber(trailing[1]) : undefined);
+    if (price && price > 0) return price;
+  }
+  return receipt.itemsList.length <= 1 && receipt.totalAmount > 0 ? receipt.totalAmount : undefined;
+}
+
+export function itemPrice(item: ClosetItem, receipt?: Receipt | null): number | undefined {
+  return parsePrice(item.purchaseInfo) ?? (receipt ? receiptPrice(item, receipt) : undefined);
+}
+
+function latestWear(wears: WearEvent[]): string | undefined {
+  return wears.reduce<string | undefined>((latest, w) => (!latest || w.wornOn > latest ? w.wornOn : latest), undefined);
+}
+
+function toStats(item: ClosetItem, wears: WearEvent[], receipt?: Receipt | null): WearStats {
+  const price = itemPrice(item, receipt);
+  const lastWorn = latestWear(wears);
+  return {
+    itemId: item.id,
+    wearCount: wears.length,
+    ...(lastWorn && { lastWorn }),
+    ...(price !== undefined && { price }),
+    ...(price !== undefined && wears.length > 0 && { costPerWear: Math.round((price / wears.length) * 100) / 100 }),
+  };
+}
+
+/** Today's date (UTC) as YYYY-MM-DD */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Validate a wear date: YYYY-MM-DD, a real day, and not later than tomorrow (clients may be ahead of UTC). */
+export function parseWornOn(value: unknown): string {
+  if (value === undefined || value === null || value === '') return today();
+  if (typeof value !== 'string' || !DATE_ONLY.test(value) || new Date(value).toISOString().slice(0, 10) !== value) {
+    throw wearError('WEAR_INVALID_DATE', 'wornOn must be a date in YYYY-MM-DD format');
+  }
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  if (value > tomorrow) {
+    throw wearError('WEAR_INVALID_DATE', 'Wears cannot be logged for future dates');
+  }
+  return value;
+}
+
+/** Recompute wearCount / lastWorn on items from their wear log */
+async function syncWearFields(itemIds: string[]): Promise<void> {
+  for (const itemId of new Set(itemIds)) {
+    const wears = await repositories.wearEvents.findWhere({ itemId });
+    const lastWorn = latestWear(wears);
+    await repositories.closetItems.update(itemId, { wearCount: wears.length, lastWorn });
+  }
+  cache.invalidateByPrefix(CACHE_PREFIXES.CLOSET_ITEMS);
+}
+
+/**
+ * Log that these items were worn on one day. An item is logged at most once per day, so
+ * items already logged for that day are skipped; if every item was, WEAR_ALREADY_LOGGED is thrown.
+ */
+export async function logWears(itemIds: string[], options: LogWearOptions, loggedBy: string): Promise<WearEvent[]> {
+  const wornOn = parseWornOn(options.wornOn);
+  const note = typeof options.note === 'string' ? options.note.trim() : '';
+  const ids = [...new Set(itemIds)];
+
+  const created: WearEvent[] = [];
+  for (const itemId of ids) {
+    if ((await repositories.wearEvents.findWhere({ itemId, wornOn })).length > 0) continue;
+    created.push({
+      id: `wear_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      itemId,
+      wornOn,
+      ...(options.lookId && { lookId: options.lookId }),
+      ...(note && { note }),
+      loggedBy,
+      createdAt: new Date().toISOString(),
+    });
+  }
+  if (created.length === 0) {
+    throw wearError(
+      'WEAR_ALREADY_LOGGED',
+      ids.length === 1 ? `Already logged as worn on ${wornOn}` : `These items were already logged as worn on ${wornOn}`
+    );
+  }
+
+  await repositories.wearEvents.insertMany(created);
+  await syncWearFields(created.map(w => w.itemId));
+  return created;
+}
+
+/** Remove one wear from an item's log. False when it isn't a wear of that item. */
+export async function deleteWear(itemId: string, wearId: string): Promise<boolean> {
+  const wear = await repositories.wearEvents.findById(wearId);
+  if (!wear || wear.itemId !== itemId) return false;
+  await repositories.wearEvents.remove(wearId);
+  await syncWearFields([itemId]);
+  return true;
+}
+
+/** An item's wear log (most recent first) and its stats */
+export async function getItemWears(item: ClosetItem): Promise<{ wears: WearEvent[]; stats: WearStats }> {
+  const wears = await repositories.wearEvents.findWhere({ itemId: item.id });
+  wears.sort((a, b) => b.wornOn.localeCompare(a.wornOn) || b.createdAt.localeCompare(a.createdAt));
+  const receipt = item.receiptId ? await repositories.receipts.findById(item.receiptId) : null;
+  return { wears, stats: toStats(item, wears, receipt) };
+}
+
+/** Wear stats for many items (e.g. a whole closet), reading the wear log once */
+export async function getWearStats(items: ClosetItem[]): Promise<WearStats[]> {
+  const ids = new Set(items.map(i => i.id));
+  const wearsByItem = new Map<string, WearEvent[]>();
+  for (const wear of await repositories.wearEvents.findAll()) {
+    if (!ids.has(wear.itemId)) continue;
+    if (!wearsByItem.has(wear.itemId)) wearsByItem.set(wear.itemId, []);
+    wearsByItem.get(wear.itemId)!.push(wear);
+  }
+
+  const receipts = new Map<string, Receipt | null>();
+  for (const receiptId of new Set(items.map(i => i.receiptId).filter((id): id is string => !!id))) {
+    receipts.set(receiptId, await repositories.receipts.findById(receiptId));
+  }
+
+  return items.map(item =>
+    toStats(item, wearsByItem.get(item.id) ?? [], item.receiptId ? receipts.get(item.receiptId) : null)
+  );
+}
+
+/**
+ * Move the wear log of merged duplicates onto the kept item. Days the kept item was already
+ * worn are dropped rather than counted twice. Returns how many wears moved.
+ */
+export async function moveWears(fromItemIds: string[], toItemId: string): Promise<number> {
+  const wornDays = new Set((await repositories.wearEvents.findWhere({ itemId: toItemId })).map(w => w.wornOn));
+  let moved = 0;
+  for (const itemId of fromItemIds) {
+    for (const wear of await repositories.wearEvents.findWhere({ itemId })) {
+      if (wornDays.has(wear.wornOn)) {
+        await repositories.wearEvents.remove(wear.id);
+      } else {
+        await repositories.wearEvents.update(wear.id, { itemId: toItemId });
+        wornDays.add(wear.wornOn);
+        moved++;
+      }
+    }
+  }
+  await syncWearFields([toItemId, ...fromItemIds]);
+  return moved;
+}
@@ -1,5 +1,12 @@
 export type RelationshipStatus = 'not_active' | 'invited' | 'active' | 'ended';
-export type LookStatus = 'draft' | 'pending' | 'approved' | 'changes_requested';
+export type LookStatus =
+  | 'draft'
+  | 'pending'
+  | 'approved'
+  | 'changes_requested'
+  | 'withdrawn'
+  | 'worn'
+  | 'archived';
 
 export type ItemCategory = 
   | 'tops' 
@@ -23,18 +30,14 @@ export interface Relationship {
   createdAt: string;
 }
 
-export interface Client {
-  id: string;
-  name: string;
-  email: string;
-  phone?: string;
+/** A stylist's own data about a client: sizes, style questionnaire answers and notes */
+export interface ClientProfileFields {
   sizeTop?: string;
   sizeBottom?: string;
   sizeDress?: string;
   sizeShoes?: string;
   braSize?: string;
   colorPreferences?: string;
-  profilePhotoUrl?: string;
   /** Which features do you love about yourself? */
   featuresYouLove?: string;
   /** What specific colors make up the bulk of your wardrobe? */
@@ -51,16 +54,39 @@ export interface Client {
   styleIconsDescription?: string;
   /** Anything else regarding style (aversions, sizing, fabrics, etc.) */
   additionalStyleInfo?: string;
-  /** Instagram handle */
-  instagramHandle?: string;
   /** Estimate how many outfits you wear in a given day */
   outfitsPerDayEstimate?: string;
   /** Weekday outfits for work and/or home typically include */
   weekdayOutfitDetails?: string;
+  /** The stylist's private notes */
+  notes?: string;
+}
+
+/**
+ * Stored client records hold only the identity shared by every stylist working with the
+ * client (keyed by email). API responses for a stylist add that stylist's profile fields.
+ */
+export interface Client extends ClientProfileFields {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  profilePhotoUrl?: string;
+  /** Instagram handle */
+  instagramHandle?: string;
   relationshipId?: string;
   relationshipStatus?: RelationshipStatus;
 }
 
+// ClientProfile: one stylist's profile of a client, one per stylist-client pair
+export interface ClientProfile extends ClientProfileFields {
+  id: string;
+  clientId: string;
+  stylistId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface CreateClientDto {
   name: string;
   email: string;
@@ -83,12 +109,13 @@ export interface CreateClientDto {
   instagramHandle?: string;
   outfitsPerDayEstimate?: string;
   weekdayOutfitDetails?: string;
+  notes?: string;
 }
 
 export interface Closet {
   id: string;
-  /** Stylist who owns this closet view (null = client's own closet). Omitted in legacy data. */
-  stylistId?: string | null;
+  /** Stylist who owns this closet view (null = client's own closet) */
+  stylistId: string | null;
   ownerId: string;
   createdBy: string;
   name: string;
@@ -104,18 +131,129 @@ export interface ClosetItem {
   brand?: string;
   size?: string;
   colorTags: string[];
+  /** True while colorTags were filled in from suggestedColorTags and nobody has reviewed them */
+  colorTagsAuto?: boolean;
+  /** Palette colors extracted from the photo (machine-generated) */
+  suggestedColorTags?: string[];
+  /** Structured tags used by faceted closet search */
+  tags?: ItemTags;
   photoUrl: string;
   thumbnailUrl?: string;
   previewUrl?: string;
+  /** Transparent PNG of the item with its background removed (set by the background removal queue) */
+  cutoutUrl?: string;
+  /** Perceptual hash of the photo (16 hex chars), used to spot duplicate uploads */
+  photoHash?: string;
   itemType?: string;
   notes?: string;
   purchaseInfo?: string;
+  /** Receipt the item was bought on; its amount is used when purchaseInfo has no price */
+  receiptId?: string;
   createdBy: string;
   updatedBy: string;
   archived: boolean;
   createdAt: string;
   updatedAt: string;
+  /** Number of logged wears (kept in sync with the wear log) */
+  wearCount?: number;
+  /** Date of the most recent logged wear (YYYY-MM-DD) */
   lastWorn?: string;
+  /** Where the item is in its lifecycle (unset = active); kept in sync with the status log */
+  status?: ItemStatus;
+  /** Day of the last status change (YYYY-MM-DD) */
+  statusChangedOn?: string;
+  /** While away: the day the item is expected back (YYYY-MM-DD) */
+  expectedBackOn?: string;
+}
+
+/**
+ * Lifecycle of a closet item. Tailoring, dry cleaning, lent out and consigned items are away
+ * and come back; donated and sold items are gone for good.
+ */
+export type ItemStatus =
+  | 'active'
+  | 'tailoring'
+  | 'dry_cleaning'
+  | 'lent_out'
+  | 'consigned'
+  | 'donated'
+  | 'sold';
+
+// ItemStatusEvent: one change of a closet item's status
+export interface ItemStatusEvent {
+  id: string;
+  itemId: string;
+  status: ItemStatus;
+  previousStatus: ItemStatus;
+  /** Day the change happened (YYYY-MM-DD) */
+  changedOn: string;
+  note?: string;
+  /** Sale price (sold) or agreed consignment payout (consigned) */
+  amount?: number;
+  expectedBackOn?: string;
+  changedBy: string;
+  createdAt: string;
+}
+
+export type LookFeedbackReason = 'fit' | 'color' | 'occasion' | 'comfort';
+
+/** A client's thumbs up or down on one piece of a look, given when asking for changes */
+export interface LookItemFeedback {
+  lookItemId: string;
+  itemId: string;
+  /** Name of the piece when the feedback was given */
+  name?: string;
+  verdict: 'up' | 'down';
+  reasons?: LookFeedbackReason[];
+  comment?: string;
+}
+
+/** One move of a look through its status table (see services/lookStatusService.ts) */
+export interface LookStatusEvent {
+  id: string;
+  lookId: string;
+  status: LookStatus;
+  previousStatus: LookStatus;
+  reason?: string;
+  /** Per-item feedback, on moves to changes_requested */
+  itemFeedback?: LookItemFeedback[];
+  changedBy: string;
+  createdAt: string;
+}
+
+export type ChangeLogEntityType = 'closet_item' | 'look' | 'client' | 'client_profile';
+export type ChangeLogAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface FieldChange {
+  field: string;
+  /** Omitted when the field was not set before */
+  before?: unknown;
+  /** Omitted when the field was cleared */
+  after?: unknown;
+}
+
+// ChangeLogEntry: one edit of a closet item, look or client profile. Never updated or removed.
+export interface ChangeLogEntry {
+  id: string;
+  entityType: ChangeLogEntityType;
+  entityId: string;
+  action: ChangeLogAction;
+  /** Edited fields; empty for deletes and restores */
+  changes: FieldChange[];
+  changedBy: string;
+  changedAt: string;
+}
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+/** Tag groups on a closet item; every value is stored trimmed and lower-case */
+export interface ItemTags {
+  season?: Season[];
+  occasion?: string[];
+  fabric?: string[];
+  fit?: string[];
+  /** Free-form stylist tags */
+  custom?: string[];
 }
 
 /** Stylist-created subcategory under a main category */
@@ -135,12 +273,12 @@ export interface CreateClosetItemDto {
   brand?: string;
   size?: string;
   colorTags: string[];
+  tags?: ItemTags;
   photoUrl: string;
-  thumbnailUrl?: string;
-  previewUrl?: string;
   itemType?: string;
   notes?: string;
   purchaseInfo?: string;
+  receiptId?: string;
 }
 
 export interface Look {
@@ -154,6 +292,8 @@ export interface Look {
   status: LookStatus;
   parentLookId?: string;
   compositeImageUrl?: string;
+  /** Look items the composite leaves out because their picture couldn't be loaded */
+  compositeMissingItemIds?: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -183,6 +323,69 @@ export interface LookItem {
   scale?: number;
 }
 
+/** One piece of a look template: what kind of item goes where on the canvas */
+export interface LookTemplateSlot {
+  category: ItemCategory;
+  subcategory?: string;
+  /** Shown for the slot, and as the name of the item to buy when no closet item fits */
+  label?: string;
+  /** Preferred colors; items sharing more of them match better */
+  colorTags?: string[];
+  positionX: number;
+  positionY: number;
+  scale: number;
+}
+
+/** A stylist's reusable outfit formula (see services/lookTemplateService.ts) */
+export interface LookTemplate {
+  id: string;
+  stylistId: string;
+  name: string;
+  description?: string;
+  occasion?: string;
+  slots: LookTemplateSlot[];
+  /** Look the template was saved from */
+  sourceLookId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A look item as it was when its look was sent for approval */
+export interface LookRevisionItem {
+  itemId: string;
+  itemType: LookItem['itemType'];
+  newItemDetails?: any;
+  sortOrder: number;
+  positionX?: number;
+  positionY?: number;
+  scale?: number;
+  /** Name and picture of the item at the time, so old revisions still show removed items */
+  name?: string;
+  imageUrl?: string;
+}
+
+/**
+ * Frozen copy of a look taken each time it is sent for approval. Only the client's answer
+ * (response, respondedAt) is filled in later.
+ */
+export interface LookRevision {
+  id: string;
+  lookId: string;
+  /** 1 for the first time the look was sent, then counting up */
+  revision: number;
+  name: string;
+  occasion?: string;
+  eventDate?: string;
+  stylingNotes?: string;
+  items: LookRevisionItem[];
+  compositeImageUrl?: string;
+  compositeMissingItemIds?: string[];
+  response?: 'approved' | 'changes_requested';
+  respondedAt?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
 // ChatRoom: 1:1 relationship with Look - no look = no chat
 export interface ChatRoom {
   id: string;
@@ -230,3 +433,67 @@ export interface Receipt {
   notes?: string;
   createdAt: string;
 }
+
+export interface CreateReceiptDto {
+  clientId: string;
+  storeName: string;
+  purchaseDate: string;
+  totalAmount: number;
+  itemsList: string[];
+  receiptPhotoUrl?: string;
+  notes?: string;
+}
+
+// WearEvent: one day a closet item was worn, optionally as part of a look
+export interface WearEvent {
+  id: string;
+  itemId: string;
+  /** Calendar day of the wear (YYYY-MM-DD) */
+  wornOn: string;
+  /** Set when the wear was logged for a whole look */
+  lookId?: string;
+  note?: string;
+  loggedBy: string;
+  createdAt: string;
+}
+
+export type TrashEntityType = 'client' | 'look' | 'closet_item' | 'closet';
+
+// TrashEntry: a soft-deleted record plus every record its delete cascaded to
+export interface TrashEntry {
+  id: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  /** Client, look, item or closet name at delete time, for the trash list */
+  label: string;
+  record: Client | Look | ClosetItem | Closet;
+  /** Records removed along with it, keyed by collection (e.g. lookItems, chatRooms, messages) */
+  dependents: Record<string, Array<{ id: string; [field: string]: any }>>;
+  /** Look requests the deleted closet item ids were stripped from: requestId -> itemIds */
+  detachedItemIds?: Record<string, string[]>;
+  /**
+   * Client entries only: true when just the deleting stylist's share went to the trash (their
+   * relationship, profile, closets, looks, requests and receipts) and the shared client stayed
+   */
+  stylistScoped?: boolean;
+  deletedAt: string;
+  deletedBy: string;
+}
+
+export type BackgroundRemovalStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// BackgroundRemovalJob: the latest cutout job for a closet item's current photo
+export interface BackgroundRemovalJob {
+  id: string;
+  itemId: string;
+  /** Media key of the photo being cut out; a job whose item photo has since changed is dropped */
+  sourceKey: string;
+  status: BackgroundRemovalStatus;
+  /** Regenerate the cutout even if one is already stored for this photo */
+  force?: boolean;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
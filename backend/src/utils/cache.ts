@@ -15,8 +15,8 @@ class MemoryCache {
   constructor(defaultTTLSeconds: number = 60) {
     this.defaultTTL = defaultTTLSeconds * 1000;
     
-    // Cleanup expired entries every minute
-    setInterval(() => this.cleanup(), 60000);
+    // Cleanup expired entries every minute (unref'd so CLI scripts can exit)
+    setInterval(() => this.cleanup(), 60000).unref();
   }
 
   /**
@@ -99,42 +99,37 @@ class MemoryCache {
 // Cache keys constants
 export const CACHE_KEYS = {
   USERS: 'users:all',
-  USER_BY_ID: (id: string) => `users:id:${id}`,
-  USER_BY_EMAIL: (email: string) => `users:email:${email.toLowerCase()}`,
+  USERS_INDEX: 'users:index',
   
   CLIENTS: 'clients:all',
-  CLIENT_BY_ID: (id: string) => `clients:id:${id}`,
-  CLIENT_BY_EMAIL: (email: string) => `clients:email:${email.toLowerCase()}`,
+  CLIENTS_INDEX: 'clients:index',
+  // Under the clients prefix so client invalidation drops profiles too
+  CLIENT_PROFILES: 'clients:profiles:all',
+  CLIENT_PROFILES_INDEX: 'clients:profiles:index',
   
   RELATIONSHIPS: 'relationships:all',
-  RELATIONSHIPS_BY_STYLIST: (stylistId: string) => `relationships:stylist:${stylistId}`,
+  RELATIONSHIPS_INDEX: 'relationships:index',
   
   CLOSETS: 'closets:all',
-  CLOSET_BY_ID: (id: string) => `closets:id:${id}`,
-  CLOSET_BY_OWNER: (ownerId: string) => `closets:owner:${ownerId}`,
-  CLOSET_BY_STYLIST_OWNER: (stylistId: string | null, ownerId: string) =>
-    `closets:stylist:${stylistId ?? 'client'}:owner:${ownerId}`,
+  CLOSETS_INDEX: 'closets:index',
   
   CLOSET_ITEMS: 'closet_items:all',
-  CLOSET_ITEMS_BY_CLOSET: (closetId: string) => `closet_items:closet:${closetId}`,
+  CLOSET_ITEMS_INDEX: 'closet_items:index',
   
   SUBCATEGORIES: 'subcategories:all',
-  SUBCATEGORIES_BY_STYLIST_CATEGORY: (stylistId: string, category: string) =>
-    `subcategories:stylist:${stylistId}:category:${category}`,
+  SUBCATEGORIES_INDEX: 'subcategories:index',
   
   LOOKS: 'looks:all',
-  LOOKS_BY_STYLIST: (stylistId: string) => `looks:stylist:${stylistId}`,
-  LOOK_BY_ID: (id: string) => `looks:id:${id}`,
+  LOOKS_INDEX: 'looks:index',
   
   LOOK_ITEMS: 'look_items:all',
-  LOOK_ITEMS_BY_LOOK: (lookId: string) => `look_items:look:${lookId}`,
+  LOOK_ITEMS_INDEX: 'look_items:index',
   
   CHAT_ROOMS: 'chat_rooms:all',
-  CHAT_ROOMS_BY_USER: (userId: string) => `chat_rooms:user:${userId}`,
-  CHAT_ROOM_BY_ID: (id: string) => `chat_rooms:id:${id}`,
-  CHAT_ROOM_BY_LOOK: (lookId: string) => `chat_rooms:look:${lookId}`,
+  CHAT_ROOMS_INDEX: 'chat_rooms:index',
   
   MESSAGES_BY_CHAT_ROOM: (chatRoomId: string) => `messages:chatroom:${chatRoomId}`,
+  MESSAGES_INDEX: 'messages:index',
 };
 
 // Cache invalidation helpers
@@ -1,7 +1,7 @@
-import fs from 'fs/promises';
-import path from 'path';
 import {
   Client,
+  ClientProfile,
+  ClientProfileFields,
   CreateClientDto,
   Relationship,
   Closet,
@@ -10,62 +10,31 @@ import {
   Look,
   CreateLookDto,
   LookItem,
+  LookStatus,
   LookRequest,
   ChatRoom,
   Message,
   CreateMessageDto,
   Subcategory,
   ItemCategory,
+  Receipt,
+  CreateReceiptDto,
 } from '../types';
+import { repositories } from '../repositories';
 import { cache, CACHE_KEYS, CACHE_PREFIXES } from './cache';
+import { getCachedIndex, RecordIndex } from './recordIndex';
+import { renditionsForUrl } from '../media/renditions';
+import { photoHashForUrl } from '../media/perceptualHash';
+import { colorTagChanges, suggestColorTags } from '../services/colorTagService';
+import { scheduleCompositesForClosetItems, scheduleLookComposite } from '../services/lookCompositeService';
+import { recordChange, recordCreates } from '../services/changeLogService';
 
 // Export LookItem type explicitly
 export type { LookItem };
 export type { ChatRoom };
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-
-// Ensure data directory exists
-async function ensureDataDirectory() {
-  try {
-    await fs.access(DATA_DIR);
-  } catch {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-  }
-}
-
-/**
- * Parse JSON from a data file. On "Unexpected non-whitespace character after JSON at position N",
- * tries to parse only the first N characters (valid JSON + trailing garbage in file).
- * Rethrows with filePath in message for easier debugging.
- */
-function parseJsonFile<T>(data: string, filePath: string): T {
-  try {
-    return JSON.parse(data) as T;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      throw error;
-    }
-    const positionMatch = error.message?.match(/position (\d+)/);
-    if (positionMatch) {
-      const pos = parseInt(positionMatch[1], 10);
-      try {
-        const parsed = JSON.parse(data.substring(0, pos)) as T;
-        console.warn(`[database-entities] Recovered valid JSON from ${filePath} by truncating at position ${pos} (trailing garbage ignored).`);
-        return parsed;
-      } catch {
-        // fall through to rethrow with file path
-      }
-    }
-    const fileName = path.basename(filePath);
-    throw new Error(`Invalid JSON in ${fileName}: ${error.message}`);
-  }
-}
-
 // ==================== CLIENTS ====================
 
-const CLIENTS_FILE = path.join(DATA_DIR, 'clients.json');
-
 async function readClients(): Promise<Client[]> {
   // Check cache first
   const cached = cache.get<Client[]>(CACHE_KEYS.CLIENTS);
@@ -73,66 +42,62 @@ async function readClients(): Promise<Client[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(CLIENTS_FILE, 'utf-8');
-    const clients = parseJsonFile<Client[]>(data, CLIENTS_FILE);
-    cache.set(CACHE_KEYS.CLIENTS, clients);
-    return clients;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const clients = await repositories.clients.findAll();
+  cache.set(CACHE_KEYS.CLIENTS, clients);
+  return clients;
 }
 
-async function writeClients(clients: Client[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(CLIENTS_FILE, JSON.stringify(clients, null, 2));
+function invalidateClients(): void {
   // Invalidate client-related caches
   cache.invalidateByPrefix(CACHE_PREFIXES.CLIENTS);
 }
 
+/** Client fields kept per stylist in client_profiles rather than on the shared client record */
+export const CLIENT_PROFILE_FIELDS: readonly (keyof ClientProfileFields)[] = [
+  'sizeTop', 'sizeBottom', 'sizeDress', 'sizeShoes', 'braSize', 'colorPreferences',
+  'featuresYouLove', 'wardrobeColors', 'personalStyle', 'dailySchedule', 'featuresYouDislike',
+  'styleIcons', 'styleIconsDescription', 'additionalStyleInfo', 'outfitsPerDayEstimate',
+  'weekdayOutfitDetails', 'notes',
+];
+
+/** The profile fields present in data (a request body, a CSV row, a stored profile) */
+export function pickClientProfileFields(data: Partial<ClientProfileFields>): ClientProfileFields {
+  const fields: ClientProfileFields = {};
+  for (const key of CLIENT_PROFILE_FIELDS) {
+    if (data[key] !== undefined) fields[key] = data[key];
+  }
+  return fields;
+}
+
+/** data without profile fields: what may be written to the shared client record */
+function withoutProfileFields<T extends Partial<Client>>(data: T): T {
+  const rest = { ...data };
+  for (const key of CLIENT_PROFILE_FIELDS) delete rest[key];
+  return rest;
+}
+
+/** Clients by id and (case-insensitive) email */
+export async function getClientIndex(): Promise<RecordIndex<Client>> {
+  return getCachedIndex(CACHE_KEYS.CLIENTS_INDEX, readClients, [
+    { field: 'email', key: value => String(value).toLowerCase() },
+  ]);
+}
+
 export async function getAllClients(): Promise<Client[]> {
   return readClients();
 }
 
 export async function getClientById(id: string): Promise<Client | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.CLIENT_BY_ID(id);
-  const cached = cache.get<Client>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const clients = await readClients();
-  const client = clients.find(c => c.id === id) || null;
-  if (client) {
-    cache.set(cacheKey, client);
-  }
-  return client;
+  const index = await getClientIndex();
+  return index.get(id);
 }
 
 export async function getClientByEmail(email: string): Promise<Client | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.CLIENT_BY_EMAIL(email);
-  const cached = cache.get<Client>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const clients = await readClients();
-  const client = clients.find(c => c.email.toLowerCase() === email.toLowerCase()) || null;
-  if (client) {
-    cache.set(cacheKey, client);
-  }
-  return client;
+  const index = await getClientIndex();
+  return index.first('email', email);
 }
 
-export async function createClient(clientData: CreateClientDto): Promise<Client> {
-  const clients = await readClients();
-  
+export async function createClient(clientData: CreateClientDto, createdBy?: string): Promise<Client> {
   // Normalize email to lowercase for consistency
   const normalizedEmail = clientData.email.toLowerCase().trim();
   
@@ -144,38 +109,46 @@ export async function createClient(clientData: CreateClientDto): Promise<Client>
 
   const newClient: Client = {
     id: `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    ...clientData,
+    ...withoutProfileFields(clientData),
     email: normalizedEmail, // Ensure email is normalized
   };
 
-  clients.push(newClient);
-  await writeClients(clients);
+  await repositories.clients.insert(newClient);
+  invalidateClients();
+  if (createdBy) await recordChange('client', newClient.id, 'create', createdBy, null, newClient);
   
   return newClient;
 }
 
-export async function updateClient(id: string, updates: Partial<Client>): Promise<Client | null> {
-  const clients = await readClients();
-  const index = clients.findIndex(c => c.id === id);
-  
-  if (index === -1) {
-    return null;
+/**
+ * Update the shared client record (profile fields are ignored, see saveClientProfile).
+ * Pass changedBy to record the edit in the client's change history.
+ */
+export async function updateClient(id: string, updates: Partial<Client>, changedBy?: string): Promise<Client | null> {
+  const { id: _ignored, relationshipId: _rel, relationshipStatus: _status, ...rest } = withoutProfileFields(updates);
+  const existing = changedBy ? await getClientById(id) : null;
+  const updated = await repositories.clients.update(id, rest);
+  if (updated) {
+    invalidateClients();
+    if (changedBy) await recordChange('client', id, 'update', changedBy, existing, updated);
   }
-
-  clients[index] = { ...clients[index], ...updates };
-  await writeClients(clients);
-  
-  return clients[index];
+  return updated;
 }
 
 export async function deleteClient(id: string): Promise<boolean> {
-  const clients = await readClients();
-  const exists = clients.some(c => c.id === id);
-  if (!exists) return false;
+  const clientIndex = await getClientIndex();
+  if (!clientIndex.get(id)) return false;
 
-  // Cascade: delete looks (and look items, chat rooms, messages), closet (and closet items)
-  const looks = await readLooks();
-  const clientLooks = looks.filter(l => l.clientId === id);
+  // Cascade: chat rooms (and messages), looks (and look items), look requests,
+  // closets (and closet items), receipts and relationships
+  const chatRooms = await repositories.chatRooms.findWhere({ clientId: id });
+  for (const chatRoom of chatRooms) {
+    await deleteMessagesByChatRoomId(chatRoom.id);
+    await deleteChatRoom(chatRoom.id);
+  }
+
+  const lookIndex = await getLookIndex();
+  const clientLooks = lookIndex.where('clientId', id);
   for (const look of clientLooks) {
     const chatRoom = await getChatRoomByLookId(look.id);
     if (chatRoom) {
@@ -183,9 +156,13 @@ export async function deleteClient(id: string): Promise<boolean> {
       await deleteChatRoom(chatRoom.id);
     }
     await deleteLookItemsByLookId(look.id);
+    await repositories.lookRevisions.removeWhere({ lookId: look.id });
+    await repositories.lookStatusEvents.removeWhere({ lookId: look.id });
   }
-  const looksToKeep = looks.filter(l => l.clientId !== id);
-  await writeLooks(looksToKeep);
+  await repositories.looks.removeWhere({ clientId: id });
+  invalidateLooks();
+
+  await repositories.lookRequests.removeWhere({ clientId: id });
 
   const closets = await getClosetsByOwnerId(id);
   for (const closet of closets) {
@@ -193,12 +170,59 @@ export async function deleteClient(id: string): Promise<boolean> {
     await deleteCloset(closet.id);
   }
 
-  const filtered = clients.filter(c => c.id !== id);
-  await writeClients(filtered);
+  await repositories.receipts.removeWhere({ clientId: id });
+  await repositories.relationships.removeWhere({ clientId: id });
+  invalidateRelationships();
+
+  await repositories.clientProfiles.removeWhere({ clientId: id });
+  await repositories.clients.remove(id);
+  invalidateClients();
   return true;
 }
 
-export async function bulkCreateClients(clientsData: CreateClientDto[]): Promise<Client[]> {
+/**
+ * Remove one stylist's share of a client: their chat rooms, looks, look requests, closets,
+ * receipts, relationship and profile. The shared client record and everything that belongs
+ * to other stylists or to the client's own closets stay.
+ */
+export async function deleteClientForStylist(id: string, stylistId: string): Promise<void> {
+  const chatRooms = await repositories.chatRooms.findWhere({ clientId: id, stylistId });
+  for (const chatRoom of chatRooms) {
+    await deleteMessagesByChatRoomId(chatRoom.id);
+    await deleteChatRoom(chatRoom.id);
+  }
+
+  const lookIndex = await getLookIndex();
+  const looks = lookIndex.where('clientId', id).filter(l => l.stylistId === stylistId);
+  for (const look of looks) {
+    const chatRoom = await getChatRoomByLookId(look.id);
+    if (chatRoom) {
+      await deleteMessagesByChatRoomId(chatRoom.id);
+      await deleteChatRoom(chatRoom.id);
+    }
+    await deleteLookItemsByLookId(look.id);
+    await repositories.lookRevisions.removeWhere({ lookId: look.id });
+    await repositories.lookStatusEvents.removeWhere({ lookId: look.id });
+    await repositories.looks.remove(look.id);
+  }
+  invalidateLooks();
+
+  await repositories.lookRequests.removeWhere({ clientId: id, stylistId });
+
+  const closets = (await getClosetsByOwnerId(id)).filter(c => c.stylistId === stylistId);
+  for (const closet of closets) {
+    await deleteClosetItemsByClosetId(closet.id);
+    await deleteCloset(closet.id);
+  }
+
+  await repositories.receipts.removeWhere({ clientId: id, stylistId });
+  await repositories.relationships.removeWhere({ clientId: id, stylistId });
+  invalidateRelationships();
+  await repositories.clientProfiles.removeWhere({ clientId: id, stylistId });
+  invalidateClients();
+}
+
+export async function bulkCreateClients(clientsData: CreateClientDto[], createdBy?: string): Promise<Client[]> {
   const clients = await readClients();
   const newClients: Client[] = [];
   const existingEmails = new Set(clients.map(c => c.email.toLowerCase()));
@@ -220,7 +244,7 @@ export async function bulkCreateClients(clientsData: CreateClientDto[]): Promise
 
     const newClient: Client = {
       id: `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      ...data,
+      ...withoutProfileFields(data),
       email: emailLower, // Normalize email to lowercase
     };
 
@@ -229,16 +253,75 @@ export async function bulkCreateClients(clientsData: CreateClientDto[]): Promise
   }
 
   if (newClients.length > 0) {
-    clients.push(...newClients);
-    await writeClients(clients);
+    await repositories.clients.insertMany(newClients);
+    invalidateClients();
+    if (createdBy) await recordCreates('client', newClients, createdBy);
   }
   
   return newClients;
 }
 
-// ==================== RELATIONSHIPS ====================
+// ==================== CLIENT PROFILES ====================
+
+async function readClientProfiles(): Promise<ClientProfile[]> {
+  const cached = cache.get<ClientProfile[]>(CACHE_KEYS.CLIENT_PROFILES);
+  if (cached) return cached;
+  const profiles = await repositories.clientProfiles.findAll();
+  cache.set(CACHE_KEYS.CLIENT_PROFILES, profiles);
+  return profiles;
+}
+
+/** Client profiles by id, client and stylist */
+export async function getClientProfileIndex(): Promise<RecordIndex<ClientProfile>> {
+  return getCachedIndex(CACHE_KEYS.CLIENT_PROFILES_INDEX, readClientProfiles, ['clientId', 'stylistId']);
+}
+
+export async function getClientProfile(clientId: string, stylistId: string): Promise<ClientProfile | null> {
+  const index = await getClientProfileIndex();
+  return index.where('clientId', clientId).find(p => p.stylistId === stylistId) || null;
+}
+
+/** The client as one stylist sees it: the shared record plus that stylist's profile */
+export function clientWithProfile(client: Client, profile: ClientProfile | null): Client {
+  return { ...withoutProfileFields(client), ...(profile ? pickClientProfileFields(profile) : {}) };
+}
+
+/**
+ * Create or update a stylist's profile of a client; only profile fields are taken from updates.
+ * Pass changedBy to record the change in the profile's change history.
+ */
+export async function saveClientProfile(
+  clientId: string,
+  stylistId: string,
+  updates: Partial<ClientProfileFields>,
+  changedBy?: string
+): Promise<ClientProfile> {
+  const fields = pickClientProfileFields(updates);
+  const now = new Date().toISOString();
+  const existing = await getClientProfile(clientId, stylistId);
+  if (!existing) {
+    const profile: ClientProfile = {
+      id: `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      clientId,
+      stylistId,
+      ...fields,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await repositories.clientProfiles.insert(profile);
+    invalidateClients();
+    if (changedBy) await recordChange('client_profile', profile.id, 'create', changedBy, null, profile);
+    return profile;
+  }
 
-const RELATIONSHIPS_FILE = path.join(DATA_DIR, 'relationships.json');
+  if (Object.keys(fields).length === 0) return existing;
+  const updated = await repositories.clientProfiles.update(existing.id, { ...fields, updatedAt: now });
+  invalidateClients();
+  if (updated && changedBy) await recordChange('client_profile', existing.id, 'update', changedBy, existing, updated);
+  return updated ?? existing;
+}
+
+// ==================== RELATIONSHIPS ====================
 
 async function readRelationships(): Promise<Relationship[]> {
   // Check cache first
@@ -247,46 +330,18 @@ async function readRelationships(): Promise<Relationship[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(RELATIONSHIPS_FILE, 'utf-8');
-    const relationships = parseJsonFile<Relationship[]>(data, RELATIONSHIPS_FILE);
-    cache.set(CACHE_KEYS.RELATIONSHIPS, relationships);
-    return relationships;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const relationships = await repositories.relationships.findAll();
+  cache.set(CACHE_KEYS.RELATIONSHIPS, relationships);
+  return relationships;
 }
 
-async function writeRelationships(relationships: Relationship[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(RELATIONSHIPS_FILE, JSON.stringify(relationships, null, 2));
+function invalidateRelationships(): void {
   // Invalidate relationship-related caches
   cache.invalidateByPrefix(CACHE_PREFIXES.RELATIONSHIPS);
 }
 
-/**
- * Migration: Set status to 'not_active' for relationships that were
- * incorrectly marked 'active' before client accepted invite or approved a look.
- * Only affects relationships with status 'active' and no acceptedAt.
- */
-export async function migrateRelationshipStatuses(): Promise<number> {
-  const relationships = await readRelationships();
-  let changed = 0;
-  for (const r of relationships) {
-    if (r.status === 'active' && !r.acceptedAt) {
-      (r as Relationship).status = 'not_active';
-      changed++;
-    }
-  }
-  if (changed > 0) {
-    await writeRelationships(relationships);
-    console.log(`✅ Migrated ${changed} relationship(s) from active to not_active (no invite accepted)`);
-  }
-  return changed;
+async function getRelationshipIndex(): Promise<RecordIndex<Relationship>> {
+  return getCachedIndex(CACHE_KEYS.RELATIONSHIPS_INDEX, readRelationships, ['stylistId', 'clientId']);
 }
 
 export async function getAllRelationships(): Promise<Relationship[]> {
@@ -294,44 +349,35 @@ export async function getAllRelationships(): Promise<Relationship[]> {
 }
 
 export async function getRelationshipById(id: string): Promise<Relationship | null> {
-  const relationships = await readRelationships();
-  return relationships.find(r => r.id === id) || null;
+  const index = await getRelationshipIndex();
+  return index.get(id);
 }
 
 export async function getRelationshipsByStylist(stylistId: string): Promise<Relationship[]> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.RELATIONSHIPS_BY_STYLIST(stylistId);
-  const cached = cache.get<Relationship[]>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const relationships = await readRelationships();
-  const filtered = relationships.filter(r => r.stylistId === stylistId);
-  cache.set(cacheKey, filtered);
-  return filtered;
+  const index = await getRelationshipIndex();
+  return index.where('stylistId', stylistId);
 }
 
 export async function getRelationshipByStylistAndClient(
   stylistId: string,
   clientId: string
 ): Promise<Relationship | null> {
-  const relationships = await readRelationships();
-  return relationships.find(r => r.stylistId === stylistId && r.clientId === clientId) || null;
+  const index = await getRelationshipIndex();
+  return index.where('clientId', clientId).find(r => r.stylistId === stylistId) || null;
 }
 
 export async function getRelationshipsByClientId(clientId: string): Promise<Relationship[]> {
-  const relationships = await readRelationships();
-  return relationships.filter(r => r.clientId === clientId && r.status !== 'ended');
+  const index = await getRelationshipIndex();
+  return index.where('clientId', clientId).filter(r => r.status !== 'ended');
 }
 
+/** Link a stylist to a client. The stylist's profile of the client starts from `profile`. */
 export async function createRelationship(
   stylistId: string,
   clientId: string,
-  status: 'not_active' | 'invited' | 'active' = 'not_active'
+  status: 'not_active' | 'invited' | 'active' = 'not_active',
+  profile: ClientProfileFields = {}
 ): Promise<Relationship> {
-  const relationships = await readRelationships();
-  
   // Check if THIS stylist already has a relationship with THIS client
   const existing = await getRelationshipByStylistAndClient(stylistId, clientId);
   if (existing) {
@@ -357,8 +403,9 @@ export async function createRelationship(
     createdAt: new Date().toISOString(),
   };
 
-  relationships.push(newRelationship);
-  await writeRelationships(relationships);
+  await repositories.relationships.insert(newRelationship);
+  invalidateRelationships();
+  await saveClientProfile(clientId, stylistId, profile, Object.keys(profile).length > 0 ? stylistId : undefined);
   
   return newRelationship;
 }
@@ -367,15 +414,11 @@ export async function updateRelationshipStatus(
   id: string,
   status: 'not_active' | 'invited' | 'active' | 'ended'
 ): Promise<Relationship | null> {
-  const relationships = await readRelationships();
-  const index = relationships.findIndex(r => r.id === id);
-  
-  if (index === -1) {
+  const relationship = await getRelationshipById(id);
+  if (!relationship) {
     return null;
   }
 
-  const relationship = relationships[index];
-
   // NOTE: Multiple stylists CAN have active relationships with the same client independently
 
   // Set/update expiration date when status changes to 'invited'
@@ -383,8 +426,7 @@ export async function updateRelationshipStatus(
     ? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
     : relationship.expiresAt;
 
-  relationships[index] = {
-    ...relationship,
+  const updated = await repositories.relationships.update(id, {
     status,
     expiresAt,
     acceptedAt: status === 'active' && !relationship.acceptedAt 
@@ -393,17 +435,14 @@ export async function updateRelationshipStatus(
     endedAt: status === 'ended' && !relationship.endedAt 
       ? new Date().toISOString() 
       : relationship.endedAt,
-  };
-
-  await writeRelationships(relationships);
+  });
+  invalidateRelationships();
   
-  return relationships[index];
+  return updated;
 }
 
 // ==================== CLOSETS ====================
 
-const CLOSETS_FILE = path.join(DATA_DIR, 'closets.json');
-
 async function readClosets(): Promise<Closet[]> {
   // Check cache first
   const cached = cache.get<Closet[]>(CACHE_KEYS.CLOSETS);
@@ -411,50 +450,32 @@ async function readClosets(): Promise<Closet[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(CLOSETS_FILE, 'utf-8');
-    const closets = parseJsonFile<Closet[]>(data, CLOSETS_FILE);
-    cache.set(CACHE_KEYS.CLOSETS, closets);
-    return closets;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const closets = await repositories.closets.findAll();
+  cache.set(CACHE_KEYS.CLOSETS, closets);
+  return closets;
 }
 
-async function writeClosets(closets: Closet[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(CLOSETS_FILE, JSON.stringify(closets, null, 2));
+function invalidateClosets(): void {
   // Invalidate closet-related caches
   cache.invalidateByPrefix(CACHE_PREFIXES.CLOSETS);
 }
 
+/** Closets by id, owner (client) and stylist */
+export async function getClosetIndex(): Promise<RecordIndex<Closet>> {
+  return getCachedIndex(CACHE_KEYS.CLOSETS_INDEX, readClosets, ['ownerId', 'stylistId']);
+}
+
 export async function getAllClosets(): Promise<Closet[]> {
   return readClosets();
 }
 
 export async function getClosetById(id: string): Promise<Closet | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.CLOSET_BY_ID(id);
-  const cached = cache.get<Closet>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const closets = await readClosets();
-  const closet = closets.find(c => c.id === id) || null;
-  if (closet) {
-    cache.set(cacheKey, closet);
-  }
-  return closet;
+  const index = await getClosetIndex();
+  return index.get(id);
 }
 
 export async function getClosetByOwnerId(ownerId: string): Promise<Closet | null> {
-  const closets = await readClosets();
-  return closets.find(c => c.ownerId === ownerId && c.stylistId == null) || null;
+  return getClosetByStylistAndClient(null, ownerId);
 }
 
 /** Get closet scoped to stylist-client (each stylist has independent closet per client) */
@@ -462,25 +483,14 @@ export async function getClosetByStylistAndClient(
   stylistId: string | null,
   ownerId: string
 ): Promise<Closet | null> {
-  const cacheKey = CACHE_KEYS.CLOSET_BY_STYLIST_OWNER(stylistId, ownerId);
-  const cached = cache.get<Closet>(cacheKey);
-  if (cached) return cached;
-
-  const closets = await readClosets();
-  const closet = closets.find(
-    c =>
-      c.ownerId === ownerId &&
-      ((c.stylistId != null && c.stylistId === stylistId) ||
-        (c.stylistId == null && stylistId == null))
-  ) || null;
-  if (closet) cache.set(cacheKey, closet);
-  return closet;
+  const index = await getClosetIndex();
+  return index.where('ownerId', ownerId).find(c => c.stylistId === stylistId) || null;
 }
 
 /** Get all closets for a client (for cascade delete) */
 export async function getClosetsByOwnerId(ownerId: string): Promise<Closet[]> {
-  const closets = await readClosets();
-  return closets.filter(c => c.ownerId === ownerId);
+  const index = await getClosetIndex();
+  return index.where('ownerId', ownerId);
 }
 
 export async function getOrCreateCloset(
@@ -488,32 +498,8 @@ export async function getOrCreateCloset(
   ownerId: string,
   createdBy: string
 ): Promise<Closet> {
-  const closets = await readClosets();
-
-  // For stylists: find closet that belongs to THIS stylist (exact match)
-  let existing: Closet | undefined;
-  if (stylistId != null) {
-    existing = closets.find(
-      c => c.ownerId === ownerId && c.stylistId === stylistId
-    );
-    if (!existing) {
-      // Legacy: claim unclaimed closet only if created by THIS stylist
-      const legacy = closets.find(
-        c => c.ownerId === ownerId && (c.stylistId == null || c.stylistId === undefined) && c.createdBy === stylistId
-      );
-      if (legacy) {
-        (legacy as Closet).stylistId = stylistId;
-        await writeClosets(closets);
-        return legacy as Closet;
-      }
-    }
-  } else {
-    // Client: find their own closet (stylistId null)
-    existing = closets.find(
-      c => c.ownerId === ownerId && (c.stylistId == null || c.stylistId === undefined)
-    );
-  }
-
+  // Stylists get the closet scoped to them; clients their own closet (stylistId null)
+  const existing = await getClosetByStylistAndClient(stylistId, ownerId);
   if (existing) return existing;
 
   const newCloset: Closet = {
@@ -525,8 +511,8 @@ export async function getOrCreateCloset(
     createdAt: new Date().toISOString(),
   };
 
-  closets.push(newCloset);
-  await writeClosets(closets);
+  await repositories.closets.insert(newCloset);
+  invalidateClosets();
   return newCloset;
 }
 
@@ -551,32 +537,53 @@ export async function createCloset(
     err.code = 'DUPLICATE_CLOSET_NAME';
     throw err;
   }
-  const closets = await readClosets();
   const newCloset: Closet = {
     id: `closet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    stylistId: stylistId ?? undefined,
+    stylistId,
     ownerId,
     createdBy,
     name: trimmedName,
     createdAt: new Date().toISOString(),
   };
-  closets.push(newCloset);
-  await writeClosets(closets);
+  await repositories.closets.insert(newCloset);
+  invalidateClosets();
   return newCloset;
 }
 
+/** Rename a closet. The name is required and must stay unique among the owner's closets. */
+export async function updateCloset(id: string, updates: { name?: string }): Promise<Closet | null> {
+  const closet = await getClosetById(id);
+  if (!closet) return null;
+  if (updates.name === undefined) return closet;
+
+  const trimmedName = updates.name.trim();
+  if (!trimmedName) {
+    const err = new Error('CLOSET_NAME_REQUIRED') as Error & { code?: string };
+    err.code = 'CLOSET_NAME_REQUIRED';
+    throw err;
+  }
+  const lower = trimmedName.toLowerCase();
+  const duplicate = (await getClosetsByOwnerId(closet.ownerId))
+    .some(c => c.id !== id && c.name.trim().toLowerCase() === lower);
+  if (duplicate) {
+    const err = new Error('DUPLICATE_CLOSET_NAME') as Error & { code?: string };
+    err.code = 'DUPLICATE_CLOSET_NAME';
+    throw err;
+  }
+
+  const updated = await repositories.closets.update(id, { name: trimmedName });
+  if (updated) invalidateClosets();
+  return updated;
+}
+
 export async function deleteCloset(id: string): Promise<boolean> {
-  const closets = await readClosets();
-  const filtered = closets.filter(c => c.id !== id);
-  if (filtered.length === closets.length) return false;
-  await writeClosets(filtered);
-  return true;
+  const deleted = await repositories.closets.remove(id);
+  if (deleted) invalidateClosets();
+  return deleted;
 }
 
 // ==================== CLOSET ITEMS ====================
 
-const CLOSET_ITEMS_FILE = path.join(DATA_DIR, 'closet_items.json');
-
 async function readClosetItems(): Promise<ClosetItem[]> {
   // Check cache first
   const cached = cache.get<ClosetItem[]>(CACHE_KEYS.CLOSET_ITEMS);
@@ -584,58 +591,97 @@ async function readClosetItems(): Promise<ClosetItem[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(CLOSET_ITEMS_FILE, 'utf-8');
-    const items = parseJsonFile<ClosetItem[]>(data, CLOSET_ITEMS_FILE);
-    cache.set(CACHE_KEYS.CLOSET_ITEMS, items);
-    return items;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const items = await repositories.closetItems.findAll();
+  cache.set(CACHE_KEYS.CLOSET_ITEMS, items);
+  return items;
 }
 
-async function writeClosetItems(items: ClosetItem[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(CLOSET_ITEMS_FILE, JSON.stringify(items, null, 2));
+function invalidateClosetItems(): void {
   // Invalidate closet items caches
   cache.invalidateByPrefix(CACHE_PREFIXES.CLOSET_ITEMS);
 }
 
+/** Closet items by id and closet */
+export async function getClosetItemIndex(): Promise<RecordIndex<ClosetItem>> {
+  return getCachedIndex(CACHE_KEYS.CLOSET_ITEMS_INDEX, readClosetItems, ['closetId']);
+}
+
 export async function getAllClosetItems(closetId?: string): Promise<ClosetItem[]> {
   if (closetId) {
-    // Check specific cache first
-    const cacheKey = CACHE_KEYS.CLOSET_ITEMS_BY_CLOSET(closetId);
-    const cached = cache.get<ClosetItem[]>(cacheKey);
-    if (cached) {
-      return cached;
-    }
-    
-    const items = await readClosetItems();
-    const filtered = items.filter(item => item.closetId === closetId);
-    cache.set(cacheKey, filtered);
-    return filtered;
+    const index = await getClosetItemIndex();
+    return index.where('closetId', closetId);
   }
   return readClosetItems();
 }
 
+/** Items in a client's closets that a stylist works with: the client's own and the stylist's */
+export async function getClientClosetItems(clientId: string, stylistId: string): Promise<ClosetItem[]> {
+  const closets = (await getClosetsByOwnerId(clientId))
+    .filter(closet => closet.stylistId === null || closet.stylistId === stylistId);
+  const items = await Promise.all(closets.map(closet => getAllClosetItems(closet.id)));
+  return items.flat();
+}
+
 export async function getClosetItemById(id: string): Promise<ClosetItem | null> {
-  const items = await readClosetItems();
-  return items.find(item => item.id === id) || null;
+  const index = await getClosetItemIndex();
+  return index.get(id);
+}
+
+/** Renditions and perceptual hash of a closet photo (empty for external links) */
+async function photoFields(photoUrl: string | undefined): Promise<Pick<ClosetItem, 'thumbnailUrl' | 'previewUrl' | 'photoHash'>> {
+  const renditions = await renditionsForUrl(photoUrl);
+  const photoHash = await photoHashForUrl(photoUrl);
+  return {
+    ...renditions,
+    ...(photoHash && { photoHash }),
+  };
+}
+
+/** Color suggestions for a new photo; they fill in colorTags when none were given */
+async function colorFields(
+  item: Pick<ClosetItem, 'photoUrl' | 'colorTags' | 'colorTagsAuto'>
+): Promise<Partial<Pick<ClosetItem, 'suggestedColorTags' | 'colorTags' | 'colorTagsAuto'>>> {
+  const suggested = await suggestColorTags(item.photoUrl);
+  return suggested ? colorTagChanges(item, suggested) : {};
+}
+
+/**
+ * Copy of client input without the fields only the server writes. Used for creates and updates
+ * alike, so a request body can never preset them.
+ */
+function withoutServerOwnedFields<T extends Partial<ClosetItem>>(input: T): Omit<T, 'id'> {
+  const { id: _ignored, ...rest } = input;
+  // Suggestions are only ever written by the server; colors sent with a request were
+  // reviewed by a person (accepted or overridden)
+  delete rest.suggestedColorTags;
+  delete rest.colorTagsAuto;
+  // Wear fields follow the wear log (see services/wearService.ts)
+  delete rest.wearCount;
+  delete rest.lastWorn;
+  // Lifecycle fields follow the status log (see services/itemStatusService.ts)
+  delete rest.status;
+  delete rest.archived;
+  delete rest.statusChangedOn;
+  delete rest.expectedBackOn;
+  // Renditions and the hash are derived from the photo, the cutout comes from
+  // services/backgroundRemovalService.ts
+  delete rest.thumbnailUrl;
+  delete rest.previewUrl;
+  delete rest.photoHash;
+  delete rest.cutoutUrl;
+  return rest;
 }
 
 export async function createClosetItem(
   itemData: CreateClosetItemDto,
   createdBy: string
 ): Promise<ClosetItem> {
-  const items = await readClosetItems();
-  
+  const data = withoutServerOwnedFields(itemData);
   const newItem: ClosetItem = {
     id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    ...itemData,
+    ...data,
+    ...(await photoFields(data.photoUrl)),
+    ...(await colorFields(data)),
     createdBy,
     updatedBy: createdBy,
     archived: false,
@@ -643,8 +689,9 @@ export async function createClosetItem(
     updatedAt: new Date().toISOString(),
   };
 
-  items.push(newItem);
-  await writeClosetItems(items);
+  await repositories.closetItems.insert(newItem);
+  invalidateClosetItems();
+  await recordChange('closet_item', newItem.id, 'create', createdBy, null, newItem);
   
   return newItem;
 }
@@ -654,124 +701,178 @@ export async function updateClosetItem(
   updates: Partial<ClosetItem>,
   updatedBy: string
 ): Promise<ClosetItem | null> {
-  const items = await readClosetItems();
-  const index = items.findIndex(item => item.id === id);
-  
-  if (index === -1) {
-    return null;
+  const rest = withoutServerOwnedFields(updates);
+  // Items change closets through moveClosetItems, which checks the owner
+  delete rest.closetId;
+  if ('colorTags' in rest) rest.colorTagsAuto = undefined;
+  const existing = await getClosetItemById(id);
+  if ('photoUrl' in rest) {
+    // A new photo replaces its renditions and hash (external URLs have none) and its old cutout
+    const derived = await photoFields(rest.photoUrl);
+    rest.thumbnailUrl = derived.thumbnailUrl;
+    rest.previewUrl = derived.previewUrl;
+    rest.photoHash = derived.photoHash;
+    if (rest.photoUrl !== existing?.photoUrl) {
+      rest.cutoutUrl = undefined;
+      const colors = await colorFields({
+        photoUrl: rest.photoUrl!,
+        colorTags: rest.colorTags ?? existing?.colorTags ?? [],
+        colorTagsAuto: 'colorTags' in rest ? undefined : existing?.colorTagsAuto,
+      });
+      Object.assign(rest, { suggestedColorTags: undefined }, colors);
+    }
   }
-
-  items[index] = {
-    ...items[index],
-    ...updates,
+  const updated = await repositories.closetItems.update(id, {
+    ...rest,
     updatedBy,
     updatedAt: new Date().toISOString(),
+  });
+  if (updated) {
+    invalidateClosetItems();
+    await recordChange('closet_item', id, 'update', updatedBy, existing, updated);
+    if ('photoUrl' in rest) await scheduleCompositesForClosetItems([id]);
+  }
+  
+  return updated;
+}
+
+/**
+ * Move items into another closet of the same owner. Items already there are left alone.
+ * Throws MOVE_INVALID_ITEMS for unknown items or items of another owner. Returns the moved items.
+ */
+export async function moveClosetItems(
+  itemIds: string[],
+  toClosetId: string,
+  movedBy: string
+): Promise<ClosetItem[]> {
+  const moveError = (message: string) => {
+    const err = new Error(message) as Error & { code?: string };
+    err.code = 'MOVE_INVALID_ITEMS';
+    return err;
   };
+  const target = await getClosetById(toClosetId);
+  if (!target) throw moveError('Target closet not found');
+
+  const toMove: ClosetItem[] = [];
+  for (const itemId of new Set(itemIds)) {
+    const item = await getClosetItemById(itemId);
+    if (!item) throw moveError(`Closet item ${itemId} not found`);
+    const closet = await getClosetById(item.closetId);
+    if (!closet || closet.ownerId !== target.ownerId) {
+      throw moveError('Items can only move between closets of the same client');
+    }
+    if (item.closetId !== toClosetId) toMove.push(item);
+  }
+  if (toMove.length === 0) return [];
 
-  await writeClosetItems(items);
-  
-  return items[index];
+  const now = new Date().toISOString();
+  const changes = { closetId: toClosetId, updatedBy: movedBy, updatedAt: now };
+  await repositories.closetItems.updateMany(toMove.map(item => item.id), changes);
+  invalidateClosetItems();
+  for (const item of toMove) {
+    await recordChange('closet_item', item.id, 'update', movedBy, item, { ...item, ...changes });
+  }
+  return toMove.map(item => ({ ...item, ...changes }));
 }
 
 export async function deleteClosetItem(id: string): Promise<boolean> {
-  const items = await readClosetItems();
-  const filtered = items.filter(item => item.id !== id);
-  
-  if (filtered.length === items.length) {
-    return false;
+  const deleted = await repositories.closetItems.remove(id);
+  if (deleted) {
+    invalidateClosetItems();
+    await removeClosetItemReferences([id]);
   }
-
-  await writeClosetItems(filtered);
-  return true;
+  return deleted;
 }
 
 export async function deleteClosetItemsByClosetId(closetId: string): Promise<number> {
-  const items = await readClosetItems();
-  const initialLength = items.length;
-  const filtered = items.filter(item => item.closetId !== closetId);
-  const deletedCount = initialLength - filtered.length;
-  await writeClosetItems(filtered);
+  const items = await repositories.closetItems.findWhere({ closetId });
+  const deletedCount = await repositories.closetItems.removeWhere({ closetId });
+  invalidateClosetItems();
+  await removeClosetItemReferences(items.map(i => i.id));
   return deletedCount;
 }
 
+/** Drop look items, wears and status logs of deleted closet items and strip them from look requests' itemIds */
+async function removeClosetItemReferences(itemIds: string[]): Promise<void> {
+  if (itemIds.length === 0) return;
+  const deletedIds = new Set(itemIds);
+
+  const lookItemIndex = await getLookItemIndex();
+  const staleLookItems = itemIds
+    .flatMap(itemId => lookItemIndex.where('itemId', itemId))
+    .filter(li => li.itemType === 'closet_item');
+  for (const lookItem of staleLookItems) {
+    await repositories.lookItems.remove(lookItem.id);
+  }
+  if (staleLookItems.length > 0) invalidateLookItems();
+  new Set(staleLookItems.map(li => li.lookId)).forEach(scheduleLookComposite);
+
+  for (const itemId of itemIds) {
+    await repositories.wearEvents.removeWhere({ itemId });
+    await repositories.itemStatusEvents.removeWhere({ itemId });
+  }
+
+  const requests = await readLookRequests();
+  for (const request of requests) {
+    if (request.itemIds.some(itemId => deletedIds.has(itemId))) {
+      await repositories.lookRequests.update(request.id, {
+        itemIds: request.itemIds.filter(itemId => !deletedIds.has(itemId)),
+      });
+    }
+  }
+}
+
 export async function bulkCreateClosetItems(
   itemsData: CreateClosetItemDto[],
   createdBy: string
 ): Promise<ClosetItem[]> {
-  const items = await readClosetItems();
   const now = new Date().toISOString();
   
-  const newItems: ClosetItem[] = itemsData.map(data => ({
-    id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    ...data,
-    createdBy,
-    updatedBy: createdBy,
-    archived: false,
-    createdAt: now,
-    updatedAt: now,
-  }));
+  const newItems: ClosetItem[] = [];
+  for (const itemData of itemsData) {
+    const data = withoutServerOwnedFields(itemData);
+    newItems.push({
+      id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...data,
+      ...(await photoFields(data.photoUrl)),
+      ...(await colorFields(data)),
+      createdBy,
+      updatedBy: createdBy,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
 
-  items.push(...newItems);
-  await writeClosetItems(items);
+  await repositories.closetItems.insertMany(newItems);
+  invalidateClosetItems();
+  await recordCreates('closet_item', newItems, createdBy);
   
   return newItems;
 }
 
-export async function searchClosetItems(
-  closetId: string,
-  query?: string,
-  category?: string
-): Promise<ClosetItem[]> {
-  let items = await getAllClosetItems(closetId);
-  
-  if (category) {
-    items = items.filter(item => item.category === category);
-  }
-  
-  if (query) {
-    const lowerQuery = query.toLowerCase();
-    items = items.filter(item =>
-      item.name.toLowerCase().includes(lowerQuery) ||
-      item.brand?.toLowerCase().includes(lowerQuery) ||
-      item.colorTags.some(color => color.toLowerCase().includes(lowerQuery))
-    );
-  }
-  
-  return items;
-}
-
 // ==================== SUBCATEGORIES ====================
 
-const SUBCATEGORIES_FILE = path.join(DATA_DIR, 'subcategories.json');
-
 async function readSubcategories(): Promise<Subcategory[]> {
   const cached = cache.get<Subcategory[]>(CACHE_KEYS.SUBCATEGORIES);
   if (cached) return cached;
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(SUBCATEGORIES_FILE, 'utf-8');
-    const list = parseJsonFile<Subcategory[]>(data, SUBCATEGORIES_FILE);
-    cache.set(CACHE_KEYS.SUBCATEGORIES, list);
-    return list;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') return [];
-    throw error;
-  }
+  const list = await repositories.subcategories.findAll();
+  cache.set(CACHE_KEYS.SUBCATEGORIES, list);
+  return list;
 }
 
-async function writeSubcategories(list: Subcategory[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(SUBCATEGORIES_FILE, JSON.stringify(list, null, 2), 'utf-8');
-  cache.invalidateByPrefix(CACHE_PREFIXES.SUBCATEGORIES);
+async function getSubcategoryIndex(): Promise<RecordIndex<Subcategory>> {
+  return getCachedIndex(CACHE_KEYS.SUBCATEGORIES_INDEX, readSubcategories, ['stylistId']);
 }
 
 export async function getSubcategoriesByStylistAndCategory(
   stylistId: string,
   category: ItemCategory
 ): Promise<Subcategory[]> {
-  const all = await readSubcategories();
-  return all
-    .filter((s) => s.stylistId === stylistId && s.category === category)
+  const index = await getSubcategoryIndex();
+  return index
+    .where('stylistId', stylistId)
+    .filter((s) => s.category === category)
     .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
 }
 
@@ -780,10 +881,10 @@ export async function createSubcategory(
   category: ItemCategory,
   name: string
 ): Promise<Subcategory> {
-  const list = await readSubcategories();
+  const index = await getSubcategoryIndex();
   const trimmed = name.trim();
-  const existing = list.find(
-    (s) => s.stylistId === stylistId && s.category === category && s.name.toLowerCase() === trimmed.toLowerCase()
+  const existing = index.where('stylistId', stylistId).find(
+    (s) => s.category === category && s.name.toLowerCase() === trimmed.toLowerCase()
   );
   if (existing) return existing;
   const newSub: Subcategory = {
@@ -793,24 +894,22 @@ export async function createSubcategory(
     name: trimmed,
     createdAt: new Date().toISOString(),
   };
-  list.push(newSub);
-  await writeSubcategories(list);
+  await repositories.subcategories.insert(newSub);
+  cache.invalidateByPrefix(CACHE_PREFIXES.SUBCATEGORIES);
   return newSub;
 }
 
 export async function deleteSubcategory(id: string, stylistId: string): Promise<boolean> {
-  const list = await readSubcategories();
-  const idx = list.findIndex((s) => s.id === id && s.stylistId === stylistId);
-  if (idx === -1) return false;
-  list.splice(idx, 1);
-  await writeSubcategories(list);
+  const index = await getSubcategoryIndex();
+  const existing = index.get(id);
+  if (!existing || existing.stylistId !== stylistId) return false;
+  await repositories.subcategories.remove(id);
+  cache.invalidateByPrefix(CACHE_PREFIXES.SUBCATEGORIES);
   return true;
 }
 
 // ==================== LOOKS ====================
 
-const LOOKS_FILE = path.join(DATA_DIR, 'looks.json');
-
 async function readLooks(): Promise<Look[]> {
   // Check cache first
   const cached = cache.get<Look[]>(CACHE_KEYS.LOOKS);
@@ -818,71 +917,41 @@ async function readLooks(): Promise<Look[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(LOOKS_FILE, 'utf-8');
-    const looks = parseJsonFile<Look[]>(data, LOOKS_FILE);
-    cache.set(CACHE_KEYS.LOOKS, looks);
-    return looks;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const looks = await repositories.looks.findAll();
+  cache.set(CACHE_KEYS.LOOKS, looks);
+  return looks;
 }
 
-async function writeLooks(looks: Look[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(LOOKS_FILE, JSON.stringify(looks, null, 2));
+function invalidateLooks(): void {
   // Invalidate looks caches
   cache.invalidateByPrefix(CACHE_PREFIXES.LOOKS);
 }
 
+/** Looks by id, stylist and client */
+export async function getLookIndex(): Promise<RecordIndex<Look>> {
+  return getCachedIndex(CACHE_KEYS.LOOKS_INDEX, readLooks, ['stylistId', 'clientId']);
+}
+
 export async function getAllLooks(stylistId?: string, clientId?: string): Promise<Look[]> {
-  const looks = await readLooks();
-  if (stylistId && clientId) {
-    return looks.filter(l => l.stylistId === stylistId && l.clientId === clientId);
+  if (!stylistId && !clientId) {
+    return readLooks();
   }
-  if (stylistId) {
-    // Check specific cache
-    const cacheKey = CACHE_KEYS.LOOKS_BY_STYLIST(stylistId);
-    const cached = cache.get<Look[]>(cacheKey);
-    if (cached) {
-      return cached;
-    }
-    const filtered = looks.filter(l => l.stylistId === stylistId);
-    cache.set(cacheKey, filtered);
-    return filtered;
-  }
-  if (clientId) {
-    return looks.filter(l => l.clientId === clientId);
+  const index = await getLookIndex();
+  if (stylistId && clientId) {
+    return index.where('clientId', clientId).filter(l => l.stylistId === stylistId);
   }
-  return looks;
+  return stylistId ? index.where('stylistId', stylistId) : index.where('clientId', clientId!);
 }
 
 export async function getLookById(id: string): Promise<Look | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.LOOK_BY_ID(id);
-  const cached = cache.get<Look>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const looks = await readLooks();
-  const look = looks.find(l => l.id === id) || null;
-  if (look) {
-    cache.set(cacheKey, look);
-  }
-  return look;
+  const index = await getLookIndex();
+  return index.get(id);
 }
 
 export async function createLook(
   lookData: CreateLookDto,
   stylistId: string
 ): Promise<Look> {
-  const looks = await readLooks();
-  
   const newLook: Look = {
     id: `look_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     stylistId,
@@ -892,57 +961,65 @@ export async function createLook(
     updatedAt: new Date().toISOString(),
   };
 
-  looks.push(newLook);
-  await writeLooks(looks);
+  await repositories.looks.insert(newLook);
+  invalidateLooks();
+  await recordChange('look', newLook.id, 'create', stylistId, null, newLook);
   
   return newLook;
 }
 
-export async function updateLook(id: string, updates: Partial<Look>): Promise<Look | null> {
-  const looks = await readLooks();
-  const index = looks.findIndex(l => l.id === id);
-  
-  if (index === -1) {
-    return null;
-  }
-
-  looks[index] = {
-    ...looks[index],
-    ...updates,
+/** Pass changedBy to record the edit in the look's change history */
+export async function updateLook(id: string, updates: Partial<Look>, changedBy?: string): Promise<Look | null> {
+  const { id: _ignored, ...rest } = updates;
+  const existing = changedBy ? await getLookById(id) : null;
+  const updated = await repositories.looks.update(id, {
+    ...rest,
     updatedAt: new Date().toISOString(),
-  };
-
-  await writeLooks(looks);
+  });
+  if (updated) {
+    invalidateLooks();
+    if (changedBy) await recordChange('look', id, 'update', changedBy, existing, updated);
+  }
   
-  return looks[index];
+  return updated;
+}
+
+/**
+ * Move a look to another status, but only if it is still in `from`. Returns null when the look
+ * is gone or a concurrent change moved it first.
+ */
+export async function updateLookStatus(
+  id: string,
+  from: LookStatus,
+  status: LookStatus,
+  changedBy: string
+): Promise<Look | null> {
+  const existing = await getLookById(id);
+  const updated = await repositories.looks.update(
+    id,
+    { status, updatedAt: new Date().toISOString() },
+    { status: from }
+  );
+  if (updated) {
+    invalidateLooks();
+    await recordChange('look', id, 'update', changedBy, existing, updated);
+  }
+  return updated;
 }
 
+/** Delete a look with its revisions and status log (look items and chat room are removed separately) */
 export async function deleteLook(id: string): Promise<boolean> {
-  const looks = await readLooks();
-  const filtered = looks.filter(l => l.id !== id);
-  if (filtered.length === looks.length) return false;
-  await writeLooks(filtered);
-  return true;
+  await repositories.lookRevisions.removeWhere({ lookId: id });
+  await repositories.lookStatusEvents.removeWhere({ lookId: id });
+  const deleted = await repositories.looks.remove(id);
+  if (deleted) invalidateLooks();
+  return deleted;
 }
 
 // ==================== LOOK REQUESTS ====================
 
-const LOOK_REQUESTS_FILE = path.join(DATA_DIR, 'look-requests.json');
-
 async function readLookRequests(): Promise<LookRequest[]> {
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(LOOK_REQUESTS_FILE, 'utf-8');
-    return parseJsonFile<LookRequest[]>(data, LOOK_REQUESTS_FILE);
-  } catch (error: any) {
-    if (error.code === 'ENOENT') return [];
-    throw error;
-  }
-}
-
-async function writeLookRequests(requests: LookRequest[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(LOOK_REQUESTS_FILE, JSON.stringify(requests, null, 2));
+  return repositories.lookRequests.findAll();
 }
 
 export async function createLookRequest(
@@ -951,7 +1028,6 @@ export async function createLookRequest(
   itemIds: string[],
   message?: string
 ): Promise<LookRequest> {
-  const requests = await readLookRequests();
   const newRequest: LookRequest = {
     id: `lookreq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     clientId,
@@ -961,8 +1037,7 @@ export async function createLookRequest(
     status: 'pending',
     createdAt: new Date().toISOString(),
   };
-  requests.push(newRequest);
-  await writeLookRequests(requests);
+  await repositories.lookRequests.insert(newRequest);
   return newRequest;
 }
 
@@ -981,30 +1056,63 @@ export async function getLookRequestsByClient(clientId: string): Promise<LookReq
 }
 
 export async function getLookRequestById(id: string): Promise<LookRequest | null> {
-  const requests = await readLookRequests();
-  return requests.find(r => r.id === id) || null;
+  return repositories.lookRequests.findById(id);
 }
 
 export async function updateLookRequestStatus(
   id: string,
   status: LookRequest['status']
 ): Promise<LookRequest | null> {
-  const requests = await readLookRequests();
-  const idx = requests.findIndex(r => r.id === id);
-  if (idx === -1) return null;
-  requests[idx] = {
-    ...requests[idx],
+  const existing = await repositories.lookRequests.findById(id);
+  if (!existing) return null;
+  return repositories.lookRequests.update(id, {
     status,
-    completedAt: status === 'completed' ? new Date().toISOString() : requests[idx].completedAt,
-    createdAt: requests[idx].createdAt,
+    completedAt: status === 'completed' ? new Date().toISOString() : existing.completedAt,
+  });
+}
+
+// ==================== RECEIPTS ====================
+
+export async function getReceiptsByStylist(stylistId: string, clientId?: string): Promise<Receipt[]> {
+  const receipts = await repositories.receipts.findWhere({ stylistId });
+  return clientId ? receipts.filter(r => r.clientId === clientId) : receipts;
+}
+
+export async function getReceiptById(id: string): Promise<Receipt | null> {
+  return repositories.receipts.findById(id);
+}
+
+export async function createReceipt(receiptData: CreateReceiptDto, stylistId: string): Promise<Receipt> {
+  const newReceipt: Receipt = {
+    id: `receipt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    stylistId,
+    ...receiptData,
+    itemsList: receiptData.itemsList || [],
+    createdAt: new Date().toISOString(),
   };
-  await writeLookRequests(requests);
-  return requests[idx];
+  await repositories.receipts.insert(newReceipt);
+  return newReceipt;
 }
 
-// ==================== LOOK ITEMS ====================
+export async function updateReceipt(id: string, updates: Partial<Receipt>): Promise<Receipt | null> {
+  const { id: _ignored, stylistId, createdAt, ...rest } = updates;
+  return repositories.receipts.update(id, rest);
+}
+
+export async function deleteReceipt(id: string): Promise<boolean> {
+  const deleted = await repositories.receipts.remove(id);
+  if (deleted) {
+    // Items bought on it keep their purchaseInfo but lose the link
+    const linked = await repositories.closetItems.findWhere({ receiptId: id });
+    if (linked.length > 0) {
+      await repositories.closetItems.updateMany(linked.map(i => i.id), { receiptId: undefined });
+      invalidateClosetItems();
+    }
+  }
+  return deleted;
+}
 
-const LOOK_ITEMS_FILE = path.join(DATA_DIR, 'look-items.json');
+// ==================== LOOK ITEMS ====================
 
 async function readLookItems(): Promise<LookItem[]> {
   // Check cache first
@@ -1013,51 +1121,38 @@ async function readLookItems(): Promise<LookItem[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(LOOK_ITEMS_FILE, 'utf-8');
-    const items = parseJsonFile<LookItem[]>(data, LOOK_ITEMS_FILE);
-    cache.set(CACHE_KEYS.LOOK_ITEMS, items);
-    return items;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const items = await repositories.lookItems.findAll();
+  cache.set(CACHE_KEYS.LOOK_ITEMS, items);
+  return items;
 }
 
-async function writeLookItems(lookItems: LookItem[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(LOOK_ITEMS_FILE, JSON.stringify(lookItems, null, 2));
+function invalidateLookItems(): void {
   // Invalidate look items caches
   cache.invalidateByPrefix(CACHE_PREFIXES.LOOK_ITEMS);
 }
 
+/** Look items by id, look and the closet item they show */
+export async function getLookItemIndex(): Promise<RecordIndex<LookItem>> {
+  return getCachedIndex(CACHE_KEYS.LOOK_ITEMS_INDEX, readLookItems, ['lookId', 'itemId']);
+}
+
 export async function getAllLookItems(lookId?: string): Promise<LookItem[]> {
   if (lookId) {
-    // Check specific cache first
-    const cacheKey = CACHE_KEYS.LOOK_ITEMS_BY_LOOK(lookId);
-    const cached = cache.get<LookItem[]>(cacheKey);
-    if (cached) {
-      return cached;
-    }
-    
-    const items = await readLookItems();
-    const filtered = items.filter(li => li.lookId === lookId);
-    cache.set(cacheKey, filtered);
-    return filtered;
+    const index = await getLookItemIndex();
+    return index.where('lookId', lookId);
   }
   return readLookItems();
 }
 
 export async function getLookItemById(id: string): Promise<LookItem | null> {
-  const items = await readLookItems();
-  return items.find(li => li.id === id) || null;
+  const index = await getLookItemIndex();
+  return index.get(id);
 }
 
 export async function createLookItem(lookItemData: Partial<LookItem>): Promise<LookItem> {
-  const items = await readLookItems();
+  const items = lookItemData.sortOrder == null && lookItemData.lookId
+    ? await getAllLookItems(lookItemData.lookId)
+    : [];
   
   const newItem: LookItem = {
     id: `lookitem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -1071,14 +1166,15 @@ export async function createLookItem(lookItemData: Partial<LookItem>): Promise<L
     ...(lookItemData.scale != null && { scale: lookItemData.scale }),
   };
 
-  items.push(newItem);
-  await writeLookItems(items);
+  await repositories.lookItems.insert(newItem);
+  invalidateLookItems();
+  scheduleLookComposite(newItem.lookId);
   
   return newItem;
 }
 
 export async function bulkCreateLookItems(itemsData: Partial<LookItem>[]): Promise<LookItem[]> {
-  const items = await readLookItems();
+  const index = await getLookItemIndex();
   const newItems: LookItem[] = [];
   const baseTime = Date.now();
   
@@ -1090,60 +1186,51 @@ export async function bulkCreateLookItems(itemsData: Partial<LookItem>[]): Promi
       lookId: itemData.lookId!,
       itemId: itemData.itemId!,
       itemType: itemData.itemType || 'closet_item',
-      sortOrder: itemData.sortOrder ?? items.filter(li => li.lookId === itemData.lookId).length + i,
+      sortOrder: itemData.sortOrder ?? index.where('lookId', itemData.lookId!).length + i,
       ...(itemData.newItemDetails && { newItemDetails: itemData.newItemDetails }),
       ...(itemData.positionX != null && { positionX: itemData.positionX }),
       ...(itemData.positionY != null && { positionY: itemData.positionY }),
       ...(itemData.scale != null && { scale: itemData.scale }),
     };
     newItems.push(newItem);
-    items.push(newItem);
   }
   
-  await writeLookItems(items);
+  await repositories.lookItems.insertMany(newItems);
+  invalidateLookItems();
+  new Set(newItems.map(li => li.lookId)).forEach(scheduleLookComposite);
   return newItems;
 }
 
 export async function updateLookItem(id: string, updates: Partial<LookItem>): Promise<LookItem | null> {
-  const items = await readLookItems();
-  const index = items.findIndex(li => li.id === id);
-  
-  if (index === -1) {
-    return null;
+  const { id: _ignored, ...rest } = updates;
+  const updated = await repositories.lookItems.update(id, rest);
+  if (updated) {
+    invalidateLookItems();
+    scheduleLookComposite(updated.lookId);
   }
-
-  items[index] = { ...items[index], ...updates };
-  await writeLookItems(items);
   
-  return items[index];
+  return updated;
 }
 
 export async function deleteLookItem(id: string): Promise<boolean> {
-  const items = await readLookItems();
-  const filtered = items.filter(li => li.id !== id);
-  
-  if (filtered.length === items.length) {
-    return false;
+  const lookItem = await repositories.lookItems.findById(id);
+  const deleted = await repositories.lookItems.remove(id);
+  if (deleted) {
+    invalidateLookItems();
+    if (lookItem) scheduleLookComposite(lookItem.lookId);
   }
-
-  await writeLookItems(filtered);
-  return true;
+  return deleted;
 }
 
 export async function deleteLookItemsByLookId(lookId: string): Promise<number> {
-  const items = await readLookItems();
-  const initialLength = items.length;
-  const filtered = items.filter(li => li.lookId !== lookId);
-  const deletedCount = initialLength - filtered.length;
-  
-  await writeLookItems(filtered);
+  const deletedCount = await repositories.lookItems.removeWhere({ lookId });
+  invalidateLookItems();
+  if (deletedCount > 0) scheduleLookComposite(lookId);
   return deletedCount;
 }
 
 // ==================== CHAT ROOMS (Look-Based) ====================
 
-const CHAT_ROOMS_FILE = path.join(DATA_DIR, 'chat_rooms.json');
-
 async function readChatRooms(): Promise<ChatRoom[]> {
   // Check cache first
   const cached = cache.get<ChatRoom[]>(CACHE_KEYS.CHAT_ROOMS);
@@ -1151,91 +1238,54 @@ async function readChatRooms(): Promise<ChatRoom[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(CHAT_ROOMS_FILE, 'utf-8');
-    const chatRooms = parseJsonFile<ChatRoom[]>(data, CHAT_ROOMS_FILE);
-    cache.set(CACHE_KEYS.CHAT_ROOMS, chatRooms);
-    return chatRooms;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const chatRooms = await repositories.chatRooms.findAll();
+  cache.set(CACHE_KEYS.CHAT_ROOMS, chatRooms);
+  return chatRooms;
 }
 
-async function writeChatRooms(chatRooms: ChatRoom[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(CHAT_ROOMS_FILE, JSON.stringify(chatRooms, null, 2));
+function invalidateChatRooms(): void {
   // Invalidate chat rooms caches
   cache.invalidateByPrefix(CACHE_PREFIXES.CHAT_ROOMS);
 }
 
+async function getChatRoomIndex(): Promise<RecordIndex<ChatRoom>> {
+  return getCachedIndex(CACHE_KEYS.CHAT_ROOMS_INDEX, readChatRooms, ['lookId', 'stylistId', 'clientId']);
+}
+
 export async function getAllChatRooms(): Promise<ChatRoom[]> {
   return readChatRooms();
 }
 
 export async function getChatRoomById(id: string): Promise<ChatRoom | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.CHAT_ROOM_BY_ID(id);
-  const cached = cache.get<ChatRoom>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const chatRooms = await readChatRooms();
-  const chatRoom = chatRooms.find(cr => cr.id === id) || null;
-  if (chatRoom) {
-    cache.set(cacheKey, chatRoom);
-  }
-  return chatRoom;
+  const index = await getChatRoomIndex();
+  return index.get(id);
 }
 
 export async function getChatRoomByLookId(lookId: string): Promise<ChatRoom | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.CHAT_ROOM_BY_LOOK(lookId);
-  const cached = cache.get<ChatRoom>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const chatRooms = await readChatRooms();
-  const chatRoom = chatRooms.find(cr => cr.lookId === lookId) || null;
-  if (chatRoom) {
-    cache.set(cacheKey, chatRoom);
-  }
-  return chatRoom;
+  const index = await getChatRoomIndex();
+  return index.first('lookId', lookId);
 }
 
 export async function getChatRoomsByUserId(userId: string): Promise<ChatRoom[]> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.CHAT_ROOMS_BY_USER(userId);
-  const cached = cache.get<ChatRoom[]>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const chatRooms = await readChatRooms();
-  const filtered = chatRooms.filter(cr => cr.stylistId === userId || cr.clientId === userId);
-  cache.set(cacheKey, filtered);
-  return filtered;
+  // userId is a stylist's user id or a client record id
+  const index = await getChatRoomIndex();
+  const asStylist = index.where('stylistId', userId);
+  const asClient = index.where('clientId', userId).filter(cr => cr.stylistId !== userId);
+  return [...asStylist, ...asClient];
 }
 
 export async function getChatRoomsByStylistId(stylistId: string): Promise<ChatRoom[]> {
-  const chatRooms = await readChatRooms();
-  return chatRooms.filter(cr => cr.stylistId === stylistId);
+  const index = await getChatRoomIndex();
+  return index.where('stylistId', stylistId);
 }
 
 export async function getChatRoomsByClientId(clientId: string): Promise<ChatRoom[]> {
-  const chatRooms = await readChatRooms();
-  return chatRooms.filter(cr => cr.clientId === clientId);
+  const index = await getChatRoomIndex();
+  return index.where('clientId', clientId);
 }
 
 // Create a chat room for a look (1:1 relationship)
 export async function createChatRoom(lookId: string, stylistId: string, clientId: string): Promise<ChatRoom> {
-  const chatRooms = await readChatRooms();
-  
   // Check if chat room already exists for this look (1:1 relationship)
   const existing = await getChatRoomByLookId(lookId);
   if (existing) {
@@ -1250,8 +1300,8 @@ export async function createChatRoom(lookId: string, stylistId: string, clientId
     createdAt: new Date().toISOString(),
   };
   
-  chatRooms.push(newChatRoom);
-  await writeChatRooms(chatRooms);
+  await repositories.chatRooms.insert(newChatRoom);
+  invalidateChatRooms();
   
   return newChatRoom;
 }
@@ -1266,62 +1316,39 @@ export async function getOrCreateChatRoom(lookId: string, stylistId: string, cli
 }
 
 export async function deleteChatRoom(id: string): Promise<boolean> {
-  const chatRooms = await readChatRooms();
-  const filtered = chatRooms.filter(cr => cr.id !== id);
-  
-  if (filtered.length === chatRooms.length) {
-    return false;
-  }
-  
-  await writeChatRooms(filtered);
-  return true;
+  const deleted = await repositories.chatRooms.remove(id);
+  if (deleted) invalidateChatRooms();
+  return deleted;
 }
 
 export async function deleteChatRoomByLookId(lookId: string): Promise<boolean> {
-  const chatRooms = await readChatRooms();
-  const filtered = chatRooms.filter(cr => cr.lookId !== lookId);
-  
-  if (filtered.length === chatRooms.length) {
-    return false;
-  }
-  
-  await writeChatRooms(filtered);
-  return true;
+  const deletedCount = await repositories.chatRooms.removeWhere({ lookId });
+  if (deletedCount > 0) invalidateChatRooms();
+  return deletedCount > 0;
 }
 
 // ==================== MESSAGES (Look-Based) ====================
 
-const MESSAGES_FILE = path.join(DATA_DIR, 'messages.json');
-
 async function readMessages(): Promise<Message[]> {
   // Messages are not cached at the "all" level due to high frequency of updates
-  // Only specific chat room messages are cached
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(MESSAGES_FILE, 'utf-8');
-    return parseJsonFile<Message[]>(data, MESSAGES_FILE);
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  // Only specific chat room messages (and the short-lived index) are cached
+  return repositories.messages.findAll();
 }
 
-async function writeMessages(messages: Message[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(MESSAGES_FILE, JSON.stringify(messages, null, 2));
+function invalidateMessages(): void {
   // Invalidate message caches
   cache.invalidateByPrefix(CACHE_PREFIXES.MESSAGES);
 }
 
+async function getMessageIndex(): Promise<RecordIndex<Message>> {
+  return getCachedIndex(CACHE_KEYS.MESSAGES_INDEX, readMessages, ['chatRoomId'], 30);
+}
+
 // Get all messages for a user (across all their chat rooms)
 export async function getAllMessages(userId: string): Promise<Message[]> {
-  const messages = await readMessages();
+  const index = await getMessageIndex();
   const userChatRooms = await getChatRoomsByUserId(userId);
-  const chatRoomIds = new Set(userChatRooms.map(cr => cr.id));
-  
-  return messages.filter(m => chatRoomIds.has(m.chatRoomId));
+  return userChatRooms.flatMap(cr => index.where('chatRoomId', cr.id));
 }
 
 // Get messages for a specific chat room
@@ -1333,9 +1360,9 @@ export async function getChatRoomMessages(chatRoomId: string): Promise<Message[]
     return cached;
   }
   
-  const messages = await readMessages();
-  const filtered = messages
-    .filter(m => m.chatRoomId === chatRoomId)
+  const index = await getMessageIndex();
+  const filtered = index
+    .where('chatRoomId', chatRoomId)
     .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   
   // Cache for shorter duration (30 seconds) since messages update frequently
@@ -1355,11 +1382,11 @@ export async function getMessagesByLookId(lookId: string): Promise<Message[]> {
 // Get chat rooms with enriched data (last message, unread count)
 export async function getChatRoomsWithDetails(userId: string): Promise<Array<ChatRoom & { lastMessage?: Message; unreadCount: number }>> {
   const chatRooms = await getChatRoomsByUserId(userId);
-  const messages = await readMessages();
+  const index = await getMessageIndex();
   
   return chatRooms.map(chatRoom => {
-    const roomMessages = messages
-      .filter(m => m.chatRoomId === chatRoom.id)
+    const roomMessages = index
+      .where('chatRoomId', chatRoom.id)
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
     
     const lastMessage = roomMessages[0];
@@ -1380,8 +1407,6 @@ export async function createMessage(
   messageData: CreateMessageDto,
   senderId: string
 ): Promise<Message> {
-  const messages = await readMessages();
-  
   // Verify the chat room exists
   const chatRoom = await getChatRoomById(messageData.chatRoomId);
   if (!chatRoom) {
@@ -1418,38 +1443,29 @@ export async function createMessage(
     createdAt: new Date().toISOString(),
   };
 
-  messages.push(newMessage);
-  await writeMessages(messages);
+  await repositories.messages.insert(newMessage);
+  invalidateMessages();
   
   return newMessage;
 }
 
 // Mark messages as read in a chat room
 export async function markChatRoomMessagesAsRead(chatRoomId: string, userId: string): Promise<void> {
-  const messages = await readMessages();
-  const now = new Date().toISOString();
-  
-  messages.forEach(message => {
-    if (
-      message.chatRoomId === chatRoomId &&
-      message.senderId !== userId &&
-      !message.readAt
-    ) {
-      message.readAt = now;
-    }
-  });
+  const messages = await repositories.messages.findWhere({ chatRoomId });
+  const unreadIds = messages
+    .filter(message => message.senderId !== userId && !message.readAt)
+    .map(message => message.id);
 
-  await writeMessages(messages);
+  if (unreadIds.length > 0) {
+    await repositories.messages.updateMany(unreadIds, { readAt: new Date().toISOString() });
+    invalidateMessages();
+  }
 }
 
 // Delete all messages in a chat room
 export async function deleteMessagesByChatRoomId(chatRoomId: string): Promise<number> {
-  const messages = await readMessages();
-  const initialLength = messages.length;
-  const filtered = messages.filter(m => m.chatRoomId !== chatRoomId);
-  const deletedCount = initialLength - filtered.length;
-  
-  await writeMessages(filtered);
+  const deletedCount = await repositories.messages.removeWhere({ chatRoomId });
+  invalidateMessages();
   return deletedCount;
 }
 
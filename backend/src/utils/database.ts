@@ -1,21 +1,9 @@
 import { User, CreateUserDto } from '../types/user';
-import fs from 'fs/promises';
-import path from 'path';
+import { repositories } from '../repositories';
 import { cache, CACHE_KEYS, CACHE_PREFIXES } from './cache';
+import { getCachedIndex, RecordIndex } from './recordIndex';
 
-const DB_FILE = path.join(process.cwd(), 'data', 'users.json');
-
-// Ensure data directory exists
-async function ensureDataDirectory() {
-  const dataDir = path.dirname(DB_FILE);
-  try {
-    await fs.access(dataDir);
-  } catch {
-    await fs.mkdir(dataDir, { recursive: true });
-  }
-}
-
-// Read users from file
+// Read users from the configured store
 export async function getUsers(): Promise<User[]> {
   // Check cache first
   const cached = cache.get<User[]>(CACHE_KEYS.USERS);
@@ -23,60 +11,33 @@ export async function getUsers(): Promise<User[]> {
     return cached;
   }
   
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(DB_FILE, 'utf-8');
-    const users = JSON.parse(data);
-    cache.set(CACHE_KEYS.USERS, users);
-    return users;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      return [];
-    }
-    throw error;
-  }
+  const users = await repositories.users.findAll();
+  cache.set(CACHE_KEYS.USERS, users);
+  return users;
 }
 
-// Write users to file
-async function writeUsers(users: User[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(DB_FILE, JSON.stringify(users, null, 2));
+function invalidateUsers(): void {
   // Invalidate user-related caches
   cache.invalidateByPrefix(CACHE_PREFIXES.USERS);
 }
 
+// Users by id and (case-insensitive) email
+async function getUserIndex(): Promise<RecordIndex<User>> {
+  return getCachedIndex(CACHE_KEYS.USERS_INDEX, getUsers, [
+    { field: 'email', key: value => String(value).toLowerCase() },
+  ]);
+}
+
 // Find user by ID
 export async function findUserById(id: string): Promise<User | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.USER_BY_ID(id);
-  const cached = cache.get<User>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const users = await getUsers();
-  const user = users.find(u => u.id === id) || null;
-  if (user) {
-    cache.set(cacheKey, user);
-  }
-  return user;
+  const index = await getUserIndex();
+  return index.get(id);
 }
 
 // Find user by email
 export async function findUserByEmail(email: string): Promise<User | null> {
-  // Check specific cache first
-  const cacheKey = CACHE_KEYS.USER_BY_EMAIL(email);
-  const cached = cache.get<User>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-  
-  const users = await getUsers();
-  const user = users.find(u => u.email.toLowerCase() === email.toLowerCase()) || null;
-  if (user) {
-    cache.set(cacheKey, user);
-  }
-  return user;
+  const index = await getUserIndex();
+  return index.first('email', email);
 }
 
 // Find user by OAuth provider and ID
@@ -92,8 +53,6 @@ export async function findUserByOAuth(
 
 // Create new user
 export async function createUser(userData: CreateUserDto): Promise<User> {
-  const users = await getUsers();
-  
   // Check if user already exists by email
   const existingUser = await findUserByEmail(userData.email);
   if (existingUser) {
@@ -118,8 +77,8 @@ export async function createUser(userData: CreateUserDto): Promise<User> {
     updatedAt: new Date().toISOString(),
   };
 
-  users.push(newUser);
-  await writeUsers(users);
+  await repositories.users.insert(newUser);
+  invalidateUsers();
   
   return newUser;
 }
@@ -129,19 +88,11 @@ export async function updateUser(
   id: string,
   updates: Partial<User>
 ): Promise<User | null> {
-  const users = await getUsers();
-  const userIndex = users.findIndex(u => u.id === id);
-  
-  if (userIndex === -1) {
-    return null;
-  }
-
-  users[userIndex] = {
-    ...users[userIndex],
-    ...updates,
+  const { id: _ignored, ...rest } = updates;
+  const updated = await repositories.users.update(id, {
+    ...rest,
     updatedAt: new Date().toISOString(),
-  };
-
-  await writeUsers(users);
-  return users[userIndex];
+  });
+  if (updated) invalidateUsers();
+  return updated;
 }
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { User } from '../types/user';
 
@@ -33,3 +34,8 @@ export function verifyToken(token: string): JWTPayload {
     throw new Error('Invalid or expired token');
   }
 }
+
+/** HMAC of a value under the JWT secret, for links that work without a login (e.g. images in emails). */
+export function signLinkValue(value: string): string {
+  return crypto.createHmac('sha256', JWT_SECRET).update(value).digest('base64url');
+}
@@ -0,0 +1,76 @@
+import { cache } from './cache';
+
+/** A field to index, optionally with a key normalizer (e.g. lower-casing emails). */
+export type IndexedField<T> = keyof T | { field: keyof T; key: (value: unknown) => unknown };
+
+/**
+ * Hash lookups over one collection snapshot: by id, plus one map per indexed field
+ * (foreign keys like closetId or lookId). Replaces linear scans of the cached arrays.
+ */
+export class RecordIndex<T extends { id: string }> {
+  private readonly byId = new Map<string, T>();
+  private readonly byField = new Map<keyof T, Map<unknown, T[]>>();
+  private readonly normalizers = new Map<keyof T, (value: unknown) => unknown>();
+
+  constructor(readonly records: T[], fields: IndexedField<T>[] = []) {
+    for (const spec of fields) {
+      const field = typeof spec === 'object' ? spec.field : spec;
+      if (typeof spec === 'object') this.normalizers.set(field, spec.key);
+      this.byField.set(field, new Map());
+    }
+
+    for (const record of records) {
+      this.byId.set(record.id, record);
+      for (const [field, groups] of this.byField) {
+        const key = this.normalize(field, record[field]);
+        const group = groups.get(key);
+        if (group) group.push(record);
+        else groups.set(key, [record]);
+      }
+    }
+  }
+
+  private normalize(field: keyof T, value: unknown): unknown {
+    const normalizer = this.normalizers.get(field);
+    return normalizer ? normalizer(value) : value;
+  }
+
+  get(id: string): T | null {
+    return this.byId.get(id) ?? null;
+  }
+
+  /** Records whose `field` equals `value`. Returns a fresh array the caller may sort or filter. */
+  where<K extends keyof T>(field: K, value: T[K]): T[] {
+    const groups = this.byField.get(field);
+    if (!groups) {
+      throw new Error(`Field "${String(field)}" is not indexed`);
+    }
+    return [...(groups.get(this.normalize(field, value)) ?? [])];
+  }
+
+  first<K extends keyof T>(field: K, value: T[K]): T | null {
+    const groups = this.byField.get(field);
+    if (!groups) {
+      throw new Error(`Field "${String(field)}" is not indexed`);
+    }
+    return groups.get(this.normalize(field, value))?.[0] ?? null;
+  }
+}
+
+/**
+ * Get the index cached under `cacheKey`, building it from `load()` on a miss.
+ * Use a key under the collection's cache prefix: every write already invalidates that
+ * prefix, so the index is dropped and rebuilt from fresh data on the next read.
+ */
+export async function getCachedIndex<T extends { id: string }>(
+  cacheKey: string,
+  load: () => Promise<T[]>,
+  fields: IndexedField<T>[],
+  ttlSeconds?: number
+): Promise<RecordIndex<T>> {
+  const cached = cache.get<RecordIndex<T>>(cacheKey);
+  if (cached) return cached;
+  const index = new RecordIndex(await load(), fields);
+  cache.set(cacheKey, index, ttlSeconds);
+  return index;
+}
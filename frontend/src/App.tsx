@@ -44,6 +44,8 @@ import Looks from "./pages/Looks";
 import LookRequests from "./pages/LookRequests";
 import Messages from "./pages/Messages";
 import Receipts from "./pages/Receipts";
+import Trash from "./pages/Trash";
+import Proceeds from "./pages/Proceeds";
 import InviteAccept from "./pages/InviteAccept";
 import NotFound from "./pages/NotFound";
 
@@ -254,6 +256,22 @@ const App = () => (
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/trash"
+            element={
+              <ProtectedRoute>
+                <Trash />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/proceeds"
+            element={
+              <ProtectedRoute>
+                <Proceeds />
+              </ProtectedRoute>
+            }
+          />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -156,10 +156,10 @@ const AddClientDialog = ({
     setProfilePhotoFile(file);
     
     try {
-      const { uploadImage } = await import('@/utils/fileUpload');
-      const preview = await uploadImage(file);
+      const { fileToDataURL } = await import('@/utils/fileUpload');
+      const preview = await fileToDataURL(file);
       setProfilePhotoPreview(preview);
-      setProfilePhotoUrl(preview); // Auto-fill URL with uploaded image
+      setProfilePhotoUrl(preview); // Local preview; the file is uploaded on save
     } catch (error: any) {
       showError(error.message || 'Failed to load image preview');
       setProfilePhotoFile(null);
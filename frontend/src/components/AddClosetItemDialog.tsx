@@ -19,7 +19,9 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Upload, X, Plus } from 'lucide-react';
+import ItemTagFields from '@/components/ItemTagFields';
 import { addClosetItem, getSubcategories, createSubcategory, Subcategory } from '@/utils/closetStorage';
+import { draftToTags, emptyTagDraft } from '@/utils/itemTags';
 import { showSuccess, showError } from '@/utils/toast';
 import { ItemCategory } from '@/types';
 
@@ -56,6 +58,7 @@ const AddClosetItemDialog = ({
   const [brand, setBrand] = useState('');
   const [size, setSize] = useState('');
   const [colorTags, setColorTags] = useState('');
+  const [tags, setTags] = useState(emptyTagDraft);
   const [photoUrl, setPhotoUrl] = useState('');
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string>('');
@@ -115,6 +118,7 @@ const AddClosetItemDialog = ({
         brand: brand.trim() || undefined,
         size: size.trim() || undefined,
         colorTags: colorTagsArray,
+        tags: draftToTags(tags),
         photoUrl: finalPhotoUrl,
         notes: notes.trim() || undefined,
       });
@@ -144,10 +148,10 @@ const AddClosetItemDialog = ({
     setPhotoFile(file);
     
     try {
-      const { uploadImage } = await import('@/utils/fileUpload');
-      const preview = await uploadImage(file);
+      const { fileToDataURL } = await import('@/utils/fileUpload');
+      const preview = await fileToDataURL(file);
       setPhotoPreview(preview);
-      setPhotoUrl(preview); // Auto-fill URL with uploaded image
+      setPhotoUrl(preview); // Local preview; the file is uploaded on save
     } catch (error: any) {
       showError(error.message || 'Failed to load image preview');
       setPhotoFile(null);
@@ -171,6 +175,7 @@ const AddClosetItemDialog = ({
     setBrand('');
     setSize('');
     setColorTags('');
+    setTags(emptyTagDraft());
     setPhotoUrl('');
     setPhotoFile(null);
     setPhotoPreview('');
@@ -335,10 +340,12 @@ const AddClosetItemDialog = ({
               className="w-full min-w-0 max-w-full"
             />
             <p className="text-xs text-muted-foreground">
-              Separate multiple colors with commas
+              Separate multiple colors with commas, or leave empty to suggest colors from the photo
             </p>
           </div>
 
+          <ItemTagFields value={tags} onChange={setTags} idPrefix="add-item-tags" />
+
           <div className="space-y-2 min-w-0">
             <Label htmlFor="photo">Photo *</Label>
             {photoPreview ? (
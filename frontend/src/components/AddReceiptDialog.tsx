@@ -64,7 +64,7 @@ const AddReceiptDialog = ({
     if (!file) return;
 
     // Validate file
-    const { validateImageFile } = await import('@/utils/fileUpload');
+    const { validateImageFile, fileToDataURL } = await import('@/utils/fileUpload');
     const validation = validateImageFile(file);
     if (!validation.valid) {
       showError(validation.error || 'Invalid image file');
@@ -75,7 +75,7 @@ const AddReceiptDialog = ({
     
     // Create preview
     try {
-      const preview = await uploadImage(file);
+      const preview = await fileToDataURL(file);
       setReceiptPhotoPreview(preview);
     } catch (error: any) {
       showError(error.message || 'Failed to load image preview');
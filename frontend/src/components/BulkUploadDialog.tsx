@@ -31,6 +31,8 @@ interface BulkUploadDialogProps {
   onOpenChange: (open: boolean) => void;
   closetId: string;
   onItemsAdded: () => void;
+  /** Called with how many new items look like duplicates of existing ones (or each other) */
+  onDuplicatesFound?: (count: number) => void;
 }
 
 interface PendingItem {
@@ -83,6 +85,7 @@ const BulkUploadDialog = ({
   onOpenChange,
   closetId,
   onItemsAdded,
+  onDuplicatesFound,
 }: BulkUploadDialogProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
@@ -511,7 +514,7 @@ const BulkUploadDialog = ({
       }
 
       // Bulk add successful items
-      const addedItems = await bulkAddClosetItems(successful);
+      const { items: addedItems, duplicates } = await bulkAddClosetItems(successful);
 
       // Clean up any remaining blob URLs
       pendingItems.forEach((item) => {
@@ -529,6 +532,7 @@ const BulkUploadDialog = ({
       handleReset();
       onItemsAdded();
       onOpenChange(false);
+      if (duplicates.length > 0) onDuplicatesFound?.(duplicates.length);
     } catch (error: any) {
       console.error('Error in bulk upload:', error);
       showError(error.message || 'Failed to add items. Please try again.');
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useChangeHistory } from '@/hooks/useQueries';
+import { CHANGE_ACTION_LABELS, PHOTO_FIELDS, changeFieldLabel, formatChangeValue } from '@/utils/changeHistory';
+import { ChangeLogEntityType, ChangeLogEntry, FieldChange } from '@/types';
+import { format, parseISO } from 'date-fns';
+
+interface ChangeTimelineProps {
+  entityType: ChangeLogEntityType;
+  entityId: string;
+  /** Display names for ids that show up as values, e.g. closet ids of moved items */
+  valueNames?: Record<string, string>;
+}
+
+// Entries shown before "Show all"
+const COLLAPSED_COUNT = 5;
+
+const ChangeLine = ({ change, isCreate, valueNames }: { change: FieldChange; isCreate: boolean; valueNames?: Record<string, string> }) => {
+  const label = changeFieldLabel(change.field);
+  if (PHOTO_FIELDS.includes(change.field)) {
+    const verb = change.after === undefined ? 'removed' : change.before === undefined ? 'added' : 'replaced';
+    return <li>{label} {verb}</li>;
+  }
+  const after = formatChangeValue(change.field, change.after, valueNames);
+  if (isCreate) {
+    return (
+      <li className="break-words">
+        {label}: <span className="text-foreground">{after}</span>
+      </li>
+    );
+  }
+  return (
+    <li className="break-words">
+      {label}: <span className="line-through">{formatChangeValue(change.field, change.before, valueNames)}</span>
+      {' → '}
+      <span className="text-foreground">{after}</span>
+    </li>
+  );
+};
+
+const TimelineEntry = ({ entry, valueNames }: { entry: ChangeLogEntry; valueNames?: Record<string, string> }) => (
+  <li className="relative pl-4 pb-4 last:pb-0">
+    <span className="absolute -left-1 top-1.5 h-2 w-2 rounded-full bg-primary" aria-hidden />
+    <p className="text-sm">
+      <span className="font-medium">{entry.changedByName ?? 'Someone'}</span>{' '}
+      <span className="text-muted-foreground">{CHANGE_ACTION_LABELS[entry.action].toLowerCase()}</span>
+    </p>
+    <p className="text-xs text-muted-foreground">{format(parseISO(entry.changedAt), 'MMM d, yyyy h:mm a')}</p>
+    {entry.changes.length > 0 && (
+      <ul className="mt-1 space-y-0.5 list-none p-0 m-0 text-xs text-muted-foreground">
+        {entry.changes.map((change) => (
+          <ChangeLine key={change.field} change={change} isCreate={entry.action === 'create'} valueNames={valueNames} />
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+/** Who changed what on a closet item, look or client, newest first */
+const ChangeTimeline = ({ entityType, entityId, valueNames }: ChangeTimelineProps) => {
+  const [showAll, setShowAll] = useState(false);
+  const { data: entries = [], isLoading } = useChangeHistory(entityType, entityId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet</p>;
+  }
+
+  const visible = showAll ? entries : entries.slice(0, COLLAPSED_COUNT);
+  return (
+    <div className="space-y-2 min-w-0">
+      <ol className="list-none p-0 m-0 border-l ml-1">
+        {visible.map((entry) => (
+          <TimelineEntry key={entry.id} entry={entry} valueNames={valueNames} />
+        ))}
+      </ol>
+      {entries.length > COLLAPSED_COUNT && (
+        <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setShowAll((v) => !v)}>
+          {showAll ? 'Show less' : `Show all ${entries.length} changes`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ChangeTimeline;
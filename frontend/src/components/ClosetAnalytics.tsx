@@ -0,0 +1,241 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Progress } from '@/components/ui/progress';
+import { BarChart3 } from 'lucide-react';
+import { useClosetAnalytics } from '@/hooks/useQueries';
+import { ItemCategory } from '@/types';
+import { toFullSizeImageUrl } from '@/utils/fileUpload';
+
+interface ClosetAnalyticsProps {
+  closetId: string;
+  categoryLabels: Record<ItemCategory, string>;
+}
+
+// Swatches for the server's color palette; other tags are drawn in a neutral grey
+const COLOR_SWATCHES: Record<string, string> = {
+  black: '#161618',
+  charcoal: '#3a3a3e',
+  grey: '#8a8a8c',
+  gray: '#8a8a8c',
+  white: '#f6f6f4',
+  ivory: '#eee8d4',
+  beige: '#dac8aa',
+  camel: '#be9464',
+  brown: '#69442a',
+  burgundy: '#70182c',
+  red: '#c4202a',
+  coral: '#f07a64',
+  pink: '#eea0ba',
+  orange: '#e87620',
+  mustard: '#cca028',
+  yellow: '#f4da40',
+  olive: '#6c6c34',
+  khaki: '#bab080',
+  green: '#2a803e',
+  teal: '#00767a',
+  'light blue': '#96bee2',
+  blue: '#2a5cbc',
+  navy: '#1c244c',
+  purple: '#6c328a',
+  lavender: '#c0acde',
+};
+
+const MAX_BRANDS = 8;
+const MAX_COLORS = 12;
+
+const chartConfig = {
+  count: { label: 'Items', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const percent = (share: number): string => `${Math.round(share * 100)}%`;
+
+export default function ClosetAnalytics({ closetId, categoryLabels }: ClosetAnalyticsProps) {
+  const { data: analytics, isLoading } = useClosetAnalytics(closetId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">Loading closet analytics...</p>;
+  }
+  if (!analytics || analytics.totalItems === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12 px-6">
+          <BarChart3 className="h-10 w-10 text-muted-foreground mb-3" />
+          <p className="text-muted-foreground text-center">Add items to see this closet's analytics</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const categoryData = analytics.categories.map((c) => ({
+    name: categoryLabels[c.category] ?? c.category,
+    count: c.count,
+  }));
+  const colorData = analytics.colors.slice(0, MAX_COLORS);
+  const brandData = analytics.brands.slice(0, MAX_BRANDS);
+  const subcategories = analytics.categories.filter((c) => c.subcategories.length > 0);
+
+  return (
+    <div className="space-y-4 min-w-0">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {[
+          { label: 'Items', value: analytics.totalItems },
+          { label: 'Active', value: analytics.activeItems },
+          { label: 'Archived', value: `${analytics.archivedItems} (${percent(analytics.archivedRatio)})` },
+          { label: 'Never in a look', value: analytics.neverUsedInLooks.count },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-semibold">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card className="min-w-0">
+          <CardHeader>
+            <CardTitle className="text-base">Categories</CardTitle>
+            <CardDescription>Active items per category</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-[240px] w-full">
+              <BarChart data={categoryData} margin={{ left: -20 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="min-w-0">
+          <CardHeader>
+            <CardTitle className="text-base">Colors</CardTitle>
+            <CardDescription>Items tagged with each color</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {colorData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No color tags yet</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="aspect-auto h-[240px] w-full">
+                <BarChart data={colorData} layout="vertical" margin={{ left: 10 }}>
+                  <XAxis type="number" allowDecimals={false} hide />
+                  <YAxis type="category" dataKey="color" tickLine={false} axisLine={false} width={80} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" radius={4}>
+                    {colorData.map((c) => (
+                      <Cell
+                        key={c.color}
+                        fill={COLOR_SWATCHES[c.color] ?? 'hsl(var(--muted-foreground))'}
+                        stroke="hsl(var(--border))"
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="min-w-0">
+          <CardHeader>
+            <CardTitle className="text-base">Brands</CardTitle>
+            <CardDescription>
+              {analytics.brands.length} brand{analytics.brands.length !== 1 ? 's' : ''}
+              {analytics.unbrandedItems > 0 && `, ${analytics.unbrandedItems} item${analytics.unbrandedItems !== 1 ? 's' : ''} without a brand`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {brandData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No brands recorded yet</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="aspect-auto h-[240px] w-full">
+                <BarChart data={brandData} layout="vertical" margin={{ left: 10 }}>
+                  <XAxis type="number" allowDecimals={false} hide />
+                  <YAxis type="category" dataKey="brand" tickLine={false} axisLine={false} width={90} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="min-w-0">
+          <CardHeader>
+            <CardTitle className="text-base">Wardrobe gaps</CardTitle>
+            <CardDescription>Categories below the target mix</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {analytics.gaps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every category meets its target</p>
+            ) : (
+              analytics.gaps.map((gap) => (
+                <div key={gap.category} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{categoryLabels[gap.category] ?? gap.category}</span>
+                    <span className="text-muted-foreground">
+                      {gap.count} of {gap.targetCount} · add {gap.missing}
+                    </span>
+                  </div>
+                  <Progress value={gap.targetCount > 0 ? (gap.count / gap.targetCount) * 100 : 0} className="h-2" />
+                  <p className="text-[11px] text-muted-foreground">
+                    {percent(gap.actualShare)} of the closet, target {percent(gap.targetShare)}
+                  </p>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {subcategories.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Subcategories</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {subcategories.map((c) => (
+              <div key={c.category} className="min-w-0">
+                <p className="text-sm font-medium">{categoryLabels[c.category] ?? c.category}</p>
+                <ul className="text-xs text-muted-foreground">
+                  {c.subcategories.map((s) => (
+                    <li key={s.name} className="flex justify-between gap-2">
+                      <span className="truncate">{s.name}</span>
+                      <span>{s.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {analytics.neverUsedInLooks.count > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Never used in a look</CardTitle>
+            <CardDescription>Active items no look has included yet</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-3 sm:grid-cols-6 lg:grid-cols-8 gap-2">
+            {analytics.neverUsedInLooks.items.map((item) => (
+              <div key={item.id} className="min-w-0" title={item.name}>
+                <img
+                  src={item.thumbnailUrl || toFullSizeImageUrl(item.photoUrl)}
+                  alt={item.name}
+                  className="w-full aspect-square object-contain bg-muted rounded"
+                />
+                <p className="text-[11px] truncate mt-1">{item.name}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -7,25 +8,89 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
-import { MoreVertical, Edit, Trash2, Archive } from 'lucide-react';
-import { ClosetItem } from '@/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import { MoreVertical, Edit, Trash2, Archive, Wand2, Undo2, Sparkles, Check, X, CalendarCheck, Tag, FolderInput, History, Info } from 'lucide-react';
+import { ClosetItem, WearStats } from '@/types';
 import { ItemImageWithPreview } from '@/components/ItemImagePreview';
+import { useBackgroundRemoval } from '@/hooks/useQueries';
+import { ITEM_STATUS_LABELS, itemStatusOf } from '@/utils/itemStatus';
+import { format, parseISO } from 'date-fns';
 
 interface ClosetItemCardProps {
   item: ClosetItem;
   onEdit: (item: ClosetItem) => void;
   onDelete: (item: ClosetItem) => void;
   onArchive: (item: ClosetItem) => void;
+  /** Open the item's details and change history */
   onClick: (item: ClosetItem) => void;
+  /** Queue background removal again; resolves true when a job was queued */
+  onRemoveBackground?: (item: ClosetItem) => Promise<boolean>;
+  /** Drop the cutout and go back to the original photo */
+  onRestoreOriginal?: (item: ClosetItem) => void;
+  /** Save reviewed color tags (accepting or trimming the suggested ones) */
+  onUpdateColorTags?: (item: ClosetItem, colorTags: string[]) => void;
+  /** Wear count and cost per wear from the closet's wear stats */
+  wearStats?: WearStats;
+  /** Log that the item was worn today */
+  onLogWear?: (item: ClosetItem) => void;
+  /** Open the tag editor (season, occasion, fabric, fit, custom) */
+  onEditTags?: (item: ClosetItem) => void;
+  /** Record a lifecycle change (tailoring, lent out, sold, ...) */
+  onChangeStatus?: (item: ClosetItem) => void;
+  /** Move the item to another closet of the same client */
+  onMove?: (item: ClosetItem) => void;
+  /** Selection mode: clicking the card toggles it instead of opening it */
+  onToggleSelect?: (item: ClosetItem) => void;
+  selected?: boolean;
 }
 
-const ClosetItemCard = ({ item, onEdit, onDelete, onArchive, onClick }: ClosetItemCardProps) => {
+const ClosetItemCard = ({
+  item,
+  onEdit,
+  onDelete,
+  onArchive,
+  onClick,
+  onRemoveBackground,
+  onRestoreOriginal,
+  onUpdateColorTags,
+  wearStats,
+  onLogWear,
+  onEditTags,
+  onChangeStatus,
+  onMove,
+  onToggleSelect,
+  selected = false,
+}: ClosetItemCardProps) => {
+  const wearCount = wearStats?.wearCount ?? item.wearCount ?? 0;
+  const lastWorn = wearStats?.lastWorn ?? item.lastWorn;
+  const status = itemStatusOf(item);
+  const tagLabels = [...new Set([
+    ...(item.tags?.season ?? []),
+    ...(item.tags?.occasion ?? []),
+    ...(item.tags?.fabric ?? []),
+    ...(item.tags?.fit ?? []),
+    ...(item.tags?.custom ?? []).map((tag) => `#${tag}`),
+  ])];
+
+  // Only poll job status after the user re-runs removal from this card
+  const [trackCutout, setTrackCutout] = useState(false);
+  const { data: backgroundRemoval, refetch: refetchBackgroundRemoval } = useBackgroundRemoval(item.id, trackCutout);
+  const cutoutStatus = trackCutout ? backgroundRemoval?.job?.status : undefined;
+
+  const handleRemoveBackground = async () => {
+    if (onRemoveBackground && (await onRemoveBackground(item))) {
+      setTrackCutout(true);
+      refetchBackgroundRemoval();
+    }
+  };
+
   return (
-    <Card className="hover:shadow-lg transition-shadow cursor-pointer group">
+    <Card className={`hover:shadow-lg transition-shadow cursor-pointer group ${selected ? 'ring-2 ring-primary' : ''}`}>
       <CardContent className="p-0">
-        <div className="relative" onClick={() => onClick(item)}>
+        <div className="relative" onClick={() => (onToggleSelect ? onToggleSelect(item) : onClick(item))}>
           <ItemImageWithPreview
             photoUrl={item.photoUrl}
+            displayUrl={item.thumbnailUrl}
             alt={item.name}
             caption={item.name}
             className="w-full h-56 sm:h-48 object-contain bg-muted rounded-t-lg"
@@ -33,8 +98,25 @@ const ClosetItemCard = ({ item, onEdit, onDelete, onArchive, onClick }: ClosetIt
               (e.target as HTMLImageElement).src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="56" height="56"%3E%3Crect fill="%23ddd" width="56" height="56"/%3E%3C/svg%3E';
             }}
           />
+          {onToggleSelect && (
+            <div className="absolute bottom-2 left-2 rounded bg-white/90 p-1" onClick={(e) => e.stopPropagation()}>
+              <Checkbox
+                checked={selected}
+                onCheckedChange={() => onToggleSelect(item)}
+                aria-label={`Select ${item.name}`}
+              />
+            </div>
+          )}
           {item.archived && (
-            <Badge className="absolute top-2 left-2 bg-gray-500">Archived</Badge>
+            <Badge className="absolute top-2 left-2 bg-gray-500">
+              {status === 'donated' || status === 'sold' ? ITEM_STATUS_LABELS[status] : 'Archived'}
+            </Badge>
+          )}
+          {!item.archived && (cutoutStatus === 'queued' || cutoutStatus === 'processing') && (
+            <Badge variant="secondary" className="absolute top-2 left-2">Removing background…</Badge>
+          )}
+          {!item.archived && cutoutStatus === 'failed' && (
+            <Badge variant="destructive" className="absolute top-2 left-2">Background removal failed</Badge>
           )}
           <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
             <DropdownMenu>
@@ -44,14 +126,54 @@ const ClosetItemCard = ({ item, onEdit, onDelete, onArchive, onClick }: ClosetIt
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onClick(item); }}>
+                  <Info className="mr-2 h-4 w-4" />
+                  Details & history
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onEdit(item); }}>
                   <Edit className="mr-2 h-4 w-4" />
                   Edit
                 </DropdownMenuItem>
+                {onEditTags && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onEditTags(item); }}>
+                    <Tag className="mr-2 h-4 w-4" />
+                    Edit tags
+                  </DropdownMenuItem>
+                )}
+                {onLogWear && !item.archived && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onLogWear(item); }}>
+                    <CalendarCheck className="mr-2 h-4 w-4" />
+                    Wore it today
+                  </DropdownMenuItem>
+                )}
+                {onChangeStatus && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onChangeStatus(item); }}>
+                    <History className="mr-2 h-4 w-4" />
+                    Change status
+                  </DropdownMenuItem>
+                )}
+                {onMove && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onMove(item); }}>
+                    <FolderInput className="mr-2 h-4 w-4" />
+                    Move to closet
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onArchive(item); }}>
                   <Archive className="mr-2 h-4 w-4" />
                   {item.archived ? 'Unarchive' : 'Archive'}
                 </DropdownMenuItem>
+                {onRemoveBackground && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleRemoveBackground(); }}>
+                    <Wand2 className="mr-2 h-4 w-4" />
+                    {item.cutoutUrl ? 'Redo background removal' : 'Remove background'}
+                  </DropdownMenuItem>
+                )}
+                {onRestoreOriginal && item.cutoutUrl && (
+                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onRestoreOriginal(item); }}>
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Restore original photo
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem 
                   onClick={(e) => { e.stopPropagation(); onDelete(item); }}
                   className="text-red-600"
@@ -78,9 +200,15 @@ const ClosetItemCard = ({ item, onEdit, onDelete, onArchive, onClick }: ClosetIt
             {item.size && (
               <Badge variant="secondary" className="text-xs">Size: {item.size}</Badge>
             )}
+            {!item.archived && status !== 'active' && (
+              <Badge variant="outline" className="text-xs border-amber-400 text-amber-700">
+                {ITEM_STATUS_LABELS[status]}
+                {item.expectedBackOn && ` · back ${format(parseISO(item.expectedBackOn), 'MMM d')}`}
+              </Badge>
+            )}
           </div>
 
-          {item.colorTags.length > 0 && (
+          {item.colorTags.length > 0 && !item.colorTagsAuto && (
             <div className="flex gap-1 flex-wrap">
               {item.colorTags.map((color, index) => (
                 <span
@@ -93,6 +221,61 @@ const ClosetItemCard = ({ item, onEdit, onDelete, onArchive, onClick }: ClosetIt
             </div>
           )}
 
+          {item.colorTags.length > 0 && item.colorTagsAuto && (
+            <div className="flex gap-1 flex-wrap items-center" title="Suggested from the photo">
+              <Sparkles className="h-3.5 w-3.5 text-muted-foreground" />
+              {item.colorTags.map((color) => (
+                <span
+                  key={color}
+                  className="text-xs pl-2 pr-1 py-0.5 border border-dashed border-gray-400 rounded-full flex items-center gap-0.5"
+                >
+                  {color}
+                  {onUpdateColorTags && (
+                    <button
+                      type="button"
+                      aria-label={`Remove ${color}`}
+                      className="rounded-full p-0.5 hover:bg-gray-200"
+                      onClick={() => onUpdateColorTags(item, item.colorTags.filter((c) => c !== color))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+              {onUpdateColorTags && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onUpdateColorTags(item, item.colorTags)}
+                >
+                  <Check className="mr-1 h-3 w-3" />
+                  Accept
+                </Button>
+              )}
+            </div>
+          )}
+
+          {tagLabels.length > 0 && (
+            <div className="flex gap-1 flex-wrap">
+              {tagLabels.map((tag) => (
+                <Badge key={tag} variant="outline" className="text-[11px] font-normal">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {wearCount > 0 && (
+            <p
+              className="text-xs text-muted-foreground"
+              title={lastWorn ? `Last worn ${format(new Date(`${lastWorn}T00:00:00`), 'MMM d, yyyy')}` : undefined}
+            >
+              Worn {wearCount}×
+              {wearStats?.costPerWear !== undefined && ` · $${wearStats.costPerWear.toFixed(2)}/wear`}
+            </p>
+          )}
+
           {item.notes && (
             <p className="text-xs text-muted-foreground line-clamp-2">{item.notes}</p>
           )}
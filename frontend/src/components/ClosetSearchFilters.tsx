@@ -0,0 +1,168 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { ClosetSearchFacet, ClosetSearchParams, ClosetSearchSort, FacetValue, ItemCategory, ItemStatus } from '@/types';
+import { ITEM_STATUS_LABELS } from '@/utils/itemStatus';
+
+interface ClosetSearchFiltersProps {
+  params: ClosetSearchParams;
+  onChange: (params: ClosetSearchParams) => void;
+  /** Facet counts from the last search */
+  facets?: Record<ClosetSearchFacet, FacetValue[]>;
+  categoryLabels: Record<ItemCategory, string>;
+}
+
+const FACETS: { value: ClosetSearchFacet; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'category', label: 'Category' },
+  { value: 'subcategory', label: 'Subcategory' },
+  { value: 'color', label: 'Color' },
+  { value: 'season', label: 'Season' },
+  { value: 'occasion', label: 'Occasion' },
+  { value: 'fabric', label: 'Fabric' },
+  { value: 'fit', label: 'Fit' },
+  { value: 'brand', label: 'Brand' },
+  { value: 'tag', label: 'Custom tag' },
+];
+
+const SORTS: { value: ClosetSearchSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'name', label: 'Name' },
+  { value: 'brand', label: 'Brand' },
+  { value: 'most_worn', label: 'Most worn' },
+  { value: 'least_worn', label: 'Least worn' },
+  { value: 'recently_worn', label: 'Recently worn' },
+];
+
+// Radix Select needs a non-empty value for "no sort chosen"
+const DEFAULT_SORT = '__default__';
+
+const ClosetSearchFilters = ({ params, onChange, facets, categoryLabels }: ClosetSearchFiltersProps) => {
+  const filters = params.filters ?? {};
+  const activeCount = FACETS.reduce((count, facet) => count + (filters[facet.value]?.length ?? 0), 0);
+
+  const valueLabel = (facet: ClosetSearchFacet, value: string) => {
+    if (facet === 'category') return categoryLabels[value as ItemCategory] ?? value;
+    if (facet === 'status') return ITEM_STATUS_LABELS[value as ItemStatus] ?? value;
+    return facet === 'tag' ? `#${value}` : value;
+  };
+
+  const isSelected = (facet: ClosetSearchFacet, value: string) =>
+    (filters[facet] ?? []).some((v) => v.toLowerCase() === value.toLowerCase());
+
+  const toggleValue = (facet: ClosetSearchFacet, value: string) => {
+    const current = filters[facet] ?? [];
+    const next = isSelected(facet, value)
+      ? current.filter((v) => v.toLowerCase() !== value.toLowerCase())
+      : [...current, value];
+    onChange({ ...params, filters: { ...filters, [facet]: next } });
+  };
+
+  return (
+    <div className="space-y-2 min-w-0">
+      <div className="flex flex-wrap gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="flex-1 sm:flex-none">
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              Filters
+              {activeCount > 0 && <Badge variant="secondary" className="ml-2">{activeCount}</Badge>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 max-w-[calc(100vw-2rem)] p-0" align="start" sideOffset={8}>
+            <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+              <span className="text-sm font-medium">Match</span>
+              <div className="flex gap-1">
+                {(['all', 'any'] as const).map((match) => (
+                  <Button
+                    key={match}
+                    size="sm"
+                    variant={(params.match ?? 'all') === match ? 'default' : 'outline'}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => onChange({ ...params, match })}
+                  >
+                    {match === 'all' ? 'All filters' : 'Any filter'}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto py-1">
+              {FACETS.filter((facet) => (facets?.[facet.value] ?? []).length > 0).map((facet) => (
+                <div key={facet.value} className="px-3 py-2">
+                  <p className="text-xs font-semibold uppercase text-muted-foreground mb-1">{facet.label}</p>
+                  <ul className="list-none p-0 m-0 space-y-1">
+                    {facets![facet.value].map((entry) => (
+                      <li key={entry.value}>
+                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={isSelected(facet.value, entry.value)}
+                            onCheckedChange={() => toggleValue(facet.value, entry.value)}
+                          />
+                          <span className="truncate flex-1">{valueLabel(facet.value, entry.value)}</span>
+                          <span className="text-xs text-muted-foreground">{entry.count}</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Select
+          value={params.sort ?? DEFAULT_SORT}
+          onValueChange={(v) => onChange({ ...params, sort: v === DEFAULT_SORT ? undefined : (v as ClosetSearchSort) })}
+        >
+          <SelectTrigger className="flex-1 sm:w-44 sm:flex-none">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_SORT}>Default order</SelectItem>
+            {SORTS.map((sort) => (
+              <SelectItem key={sort.value} value={sort.value}>
+                {sort.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {activeCount > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {FACETS.flatMap((facet) =>
+            (filters[facet.value] ?? []).map((value) => (
+              <Badge key={`${facet.value}-${value}`} variant="secondary" className="gap-1 pr-1 font-normal">
+                {facet.label}: {valueLabel(facet.value, value)}
+                <button
+                  type="button"
+                  aria-label={`Remove ${facet.label} ${value}`}
+                  className="rounded-full p-0.5 hover:bg-gray-200"
+                  onClick={() => toggleValue(facet.value, value)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))
+          )}
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange({ ...params, filters: {} })}>
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClosetSearchFilters;
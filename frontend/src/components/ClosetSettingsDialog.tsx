@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { useDeleteCloset, useRenameCloset } from '@/hooks/useQueries';
+import { showSuccess, showError } from '@/utils/toast';
+import { Closet } from '@/types';
+
+interface ClosetSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  closet: Closet | null;
+  /** All of the owner's closets, for the duplicate-name check and as targets for the items */
+  closets: Closet[];
+  /** Called after the closet went to the trash */
+  onDeleted: () => void;
+}
+
+// Radix Select needs a non-empty value for "trash the items too"
+const TRASH_ITEMS = '__trash__';
+
+const ClosetSettingsDialog = ({ open, onOpenChange, closet, closets, onDeleted }: ClosetSettingsDialogProps) => {
+  const [name, setName] = useState('');
+  const [itemsTarget, setItemsTarget] = useState(TRASH_ITEMS);
+  const renameMutation = useRenameCloset();
+  const deleteMutation = useDeleteCloset();
+
+  useEffect(() => {
+    if (open && closet) {
+      setName(closet.name);
+      setItemsTarget(TRASH_ITEMS);
+    }
+  }, [open, closet]);
+
+  if (!closet) return null;
+
+  const otherClosets = closets.filter((c) => c.id !== closet.id);
+  const trimmedName = name.trim();
+  const isDuplicate = otherClosets.some((c) => c.name.trim().toLowerCase() === trimmedName.toLowerCase());
+  const canRename = trimmedName.length > 0 && trimmedName !== closet.name && !isDuplicate && !renameMutation.isPending;
+  const busy = renameMutation.isPending || deleteMutation.isPending;
+
+  const handleRename = async () => {
+    if (!canRename) return;
+    try {
+      await renameMutation.mutateAsync({ closetId: closet.id, name: trimmedName, ownerId: closet.ownerId });
+      showSuccess('Closet renamed');
+      onOpenChange(false);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to rename closet');
+    }
+  };
+
+  const handleDelete = async () => {
+    const target = otherClosets.find((c) => c.id === itemsTarget);
+    const message = target
+      ? `Move all items to ${target.name} and delete ${closet.name}?`
+      : `Delete ${closet.name} and all of its items? You can restore them from the trash.`;
+    if (!window.confirm(message)) return;
+    try {
+      const result = await deleteMutation.mutateAsync({
+        closetId: closet.id,
+        moveItemsTo: target?.id,
+        ownerId: closet.ownerId,
+      });
+      showSuccess(
+        target
+          ? `Closet deleted, ${result.movedItems} item${result.movedItems !== 1 ? 's' : ''} moved to ${target.name}`
+          : 'Closet moved to trash'
+      );
+      onOpenChange(false);
+      onDeleted();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to delete closet');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[90vw] max-w-[90vw] sm:w-full sm:max-w-[440px] box-border overflow-x-hidden">
+        <DialogHeader className="pr-8">
+          <DialogTitle>Closet Settings</DialogTitle>
+          <DialogDescription className="break-words">Rename or delete {closet.name}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="closet-settings-name">Closet name</Label>
+          <div className="flex gap-2">
+            <Input
+              id="closet-settings-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+              }}
+              className={isDuplicate ? 'border-destructive' : ''}
+            />
+            <Button onClick={handleRename} disabled={!canRename || busy} className="shrink-0">
+              {renameMutation.isPending ? 'Saving...' : 'Rename'}
+            </Button>
+          </div>
+          {isDuplicate && (
+            <p className="text-xs text-destructive">A closet with this name already exists for this client.</p>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="closet-settings-items">When deleting, its items</Label>
+          <Select value={itemsTarget} onValueChange={setItemsTarget}>
+            <SelectTrigger id="closet-settings-items">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TRASH_ITEMS}>Go to the trash with the closet</SelectItem>
+              {otherClosets.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  Move to {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="destructive" onClick={handleDelete} disabled={busy} className="w-full">
+            <Trash2 className="mr-2 h-4 w-4" />
+            {deleteMutation.isPending ? 'Deleting...' : 'Delete Closet'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClosetSettingsDialog;
@@ -13,7 +13,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Search, Check, ChevronsUpDown, Square, Columns2, X, CalendarIcon, Eye } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Search, Check, ChevronsUpDown, Square, Columns2, X, CalendarIcon, Eye, ThumbsDown, ShoppingBag } from 'lucide-react';
 import { format, parse } from 'date-fns';
 import { EventDatePickerModal } from '@/components/EventDatePickerModal';
 import {
@@ -23,12 +30,28 @@ import {
   getLookItemsByLookId,
   removeItemFromLook,
   updateLookItem,
+  LOOK_COMPOSITE_RENDER_DELAY_MS,
 } from '@/utils/lookStorage';
-import LookComposer, { LookComposerItem, generateLookCompositeImage } from '@/components/LookComposer';
+import LookComposer, { LookComposerItem } from '@/components/LookComposer';
+import OutfitSuggestions from '@/components/OutfitSuggestions';
 import { getStylistClients } from '@/utils/clientStorage';
-import { getClosetsByOwner, getClosetItems, getClientCloset, getOrCreateCloset } from '@/utils/closetStorage';
+import { getClosetsByOwner, getClosetItems, getClosetItemById, getClientCloset, getOrCreateCloset } from '@/utils/closetStorage';
+import { useLookFeedback, useLookTemplates } from '@/hooks/useQueries';
+import { applyLookTemplate } from '@/utils/lookTemplateStorage';
 import { showSuccess, showError } from '@/utils/toast';
-import { Client, ClosetItem, Look, LookItem, ItemCategory } from '@/types';
+import {
+  Client,
+  ClosetItem,
+  Look,
+  LookItem,
+  LookItemFeedback,
+  ItemCategory,
+  ItemStatus,
+  OutfitSuggestion,
+  TemplateLookItemDraft,
+} from '@/types';
+import { AWAY_STATUSES, ITEM_STATUS_LABELS, isItemAvailable, itemStatusOf } from '@/utils/itemStatus';
+import { describeItemFeedback, replacementCandidates } from '@/utils/lookFeedback';
 import { cn } from '@/lib/utils';
 import { toFullSizeImageUrl } from '@/utils/fileUpload';
 
@@ -93,6 +116,8 @@ const CreateLookDialog = ({
   const [itemSearchQuery, setItemSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<ItemCategory | 'all'>('all');
   const [categoryPopoverOpen, setCategoryPopoverOpen] = useState(false);
+  // Items away on the event date (tailoring, lent out, ...) are hidden unless asked for
+  const [statusFilter, setStatusFilter] = useState<'available' | 'all' | ItemStatus>('available');
   const [itemsPerPagePopoverOpen, setItemsPerPagePopoverOpen] = useState(false);
   const [columns, setColumns] = useState<1 | 2>(2);
   const [itemsPerPage, setItemsPerPage] = useState<10 | 20 | 50>(20);
@@ -107,6 +132,22 @@ const CreateLookDialog = ({
   const keepSelectionsAfterCreateRef = useRef(false);
   const isMobile = useIsMobile();
   const composerItemSize = isMobile ? 140 : 110;
+  // When editing after the client asked for changes: the pieces they turned down
+  const { data: clientFeedback } = useLookFeedback(open && editLook ? editLook.id : null);
+  const rejectedFeedback = useMemo(
+    () =>
+      new Map<string, LookItemFeedback>(
+        (clientFeedback?.itemFeedback ?? []).filter((f) => f.verdict === 'down').map((f) => [f.itemId, f])
+      ),
+    [clientFeedback]
+  );
+  const { data: templates = [] } = useLookTemplates(open && !isEditMode);
+  const [appliedTemplateId, setAppliedTemplateId] = useState('');
+  /** The selection came laid out from a template or suggestion; keep those canvas positions */
+  const [presetLayout, setPresetLayout] = useState(false);
+  const [applyingTemplate, setApplyingTemplate] = useState(false);
+  /** Template slots the client's closet couldn't fill; saved as new_purchase items */
+  const [toBuy, setToBuy] = useState<TemplateLookItemDraft[]>([]);
 
   useEffect(() => {
     const loadClients = async () => {
@@ -206,7 +247,13 @@ const CreateLookDialog = ({
           getLookItemsByLookId(editLook!.id),
         ]);
         if (cancelled) return;
-        const filteredItems = items.filter((i) => !i.archived);
+        // Look items may come from the client's other closets; fetch those one by one
+        const missingIds = lookItemRecords.map((li) => li.itemId).filter((id) => !items.some((i) => i.id === id));
+        const otherItems = await Promise.all(missingIds.map((id) => getClosetItemById(id)));
+        if (cancelled) return;
+        const filteredItems = [...items, ...otherItems.filter((i): i is ClosetItem => i !== null)].filter(
+          (i) => !i.archived
+        );
         const closetMap = new Map(filteredItems.map((c) => [c.id, c]));
         const composer: LookComposerItem[] = lookItemRecords
           .map((li) => {
@@ -258,8 +305,19 @@ const CreateLookDialog = ({
     if (categoryFilter !== 'all') {
       list = list.filter((i) => i.category === categoryFilter);
     }
+    if (statusFilter === 'available') {
+      list = list.filter((i) => isItemAvailable(i, eventDate || undefined));
+    } else if (statusFilter !== 'all') {
+      list = list.filter((i) => itemStatusOf(i) === statusFilter);
+    }
     return list;
-  }, [closetItems, itemSearchQuery, categoryFilter]);
+  }, [closetItems, itemSearchQuery, categoryFilter, statusFilter, eventDate]);
+
+  const selectedIds = useMemo(() => new Set(selectedItems.map((i) => i.id)), [selectedItems]);
+  const rejectedSelected = selectedItems.flatMap((item) => {
+    const feedback = rejectedFeedback.get(item.id);
+    return feedback ? [{ item, feedback }] : [];
+  });
 
   const totalItemPages = Math.max(1, Math.ceil(filteredClosetItems.length / itemsPerPage));
   const safeItemPage = Math.min(itemPage, totalItemPages);
@@ -274,7 +332,7 @@ const CreateLookDialog = ({
 
   useEffect(() => {
     setItemPage(1);
-  }, [itemSearchQuery, categoryFilter, itemsPerPage]);
+  }, [itemSearchQuery, categoryFilter, statusFilter, itemsPerPage, selectedClosetId]);
 
   // Detect if selected items strip has horizontal overflow (needs scrolling)
   useEffect(() => {
@@ -323,6 +381,36 @@ const CreateLookDialog = ({
     setClientPopoverOpen(false);
     setClientSearchQuery('');
     setSelectedItems([]);
+    setAppliedTemplateId('');
+    setPresetLayout(false);
+    setToBuy([]);
+  };
+
+  /** Fill the look from a template: matching closet pieces where the slots say, the rest to buy */
+  const handleApplyTemplate = async (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !selectedClientId) return;
+    setApplyingTemplate(true);
+    try {
+      const drafts = await applyLookTemplate(template.id, selectedClientId, eventDate || undefined);
+      const matched = drafts.flatMap((draft) =>
+        draft.closetItem
+          ? [{ closetItem: draft.closetItem, positionX: draft.positionX, positionY: draft.positionY, scale: draft.scale }]
+          : []
+      );
+      setSelectedItems(matched.map((li) => li.closetItem));
+      setLookItems(matched);
+      setToBuy(drafts.filter((draft) => draft.itemType === 'new_purchase'));
+      setAppliedTemplateId(template.id);
+      setPresetLayout(true);
+      if (!name.trim()) setName(template.name);
+      if (!occasion.trim() && template.occasion) setOccasion(template.occasion);
+      showSuccess(`${matched.length} of ${drafts.length} pieces found in the closet`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to apply template');
+    } finally {
+      setApplyingTemplate(false);
+    }
   };
 
   const toggleItemSelection = (item: ClosetItem) => {
@@ -345,6 +433,27 @@ const CreateLookDialog = ({
     setSelectedItems((prev) => prev.filter((i) => i.id !== itemId));
   };
 
+  /** Put a replacement where a turned-down piece was, keeping its place on the canvas */
+  const swapItem = (itemId: string, replacement: ClosetItem) => {
+    setSelectedItems((prev) => prev.map((i) => (i.id === itemId ? replacement : i)));
+    setLookItems((prev) => prev.map((li) => (li.closetItem.id === itemId ? { ...li, closetItem: replacement } : li)));
+  };
+
+  const handleUseSuggestion = (suggestion: OutfitSuggestion) => {
+    const items = suggestion.items.map(({ closetItem, positionX, positionY, scale }) => ({
+      closetItem,
+      positionX,
+      positionY,
+      scale,
+    }));
+    setSelectedItems(items.map((li) => li.closetItem));
+    setLookItems(items);
+    setAppliedTemplateId('');
+    setToBuy([]);
+    setPresetLayout(true);
+    showSuccess(`${items.length} pieces selected. Continue to adjust the look.`);
+  };
+
   const goNext = () => {
     if (step === 1 && step1Valid) {
       setStep(2);
@@ -362,9 +471,9 @@ const CreateLookDialog = ({
 
       setLookItems((prev) =>
         selectedItems.map((item, i) => {
-          const existing = isEditMode ? prev.find((li) => li.closetItem.id === item.id) : null;
+          const existing = isEditMode || presetLayout ? prev.find((li) => li.closetItem.id === item.id) : null;
           if (existing) {
-            // Preserve existing positions for edit mode
+            // Preserve existing positions for edit mode and template slots
             return { ...existing, closetItem: item };
           }
           return {
@@ -436,7 +545,10 @@ const CreateLookDialog = ({
 
         const currentItemIds = new Set(editLookItemRecords.map((li) => li.itemId));
         const newItemIds = new Set(lookItems.map((li) => li.closetItem.id));
-        const toRemove = editLookItemRecords.filter((li) => !newItemIds.has(li.itemId));
+        // Items to buy aren't in the builder, so they stay as they are
+        const toRemove = editLookItemRecords.filter(
+          (li) => li.itemType === 'closet_item' && !newItemIds.has(li.itemId)
+        );
         const toAdd = lookItems.filter((ci) => !currentItemIds.has(ci.closetItem.id));
 
         // 2. Remove items in parallel (no sequential await)
@@ -474,15 +586,8 @@ const CreateLookDialog = ({
         onOpenChange(false);
         onLookUpdated?.();
 
-        // 5. Composite image in background – defer so UI can update first
-        const lookId = editLook.id;
-        const itemsForComposite = [...lookItems];
-        setTimeout(() => {
-          generateLookCompositeImage(itemsForComposite, 600, 800, 180)
-            .then((compositeDataUrl) => updateLook(lookId, { compositeImageUrl: compositeDataUrl }))
-            .then(() => onLookUpdated?.())
-            .catch((err) => console.warn('Could not regenerate composite image:', err));
-        }, 0);
+        // 5. The server re-renders the composite once the item changes settle; refresh to pick it up
+        setTimeout(() => onLookUpdated?.(), LOOK_COMPOSITE_RENDER_DELAY_MS);
       } else {
         // Create new look
         const newLook = await createLook({
@@ -501,6 +606,15 @@ const CreateLookDialog = ({
           scale: li.scale ?? 1,
         }));
         await bulkAddItemsToLook(newLook.id, itemIds, 'closet_item', positions);
+        if (toBuy.length > 0) {
+          await bulkAddItemsToLook(
+            newLook.id,
+            toBuy.map((draft) => draft.itemId),
+            'new_purchase',
+            toBuy.map((draft) => ({ positionX: draft.positionX, positionY: draft.positionY, scale: draft.scale })),
+            toBuy.map((draft) => draft.newItemDetails)
+          );
+        }
 
         clearTimeout(loadingTimeout);
         setLoading(false);
@@ -511,11 +625,6 @@ const CreateLookDialog = ({
         Promise.resolve(onLookCreated(newLook)).catch((err) => {
           console.error('onLookCreated callback failed:', err);
         });
-        setTimeout(() => {
-          generateLookCompositeImage(lookItems, 600, 800, 180)
-            .then((compositeDataUrl) => updateLook(newLook.id, { compositeImageUrl: compositeDataUrl }))
-            .catch((err) => console.warn('Could not generate composite image:', err));
-        }, 0);
       }
     } catch (error: unknown) {
       clearTimeout(loadingTimeout);
@@ -537,10 +646,14 @@ const CreateLookDialog = ({
     setEditLookItemRecords([]);
     setItemSearchQuery('');
     setCategoryFilter('all');
+    setStatusFilter('available');
     setPreviewItem(null);
     setClientSearchQuery('');
     if (!preselectedClientId && !editLook) setSelectedClientId('');
     setSelectedClosetId('');
+    setAppliedTemplateId('');
+    setPresetLayout(false);
+    setToBuy([]);
   };
 
   return (
@@ -774,6 +887,42 @@ const CreateLookDialog = ({
                     />
                   </div>
                 </div>
+
+                {!isEditMode && templates.length > 0 && (
+                  <div className="space-y-2 min-w-0">
+                    <Label htmlFor="lookTemplate">Start from a template</Label>
+                    <Select
+                      value={appliedTemplateId}
+                      onValueChange={handleApplyTemplate}
+                      disabled={!selectedClientId || applyingTemplate}
+                    >
+                      <SelectTrigger id="lookTemplate" className="create-look-input w-full">
+                        <SelectValue placeholder={selectedClientId ? 'Choose a template' : 'Select a client first'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name} ({template.slots.length} {template.slots.length === 1 ? 'piece' : 'pieces'})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Picks matching pieces from the client's closet. Anything missing is added to buy.
+                    </p>
+                  </div>
+                )}
+
+                {!isEditMode && selectedClientId && (
+                  <OutfitSuggestions
+                    key={selectedClientId}
+                    clientId={selectedClientId}
+                    occasion={occasion.trim()}
+                    eventDate={eventDate}
+                    anchorItems={presetLayout ? [] : selectedItems}
+                    onUse={handleUseSuggestion}
+                  />
+                )}
               </div>
             )}
 
@@ -788,6 +937,21 @@ const CreateLookDialog = ({
                   <>
                     {/* Toolbar: single row with all controls */}
                     <div className="flex flex-row items-center gap-1.5 flex-shrink-0 px-2 sm:px-3 py-2 flex-nowrap">
+                      {/* Closet switcher - selected items stay selected across closets */}
+                      {closets.length > 1 && (
+                        <Select value={selectedClosetId} onValueChange={setSelectedClosetId}>
+                          <SelectTrigger aria-label="Closet" className="h-8 w-24 sm:w-32 shrink-0 px-2 text-xs">
+                            <SelectValue placeholder="Closet" />
+                          </SelectTrigger>
+                          <SelectContent className="z-[110]">
+                            {closets.map((closet) => (
+                              <SelectItem key={closet.id} value={closet.id}>
+                                {closet.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
                       {/* Search input - takes available space */}
                       <div className="relative flex-1 min-w-0">
                         <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
@@ -844,6 +1008,22 @@ const CreateLookDialog = ({
                           </ul>
                         </PopoverContent>
                       </Popover>
+
+                      {/* Status filter: available on the event date by default */}
+                      <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as typeof statusFilter)}>
+                        <SelectTrigger aria-label="Status filter" className="h-8 w-24 sm:w-28 shrink-0 px-2 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="z-[110]">
+                          <SelectItem value="available">Available</SelectItem>
+                          <SelectItem value="all">All states</SelectItem>
+                          {(['active', ...AWAY_STATUSES] as ItemStatus[]).map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {ITEM_STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       
                       {/* View toggle: 1 or 2 images per row */}
                       <div className="flex items-center gap-0.5 border rounded-md p-0.5 shrink-0 bg-muted/30">
@@ -938,7 +1118,7 @@ const CreateLookDialog = ({
                       >
                         {filteredClosetItems.length === 0 ? (
                           <p className="col-span-full text-sm text-muted-foreground text-center py-8">
-                            No items match. Try changing search or category.
+                            No items match. Try changing search, category or status.
                           </p>
                         ) : (
                           paginatedClosetItems.map((item) => {
@@ -978,6 +1158,11 @@ const CreateLookDialog = ({
                                 >
                                   <Eye className="h-4 w-4" />
                                 </button>
+                                {itemStatusOf(item) !== 'active' && (
+                                  <span className="absolute bottom-2 left-2 rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-800">
+                                    {ITEM_STATUS_LABELS[itemStatusOf(item)]}
+                                  </span>
+                                )}
                                 {/* Selected indicator badge */}
                                 {isSelected && (
                                   <div className="absolute top-2 left-2 bg-black text-white rounded-full p-1 shadow-lg">
@@ -1022,6 +1207,82 @@ const CreateLookDialog = ({
                       </div>
                     )}
 
+                    {/* Pieces the client turned down, with stand-ins from the same category */}
+                    {rejectedSelected.length > 0 && (
+                      <div className="flex-shrink-0 border-t bg-orange-50/60 min-w-0 px-2 sm:px-3 py-2 space-y-2 max-h-48 overflow-y-auto">
+                        <p className="text-xs font-medium text-orange-800">
+                          Your client turned down
+                          {clientFeedback?.reason && <span className="font-normal"> — “{clientFeedback.reason}”</span>}
+                        </p>
+                        {rejectedSelected.map(({ item, feedback }) => {
+                          const details = describeItemFeedback(feedback);
+                          const replacements = replacementCandidates(item, closetItems, selectedIds, eventDate || undefined);
+                          return (
+                            <div key={item.id} className="flex items-start gap-2 min-w-0">
+                              <img
+                                src={toFullSizeImageUrl(item.photoUrl)}
+                                alt={item.name}
+                                className="w-10 h-10 flex-shrink-0 rounded object-cover border-2 border-orange-500"
+                              />
+                              <div className="flex-1 min-w-0">
+                                <p className="text-xs font-medium truncate">{item.name || 'Unnamed item'}</p>
+                                {details && <p className="text-xs text-muted-foreground break-words">{details}</p>}
+                                {replacements.length > 0 ? (
+                                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                                    <span className="text-xs text-muted-foreground">Swap for:</span>
+                                    {replacements.map((replacement) => (
+                                      <button
+                                        key={replacement.id}
+                                        type="button"
+                                        onClick={() => swapItem(item.id, replacement)}
+                                        className="w-9 h-9 rounded overflow-hidden border hover:border-black touch-manipulation"
+                                        title={`Swap for ${replacement.name || 'this item'}`}
+                                        aria-label={`Swap for ${replacement.name || 'this item'}`}
+                                      >
+                                        <img
+                                          src={toFullSizeImageUrl(replacement.photoUrl)}
+                                          alt={replacement.name}
+                                          className="w-full h-full object-cover"
+                                        />
+                                      </button>
+                                    ))}
+                                  </div>
+                                ) : (
+                                  <p className="text-xs text-muted-foreground mt-1">No other {item.category} available in this closet</p>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {/* Template slots nothing in the closet fits */}
+                    {toBuy.length > 0 && (
+                      <div className="flex-shrink-0 border-t bg-muted/30 min-w-0 px-2 sm:px-3 py-2">
+                        <p className="text-xs font-medium text-muted-foreground mb-1">To buy ({toBuy.length})</p>
+                        <div className="flex flex-wrap gap-1">
+                          {toBuy.map((draft) => (
+                            <span
+                              key={draft.itemId}
+                              className="inline-flex items-center gap-1 rounded-full border bg-background pl-2 pr-1 py-0.5 text-xs"
+                            >
+                              <ShoppingBag className="h-3 w-3 text-muted-foreground" aria-hidden />
+                              {draft.newItemDetails?.name}
+                              <button
+                                type="button"
+                                onClick={() => setToBuy((prev) => prev.filter((d) => d.itemId !== draft.itemId))}
+                                className="rounded-full p-0.5 hover:bg-muted touch-manipulation"
+                                aria-label={`Don't add ${draft.newItemDetails?.name ?? 'this item'}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Fixed bottom selected items strip - always visible */}
                     <div className="flex-shrink-0 border-t bg-background min-w-0 px-2 sm:px-3 py-2">
                       <div className="flex items-center justify-between mb-1.5">
@@ -1053,9 +1314,20 @@ const CreateLookDialog = ({
                             selectedItems.map((item) => (
                               <div
                                 key={item.id}
-                                className="relative flex-shrink-0 w-14 h-14 rounded-md overflow-hidden border-2 border-black bg-muted group"
+                                className={cn(
+                                  'relative flex-shrink-0 w-14 h-14 rounded-md overflow-hidden border-2 bg-muted group',
+                                  rejectedFeedback.has(item.id) ? 'border-orange-500' : 'border-black'
+                                )}
                                 style={{ scrollSnapAlign: 'start' }}
                               >
+                                {rejectedFeedback.has(item.id) && (
+                                  <span
+                                    className="absolute bottom-0.5 left-0.5 rounded-full p-0.5 bg-orange-500 text-white"
+                                    title="Your client turned this down"
+                                  >
+                                    <ThumbsDown className="h-2.5 w-2.5" />
+                                  </span>
+                                )}
                                 <img
                                   src={toFullSizeImageUrl(item.photoUrl)}
                                   alt={item.name}
@@ -10,7 +10,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Users, Shirt, MessageSquare, Receipt, LogOut, Settings, Sparkles } from 'lucide-react';
+import { Users, Shirt, MessageSquare, Receipt, LogOut, Settings, Sparkles, Trash2, HandCoins } from 'lucide-react';
 import { getCurrentUser, logout } from '@/utils/auth';
 import { showSuccess } from '@/utils/toast';
 import LogoText from '@/components/LogoText';
@@ -102,6 +102,14 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
                   <Settings className="mr-2 h-4 w-4" />
                   Profile Settings
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/proceeds')}>
+                  <HandCoins className="mr-2 h-4 w-4" />
+                  Proceeds
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/trash')}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Trash
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
                   <LogOut className="mr-2 h-4 w-4" />
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Copy, Merge } from 'lucide-react';
+import { useClosetDuplicates, useMergeClosetItems } from '@/hooks/useQueries';
+import { showSuccess, showError } from '@/utils/toast';
+import { DuplicateGroup } from '@/types';
+import { toFullSizeImageUrl } from '@/utils/fileUpload';
+import { format } from 'date-fns';
+
+interface DuplicateItemsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  closetId: string;
+  onMerged?: () => void;
+}
+
+const similarityLabel = (distance: number): string => (distance <= 2 ? 'Same photo' : 'Very similar');
+
+export default function DuplicateItemsDialog({ open, onOpenChange, closetId, onMerged }: DuplicateItemsDialogProps) {
+  const { data: groups = [], isLoading } = useClosetDuplicates(closetId, open);
+  const mergeMutation = useMergeClosetItems();
+  // Kept item per group, keyed by the group's oldest item (the default keeper)
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+
+  const keeperOf = (group: DuplicateGroup): string => keepers[group.items[0].id] ?? group.items[0].id;
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const keepItemId = keeperOf(group);
+    const keep = group.items.find((item) => item.id === keepItemId)!;
+    const itemIds = group.items.filter((item) => item.id !== keepItemId).map((item) => item.id);
+    try {
+      const result = await mergeMutation.mutateAsync({ keepItemId, itemIds });
+      const moved = result.lookItemsMoved + result.lookItemsRemoved;
+      showSuccess(
+        `Merged ${itemIds.length} item${itemIds.length !== 1 ? 's' : ''} into "${keep.name}"` +
+          (moved > 0 ? ` and updated ${moved} look item${moved !== 1 ? 's' : ''}` : '')
+      );
+      onMerged?.();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to merge items');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Possible duplicates</DialogTitle>
+          <DialogDescription>
+            Items with near-identical photos. Pick the one to keep; the others move to the trash and their looks
+            and look requests use the kept item instead.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Looking for duplicates...</p>
+        ) : groups.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10">
+            <Copy className="h-10 w-10 text-muted-foreground mb-3" />
+            <p className="text-muted-foreground text-center">No duplicate photos in this closet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => {
+              const keepItemId = keeperOf(group);
+              return (
+                <div key={group.items[0].id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="secondary">{similarityLabel(group.distance)}</Badge>
+                    <Button
+                      size="sm"
+                      onClick={() => handleMerge(group)}
+                      disabled={mergeMutation.isPending}
+                    >
+                      <Merge className="mr-2 h-4 w-4" />
+                      Merge {group.items.length} items
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {group.items.map((item) => (
+                      <button
+                        key={item.id}
+                        type="button"
+                        onClick={() => setKeepers((prev) => ({ ...prev, [group.items[0].id]: item.id }))}
+                        className={`
+                          relative rounded-lg border-2 overflow-hidden text-left
+                          ${item.id === keepItemId ? 'border-primary ring-2 ring-primary/30' : 'border-muted hover:border-muted-foreground/50'}
+                        `}
+                      >
+                        <img
+                          src={item.thumbnailUrl || toFullSizeImageUrl(item.photoUrl)}
+                          alt={item.name}
+                          className="w-full aspect-square object-contain bg-muted"
+                        />
+                        <div className="p-1.5">
+                          <p className="text-xs font-medium truncate">{item.name}</p>
+                          <p className="text-[11px] text-muted-foreground">
+                            Added {format(new Date(item.createdAt), 'MMM d, yyyy')}
+                          </p>
+                        </div>
+                        {item.id === keepItemId && (
+                          <span className="absolute top-1 left-1 bg-primary text-primary-foreground rounded px-1.5 py-0.5 text-[10px] font-semibold">
+                            Keep
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Upload, X } from 'lucide-react';
 import { updateClient } from '@/utils/clientStorage';
 import { showSuccess, showError } from '@/utils/toast';
@@ -48,6 +49,7 @@ const EditClientDialog = ({
   const [instagramHandle, setInstagramHandle] = useState('');
   const [outfitsPerDayEstimate, setOutfitsPerDayEstimate] = useState('');
   const [weekdayOutfitDetails, setWeekdayOutfitDetails] = useState('');
+  const [notes, setNotes] = useState('');
   const [profilePhotoUrl, setProfilePhotoUrl] = useState('');
   const [profilePhotoFile, setProfilePhotoFile] = useState<File | null>(null);
   const [profilePhotoPreview, setProfilePhotoPreview] = useState<string>('');
@@ -76,6 +78,7 @@ const EditClientDialog = ({
       setInstagramHandle(client.instagramHandle || '');
       setOutfitsPerDayEstimate(client.outfitsPerDayEstimate || '');
       setWeekdayOutfitDetails(client.weekdayOutfitDetails || '');
+      setNotes(client.notes || '');
       setProfilePhotoUrl(client.profilePhotoUrl || '');
       setProfilePhotoPreview(client.profilePhotoUrl || '');
       setProfilePhotoFile(null);
@@ -139,6 +142,7 @@ const EditClientDialog = ({
         instagramHandle: instagramHandle.trim() || undefined,
         outfitsPerDayEstimate: outfitsPerDayEstimate.trim() || undefined,
         weekdayOutfitDetails: weekdayOutfitDetails.trim() || undefined,
+        notes: notes.trim() || undefined,
         profilePhotoUrl: finalProfilePhotoUrl || undefined,
       });
 
@@ -171,10 +175,10 @@ const EditClientDialog = ({
     setProfilePhotoFile(file);
     
     try {
-      const { uploadImage } = await import('@/utils/fileUpload');
-      const preview = await uploadImage(file);
+      const { fileToDataURL } = await import('@/utils/fileUpload');
+      const preview = await fileToDataURL(file);
       setProfilePhotoPreview(preview);
-      setProfilePhotoUrl(preview); // Auto-fill URL with uploaded image
+      setProfilePhotoUrl(preview); // Local preview; the file is uploaded on save
     } catch (error: any) {
       showError(error.message || 'Failed to load image preview');
       setProfilePhotoFile(null);
@@ -211,6 +215,7 @@ const EditClientDialog = ({
       setInstagramHandle(client.instagramHandle || '');
       setOutfitsPerDayEstimate(client.outfitsPerDayEstimate || '');
       setWeekdayOutfitDetails(client.weekdayOutfitDetails || '');
+      setNotes(client.notes || '');
       setProfilePhotoUrl(client.profilePhotoUrl || '');
       setProfilePhotoPreview(client.profilePhotoUrl || '');
     }
@@ -502,6 +507,17 @@ const EditClientDialog = ({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="edit-notes">Notes</Label>
+            <Textarea
+              id="edit-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Only you can see these"
+              rows={3}
+            />
+          </div>
+
           <DialogFooter>
             <Button
               type="button"
@@ -18,11 +18,12 @@ import {
   removeItemFromLook,
   updateLookItem,
   bulkAddItemsToLook,
+  LOOK_COMPOSITE_RENDER_DELAY_MS,
 } from '@/utils/lookStorage';
 import { getOrCreateCloset, getClientCloset, getClosetItems } from '@/utils/closetStorage';
 import { showSuccess, showError } from '@/utils/toast';
 import { Look, ClosetItem, LookItem } from '@/types';
-import LookComposer, { LookComposerItem, generateLookCompositeImage } from '@/components/LookComposer';
+import LookComposer, { LookComposerItem } from '@/components/LookComposer';
 
 interface EditLookDialogProps {
   open: boolean;
@@ -144,13 +145,6 @@ const EditLookDialog = ({
         }
       }
 
-      try {
-        const compositeDataUrl = await generateLookCompositeImage(composerItems, 600, 800, 180);
-        await updateLook(look.id, { compositeImageUrl: compositeDataUrl });
-      } catch (err) {
-        console.warn('Could not regenerate composite image:', err);
-      }
-
       setLoading(false);
       showSuccess('Look updated successfully');
       try {
@@ -158,6 +152,8 @@ const EditLookDialog = ({
       } catch (refreshErr) {
         console.warn('Refresh after update failed:', refreshErr);
       }
+      // The server re-renders the composite once the item changes settle; refresh to pick it up
+      setTimeout(() => Promise.resolve(onLookUpdated()).catch(() => undefined), LOOK_COMPOSITE_RENDER_DELAY_MS);
       onOpenChange(false);
     } catch (error: any) {
       showError(error?.message || 'Failed to update look');
@@ -0,0 +1,80 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import ChangeTimeline from '@/components/ChangeTimeline';
+import { ITEM_STATUS_LABELS, itemStatusOf } from '@/utils/itemStatus';
+import { Closet, ClosetItem } from '@/types';
+import { format, parseISO } from 'date-fns';
+
+interface ItemDetailDialogProps {
+  /** Item shown; the dialog is open while it is set */
+  item: ClosetItem | null;
+  onOpenChange: (open: boolean) => void;
+  /** The owner's closets, so moves in the history show closet names */
+  closets?: Closet[];
+}
+
+const DetailRow = ({ label, value }: { label: string; value?: string }) =>
+  value ? (
+    <div className="min-w-0">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <p className="text-sm break-words">{value}</p>
+    </div>
+  ) : null;
+
+const ItemDetailDialog = ({ item, onOpenChange, closets = [] }: ItemDetailDialogProps) => {
+  if (!item) return null;
+
+  const status = itemStatusOf(item);
+  const closetNames = Object.fromEntries(closets.map((c) => [c.id, c.name]));
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[90vw] max-w-[90vw] sm:w-full sm:max-w-[560px] max-h-[90vh] overflow-y-auto box-border overflow-x-hidden">
+        <DialogHeader className="pr-8">
+          <DialogTitle className="break-words">{item.name}</DialogTitle>
+          <DialogDescription>
+            Added {format(parseISO(item.createdAt), 'MMM d, yyyy')}
+            {closetNames[item.closetId] && ` to ${closetNames[item.closetId]}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 min-w-0">
+          <div className="flex gap-4">
+            <img
+              src={item.previewUrl || item.photoUrl}
+              alt={item.name}
+              className="h-32 w-32 shrink-0 rounded-md object-contain bg-muted"
+            />
+            <div className="grid grid-cols-2 gap-3 min-w-0 flex-1 content-start">
+              <DetailRow label="Category" value={item.subcategory ? `${item.category} · ${item.subcategory}` : item.category} />
+              <DetailRow label="Brand" value={item.brand} />
+              <DetailRow label="Size" value={item.size} />
+              <DetailRow label="Colors" value={item.colorTags.join(', ')} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">{ITEM_STATUS_LABELS[status]}</Badge>
+            {item.archived && <Badge variant="outline">Archived</Badge>}
+          </div>
+
+          <DetailRow label="Notes" value={item.notes} />
+          <DetailRow label="Purchase info" value={item.purchaseInfo} />
+
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium">History</p>
+            <ChangeTimeline entityType="closet_item" entityId={item.id} valueNames={closetNames} />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ItemDetailDialog;
@@ -89,6 +89,8 @@ export function ImagePreviewDialog({
 interface ItemImageWithPreviewProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
   /** Item photo URL (data URL, blob, or remote URL). Passed through toFullSizeImageUrl for display. */
   photoUrl: string;
+  /** Smaller rendition to show inline (e.g. the item's thumbnailUrl). The preview dialog still opens photoUrl. */
+  displayUrl?: string;
   /** Optional caption shown in the preview dialog. */
   caption?: string;
   /** Optional label for action button in the expanded preview (e.g. "Add Item"). */
@@ -104,6 +106,7 @@ interface ItemImageWithPreviewProps extends Omit<React.ImgHTMLAttributes<HTMLIma
  */
 export function ItemImageWithPreview({
   photoUrl,
+  displayUrl,
   alt,
   caption,
   className,
@@ -113,7 +116,7 @@ export function ItemImageWithPreview({
   ...imgProps
 }: ItemImageWithPreviewProps) {
   const [previewOpen, setPreviewOpen] = React.useState(false);
-  const fullUrl = photoUrl ? toFullSizeImageUrl(photoUrl) : photoUrl;
+  const inlineUrl = displayUrl || (photoUrl ? toFullSizeImageUrl(photoUrl) : photoUrl);
 
   const handleClick = (e: React.MouseEvent<HTMLImageElement>) => {
     e.stopPropagation();
@@ -124,7 +127,7 @@ export function ItemImageWithPreview({
   return (
     <>
       <img
-        src={fullUrl}
+        src={inlineUrl}
         alt={alt}
         className={cn('cursor-pointer', className)}
         onClick={handleClick}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useChangeItemStatus, useItemStatusHistory } from '@/hooks/useQueries';
+import { showSuccess, showError } from '@/utils/toast';
+import { AMOUNT_STATUSES, AWAY_STATUSES, ITEM_STATUSES, ITEM_STATUS_LABELS, itemStatusOf } from '@/utils/itemStatus';
+import { ClosetItem, ItemStatus } from '@/types';
+import { format, parseISO } from 'date-fns';
+
+interface ItemStatusDialogProps {
+  /** Item whose status is changed; the dialog is open while it is set */
+  item: ClosetItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDay = (day: string) => format(parseISO(day), 'MMM d, yyyy');
+
+const ItemStatusDialog = ({ item, onOpenChange }: ItemStatusDialogProps) => {
+  const [status, setStatus] = useState<ItemStatus | ''>('');
+  const [changedOn, setChangedOn] = useState('');
+  const [expectedBackOn, setExpectedBackOn] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const changeMutation = useChangeItemStatus();
+  const { data: statusInfo } = useItemStatusHistory(item?.id ?? null);
+
+  useEffect(() => {
+    if (!item) return;
+    setStatus('');
+    setChangedOn(format(new Date(), 'yyyy-MM-dd'));
+    setExpectedBackOn('');
+    setAmount('');
+    setNote('');
+  }, [item]);
+
+  if (!item) return null;
+
+  const current = itemStatusOf(item);
+  const isAway = status !== '' && AWAY_STATUSES.includes(status);
+  const takesAmount = status !== '' && AMOUNT_STATUSES.includes(status);
+
+  const handleSave = async () => {
+    if (!status) return;
+    try {
+      await changeMutation.mutateAsync({
+        itemId: item.id,
+        change: {
+          status,
+          changedOn: changedOn || undefined,
+          note: note.trim() || undefined,
+          amount: takesAmount && amount.trim() !== '' ? Number(amount) : undefined,
+          expectedBackOn: isAway && expectedBackOn ? expectedBackOn : undefined,
+        },
+      });
+      showSuccess(`${item.name} is now ${ITEM_STATUS_LABELS[status].toLowerCase()}`);
+      onOpenChange(false);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to change status');
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[90vw] max-w-[90vw] sm:w-full sm:max-w-[480px] max-h-[90vh] overflow-y-auto box-border overflow-x-hidden">
+        <DialogHeader className="pr-8">
+          <DialogTitle>Item Status</DialogTitle>
+          <DialogDescription className="break-words">
+            {item.name} is {ITEM_STATUS_LABELS[current].toLowerCase()}
+            {item.expectedBackOn && AWAY_STATUSES.includes(current) ? `, expected back ${formatDay(item.expectedBackOn)}` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 min-w-0">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="item-status">New status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as ItemStatus)}>
+                <SelectTrigger id="item-status">
+                  <SelectValue placeholder="Choose a status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ITEM_STATUSES.filter((s) => s !== current).map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {ITEM_STATUS_LABELS[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="item-status-date">Date</Label>
+              <Input id="item-status-date" type="date" value={changedOn} onChange={(e) => setChangedOn(e.target.value)} />
+            </div>
+          </div>
+
+          {isAway && (
+            <div className="space-y-2">
+              <Label htmlFor="item-status-back">Expected back</Label>
+              <Input
+                id="item-status-back"
+                type="date"
+                value={expectedBackOn}
+                min={changedOn || undefined}
+                onChange={(e) => setExpectedBackOn(e.target.value)}
+              />
+            </div>
+          )}
+
+          {takesAmount && (
+            <div className="space-y-2">
+              <Label htmlFor="item-status-amount">{status === 'sold' ? 'Sale price' : 'Consignment payout'}</Label>
+              <Input
+                id="item-status-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="item-status-note">Note</Label>
+            <Textarea
+              id="item-status-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g., Hem shortened at Main St Tailors"
+              rows={2}
+            />
+          </div>
+
+          {(statusInfo?.history ?? []).length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium">History</p>
+              <ul className="space-y-2 list-none p-0 m-0">
+                {statusInfo!.history.map((event) => (
+                  <li key={event.id} className="text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-muted-foreground">{formatDay(event.changedOn)}</span>
+                      <Badge variant="secondary">{ITEM_STATUS_LABELS[event.status]}</Badge>
+                      {event.amount !== undefined && <span>{event.amount.toFixed(2)}</span>}
+                    </div>
+                    {event.note && <p className="text-muted-foreground break-words">{event.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={changeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!status || changeMutation.isPending}>
+            {changeMutation.isPending ? 'Saving...' : 'Save Status'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ItemStatusDialog;
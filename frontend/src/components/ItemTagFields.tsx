@@ -0,0 +1,60 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ItemTagDraft, SEASONS, TEXT_TAG_GROUPS } from '@/utils/itemTags';
+
+interface ItemTagFieldsProps {
+  value: ItemTagDraft;
+  onChange: (value: ItemTagDraft) => void;
+  /** Prefix for input ids, so two forms on one page don't clash */
+  idPrefix?: string;
+}
+
+const ItemTagFields = ({ value, onChange, idPrefix = 'tags' }: ItemTagFieldsProps) => {
+  const toggleSeason = (season: ItemTagDraft['season'][number]) => {
+    const seasons = value.season.includes(season)
+      ? value.season.filter((s) => s !== season)
+      : [...value.season, season];
+    onChange({ ...value, season: seasons });
+  };
+
+  return (
+    <div className="space-y-4 min-w-0">
+      <div className="space-y-2 min-w-0">
+        <Label>Season</Label>
+        <div className="flex flex-wrap gap-2">
+          {SEASONS.map((season) => (
+            <Button
+              key={season.value}
+              type="button"
+              size="sm"
+              variant={value.season.includes(season.value) ? 'default' : 'outline'}
+              aria-pressed={value.season.includes(season.value)}
+              onClick={() => toggleSeason(season.value)}
+            >
+              {season.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 min-w-0">
+        {TEXT_TAG_GROUPS.map((group) => (
+          <div key={group.value} className="space-y-2 min-w-0">
+            <Label htmlFor={`${idPrefix}-${group.value}`}>{group.label}</Label>
+            <Input
+              id={`${idPrefix}-${group.value}`}
+              value={value[group.value]}
+              onChange={(e) => onChange({ ...value, [group.value]: e.target.value })}
+              placeholder={group.placeholder}
+              className="w-full min-w-0 max-w-full"
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">Separate multiple tags with commas</p>
+    </div>
+  );
+};
+
+export default ItemTagFields;
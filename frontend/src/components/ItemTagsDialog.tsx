@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import ItemTagFields from '@/components/ItemTagFields';
+import { ClosetItem, ItemTags } from '@/types';
+import { draftToTags, emptyTagDraft, tagsToDraft } from '@/utils/itemTags';
+
+interface ItemTagsDialogProps {
+  /** Item being tagged; the dialog is open while it is set */
+  item: ClosetItem | null;
+  onOpenChange: (open: boolean) => void;
+  /** Save the item's tags; resolves true when they were saved */
+  onSave: (item: ClosetItem, tags: ItemTags) => Promise<boolean>;
+}
+
+const ItemTagsDialog = ({ item, onOpenChange, onSave }: ItemTagsDialogProps) => {
+  const [draft, setDraft] = useState(emptyTagDraft);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (item) setDraft(tagsToDraft(item.tags));
+  }, [item]);
+
+  const handleSave = async () => {
+    if (!item) return;
+    setSaving(true);
+    try {
+      if (await onSave(item, draftToTags(draft))) onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[90vw] max-w-[90vw] sm:w-full sm:max-w-[500px] box-border overflow-x-hidden">
+        <DialogHeader className="pr-8">
+          <DialogTitle>Edit Tags</DialogTitle>
+          <DialogDescription className="break-words">
+            Tag {item?.name} by season, occasion, fabric and fit to find it with closet filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ItemTagFields value={draft} onChange={setDraft} idPrefix="edit-item-tags" />
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Tags'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ItemTagsDialog;
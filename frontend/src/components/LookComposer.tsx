@@ -80,6 +80,7 @@ function ClosetDraggableItem({
       <div className="aspect-square w-full bg-muted relative">
         <ItemImageWithPreview
           photoUrl={item.photoUrl}
+          displayUrl={item.thumbnailUrl}
           alt={item.name}
           caption={item.name}
           className="w-full h-full object-contain rounded-none bg-muted"
@@ -277,6 +278,7 @@ function CanvasDraggableItem({
       <div className="w-full h-full rounded-lg overflow-hidden bg-white">
         <ItemImageWithPreview
           photoUrl={item.closetItem.photoUrl}
+          displayUrl={item.closetItem.cutoutUrl || item.closetItem.previewUrl}
           alt={item.closetItem.name}
           caption={item.closetItem.name}
           className="w-full h-full object-contain pointer-events-none"
@@ -409,77 +411,6 @@ function CanvasDraggableItem({
   );
 }
 
-/** Generate a vertical white composite image with items (transparent bg when possible) */
-export async function generateLookCompositeImage(
-  items: LookComposerItem[],
-  canvasWidth: number = 600,
-  canvasHeight: number = 800,
-  baseItemPixelSize: number = 180
-): Promise<string> {
-  const canvas = document.createElement('canvas');
-  canvas.width = canvasWidth;
-  canvas.height = canvasHeight;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Could not get canvas context');
-
-  ctx.fillStyle = '#ffffff';
-  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-
-  let removeBackground: ((src: Blob | URL | string) => Promise<Blob>) | null = null;
-  try {
-    const mod = await import('@imgly/background-removal');
-    removeBackground = typeof mod.removeBackground === 'function' ? mod.removeBackground : null;
-  } catch {
-    // Background removal not available, will use original images
-  }
-
-  const loadImage = (src: string | Blob): Promise<HTMLImageElement> =>
-    new Promise((resolve, reject) => {
-      const img = new Image();
-      const url = typeof src === 'string' ? src : URL.createObjectURL(src);
-      if (typeof src === 'string' && !src.startsWith('data:')) {
-        img.crossOrigin = 'anonymous';
-      }
-      img.onload = () => {
-        if (typeof src === 'object') URL.revokeObjectURL(url);
-        resolve(img);
-      };
-      img.onerror = () => {
-        if (typeof src === 'object') URL.revokeObjectURL(url);
-        reject(new Error('Failed to load image'));
-      };
-      img.src = url;
-    });
-
-  const getImageSrc = async (photoUrl: string): Promise<string | Blob> => {
-    const fullUrl = toFullSizeImageUrl(photoUrl);
-    if (removeBackground) {
-      try {
-        return await removeBackground(fullUrl);
-      } catch {
-        return fullUrl;
-      }
-    }
-    return fullUrl;
-  };
-
-  for (const item of items) {
-    try {
-      const src = await getImageSrc(item.closetItem.photoUrl);
-      const img = await loadImage(src);
-      const x = (item.positionX / 100) * canvasWidth;
-      const y = (item.positionY / 100) * canvasHeight;
-      const itemScale = item.scale ?? 1;
-      const scaledSize = baseItemPixelSize * itemScale;
-      ctx.drawImage(img, x, y, scaledSize, scaledSize);
-    } catch {
-      // Skip items that fail to load (e.g. CORS)
-    }
-  }
-
-  return canvas.toDataURL('image/png');
-}
-
 export default function LookComposer({
   closetItems,
   lookItems,
@@ -13,6 +13,10 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Calendar, MessageSquare, Send, Edit, Trash2, Check, X, AlertCircle } from 'lucide-react';
 import { getLookWithItems, updateLookStatus } from '@/utils/lookStorage';
 import LookItemsCanvas, { CanvasItem } from '@/components/LookItemsCanvas';
+import ChangeTimeline from '@/components/ChangeTimeline';
+import LookRevisionCompare from '@/components/LookRevisionCompare';
+import LookStatusHistory from '@/components/LookStatusHistory';
+import LookFeedbackDialog from '@/components/LookFeedbackDialog';
 import { showSuccess, showError } from '@/utils/toast';
 import { getCurrentUser } from '@/utils/auth';
 import { Look, Client, ClosetItem, LookItem, LookStatus } from '@/types';
@@ -46,6 +50,7 @@ const LookDetailDialog = ({
   const [lookItems, setLookItems] = useState<LookItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [feedbackOpen, setFeedbackOpen] = useState(false);
   const isMobile = useIsMobile();
   const canvasItemSize = isMobile ? 200 : 180;
 
@@ -110,6 +115,12 @@ const LookDetailDialog = ({
         return <Badge className="bg-green-500">Approved</Badge>;
       case 'changes_requested':
         return <Badge className="bg-orange-500">Changes Requested</Badge>;
+      case 'withdrawn':
+        return <Badge variant="outline">Withdrawn</Badge>;
+      case 'worn':
+        return <Badge className="bg-blue-500">Worn</Badge>;
+      case 'archived':
+        return <Badge variant="secondary">Archived</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -131,20 +142,9 @@ const LookDetailDialog = ({
     }
   };
 
-  const handleDeclineLook = async () => {
-    if (!look) return;
-    
-    setUpdatingStatus(true);
-    try {
-      await updateLookStatus(look.id, 'changes_requested');
-      showSuccess('Changes requested. Your stylist will be notified.');
-      onStatusChange?.();
-      onOpenChange(false);
-    } catch (error: any) {
-      showError(error.message || 'Failed to request changes');
-    } finally {
-      setUpdatingStatus(false);
-    }
+  const handleFeedbackSubmitted = () => {
+    onStatusChange?.();
+    onOpenChange(false);
   };
 
   if (!look) return null;
@@ -228,6 +228,11 @@ const LookDetailDialog = ({
                   alt={look.name}
                   className="w-full h-auto object-contain max-h-[500px]"
                 />
+                {look.compositeMissingItemIds?.length ? (
+                  <p className="text-xs text-muted-foreground border-t px-3 py-2">
+                    {look.compositeMissingItemIds.length} of {items.length} items aren't shown: their photo couldn't be loaded.
+                  </p>
+                ) : null}
               </div>
             ) : items.length === 0 ? (
               <p className="text-sm text-muted-foreground">No items in this look</p>
@@ -241,6 +246,24 @@ const LookDetailDialog = ({
             )}
           </div>
 
+          {/* Status moves, and the stylist's next ones */}
+          <div>
+            <p className="text-sm font-medium text-muted-foreground mb-2">Status</p>
+            <LookStatusHistory look={look} canChange={!isClient} onStatusChange={onStatusChange} />
+          </div>
+
+          {/* Versions sent to the client */}
+          <div>
+            <p className="text-sm font-medium text-muted-foreground mb-2">Revisions</p>
+            <LookRevisionCompare key={look.id} look={look} canRestore={!isClient} />
+          </div>
+
+          {/* Change history */}
+          <div>
+            <p className="text-sm font-medium text-muted-foreground mb-2">History</p>
+            <ChangeTimeline entityType="look" entityId={look.id} valueNames={client ? { [client.id]: client.name } : undefined} />
+          </div>
+
           {/* Actions */}
           <div className="flex flex-wrap gap-2 pt-4 border-t">
             {/* Client Actions - Approve/Decline */}
@@ -256,7 +279,7 @@ const LookDetailDialog = ({
                   Approve Look
                 </Button>
                 <Button 
-                  onClick={handleDeclineLook} 
+                  onClick={() => setFeedbackOpen(true)} 
                   variant="outline"
                   disabled={updatingStatus}
                   className="border-orange-500 text-orange-600 hover:bg-orange-50"
@@ -276,7 +299,7 @@ const LookDetailDialog = ({
                     Send for Approval
                   </Button>
                 )}
-                {(look.status === 'draft' || look.status === 'changes_requested') && onEdit && (
+                {(look.status === 'draft' || look.status === 'changes_requested' || look.status === 'withdrawn') && onEdit && (
                   <Button onClick={onEdit} variant="outline">
                     <Edit className="mr-2 h-4 w-4" />
                     Edit Look
@@ -300,6 +323,17 @@ const LookDetailDialog = ({
             )}
           </div>
         </div>
+
+        {isClient && (
+          <LookFeedbackDialog
+            key={look.id}
+            open={feedbackOpen}
+            onOpenChange={setFeedbackOpen}
+            look={look}
+            items={canvasItems.flatMap(({ closetItem, lookItem }) => (lookItem ? [{ lookItemId: lookItem.id, closetItem }] : []))}
+            onSubmitted={handleFeedbackSubmitted}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
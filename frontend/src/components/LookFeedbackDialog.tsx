@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { useChangeLookStatus } from '@/hooks/useQueries';
+import { showError, showSuccess } from '@/utils/toast';
+import { toFullSizeImageUrl } from '@/utils/fileUpload';
+import { FEEDBACK_REASONS, FEEDBACK_REASON_LABELS } from '@/utils/lookFeedback';
+import { cn } from '@/lib/utils';
+import { ClosetItem, Look, LookFeedbackReason, LookItemFeedback, LookItemFeedbackInput } from '@/types';
+
+interface LookFeedbackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  look: Look;
+  /** The look's pieces, in look order */
+  items: { lookItemId: string; closetItem: ClosetItem }[];
+  onSubmitted?: () => void;
+}
+
+type ItemDraft = { verdict?: LookItemFeedback['verdict']; reasons: LookFeedbackReason[]; comment: string };
+
+const EMPTY_DRAFT: ItemDraft = { reasons: [], comment: '' };
+
+/** Client's "Request changes": a thumbs up or down per piece, why, and a note for the stylist */
+const LookFeedbackDialog = ({ open, onOpenChange, look, items, onSubmitted }: LookFeedbackDialogProps) => {
+  const [drafts, setDrafts] = useState<Record<string, ItemDraft>>({});
+  const [comment, setComment] = useState('');
+  const changeStatus = useChangeLookStatus();
+
+  const updateDraft = (lookItemId: string, change: Partial<ItemDraft>) =>
+    setDrafts((prev) => ({ ...prev, [lookItemId]: { ...(prev[lookItemId] ?? EMPTY_DRAFT), ...change } }));
+
+  const toggleVerdict = (lookItemId: string, verdict: ItemDraft['verdict']) => {
+    const current = drafts[lookItemId]?.verdict;
+    updateDraft(lookItemId, current === verdict ? { verdict: undefined, reasons: [] } : { verdict });
+  };
+
+  const toggleReason = (lookItemId: string, reason: LookFeedbackReason) => {
+    const reasons = drafts[lookItemId]?.reasons ?? [];
+    updateDraft(lookItemId, {
+      reasons: reasons.includes(reason) ? reasons.filter((r) => r !== reason) : [...reasons, reason],
+    });
+  };
+
+  const handleSubmit = async () => {
+    const itemFeedback: LookItemFeedbackInput[] = Object.entries(drafts).flatMap(([lookItemId, draft]) =>
+      draft.verdict
+        ? [{
+            lookItemId,
+            verdict: draft.verdict,
+            ...(draft.verdict === 'down' && draft.reasons.length > 0 && { reasons: draft.reasons }),
+            ...(draft.comment.trim() && { comment: draft.comment.trim() }),
+          }]
+        : []
+    );
+    try {
+      await changeStatus.mutateAsync({
+        lookId: look.id,
+        status: 'changes_requested',
+        reason: comment.trim() || undefined,
+        itemFeedback,
+      });
+      showSuccess('Changes requested. Your stylist will be notified.');
+      onOpenChange(false);
+      onSubmitted?.();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to request changes');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Request changes</DialogTitle>
+          <DialogDescription>
+            Tell your stylist what works in "{look.name}" and what doesn't. Everything here is optional.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="list-none p-0 m-0 space-y-3">
+          {items.map(({ lookItemId, closetItem }) => {
+            const draft = drafts[lookItemId] ?? EMPTY_DRAFT;
+            return (
+              <li key={lookItemId} className="flex gap-3 rounded-lg border p-2">
+                <img
+                  src={toFullSizeImageUrl(closetItem.photoUrl)}
+                  alt={closetItem.name}
+                  className="h-16 w-16 flex-shrink-0 rounded-md object-cover bg-muted"
+                />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium truncate">{closetItem.name || 'Unnamed item'}</p>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={draft.verdict === 'up' ? 'default' : 'outline'}
+                        className={cn('h-8 w-8 p-0', draft.verdict === 'up' && 'bg-green-600 hover:bg-green-700')}
+                        aria-label="I like this piece"
+                        aria-pressed={draft.verdict === 'up'}
+                        onClick={() => toggleVerdict(lookItemId, 'up')}
+                      >
+                        <ThumbsUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={draft.verdict === 'down' ? 'default' : 'outline'}
+                        className={cn('h-8 w-8 p-0', draft.verdict === 'down' && 'bg-orange-600 hover:bg-orange-700')}
+                        aria-label="I don't like this piece"
+                        aria-pressed={draft.verdict === 'down'}
+                        onClick={() => toggleVerdict(lookItemId, 'down')}
+                      >
+                        <ThumbsDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {draft.verdict === 'down' && (
+                    <div className="flex flex-wrap gap-1">
+                      {FEEDBACK_REASONS.map((reason) => (
+                        <Button
+                          key={reason}
+                          type="button"
+                          size="sm"
+                          variant={draft.reasons.includes(reason) ? 'secondary' : 'outline'}
+                          className="h-7 px-2 text-xs"
+                          aria-pressed={draft.reasons.includes(reason)}
+                          onClick={() => toggleReason(lookItemId, reason)}
+                        >
+                          {FEEDBACK_REASON_LABELS[reason]}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  {draft.verdict && (
+                    <Input
+                      value={draft.comment}
+                      onChange={(e) => updateDraft(lookItemId, { comment: e.target.value })}
+                      placeholder="Anything else about this piece?"
+                      className="h-8 text-sm"
+                      aria-label={`Comment on ${closetItem.name || 'this piece'}`}
+                    />
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="space-y-2">
+          <Label htmlFor="look-feedback-comment">Note for your stylist</Label>
+          <Textarea
+            id="look-feedback-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="What would you like changed?"
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={changeStatus.isPending}
+            className="bg-orange-600 hover:bg-orange-700"
+          >
+            Request Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LookFeedbackDialog;
@@ -125,7 +125,7 @@ function DraggableCanvasItem({
           </div>
         )}
         <img
-          src={toFullSizeImageUrl(item.closetItem.photoUrl)}
+          src={item.closetItem.cutoutUrl || item.closetItem.previewUrl || toFullSizeImageUrl(item.closetItem.photoUrl)}
           alt={item.closetItem.name}
           className="w-full h-full object-contain pointer-events-none"
           draggable={false}
@@ -169,7 +169,7 @@ function HorizontalItemCard({
     >
       <div className="relative w-full h-full">
         <img
-          src={toFullSizeImageUrl(item.closetItem.photoUrl)}
+          src={item.closetItem.cutoutUrl || item.closetItem.previewUrl || toFullSizeImageUrl(item.closetItem.photoUrl)}
           alt={item.closetItem.name}
           className="w-full h-full object-contain pointer-events-none"
           draggable={false}
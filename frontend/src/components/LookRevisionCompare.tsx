@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RotateCcw } from 'lucide-react';
+import { useLookRevisionDiff, useLookRevisions, useRestoreLookRevision } from '@/hooks/useQueries';
+import { changeFieldLabel, formatChangeValue } from '@/utils/changeHistory';
+import { showError, showSuccess } from '@/utils/toast';
+import { Look, LookRevision, LookRevisionDiff, LookRevisionItem } from '@/types';
+import { format, parseISO } from 'date-fns';
+
+interface LookRevisionCompareProps {
+  look: Look;
+  /** Stylists can start a new draft from any revision */
+  canRestore?: boolean;
+}
+
+const RESPONSE_LABELS: Record<NonNullable<LookRevision['response']>, string> = {
+  approved: 'Approved',
+  changes_requested: 'Changes requested',
+};
+
+const itemName = (item: LookRevisionItem) => item.name || 'Unnamed item';
+
+const RevisionColumn = ({
+  revision,
+  canRestore,
+  restoring,
+  onRestore,
+}: {
+  revision: LookRevision;
+  canRestore: boolean;
+  restoring: boolean;
+  onRestore: () => void;
+}) => (
+  <div className="space-y-2 min-w-0">
+    <div className="flex flex-wrap items-center gap-2">
+      <p className="text-sm font-medium">Revision {revision.revision}</p>
+      {revision.response && <Badge variant="outline">{RESPONSE_LABELS[revision.response]}</Badge>}
+    </div>
+    <p className="text-xs text-muted-foreground">Sent {format(parseISO(revision.createdAt), 'MMM d, yyyy h:mm a')}</p>
+    {revision.compositeImageUrl ? (
+      <div className="rounded-md overflow-hidden border bg-white">
+        <img src={revision.compositeImageUrl} alt={revision.name} className="w-full h-auto object-contain" />
+        {revision.compositeMissingItemIds?.length ? (
+          <p className="text-xs text-muted-foreground border-t px-2 py-1">
+            {revision.compositeMissingItemIds.length} of {revision.items.length} items not shown
+          </p>
+        ) : null}
+      </div>
+    ) : (
+      <div className="grid grid-cols-3 gap-1">
+        {revision.items.map((item) => (
+          <img
+            key={item.itemId}
+            src={item.imageUrl}
+            alt={itemName(item)}
+            className="aspect-square w-full rounded object-contain bg-muted"
+          />
+        ))}
+      </div>
+    )}
+    {canRestore && (
+      <Button type="button" variant="outline" size="sm" className="w-full" disabled={restoring} onClick={onRestore}>
+        <RotateCcw className="mr-2 h-4 w-4" />
+        Restore as new draft
+      </Button>
+    )}
+  </div>
+);
+
+const ItemList = ({ title, names }: { title: string; names: string[] }) =>
+  names.length > 0 ? (
+    <li className="break-words">
+      {title}: <span className="text-foreground">{names.join(', ')}</span>
+    </li>
+  ) : null;
+
+const DiffSummary = ({ diff }: { diff: LookRevisionDiff }) => {
+  const unchanged = diff.fields.length + diff.added.length + diff.removed.length + diff.moved.length === 0;
+  if (unchanged) {
+    return <p className="text-sm text-muted-foreground">No differences</p>;
+  }
+  return (
+    <ul className="list-none p-0 m-0 space-y-0.5 text-sm text-muted-foreground">
+      {diff.fields.map((change) => (
+        <li key={change.field} className="break-words">
+          {changeFieldLabel(change.field)}: <span className="line-through">{formatChangeValue(change.field, change.before)}</span>
+          {' → '}
+          <span className="text-foreground">{formatChangeValue(change.field, change.after)}</span>
+        </li>
+      ))}
+      <ItemList title="Added" names={diff.added.map(itemName)} />
+      <ItemList title="Removed" names={diff.removed.map(itemName)} />
+      <ItemList title="Moved or resized" names={diff.moved.map((m) => m.name || 'Unnamed item')} />
+    </ul>
+  );
+};
+
+/** The versions of a look its client was sent, two at a time side by side with what changed */
+const LookRevisionCompare = ({ look, canRestore = false }: LookRevisionCompareProps) => {
+  const { data: revisions = [], isLoading } = useLookRevisions(look.id);
+  const [pickedFrom, setPickedFrom] = useState<number | null>(null);
+  const [pickedTo, setPickedTo] = useState<number | null>(null);
+  const restoreRevision = useRestoreLookRevision();
+
+  // Until picked, compare the latest revision with the one before it
+  const toRevision = pickedTo ?? revisions[0]?.revision ?? null;
+  const fromRevision = pickedFrom ?? revisions[Math.min(1, revisions.length - 1)]?.revision ?? null;
+
+  const { data: diff } = useLookRevisionDiff(look.id, fromRevision, toRevision);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading revisions...</p>;
+  }
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Not sent for approval yet</p>;
+  }
+
+  const from = revisions.find((r) => r.revision === fromRevision);
+  const to = revisions.find((r) => r.revision === toRevision);
+
+  const handleRestore = async (revision: LookRevision) => {
+    try {
+      const draft = await restoreRevision.mutateAsync({ lookId: look.id, revision: revision.revision });
+      showSuccess(`Revision ${revision.revision} restored as a new draft of "${draft.name}"`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to restore revision');
+    }
+  };
+
+  const revisionSelect = (value: number | null, onChange: (revision: number) => void, label: string) => (
+    <Select value={value != null ? String(value) : undefined} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="w-full" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((r) => (
+          <SelectItem key={r.id} value={String(r.revision)}>
+            Revision {r.revision} · {format(parseISO(r.createdAt), 'MMM d')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3 min-w-0">
+      {revisions.length > 1 && (
+        <div className="grid grid-cols-2 gap-3">
+          {revisionSelect(fromRevision, setPickedFrom, 'Earlier revision')}
+          {revisionSelect(toRevision, setPickedTo, 'Later revision')}
+        </div>
+      )}
+      <div className={revisions.length > 1 ? 'grid grid-cols-2 gap-3' : 'max-w-[50%]'}>
+        {[from, to]
+          .filter((r, i): r is LookRevision => !!r && (revisions.length > 1 || i === 1))
+          .map((revision, i) => (
+            <RevisionColumn
+              key={`${i}-${revision.id}`}
+              revision={revision}
+              canRestore={canRestore}
+              restoring={restoreRevision.isPending}
+              onRestore={() => handleRestore(revision)}
+            />
+          ))}
+      </div>
+      {diff && fromRevision !== toRevision && (
+        <div className="border-t pt-3">
+          <p className="text-sm font-medium mb-1">
+            Changes from revision {diff.from} to {diff.to}
+          </p>
+          <DiffSummary diff={diff} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LookRevisionCompare;
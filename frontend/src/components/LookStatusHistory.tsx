@@ -0,0 +1,138 @@
+import { Button } from '@/components/ui/button';
+import { Archive, Undo2, RotateCcw, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { useChangeLookStatus, useLookStatus } from '@/hooks/useQueries';
+import { describeItemFeedback } from '@/utils/lookFeedback';
+import { showError, showSuccess } from '@/utils/toast';
+import { Look, LookItemFeedback, LookStatus, LookStatusEvent } from '@/types';
+import { format, parseISO } from 'date-fns';
+
+interface LookStatusHistoryProps {
+  look: Look;
+  /** Offer the stylist's moves (withdraw, archive, back to draft) next to the log */
+  canChange?: boolean;
+  onStatusChange?: () => void;
+}
+
+const STATUS_LABELS: Record<LookStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending approval',
+  approved: 'Approved',
+  changes_requested: 'Changes requested',
+  withdrawn: 'Withdrawn',
+  worn: 'Worn',
+  archived: 'Archived',
+};
+
+// Sending for approval and answering have their own buttons elsewhere
+const ACTIONS: Partial<Record<LookStatus, { label: string; icon: typeof Archive; success: string }>> = {
+  withdrawn: { label: 'Withdraw', icon: Undo2, success: 'Look withdrawn' },
+  archived: { label: 'Archive', icon: Archive, success: 'Look archived' },
+  draft: { label: 'Back to draft', icon: RotateCcw, success: 'Look moved back to draft' },
+};
+
+const FeedbackLine = ({ feedback }: { feedback: LookItemFeedback }) => {
+  const details = describeItemFeedback(feedback);
+  const Icon = feedback.verdict === 'up' ? ThumbsUp : ThumbsDown;
+  return (
+    <li className="flex items-start gap-1.5 break-words">
+      <Icon
+        className={`h-3 w-3 mt-0.5 flex-shrink-0 ${feedback.verdict === 'up' ? 'text-green-600' : 'text-orange-600'}`}
+        aria-label={feedback.verdict === 'up' ? 'Liked' : 'Disliked'}
+      />
+      <span>
+        <span className="text-foreground">{feedback.name || 'Unnamed item'}</span>
+        {details && ` — ${details}`}
+      </span>
+    </li>
+  );
+};
+
+const StatusEntry = ({ event }: { event: LookStatusEvent }) => (
+  <li className="relative pl-4 pb-4 last:pb-0">
+    <span className="absolute -left-1 top-1.5 h-2 w-2 rounded-full bg-primary" aria-hidden />
+    <p className="text-sm">
+      <span className="font-medium">{event.changedByName ?? 'Someone'}</span>{' '}
+      <span className="text-muted-foreground">
+        moved it from {STATUS_LABELS[event.previousStatus].toLowerCase()} to {STATUS_LABELS[event.status].toLowerCase()}
+      </span>
+    </p>
+    <p className="text-xs text-muted-foreground">{format(parseISO(event.createdAt), 'MMM d, yyyy h:mm a')}</p>
+    {event.reason && <p className="mt-1 text-xs text-muted-foreground whitespace-pre-wrap">“{event.reason}”</p>}
+    {event.itemFeedback && event.itemFeedback.length > 0 && (
+      <ul className="mt-1 space-y-0.5 list-none p-0 m-0 text-xs text-muted-foreground">
+        {event.itemFeedback.map((feedback) => (
+          <FeedbackLine key={feedback.lookItemId} feedback={feedback} />
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+/** How a look got to its current status, newest first, with the stylist's next moves */
+const LookStatusHistory = ({ look, canChange = false, onStatusChange }: LookStatusHistoryProps) => {
+  const { data: info, isLoading } = useLookStatus(look.id);
+  const changeStatus = useChangeLookStatus();
+
+  const handleChange = async (status: LookStatus) => {
+    const action = ACTIONS[status];
+    if (!action) return;
+    let reason: string | undefined;
+    if (status === 'withdrawn') {
+      const answer = window.prompt('Why are you withdrawing this look? (optional — your client will see this)');
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    }
+    try {
+      await changeStatus.mutateAsync({ lookId: look.id, status, reason });
+      showSuccess(action.success);
+      onStatusChange?.();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to change look status');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading status history...</p>;
+  }
+
+  const actions = canChange
+    ? (info?.allowed ?? []).flatMap((status) => {
+        const action = ACTIONS[status];
+        return action ? [{ status, ...action }] : [];
+      })
+    : [];
+  const history = info?.history ?? [];
+
+  return (
+    <div className="space-y-3 min-w-0">
+      {history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No status changes yet</p>
+      ) : (
+        <ol className="list-none p-0 m-0 border-l ml-1">
+          {history.map((event) => (
+            <StatusEntry key={event.id} event={event} />
+          ))}
+        </ol>
+      )}
+      {actions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {actions.map(({ status, label, icon: Icon }) => (
+            <Button
+              key={status}
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={changeStatus.isPending}
+              onClick={() => handleChange(status)}
+            >
+              <Icon className="mr-2 h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LookStatusHistory;
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2, X } from 'lucide-react';
+import { useCreateLookTemplate, useDeleteLookTemplate, useLookTemplates } from '@/hooks/useQueries';
+import { LookTemplateSlotInput } from '@/utils/lookTemplateStorage';
+import { showError, showSuccess } from '@/utils/toast';
+import { ItemCategory, LookTemplate } from '@/types';
+
+interface LookTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CATEGORY_OPTIONS: { value: ItemCategory; label: string }[] = [
+  { value: 'tops', label: 'Tops' },
+  { value: 'bottoms', label: 'Bottoms' },
+  { value: 'dresses', label: 'Dresses' },
+  { value: 'outerwear', label: 'Outerwear' },
+  { value: 'shoes', label: 'Shoes' },
+  { value: 'accessories', label: 'Accessories' },
+  { value: 'bags', label: 'Bags' },
+  { value: 'others', label: 'Others' },
+];
+
+type SlotDraft = { category: ItemCategory; subcategory: string; label: string };
+
+const NEW_SLOTS: SlotDraft[] = [
+  { category: 'tops', subcategory: '', label: '' },
+  { category: 'bottoms', subcategory: '', label: '' },
+  { category: 'shoes', subcategory: '', label: '' },
+];
+
+const describeSlots = (template: LookTemplate) =>
+  template.slots.map((slot) => slot.label || slot.subcategory || slot.category).join(', ');
+
+/** The stylist's look templates: list, delete, and build a new one slot by slot */
+const LookTemplatesDialog = ({ open, onOpenChange }: LookTemplatesDialogProps) => {
+  const { data: templates = [], isLoading } = useLookTemplates(open);
+  const createTemplate = useCreateLookTemplate();
+  const deleteTemplate = useDeleteLookTemplate();
+  const [name, setName] = useState('');
+  const [occasion, setOccasion] = useState('');
+  const [slots, setSlots] = useState<SlotDraft[]>(NEW_SLOTS);
+
+  const updateSlot = (index: number, change: Partial<SlotDraft>) =>
+    setSlots((prev) => prev.map((slot, i) => (i === index ? { ...slot, ...change } : slot)));
+
+  const resetForm = () => {
+    setName('');
+    setOccasion('');
+    setSlots(NEW_SLOTS);
+  };
+
+  const handleCreate = async () => {
+    const slotInputs: LookTemplateSlotInput[] = slots.map((slot) => ({
+      category: slot.category,
+      ...(slot.subcategory.trim() && { subcategory: slot.subcategory.trim() }),
+      ...(slot.label.trim() && { label: slot.label.trim() }),
+    }));
+    try {
+      await createTemplate.mutateAsync({
+        name: name.trim(),
+        occasion: occasion.trim() || undefined,
+        slots: slotInputs,
+      });
+      showSuccess('Template saved');
+      resetForm();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
+  const handleDelete = async (template: LookTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Looks made from it are kept.`)) return;
+    const success = await deleteTemplate.mutateAsync(template.id);
+    if (success) {
+      showSuccess('Template deleted');
+    } else {
+      showError('Failed to delete template');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(o) => {
+        if (!o) resetForm();
+        onOpenChange(o);
+      }}
+    >
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Look templates</DialogTitle>
+          <DialogDescription>
+            Reusable outfit formulas. Pick one when creating a look and it is filled from that client's closet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No templates yet. Build one below, or use "Save as Template" on any look.
+          </p>
+        ) : (
+          <ul className="list-none p-0 m-0 divide-y rounded-lg border">
+            {templates.map((template) => (
+              <li key={template.id} className="flex items-start justify-between gap-2 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {template.name}
+                    {template.occasion && (
+                      <span className="font-normal text-muted-foreground"> · {template.occasion}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground break-words">{describeSlots(template)}</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 flex-shrink-0 text-red-600 hover:text-red-600"
+                  aria-label={`Delete ${template.name}`}
+                  disabled={deleteTemplate.isPending}
+                  onClick={() => handleDelete(template)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <p className="text-sm font-medium">New template</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name *</Label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Weekend Casual"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-occasion">Occasion</Label>
+              <Input
+                id="template-occasion"
+                value={occasion}
+                onChange={(e) => setOccasion(e.target.value)}
+                placeholder="e.g., Brunch"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pieces</Label>
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={slot.category} onValueChange={(value) => updateSlot(index, { category: value as ItemCategory })}>
+                  <SelectTrigger className="w-32 flex-shrink-0" aria-label={`Piece ${index + 1} category`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={slot.subcategory}
+                  onChange={(e) => updateSlot(index, { subcategory: e.target.value })}
+                  placeholder="Subcategory (optional)"
+                  aria-label={`Piece ${index + 1} subcategory`}
+                  className="min-w-0"
+                />
+                <Input
+                  value={slot.label}
+                  onChange={(e) => updateSlot(index, { label: e.target.value })}
+                  placeholder="Label (optional)"
+                  aria-label={`Piece ${index + 1} label`}
+                  className="min-w-0"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 flex-shrink-0"
+                  aria-label={`Remove piece ${index + 1}`}
+                  disabled={slots.length === 1}
+                  onClick={() => setSlots((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setSlots((prev) => [...prev, { category: 'accessories', subcategory: '', label: '' }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Piece
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button type="button" onClick={handleCreate} disabled={!name.trim() || createTemplate.isPending}>
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LookTemplatesDialog;
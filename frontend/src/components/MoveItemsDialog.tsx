@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useMoveClosetItems } from '@/hooks/useQueries';
+import { showSuccess, showError } from '@/utils/toast';
+import { Closet, ClosetItem } from '@/types';
+
+interface MoveItemsDialogProps {
+  /** Items to move; the dialog is open while there are any */
+  items: ClosetItem[];
+  onOpenChange: (open: boolean) => void;
+  /** The client's other closets the items can move to */
+  closets: Closet[];
+  ownerId: string;
+  onMoved?: () => void;
+}
+
+const MoveItemsDialog = ({ items, onOpenChange, closets, ownerId, onMoved }: MoveItemsDialogProps) => {
+  const [toClosetId, setToClosetId] = useState('');
+  const moveMutation = useMoveClosetItems();
+  const open = items.length > 0;
+
+  useEffect(() => {
+    if (open) setToClosetId(closets.length === 1 ? closets[0].id : '');
+  }, [open, closets]);
+
+  const handleMove = async () => {
+    const target = closets.find((c) => c.id === toClosetId);
+    if (!target) return;
+    try {
+      const result = await moveMutation.mutateAsync({
+        itemIds: items.map((item) => item.id),
+        toClosetId: target.id,
+        ownerId,
+      });
+      showSuccess(`Moved ${result.count} item${result.count !== 1 ? 's' : ''} to ${target.name}`);
+      onMoved?.();
+      onOpenChange(false);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to move items');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[90vw] max-w-[90vw] sm:w-full sm:max-w-[420px] box-border overflow-x-hidden">
+        <DialogHeader className="pr-8">
+          <DialogTitle>Move to Closet</DialogTitle>
+          <DialogDescription className="break-words">
+            {items.length === 1
+              ? `Move ${items[0].name} to another closet.`
+              : `Move ${items.length} items to another closet.`}{' '}
+            Looks that use them are not affected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {closets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This client has no other closet yet. Add one from the closet list.</p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="move-items-target">Closet</Label>
+            <Select value={toClosetId} onValueChange={setToClosetId}>
+              <SelectTrigger id="move-items-target">
+                <SelectValue placeholder="Choose a closet" />
+              </SelectTrigger>
+              <SelectContent>
+                {closets.map((closet) => (
+                  <SelectItem key={closet.id} value={closet.id}>
+                    {closet.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={moveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleMove} disabled={!toClosetId || moveMutation.isPending}>
+            {moveMutation.isPending ? 'Moving...' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoveItemsDialog;
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Sparkles } from 'lucide-react';
+import { suggestLooks } from '@/utils/lookStorage';
+import { SEASONS } from '@/utils/itemTags';
+import { showError } from '@/utils/toast';
+import { toFullSizeImageUrl } from '@/utils/fileUpload';
+import { ClosetItem, OutfitSuggestion, Season } from '@/types';
+
+interface OutfitSuggestionsProps {
+  clientId: string;
+  occasion?: string;
+  eventDate?: string;
+  /** Pieces every suggested outfit has to include */
+  anchorItems: ClosetItem[];
+  onUse: (suggestion: OutfitSuggestion) => void;
+}
+
+/** Ranked outfits from the client's closet to start a look from */
+const OutfitSuggestions = ({ clientId, occasion, eventDate, anchorItems, onUse }: OutfitSuggestionsProps) => {
+  const [season, setSeason] = useState<Season | 'any'>('any');
+  const [suggestions, setSuggestions] = useState<OutfitSuggestion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSuggest = async () => {
+    setLoading(true);
+    try {
+      setSuggestions(
+        await suggestLooks({
+          clientId,
+          occasion: occasion || undefined,
+          season: season === 'any' ? undefined : season,
+          eventDate: eventDate || undefined,
+          anchorItemIds: anchorItems.map((item) => item.id),
+        })
+      );
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to suggest outfits');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 min-w-0">
+      <Label htmlFor="suggestSeason">Suggest outfits</Label>
+      <div className="flex gap-2">
+        <Select value={season} onValueChange={(value) => setSeason(value as Season | 'any')}>
+          <SelectTrigger id="suggestSeason" className="create-look-input flex-1 min-w-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any season</SelectItem>
+            {SEASONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={handleSuggest} disabled={loading}>
+          <Sparkles className="mr-2 h-4 w-4" />
+          {loading ? 'Suggesting...' : 'Suggest'}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {anchorItems.length > 0
+          ? `Built around ${anchorItems.map((item) => item.name || 'an unnamed item').join(', ')}, for the occasion and date above.`
+          : 'Outfits from the client\'s closet for the occasion and date above.'}
+      </p>
+
+      {suggestions?.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No complete outfits in this closet. Try another season or fewer selected pieces.
+        </p>
+      )}
+      {suggestions && suggestions.length > 0 && (
+        <ul className="list-none p-0 m-0 space-y-2">
+          {suggestions.map((suggestion) => (
+            <li key={suggestion.items.map((i) => i.itemId).join()} className="flex items-center gap-2 rounded-lg border p-2">
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex gap-1 overflow-x-auto">
+                  {suggestion.items.map(({ itemId, closetItem }) => (
+                    <img
+                      key={itemId}
+                      src={toFullSizeImageUrl(closetItem.photoUrl)}
+                      alt={closetItem.name}
+                      title={closetItem.name}
+                      className="w-12 h-12 flex-shrink-0 rounded object-cover bg-muted"
+                    />
+                  ))}
+                </div>
+                {suggestion.reasons.length > 0 && (
+                  <p className="text-xs text-muted-foreground break-words">{suggestion.reasons.join(' · ')}</p>
+                )}
+              </div>
+              <Button type="button" size="sm" onClick={() => onUse(suggestion)}>
+                Use
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OutfitSuggestions;
@@ -94,6 +94,7 @@ export default function RequestLookDialog({
                   <div onClick={(e) => e.stopPropagation()} className="w-full h-full">
                     <ItemImageWithPreview
                       photoUrl={item.photoUrl}
+                      displayUrl={item.thumbnailUrl}
                       alt={item.name}
                       caption={item.name}
                       className="w-full h-full object-contain bg-muted"
@@ -2,13 +2,16 @@
  * React Query hooks for data fetching with caching and automatic updates
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { getStylistClients, getMyClient, addClient, updateClient, deleteClient } from '@/utils/clientStorage';
-import { getOrCreateCloset, getClosetsByOwner, createCloset, getClosetItems, addClosetItem, updateClosetItem, deleteClosetItem } from '@/utils/closetStorage';
-import { getStylistLooks, createLook, updateLook, deleteLook } from '@/utils/lookStorage';
+import { getOrCreateCloset, getClosetsByOwner, createCloset, renameCloset, deleteCloset, moveClosetItems, getClosetItems, addClosetItem, updateClosetItem, deleteClosetItem, getBackgroundRemoval, getClosetDuplicates, mergeClosetItems, getClosetWearStats, logItemWear, getClosetAnalytics, searchClosetItems, getItemStatusHistory, changeItemStatus, getProceedsReport } from '@/utils/closetStorage';
+import { getStylistLooks, createLook, updateLook, deleteLook, logLookWear, getLookRevisions, diffLookRevisions, restoreLookRevision, getLookStatus, changeLookStatus, getLookFeedback } from '@/utils/lookStorage';
 import { getChatRooms, getChatRoomMessages, sendMessage, markChatRoomAsRead } from '@/utils/messageStorage';
+import { getTrash, restoreFromTrash, purgeTrashEntry } from '@/utils/trashStorage';
+import { getLookTemplates, createLookTemplate, deleteLookTemplate, LookTemplateInput } from '@/utils/lookTemplateStorage';
+import { getChangeHistory } from '@/utils/historyStorage';
 import { getCurrentUser } from '@/utils/auth';
-import { Client, ClosetItem, Look } from '@/types';
+import { ChangeLogEntityType, Client, ClosetItem, ClosetSearchParams, ItemStatusChange, Look, LookItemFeedbackInput, LookStatus } from '@/types';
 import { api } from '@/utils/api';
 
 // Query Keys - centralized for consistency
@@ -20,18 +23,34 @@ export const queryKeys = {
   closet: (userId: string, clientId: string) => ['closets', userId, clientId] as const,
   closetsByOwner: (ownerId: string) => ['closetsByOwner', ownerId] as const,
   closetItems: (closetId: string) => ['closetItems', closetId] as const,
+  // Nested under closetItems so item mutations refresh searches too
+  closetSearch: (closetId: string, params: ClosetSearchParams) => ['closetItems', closetId, 'search', params] as const,
+  backgroundRemoval: (itemId: string) => ['backgroundRemoval', itemId] as const,
+  closetDuplicates: (closetId: string) => ['closetDuplicates', closetId] as const,
+  closetWearStats: (closetId: string) => ['closetWearStats', closetId] as const,
+  closetAnalytics: (closetId: string) => ['closetAnalytics', closetId] as const,
   closetBatch: (userId: string, clientIds: string[]) => ['closetBatch', userId, ...clientIds] as const,
   allClosetItems: ['allClosetItems'] as const,
+  itemStatus: (itemId: string) => ['itemStatus', itemId] as const,
+  proceeds: (clientId?: string) => ['proceeds', clientId ?? 'all'] as const,
+  changeHistory: (entityType: ChangeLogEntityType, id: string) => ['changeHistory', entityType, id] as const,
   
   looks: ['looks'] as const,
   looksWithItems: ['looksWithItems'] as const,
   look: (id: string) => ['looks', id] as const,
   lookItems: (lookId: string) => ['lookItems', lookId] as const,
+  lookRevisions: (lookId: string) => ['lookRevisions', lookId] as const,
+  lookRevisionDiff: (lookId: string, from: number, to: number) => ['lookRevisions', lookId, 'diff', from, to] as const,
+  lookStatus: (lookId: string) => ['lookStatus', lookId] as const,
+  lookFeedback: (lookId: string) => ['lookFeedback', lookId] as const,
   
   chatRooms: ['chatRooms'] as const,
   chatRoomMessages: (chatRoomId: string) => ['messages', chatRoomId] as const,
 
   lookRequests: ['lookRequests'] as const,
+  lookTemplates: ['lookTemplates'] as const,
+
+  trash: ['trash'] as const,
 };
 
 // ==================== BOOTSTRAP ====================
@@ -73,6 +92,7 @@ export function useBootstrap() {
           eventDate: l.eventDate,
           stylingNotes: l.stylingNotes,
           compositeImageUrl: l.compositeImageUrl,
+          compositeMissingItemIds: l.compositeMissingItemIds,
           createdAt: l.createdAt,
           updatedAt: l.updatedAt,
         }));
@@ -145,6 +165,7 @@ export function useDeleteClient() {
     mutationFn: (id: string) => deleteClient(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.clients });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
     },
   });
 }
@@ -177,6 +198,16 @@ export function useClosetItems(closetId: string, enabled = true) {
   });
 }
 
+// Faceted search over one closet; keeps the previous results on screen while filters change
+export function useClosetSearch(closetId: string, params: ClosetSearchParams, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.closetSearch(closetId, params),
+    queryFn: () => searchClosetItems(closetId, params),
+    enabled: enabled && !!closetId,
+    placeholderData: keepPreviousData,
+  });
+}
+
 // Batch fetch closets with item counts - eliminates N+1 queries
 export function useClosetsBatch(clientIds: string[]) {
   const userId = getCurrentUser()?.id ?? '';
@@ -216,6 +247,54 @@ export function useCreateCloset() {
   });
 }
 
+export function useRenameCloset() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ closetId, name }: { closetId: string; name: string; ownerId: string }) => renameCloset(closetId, name),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.closetsByOwner(variables.ownerId) });
+      queryClient.invalidateQueries({ queryKey: ['closetBatch'] });
+      queryClient.invalidateQueries({ queryKey: ['closets'] });
+    },
+  });
+}
+
+export function useDeleteCloset() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ closetId, moveItemsTo }: { closetId: string; moveItemsTo?: string; ownerId: string }) =>
+      deleteCloset(closetId, moveItemsTo),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.closetsByOwner(variables.ownerId) });
+      queryClient.invalidateQueries({ queryKey: ['closetBatch'] });
+      queryClient.invalidateQueries({ queryKey: ['closets'] });
+      queryClient.invalidateQueries({ queryKey: ['closetItems'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allClosetItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.looks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.looksWithItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+}
+
+export function useMoveClosetItems() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ itemIds, toClosetId }: { itemIds: string[]; toClosetId: string; ownerId: string }) =>
+      moveClosetItems(itemIds, toClosetId),
+    onSuccess: (_, variables) => {
+      // Both closets change, and their counts, stats and duplicate groups with them
+      queryClient.invalidateQueries({ queryKey: queryKeys.closetsByOwner(variables.ownerId) });
+      queryClient.invalidateQueries({ queryKey: ['closetBatch'] });
+      queryClient.invalidateQueries({ queryKey: ['closetItems'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allClosetItems });
+      queryClient.invalidateQueries({ queryKey: ['closetWearStats'] });
+      queryClient.invalidateQueries({ queryKey: ['closetDuplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['closetAnalytics'] });
+    },
+  });
+}
+
 export function useAddClosetItem() {
   const queryClient = useQueryClient();
   
@@ -254,10 +333,215 @@ export function useDeleteClosetItem() {
       queryClient.invalidateQueries({ queryKey: ['closetItems'] });
       queryClient.invalidateQueries({ queryKey: ['closetBatch'] });
       queryClient.invalidateQueries({ queryKey: queryKeys.allClosetItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+}
+
+/** Background removal job for one item. Polls while the job is queued or running. */
+export function useBackgroundRemoval(itemId: string, enabled = true) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.backgroundRemoval(itemId),
+    queryFn: async () => {
+      const result = await getBackgroundRemoval(itemId);
+      if (result?.job?.status === 'done') {
+        // The item now has a cutoutUrl
+        queryClient.invalidateQueries({ queryKey: ['closetItems'] });
+        queryClient.invalidateQueries({ queryKey: queryKeys.allClosetItems });
+      }
+      return result;
+    },
+    enabled: enabled && !!itemId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.job?.status;
+      return status === 'queued' || status === 'processing' ? 3000 : false;
+    },
+  });
+}
+
+export function useClosetDuplicates(closetId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.closetDuplicates(closetId),
+    queryFn: () => getClosetDuplicates(closetId),
+    enabled: enabled && !!closetId,
+    staleTime: 0,
+  });
+}
+
+export function useMergeClosetItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ keepItemId, itemIds }: { keepItemId: string; itemIds: string[] }) =>
+      mergeClosetItems(keepItemId, itemIds),
+    onSuccess: () => {
+      // Merged items move to the trash and their looks now show the kept item
+      queryClient.invalidateQueries({ queryKey: ['closetItems'] });
+      queryClient.invalidateQueries({ queryKey: ['closetDuplicates'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allClosetItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.looks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.looksWithItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lookRequests });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+      queryClient.invalidateQueries({ queryKey: ['closetWearStats'] });
+    },
+  });
+}
+
+export function useClosetWearStats(closetId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.closetWearStats(closetId || ''),
+    queryFn: () => getClosetWearStats(closetId!),
+    enabled: !!closetId,
+  });
+}
+
+export function useClosetAnalytics(closetId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.closetAnalytics(closetId || ''),
+    queryFn: () => getClosetAnalytics(closetId!),
+    enabled: enabled && !!closetId,
+    staleTime: 0,
+  });
+}
+
+export function useLogItemWear() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ itemId, wornOn }: { itemId: string; wornOn?: string }) => logItemWear(itemId, { wornOn }),
+    onSuccess: () => {
+      // Items carry wearCount / lastWorn
+      queryClient.invalidateQueries({ queryKey: ['closetItems'] });
+      queryClient.invalidateQueries({ queryKey: ['closetWearStats'] });
+    },
+  });
+}
+
+export function useLogLookWear() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ lookId, wornOn }: { lookId: string; wornOn?: string }) => logLookWear(lookId, { wornOn }),
+    onSuccess: (_wears, { lookId }) => {
+      queryClient.invalidateQueries({ queryKey: ['closetItems'] });
+      queryClient.invalidateQueries({ queryKey: ['closetWearStats'] });
+      // The first wear moves an approved look to worn
+      queryClient.invalidateQueries({ queryKey: queryKeys.looks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.looksWithItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lookStatus(lookId) });
+    },
+  });
+}
+
+export function useLookStatus(lookId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.lookStatus(lookId || ''),
+    queryFn: () => getLookStatus(lookId!),
+    enabled: !!lookId,
+    staleTime: 0,
+  });
+}
+
+export function useChangeLookStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      lookId,
+      status,
+      reason,
+      itemFeedback,
+    }: {
+      lookId: string;
+      status: LookStatus;
+      reason?: string;
+      itemFeedback?: LookItemFeedbackInput[];
+    }) => changeLookStatus(lookId, status, { reason, itemFeedback }),
+    onSuccess: (_look, { lookId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.looks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.looksWithItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lookStatus(lookId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lookRevisions(lookId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lookFeedback(lookId) });
+    },
+  });
+}
+
+export function useLookFeedback(lookId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.lookFeedback(lookId || ''),
+    queryFn: () => getLookFeedback(lookId!),
+    enabled: !!lookId,
+    staleTime: 0,
+  });
+}
+
+export function useLookRevisions(lookId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.lookRevisions(lookId || ''),
+    queryFn: () => getLookRevisions(lookId!),
+    enabled: !!lookId,
+    // A send for approval or a client answer may have happened since
+    staleTime: 0,
+  });
+}
+
+export function useLookRevisionDiff(lookId: string, from: number | null, to: number | null) {
+  return useQuery({
+    queryKey: queryKeys.lookRevisionDiff(lookId, from ?? 0, to ?? 0),
+    queryFn: () => diffLookRevisions(lookId, from!, to!),
+    // Revisions never change, so neither does their diff
+    enabled: from != null && to != null && from !== to,
+    staleTime: Infinity,
+  });
+}
+
+export function useRestoreLookRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ lookId, revision }: { lookId: string; revision: number }) => restoreLookRevision(lookId, revision),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.looks });
+      queryClient.invalidateQueries({ queryKey: queryKeys.looksWithItems });
+    },
+  });
+}
+
+export function useItemStatusHistory(itemId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.itemStatus(itemId || ''),
+    queryFn: () => getItemStatusHistory(itemId!),
+    enabled: !!itemId,
+  });
+}
+
+export function useChangeItemStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ itemId, change }: { itemId: string; change: ItemStatusChange }) => changeItemStatus(itemId, change),
+    onSuccess: (_, variables) => {
+      // Items carry status and archived; donating or selling changes the closet's mix
+      queryClient.invalidateQueries({ queryKey: ['closetItems'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allClosetItems });
+      queryClient.invalidateQueries({ queryKey: queryKeys.itemStatus(variables.itemId) });
+      queryClient.invalidateQueries({ queryKey: ['closetAnalytics'] });
+      queryClient.invalidateQueries({ queryKey: ['proceeds'] });
     },
   });
 }
 
+export function useProceedsReport(clientId?: string) {
+  return useQuery({
+    queryKey: queryKeys.proceeds(clientId),
+    queryFn: () => getProceedsReport(clientId),
+  });
+}
+
 // ==================== LOOKS ====================
 
 export function useLooks() {
@@ -326,6 +610,7 @@ export function useDeleteLook() {
       queryClient.invalidateQueries({ queryKey: queryKeys.looks });
       queryClient.invalidateQueries({ queryKey: queryKeys.looksWithItems });
       queryClient.invalidateQueries({ queryKey: queryKeys.chatRooms });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
     },
   });
 }
@@ -395,6 +680,84 @@ export function useLookRequests() {
   });
 }
 
+// ==================== LOOK TEMPLATES ====================
+
+export function useLookTemplates(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.lookTemplates,
+    queryFn: getLookTemplates,
+    enabled,
+  });
+}
+
+export function useCreateLookTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LookTemplateInput) => createLookTemplate(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.lookTemplates });
+    },
+  });
+}
+
+export function useDeleteLookTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteLookTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.lookTemplates });
+    },
+  });
+}
+
+// ==================== TRASH ====================
+
+export function useTrash() {
+  const userId = getCurrentUser()?.id ?? '';
+  return useQuery({
+    queryKey: queryKeys.trash,
+    queryFn: () => getTrash(),
+    enabled: !!userId,
+  });
+}
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => restoreFromTrash(id),
+    onSuccess: () => {
+      // A restored client brings back closets, looks, chats etc. - refetch everything
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+export function usePurgeTrashEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => purgeTrashEntry(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash });
+    },
+  });
+}
+
+// ==================== CHANGE HISTORY ====================
+
+export function useChangeHistory(entityType: ChangeLogEntityType, id: string | null, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.changeHistory(entityType, id || ''),
+    queryFn: () => getChangeHistory(entityType, id!),
+    enabled: enabled && !!id,
+    // Others may have edited the record since; fetch fresh whenever the history is shown
+    staleTime: 0,
+  });
+}
+
 // ==================== UTILITIES ====================
 
 // Hook to manually refresh specific data
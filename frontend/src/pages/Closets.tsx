@@ -6,6 +6,14 @@ import BulkUploadDialog from '@/components/BulkUploadDialog';
 import RequestLookDialog from '@/components/RequestLookDialog';
 import ClosetItemCard from '@/components/ClosetItemCard';
 import CreateLookDialog from '@/components/CreateLookDialog';
+import DuplicateItemsDialog from '@/components/DuplicateItemsDialog';
+import ClosetAnalytics from '@/components/ClosetAnalytics';
+import ClosetSearchFilters from '@/components/ClosetSearchFilters';
+import ItemTagsDialog from '@/components/ItemTagsDialog';
+import MoveItemsDialog from '@/components/MoveItemsDialog';
+import ClosetSettingsDialog from '@/components/ClosetSettingsDialog';
+import ItemStatusDialog from '@/components/ItemStatusDialog';
+import ItemDetailDialog from '@/components/ItemDetailDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
@@ -18,13 +26,14 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { Search, Plus, Upload, Shirt, Sparkles, ChevronRight, ChevronLeft } from 'lucide-react';
-import { updateClosetItem, deleteClosetItem } from '@/utils/closetStorage';
+import { Search, Plus, Upload, Shirt, Sparkles, ChevronRight, ChevronLeft, Copy, Settings, ListChecks, FolderInput } from 'lucide-react';
+import { updateClosetItem, deleteClosetItem, rerunBackgroundRemoval, restoreOriginalPhoto, setClosetItemArchived } from '@/utils/closetStorage';
 import { getCurrentUser } from '@/utils/auth';
 import { showSuccess, showError } from '@/utils/toast';
-import { Client, ClosetItem, ItemCategory, Closet } from '@/types';
-import { useClients, useClosetsBatch, useClosetItems, useClosetsByOwner, useCreateCloset, useMyClient, useRefresh } from '@/hooks/useQueries';
+import { Client, ClosetItem, ClosetSearchParams, ItemCategory, ItemTags, Closet } from '@/types';
+import { useClients, useClosetsBatch, useClosetItems, useClosetsByOwner, useCreateCloset, useMyClient, useRefresh, useClosetWearStats, useLogItemWear, useClosetSearch } from '@/hooks/useQueries';
 import { useDebounce } from '@/hooks/useDebounce';
+import { format } from 'date-fns';
 
 // Component for displaying client closet card with item count from batch data
 const ClientClosetCard = ({ client, itemCount, getInitials, onClosetClick }: { 
@@ -72,6 +81,7 @@ const CATEGORIES: { value: ItemCategory | 'all'; label: string }[] = [
 ];
 
 const CATEGORIES_LIST = CATEGORIES.filter((c): c is { value: ItemCategory; label: string } => c.value !== 'all');
+const CATEGORY_LABELS = Object.fromEntries(CATEGORIES_LIST.map((c) => [c.value, c.label])) as Record<ItemCategory, string>;
 
 const Closets = () => {
   const [searchParams] = useSearchParams();
@@ -82,15 +92,25 @@ const Closets = () => {
   const debouncedSearch = useDebounce(searchQuery, 300);
   const [clientSearchQuery, setClientSearchQuery] = useState('');
   const debouncedClientSearch = useDebounce(clientSearchQuery, 300);
-  const [mainTab, setMainTab] = useState<'items' | 'categories'>('items');
+  const [mainTab, setMainTab] = useState<'items' | 'categories' | 'analytics'>('items');
   const [selectedCategoryForView, setSelectedCategoryForView] = useState<ItemCategory | null>(null);
   const [addItemDialogOpen, setAddItemDialogOpen] = useState(false);
   const [bulkUploadDialogOpen, setBulkUploadDialogOpen] = useState(false);
+  const [duplicatesDialogOpen, setDuplicatesDialogOpen] = useState(false);
   const [createLookDialogOpen, setCreateLookDialogOpen] = useState(false);
   const [requestLookDialogOpen, setRequestLookDialogOpen] = useState(false);
   const [addClosetDialogOpen, setAddClosetDialogOpen] = useState(false);
   const [newClosetName, setNewClosetName] = useState('');
   const [selectedItem, setSelectedItem] = useState<ClosetItem | null>(null);
+  const [tagItem, setTagItem] = useState<ClosetItem | null>(null);
+  const [statusItem, setStatusItem] = useState<ClosetItem | null>(null);
+  const [closetSettingsOpen, setClosetSettingsOpen] = useState(false);
+  // Items tab selection for moving several items at once
+  const [selectingItems, setSelectingItems] = useState(false);
+  const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set());
+  const [itemsToMove, setItemsToMove] = useState<ClosetItem[]>([]);
+  // Facet filters, match mode and sort for the Items tab (the text query comes from searchQuery)
+  const [itemFilters, setItemFilters] = useState<ClosetSearchParams>({ match: 'all' });
 
   // URL state: clientId and closetId (stylist uses both; client uses closetId with client from myClient)
   const clientIdFromUrl = searchParams.get('clientId');
@@ -120,32 +140,48 @@ const Closets = () => {
   );
   const currentCloset = selectedClosetId ? closetsForClient.find((c: Closet) => c.id === selectedClosetId) : null;
   const currentClosetId = selectedClosetId;
+  const otherClosets = useMemo(
+    () => closetsForClient.filter((c: Closet) => c.id !== currentClosetId),
+    [closetsForClient, currentClosetId]
+  );
 
   const createClosetMutation = useCreateCloset();
-  const { refreshClosetsByOwner } = useRefresh();
+  const { refreshClosetsByOwner, refreshClosetItems } = useRefresh();
 
   // Closet items only when a specific closet is selected
-  const { data: rawClosetItems = [], refetch: refetchClosetItems } = useClosetItems(
+  const { data: rawClosetItems = [] } = useClosetItems(
     currentClosetId,
     !!currentClosetId
   );
+  // Refreshes the item list and every search over it
+  const refetchClosetItems = () => refreshClosetItems(currentClosetId);
+
+  const { data: wearStats = [] } = useClosetWearStats(currentClosetId);
+  const wearStatsByItem = useMemo(() => new Map(wearStats.map((s) => [s.itemId, s])), [wearStats]);
+  const logWearMutation = useLogItemWear();
+
+  // Items tab = search with the chosen filters; Categories detail = search within one category
+  const itemSearch = useMemo<ClosetSearchParams>(
+    () =>
+      mainTab === 'categories' && selectedCategoryForView
+        ? { q: debouncedSearch, filters: { category: [selectedCategoryForView] } }
+        : { ...itemFilters, q: debouncedSearch },
+    [mainTab, selectedCategoryForView, itemFilters, debouncedSearch]
+  );
+  const { data: searchResult } = useClosetSearch(
+    currentClosetId,
+    itemSearch,
+    !!currentClosetId && (mainTab === 'items' || !!selectedCategoryForView)
+  );
+  const closetItems = searchResult?.items ?? [];
+  const hasItemFilters = Object.values(itemFilters.filters ?? {}).some((values) => values.length > 0);
 
-  // Filter items for display: Items tab = all (search only); Categories detail = one category + search
-  const closetItems = useMemo(() => {
-    let items = rawClosetItems;
-    if (mainTab === 'categories' && selectedCategoryForView) {
-      items = items.filter((item: ClosetItem) => item.category === selectedCategoryForView);
-    }
-    if (debouncedSearch) {
-      const search = debouncedSearch.toLowerCase();
-      items = items.filter((item: ClosetItem) =>
-        item.name.toLowerCase().includes(search) ||
-        item.brand?.toLowerCase().includes(search) ||
-        item.colorTags.some(color => color.toLowerCase().includes(search))
-      );
-    }
-    return items;
-  }, [rawClosetItems, debouncedSearch, mainTab, selectedCategoryForView]);
+  // Filters and selections name values of one closet; start over when switching closets
+  useEffect(() => {
+    setItemFilters({ match: 'all' });
+    setSelectingItems(false);
+    setSelectedItemIds(new Set());
+  }, [currentClosetId]);
 
   // Item count per category (for Categories list)
   const categoryCounts = useMemo(() => {
@@ -177,12 +213,76 @@ const Closets = () => {
   };
 
   const handleArchiveItem = async (item: ClosetItem) => {
-    const updated = await updateClosetItem(item.id, { archived: !item.archived });
-    if (updated) {
+    try {
+      await setClosetItemArchived(item.id, !item.archived);
       showSuccess(item.archived ? 'Item unarchived' : 'Item archived');
       refetchClosetItems(); // React Query refetch
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to update item');
+    }
+  };
+
+  const handleRemoveBackground = async (item: ClosetItem): Promise<boolean> => {
+    try {
+      await rerunBackgroundRemoval(item.id);
+      showSuccess('Removing background. The cutout is used in looks once it is ready.');
+      return true;
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to queue background removal');
+      return false;
+    }
+  };
+
+  const handleRestoreOriginal = async (item: ClosetItem) => {
+    const updated = await restoreOriginalPhoto(item.id);
+    if (updated) {
+      showSuccess('Original photo restored');
+      refetchClosetItems(); // React Query refetch
     } else {
-      showError('Failed to update item');
+      showError('Failed to restore original photo');
+    }
+  };
+
+  const handleUpdateColorTags = async (item: ClosetItem, colorTags: string[]) => {
+    const updated = await updateClosetItem(item.id, { colorTags });
+    if (updated) {
+      refetchClosetItems(); // React Query refetch
+    } else {
+      showError('Failed to update colors');
+    }
+  };
+
+  const handleSaveTags = async (item: ClosetItem, tags: ItemTags): Promise<boolean> => {
+    const updated = await updateClosetItem(item.id, { tags });
+    if (updated) {
+      showSuccess('Tags saved');
+      refetchClosetItems();
+      return true;
+    }
+    showError('Failed to save tags');
+    return false;
+  };
+
+  const toggleItemSelected = (item: ClosetItem) => {
+    setSelectedItemIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(item.id)) next.delete(item.id);
+      else next.add(item.id);
+      return next;
+    });
+  };
+
+  const stopSelectingItems = () => {
+    setSelectingItems(false);
+    setSelectedItemIds(new Set());
+  };
+
+  const handleLogWear = async (item: ClosetItem) => {
+    try {
+      await logWearMutation.mutateAsync({ itemId: item.id, wornOn: format(new Date(), 'yyyy-MM-dd') });
+      showSuccess(`Logged a wear of ${item.name}`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to log wear');
     }
   };
 
@@ -477,9 +577,38 @@ const Closets = () => {
           </div>
           <div className="flex flex-col gap-3">
             <div className="flex flex-row items-center justify-between gap-3 min-w-0">
-              <h1 className="text-2xl sm:text-3xl font-bold break-words min-w-0 flex-1">
-                {currentCloset?.name ?? (isStylist ? (selectedClient?.name ?? '') + "'s Closet" : 'Your Closet')}
-              </h1>
+              {closetsForClient.length > 1 ? (
+                <Select value={currentClosetId} onValueChange={handleSelectCloset}>
+                  <SelectTrigger
+                    aria-label="Switch closet"
+                    className="h-auto min-w-0 flex-1 sm:flex-none sm:max-w-sm border-none px-0 shadow-none text-2xl sm:text-3xl font-bold focus:ring-0"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {closetsForClient.map((closet: Closet & { itemCount?: number }) => (
+                      <SelectItem key={closet.id} value={closet.id}>
+                        {closet.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <h1 className="text-2xl sm:text-3xl font-bold break-words min-w-0 flex-1">
+                  {currentCloset?.name ?? (isStylist ? (selectedClient?.name ?? '') + "'s Closet" : 'Your Closet')}
+                </h1>
+              )}
+              {currentCloset && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setClosetSettingsOpen(true)}
+                  aria-label="Closet settings"
+                  className="shrink-0 sm:mr-auto"
+                >
+                  <Settings className="h-5 w-5" />
+                </Button>
+              )}
               {isStylist ? (
                 <Button variant="outline" onClick={() => setCreateLookDialogOpen(true)} className="shrink-0 ml-2">
                   <Sparkles className="mr-2 h-4 w-4" />
@@ -498,6 +627,19 @@ const Closets = () => {
                 <span className="hidden sm:inline">Bulk Upload</span>
                 <span className="sm:hidden">Bulk</span>
               </Button>
+              <Button variant="outline" onClick={() => setDuplicatesDialogOpen(true)} className="flex-1 sm:flex-none">
+                <Copy className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Find Duplicates</span>
+                <span className="sm:hidden">Duplicates</span>
+              </Button>
+              <Button
+                variant={selectingItems ? 'secondary' : 'outline'}
+                onClick={() => (selectingItems ? stopSelectingItems() : setSelectingItems(true))}
+                className="flex-1 sm:flex-none"
+              >
+                <ListChecks className="mr-2 h-4 w-4" />
+                {selectingItems ? 'Done' : 'Select'}
+              </Button>
               <Button onClick={() => setAddItemDialogOpen(true)} className="flex-1 sm:flex-none">
                 <Plus className="mr-2 h-4 w-4" />
                 Add Item
@@ -506,34 +648,64 @@ const Closets = () => {
           </div>
         </div>
 
-        <Tabs value={mainTab} onValueChange={(v) => { setMainTab(v as 'items' | 'categories'); setSelectedCategoryForView(null); }} className="w-full">
-          <TabsList className="w-full grid grid-cols-2 mb-4">
+        <Tabs value={mainTab} onValueChange={(v) => { setMainTab(v as 'items' | 'categories' | 'analytics'); setSelectedCategoryForView(null); }} className="w-full">
+          <TabsList className="w-full grid grid-cols-3 mb-4">
             <TabsTrigger value="items" className="min-w-0">Items</TabsTrigger>
             <TabsTrigger value="categories" className="min-w-0">Categories</TabsTrigger>
+            <TabsTrigger value="analytics" className="min-w-0">Analytics</TabsTrigger>
           </TabsList>
 
           <TabsContent value="items" className="mt-0 space-y-4">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by name, brand, or color..."
+                placeholder="Search by name, brand, color, or tag..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
               />
             </div>
+            <ClosetSearchFilters
+              params={itemFilters}
+              onChange={setItemFilters}
+              facets={searchResult?.facets}
+              categoryLabels={CATEGORY_LABELS}
+            />
+            {selectingItems && (
+              <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+                <span className="text-sm flex-1 min-w-0">
+                  {selectedItemIds.size} item{selectedItemIds.size !== 1 ? 's' : ''} selected
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedItemIds(new Set(closetItems.map((item) => item.id)))}
+                  disabled={closetItems.length === 0}
+                >
+                  Select all
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => setItemsToMove(closetItems.filter((item) => selectedItemIds.has(item.id)))}
+                  disabled={selectedItemIds.size === 0}
+                >
+                  <FolderInput className="mr-2 h-4 w-4" />
+                  Move to closet
+                </Button>
+              </div>
+            )}
             {closetItems.length === 0 ? (
               <Card>
                 <CardContent className="flex flex-col items-center justify-center py-12 px-6">
                   <Shirt className="h-12 w-12 text-muted-foreground mb-4 shrink-0" />
                   <h3 className="text-lg font-semibold mb-2 text-center max-w-md mx-auto break-words">
-                    {debouncedSearch
+                    {debouncedSearch || hasItemFilters
                       ? 'No items found'
                       : (selectedClient?.name ?? '') + "'s closet is empty"}
                   </h3>
                   <p className="text-muted-foreground text-center max-w-md mx-auto">
-                    {debouncedSearch
-                      ? 'Try adjusting your search'
+                    {debouncedSearch || hasItemFilters
+                      ? 'Try adjusting your search or filters'
                       : 'Start by adding items to the closet'}
                   </p>
                 </CardContent>
@@ -548,6 +720,16 @@ const Closets = () => {
                     onDelete={handleDeleteItem}
                     onArchive={handleArchiveItem}
                     onClick={handleItemClick}
+                    onRemoveBackground={handleRemoveBackground}
+                    onRestoreOriginal={handleRestoreOriginal}
+                    onUpdateColorTags={handleUpdateColorTags}
+                    wearStats={wearStatsByItem.get(item.id)}
+                    onLogWear={handleLogWear}
+                    onEditTags={setTagItem}
+                    onChangeStatus={setStatusItem}
+                    onMove={(moved) => setItemsToMove([moved])}
+                    onToggleSelect={selectingItems ? toggleItemSelected : undefined}
+                    selected={selectedItemIds.has(item.id)}
                   />
                 ))}
               </div>
@@ -610,6 +792,14 @@ const Closets = () => {
                         onDelete={handleDeleteItem}
                         onArchive={handleArchiveItem}
                         onClick={handleItemClick}
+                        onRemoveBackground={handleRemoveBackground}
+                        onRestoreOriginal={handleRestoreOriginal}
+                        onUpdateColorTags={handleUpdateColorTags}
+                        wearStats={wearStatsByItem.get(item.id)}
+                        onLogWear={handleLogWear}
+                        onEditTags={setTagItem}
+                        onChangeStatus={setStatusItem}
+                        onMove={(moved) => setItemsToMove([moved])}
                       />
                     ))}
                   </div>
@@ -617,6 +807,12 @@ const Closets = () => {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="analytics" className="mt-0">
+            {currentClosetId && mainTab === 'analytics' && (
+              <ClosetAnalytics closetId={currentClosetId} categoryLabels={CATEGORY_LABELS} />
+            )}
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -634,6 +830,47 @@ const Closets = () => {
             onOpenChange={setBulkUploadDialogOpen}
             closetId={currentClosetId}
             onItemsAdded={() => refetchClosetItems()}
+            onDuplicatesFound={() => setDuplicatesDialogOpen(true)}
+          />
+
+          <ItemTagsDialog
+            item={tagItem}
+            onOpenChange={(open) => { if (!open) setTagItem(null); }}
+            onSave={handleSaveTags}
+          />
+
+          <ItemStatusDialog
+            item={statusItem}
+            onOpenChange={(open) => { if (!open) setStatusItem(null); }}
+          />
+
+          <ItemDetailDialog
+            item={selectedItem}
+            onOpenChange={(open) => { if (!open) setSelectedItem(null); }}
+            closets={closetsForClient}
+          />
+
+          <MoveItemsDialog
+            items={itemsToMove}
+            onOpenChange={(open) => { if (!open) setItemsToMove([]); }}
+            closets={otherClosets}
+            ownerId={selectedClientId}
+            onMoved={stopSelectingItems}
+          />
+
+          <ClosetSettingsDialog
+            open={closetSettingsOpen}
+            onOpenChange={setClosetSettingsOpen}
+            closet={currentCloset ?? null}
+            closets={closetsForClient}
+            onDeleted={handleBackToClosetList}
+          />
+
+          <DuplicateItemsDialog
+            open={duplicatesDialogOpen}
+            onOpenChange={setDuplicatesDialogOpen}
+            closetId={currentClosetId}
+            onMerged={() => refetchClosetItems()}
           />
 
           {isStylist && (
@@ -652,7 +889,7 @@ const Closets = () => {
               open={requestLookDialogOpen}
               onOpenChange={setRequestLookDialogOpen}
               closetId={currentClosetId}
-              closetItems={closetItems.filter((i: ClosetItem) => !i.archived)}
+              closetItems={rawClosetItems.filter((i: ClosetItem) => !i.archived)}
               clientId={selectedClientId}
               onRequestSent={() => {
                 setRequestLookDialogOpen(false);
@@ -94,7 +94,7 @@ const Dashboard = () => {
 
   const handleDeleteClient = async (client: Client, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (window.confirm(`Are you sure you want to remove ${client.name}?`)) {
+    if (window.confirm(`Remove ${client.name} from your clients? Other stylists working with them keep their data.`)) {
       const success = await deleteClient(client.id);
       if (success) {
         showSuccess(`${client.name} removed successfully`);
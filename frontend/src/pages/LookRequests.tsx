@@ -154,6 +154,7 @@ const LookRequests = () => {
                           >
                             <ItemImageWithPreview
                               photoUrl={item.photoUrl}
+                              displayUrl={item.thumbnailUrl}
                               alt={item.name}
                               caption={item.name}
                               className="w-full h-full object-contain"
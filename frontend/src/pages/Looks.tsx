@@ -3,6 +3,8 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import DashboardLayout from '@/components/DashboardLayout';
 import CreateLookDialog from '@/components/CreateLookDialog';
 import LookDetailDialog from '@/components/LookDetailDialog';
+import LookFeedbackDialog from '@/components/LookFeedbackDialog';
+import LookTemplatesDialog from '@/components/LookTemplatesDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -20,7 +22,7 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import { Plus, Sparkles, MoreVertical, Edit, Trash2, Send, Calendar, MessageSquare, Search, ChevronDown, ChevronRight, GripVertical, Check, CircleAlert, ChevronLeft } from 'lucide-react';
+import { Plus, Sparkles, MoreVertical, Edit, Trash2, Send, Calendar, MessageSquare, Search, ChevronDown, ChevronRight, GripVertical, Check, CircleAlert, ChevronLeft, CalendarCheck, Undo2, Archive, RotateCcw, LayoutTemplate } from 'lucide-react';
 import {
   DndContext,
   DragEndEvent,
@@ -38,12 +40,16 @@ import { getCurrentUser } from '@/utils/auth';
 import { showSuccess, showError } from '@/utils/toast';
 import { Look, LookStatus, Client, ClosetItem, LookRequest } from '@/types';
 import { format } from 'date-fns';
-import { useLooksWithItems, useClients, useLookRequests, useRefresh } from '@/hooks/useQueries';
+import { useLooksWithItems, useClients, useLookRequests, useRefresh, useLogLookWear, useChangeLookStatus, useCreateLookTemplate } from '@/hooks/useQueries';
 import { useDebounce } from '@/hooks/useDebounce';
 
 // Pagination constants
 const LOOKS_PER_PAGE = 3;
 
+// Statuses the stylist can still edit a look in (the server moves it back to draft)
+const isEditableLook = (look: Look) =>
+  look.status === 'draft' || look.status === 'changes_requested' || look.status === 'withdrawn';
+
 const Looks = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -52,6 +58,8 @@ const Looks = () => {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [selectedStatus, setSelectedStatus] = useState<LookStatus | 'all'>('all');
   const [selectedLook, setSelectedLook] = useState<Look | null>(null);
+  const [feedbackLook, setFeedbackLook] = useState<Look | null>(null);
+  const [templatesDialogOpen, setTemplatesDialogOpen] = useState(false);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -127,6 +135,9 @@ const Looks = () => {
   const { data: clients = [] } = useClients();
   const { data: lookRequests = [] } = useLookRequests() as { data: (LookRequest & { items?: ClosetItem[] })[] };
   const { refreshLooks } = useRefresh();
+  const logLookWearMutation = useLogLookWear();
+  const changeLookStatusMutation = useChangeLookStatus();
+  const createLookTemplateMutation = useCreateLookTemplate();
 
   // Extract looks from the combined data
   const looks = useMemo(() => {
@@ -315,6 +326,12 @@ const Looks = () => {
         return <Badge className="bg-green-500">Approved</Badge>;
       case 'changes_requested':
         return <Badge className="bg-orange-500">Changes Requested</Badge>;
+      case 'withdrawn':
+        return <Badge variant="outline">Withdrawn</Badge>;
+      case 'worn':
+        return <Badge className="bg-blue-500">Worn</Badge>;
+      case 'archived':
+        return <Badge variant="secondary">Archived</Badge>;
     }
   };
 
@@ -342,6 +359,41 @@ const Looks = () => {
     }
   };
 
+  const handleWoreLookToday = async (look: Look) => {
+    try {
+      const wears = await logLookWearMutation.mutateAsync({ lookId: look.id, wornOn: format(new Date(), 'yyyy-MM-dd') });
+      showSuccess(`Logged "${look.name}" as worn today (${wears.length} item${wears.length !== 1 ? 's' : ''})`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to log look as worn');
+    }
+  };
+
+  const handleChangeLookStatus = async (look: Look, status: LookStatus, success: string, reason?: string) => {
+    try {
+      await changeLookStatusMutation.mutateAsync({ lookId: look.id, status, reason });
+      showSuccess(success);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to change look status');
+    }
+  };
+
+  const handleWithdrawLook = async (look: Look) => {
+    const reason = window.prompt(`Why are you withdrawing "${look.name}"? (optional — your client will see this)`);
+    if (reason === null) return;
+    await handleChangeLookStatus(look, 'withdrawn', 'Look withdrawn', reason.trim() || undefined);
+  };
+
+  const handleSaveAsTemplate = async (look: Look) => {
+    const name = window.prompt('Template name', look.name);
+    if (name === null || !name.trim()) return;
+    try {
+      await createLookTemplateMutation.mutateAsync({ name: name.trim(), occasion: look.occasion, lookId: look.id });
+      showSuccess(`Saved "${name.trim()}" as a template`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
   // Simplified handlers for onSelect (no event parameter needed)
   const handleDeleteLookSimple = async (look: Look) => {
     if (window.confirm(`Are you sure you want to delete "${look.name}"?`)) {
@@ -472,6 +524,7 @@ const Looks = () => {
           )}
           <ItemImageWithPreview
             photoUrl={closetItem.photoUrl}
+            displayUrl={closetItem.cutoutUrl || closetItem.previewUrl}
             alt={closetItem.name}
             caption={closetItem.name}
             className="w-full h-full object-contain"
@@ -503,7 +556,7 @@ const Looks = () => {
 
   const LookCard = ({ look }: { look: Look }) => {
     const items = getLookItemsWithOrder(look.id);
-    const canReorder = isStylist && (look.status === 'draft' || look.status === 'changes_requested');
+    const canReorder = isStylist && isEditableLook(look);
     const sensors = useSensors(
       useSensor(PointerSensor, { activationConstraint: { distance: 8 } })
     );
@@ -530,13 +583,13 @@ const Looks = () => {
                 <DropdownMenuContent align="end">
                   {isStylist ? (
                     <>
-                      {look.status === 'draft' && (
+                      {(look.status === 'draft' || look.status === 'withdrawn') && (
                         <DropdownMenuItem onSelect={() => handleSendForApprovalSimple(look)}>
                           <Send className="mr-2 h-4 w-4" />
                           Send for Approval
                         </DropdownMenuItem>
                       )}
-                      {(look.status === 'draft' || look.status === 'changes_requested') && (
+                      {isEditableLook(look) && (
                         <DropdownMenuItem onSelect={() => handleEditFromDropdownSimple(look)}>
                           <Edit className="mr-2 h-4 w-4" />
                           Edit Look
@@ -555,6 +608,27 @@ const Looks = () => {
                         <MessageSquare className="mr-2 h-4 w-4" />
                         Message Client
                       </DropdownMenuItem>
+                      {look.status === 'pending' && (
+                        <DropdownMenuItem onSelect={() => handleWithdrawLook(look)}>
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Withdraw Look
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem onSelect={() => handleSaveAsTemplate(look)}>
+                        <LayoutTemplate className="mr-2 h-4 w-4" />
+                        Save as Template
+                      </DropdownMenuItem>
+                      {look.status === 'archived' ? (
+                        <DropdownMenuItem onSelect={() => handleChangeLookStatus(look, 'draft', 'Look moved back to draft')}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Unarchive Look
+                        </DropdownMenuItem>
+                      ) : look.status !== 'pending' && (
+                        <DropdownMenuItem onSelect={() => handleChangeLookStatus(look, 'archived', 'Look archived')}>
+                          <Archive className="mr-2 h-4 w-4" />
+                          Archive Look
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuItem
                         onSelect={() => handleDeleteLookSimple(look)}
                         className="text-red-600 focus:text-red-600"
@@ -581,22 +655,18 @@ const Looks = () => {
                             <Check className="mr-2 h-4 w-4" />
                             Approve Look
                           </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onSelect={async () => {
-                              const updated = await updateLookStatus(look.id, 'changes_requested');
-                              if (updated) {
-                                showSuccess('Changes requested. Your stylist will be notified.');
-                                await refreshLooks();
-                              } else {
-                                showError('Failed to request changes');
-                              }
-                            }}
-                          >
+                          <DropdownMenuItem onSelect={() => setFeedbackLook(look)}>
                             <CircleAlert className="mr-2 h-4 w-4" />
                             Request Changes
                           </DropdownMenuItem>
                         </>
                       )}
+                      {(look.status === 'approved' || look.status === 'worn') && (
+                        <DropdownMenuItem onSelect={() => handleWoreLookToday(look)}>
+                          <CalendarCheck className="mr-2 h-4 w-4" />
+                          I Wore This Today
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuItem onSelect={() => navigate(`/messages?lookId=${look.id}`)}>
                         <MessageSquare className="mr-2 h-4 w-4" />
                         Message Stylist
@@ -759,10 +829,16 @@ const Looks = () => {
             </p>
           </div>
           {isStylist && (
-            <Button onClick={() => setCreateDialogOpen(true)}>
-              <Plus className="mr-2 h-4 w-4" />
-              Create Look
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setTemplatesDialogOpen(true)}>
+                <LayoutTemplate className="mr-2 h-4 w-4" />
+                Templates
+              </Button>
+              <Button onClick={() => setCreateDialogOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create Look
+              </Button>
+            </div>
           )}
         </div>
 
@@ -1085,6 +1161,7 @@ const Looks = () => {
                                   >
                                     <ItemImageWithPreview
                                       photoUrl={item.photoUrl}
+                                      displayUrl={item.thumbnailUrl}
                                       alt={item.name}
                                       caption={item.name}
                                       className="w-full h-full object-contain"
@@ -1110,6 +1187,18 @@ const Looks = () => {
         )}
       </div>
 
+      {feedbackLook && (
+        <LookFeedbackDialog
+          key={feedbackLook.id}
+          open
+          onOpenChange={(open) => !open && setFeedbackLook(null)}
+          look={feedbackLook}
+          items={getLookItemsWithOrder(feedbackLook.id)}
+        />
+      )}
+
+      {isStylist && <LookTemplatesDialog open={templatesDialogOpen} onOpenChange={setTemplatesDialogOpen} />}
+
       <CreateLookDialog
         open={createDialogOpen || editDialogOpen}
         onOpenChange={(open) => {
@@ -1144,7 +1233,7 @@ const Looks = () => {
                 navigate(`/messages?lookId=${selectedLook.id}`);
               }
             }}
-            onEdit={isStylist && selectedLook && (selectedLook.status === 'draft' || selectedLook.status === 'changes_requested') ? handleEditFromDetail : undefined}
+            onEdit={isStylist && selectedLook && isEditableLook(selectedLook) ? handleEditFromDetail : undefined}
             onStatusChange={async () => {
               refreshLooks();
               if (selectedLook) {
@@ -212,6 +212,12 @@ const Messages = () => {
         return <Badge className="bg-green-500 text-xs">Approved</Badge>;
       case 'changes_requested':
         return <Badge className="bg-orange-500 text-xs">Changes</Badge>;
+      case 'withdrawn':
+        return <Badge variant="outline" className="text-xs">Withdrawn</Badge>;
+      case 'worn':
+        return <Badge className="bg-blue-500 text-xs">Worn</Badge>;
+      case 'archived':
+        return <Badge variant="secondary" className="text-xs">Archived</Badge>;
       default:
         return null;
     }
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { HandCoins } from 'lucide-react';
+import { useClients, useProceedsReport } from '@/hooks/useQueries';
+import { getCurrentUser } from '@/utils/auth';
+import { ClientProceeds, ProceedsEntry } from '@/types';
+import { format, parseISO } from 'date-fns';
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const ProceedsTable = ({ title, entries, total }: { title: string; entries: ProceedsEntry[]; total: number }) => (
+  <div className="space-y-2 min-w-0">
+    <div className="flex items-baseline justify-between gap-2">
+      <h3 className="text-sm font-semibold">
+        {title} ({entries.length})
+      </h3>
+      <span className="text-sm font-medium">{formatAmount(total)}</span>
+    </div>
+    {entries.length === 0 ? (
+      <p className="text-sm text-muted-foreground">None</p>
+    ) : (
+      <ul className="list-none p-0 m-0 divide-y">
+        {entries.map((entry) => (
+          <li key={entry.itemId} className="flex items-center justify-between gap-3 py-2 text-sm">
+            <div className="min-w-0">
+              <p className="truncate">{entry.itemName}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {entry.closetName}
+                {entry.date && ` · ${format(parseISO(entry.date), 'MMM d, yyyy')}`}
+              </p>
+            </div>
+            <span className="shrink-0 text-muted-foreground">
+              {entry.amount !== undefined ? formatAmount(entry.amount) : '—'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const ClientProceedsCard = ({ report }: { report: ClientProceeds }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="text-lg break-words">{report.clientName}</CardTitle>
+    </CardHeader>
+    <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <ProceedsTable title="Sold" entries={report.sold} total={report.soldTotal} />
+      <ProceedsTable title="On consignment" entries={report.consigned} total={report.consignedTotal} />
+    </CardContent>
+  </Card>
+);
+
+const Proceeds = () => {
+  const isStylist = getCurrentUser()?.userType === 'stylist';
+  const [clientId, setClientId] = useState('all');
+  const { data: clients = [] } = useClients();
+  const { data: reports = [], isLoading } = useProceedsReport(clientId === 'all' ? undefined : clientId);
+  // Clients without consigned or sold items only clutter the list
+  const withItems = reports.filter((r) => r.sold.length > 0 || r.consigned.length > 0);
+  const soldTotal = withItems.reduce((sum, r) => sum + r.soldTotal, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Proceeds</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Consigned and sold items{isStylist ? ' per client' : ''}, with sale prices and consignment payouts
+            </p>
+          </div>
+          {isStylist && (
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger className="w-full sm:w-56" aria-label="Client">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All clients</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {!isLoading && withItems.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <HandCoins className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Nothing consigned or sold</h3>
+              <p className="text-muted-foreground text-center">
+                Set an item's status to consigned or sold to see it here
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {withItems.length > 1 && (
+              <p className="text-sm text-muted-foreground">Sold in total: {formatAmount(soldTotal)}</p>
+            )}
+            <div className="space-y-4">
+              {withItems.map((report) => (
+                <ClientProceedsCard key={report.clientId} report={report} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Proceeds;
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Trash2, RotateCcw, Users, Shirt, Sparkles, Archive } from 'lucide-react';
+import { useTrash, useRestoreFromTrash, usePurgeTrashEntry } from '@/hooks/useQueries';
+import { showSuccess, showError } from '@/utils/toast';
+import { TrashEntry, TrashEntityType } from '@/types';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+  client: 'Client',
+  closet: 'Closet',
+  look: 'Look',
+  closet_item: 'Closet item',
+};
+
+const ENTITY_ICONS: Record<TrashEntityType, typeof Users> = {
+  client: Users,
+  closet: Archive,
+  look: Sparkles,
+  closet_item: Shirt,
+};
+
+const DEPENDENT_LABELS: Record<string, string> = {
+  closets: 'closets',
+  closetItems: 'closet items',
+  looks: 'looks',
+  lookItems: 'look items',
+  lookRequests: 'look requests',
+  chatRooms: 'chats',
+  messages: 'messages',
+  receipts: 'receipts',
+};
+
+const describeDependents = (counts: Record<string, number>): string =>
+  Object.entries(counts)
+    .filter(([collection]) => DEPENDENT_LABELS[collection])
+    .map(([collection, count]) => `${count} ${DEPENDENT_LABELS[collection]}`)
+    .join(', ');
+
+const Trash = () => {
+  const { data: entries = [], isLoading } = useTrash();
+  const restoreMutation = useRestoreFromTrash();
+  const purgeMutation = usePurgeTrashEntry();
+  const [filter, setFilter] = useState<'all' | TrashEntityType>('all');
+
+  const filteredEntries = filter === 'all' ? entries : entries.filter(e => e.entityType === filter);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await restoreMutation.mutateAsync(entry.id);
+      showSuccess(`${ENTITY_LABELS[entry.entityType]} "${entry.label}" restored`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to restore');
+    }
+  };
+
+  const handlePurge = async (entry: TrashEntry) => {
+    if (!window.confirm(`Permanently delete "${entry.label}"? This cannot be undone.`)) return;
+    const success = await purgeMutation.mutateAsync(entry.id);
+    if (success) {
+      showSuccess('Deleted permanently');
+    } else {
+      showError('Failed to delete');
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Trash</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Deleted clients, closets, looks and closet items can be restored until they expire
+          </p>
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as 'all' | TrashEntityType)}>
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="client">Clients</TabsTrigger>
+            <TabsTrigger value="closet">Closets</TabsTrigger>
+            <TabsTrigger value="look">Looks</TabsTrigger>
+            <TabsTrigger value="closet_item">Items</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {!isLoading && filteredEntries.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Trash2 className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Trash is empty</h3>
+              <p className="text-muted-foreground text-center">
+                Anything you delete shows up here first
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {filteredEntries.map((entry) => {
+              const Icon = ENTITY_ICONS[entry.entityType];
+              const dependents = describeDependents(entry.dependentCounts);
+              return (
+                <Card key={entry.id}>
+                  <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <div className="w-10 h-10 bg-gray-100 rounded flex items-center justify-center flex-shrink-0">
+                        <Icon className="h-5 w-5 text-gray-500" />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold truncate">{entry.label}</h3>
+                          <Badge variant="secondary">{ENTITY_LABELS[entry.entityType]}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Deleted {formatDistanceToNow(new Date(entry.deletedAt), { addSuffix: true })}
+                          {' · '}removed for good on {format(new Date(entry.expiresAt), 'MMM d, yyyy')}
+                        </p>
+                        {dependents && (
+                          <p className="text-xs text-muted-foreground truncate">Includes {dependents}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 sm:flex-shrink-0">
+                      <Button
+                        size="sm"
+                        onClick={() => handleRestore(entry)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600"
+                        onClick={() => handlePurge(entry)}
+                        disabled={purgeMutation.isPending}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete forever
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Trash;
@@ -2,7 +2,14 @@ export type UserType = 'stylist' | 'client';
 
 export type RelationshipStatus = 'not_active' | 'invited' | 'active' | 'ended';
 
-export type LookStatus = 'draft' | 'pending' | 'approved' | 'changes_requested';
+export type LookStatus =
+  | 'draft'
+  | 'pending'
+  | 'approved'
+  | 'changes_requested'
+  | 'withdrawn'
+  | 'worn'
+  | 'archived';
 
 export type ItemCategory = 
   | 'tops' 
@@ -61,6 +68,8 @@ export interface Client {
   instagramHandle?: string;
   outfitsPerDayEstimate?: string;
   weekdayOutfitDetails?: string;
+  /** The current stylist's private notes */
+  notes?: string;
   relationshipId?: string;
   relationshipStatus?: RelationshipStatus;
 }
@@ -84,20 +93,129 @@ export interface ClosetItem {
   brand?: string;
   size?: string;
   colorTags: string[];
+  /** True while colorTags were filled in from suggestedColorTags and nobody has reviewed them */
+  colorTagsAuto?: boolean;
+  /** Palette colors the server extracted from the photo (machine-generated) */
+  suggestedColorTags?: string[];
+  /** Structured tags for faceted search */
+  tags?: ItemTags;
   photoUrl: string;
   thumbnailUrl?: string;
   previewUrl?: string;
+  /** Transparent PNG with the background removed, produced by the server after upload */
+  cutoutUrl?: string;
+  /** Perceptual hash of the photo, used to spot duplicate uploads */
+  photoHash?: string;
   itemType?: string;
   notes?: string;
   purchaseInfo?: string;
+  /** Receipt the item was bought on (used for cost per wear when purchaseInfo has no price) */
+  receiptId?: string;
   createdBy: string;
   updatedBy: string;
   archived: boolean;
   createdAt: string;
   updatedAt: string;
+  /** Number of logged wears */
+  wearCount?: number;
+  /** Date of the most recent logged wear (YYYY-MM-DD) */
   lastWorn?: string;
+  /** Lifecycle state (unset = active); changed through the status endpoint */
+  status?: ItemStatus;
+  /** Day of the last status change (YYYY-MM-DD) */
+  statusChangedOn?: string;
+  /** While away: the day the item is expected back (YYYY-MM-DD) */
+  expectedBackOn?: string;
 }
 
+export type ItemStatus =
+  | 'active'
+  | 'tailoring'
+  | 'dry_cleaning'
+  | 'lent_out'
+  | 'consigned'
+  | 'donated'
+  | 'sold';
+
+export interface ItemStatusEvent {
+  id: string;
+  itemId: string;
+  status: ItemStatus;
+  previousStatus: ItemStatus;
+  /** YYYY-MM-DD */
+  changedOn: string;
+  note?: string;
+  /** Sale price (sold) or agreed consignment payout (consigned) */
+  amount?: number;
+  expectedBackOn?: string;
+  changedBy: string;
+  createdAt: string;
+}
+
+export type ChangeLogEntityType = 'closet_item' | 'look' | 'client';
+
+export interface FieldChange {
+  field: string;
+  /** Missing when the field was not set before */
+  before?: unknown;
+  /** Missing when the field was cleared */
+  after?: unknown;
+}
+
+/** One entry of a closet item's, look's or client's change history */
+export interface ChangeLogEntry {
+  id: string;
+  entityType: ChangeLogEntityType;
+  entityId: string;
+  action: 'create' | 'update' | 'delete' | 'restore';
+  changes: FieldChange[];
+  changedBy: string;
+  /** Unset when the account no longer exists */
+  changedByName?: string;
+  changedAt: string;
+}
+
+export interface ItemStatusChange {
+  status: ItemStatus;
+  changedOn?: string;
+  note?: string;
+  amount?: number;
+  expectedBackOn?: string;
+}
+
+export interface ProceedsEntry {
+  itemId: string;
+  itemName: string;
+  closetId: string;
+  closetName: string;
+  date?: string;
+  amount?: number;
+}
+
+/** Consigned and sold items of one client */
+export interface ClientProceeds {
+  clientId: string;
+  clientName: string;
+  consigned: ProceedsEntry[];
+  sold: ProceedsEntry[];
+  consignedTotal: number;
+  soldTotal: number;
+}
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+/** Tag groups on a closet item; the server stores values trimmed and lower-case */
+export interface ItemTags {
+  season?: Season[];
+  occasion?: string[];
+  fabric?: string[];
+  fit?: string[];
+  /** Free-form stylist tags */
+  custom?: string[];
+}
+
+export type TagGroup = keyof ItemTags;
+
 export interface Look {
   id: string;
   stylistId: string;
@@ -110,6 +228,8 @@ export interface Look {
   parentLookId?: string;
   /** Generated composite image (white bg, all items arranged) */
   compositeImageUrl?: string;
+  /** Look items left out of the composite because their photo couldn't be loaded */
+  compositeMissingItemIds?: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -129,6 +249,152 @@ export interface LookItem {
   scale?: number;
 }
 
+/** A look item as it was when its look was sent for approval */
+export interface LookRevisionItem {
+  itemId: string;
+  itemType: LookItem['itemType'];
+  newItemDetails?: LookItem['newItemDetails'];
+  sortOrder: number;
+  positionX?: number;
+  positionY?: number;
+  scale?: number;
+  /** Name and picture at the time, so removed items still show */
+  name?: string;
+  imageUrl?: string;
+}
+
+/** Frozen copy of a look, taken each time it is sent for approval */
+export interface LookRevision {
+  id: string;
+  lookId: string;
+  revision: number;
+  name: string;
+  occasion?: string;
+  eventDate?: string;
+  stylingNotes?: string;
+  items: LookRevisionItem[];
+  compositeImageUrl?: string;
+  compositeMissingItemIds?: string[];
+  response?: 'approved' | 'changes_requested';
+  respondedAt?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+type LookItemPlacement = Pick<LookRevisionItem, 'positionX' | 'positionY' | 'scale'>;
+
+export interface LookRevisionDiff {
+  from: number;
+  to: number;
+  fields: FieldChange[];
+  added: LookRevisionItem[];
+  removed: LookRevisionItem[];
+  moved: { itemId: string; name?: string; before: LookItemPlacement; after: LookItemPlacement }[];
+}
+
+export type LookFeedbackReason = 'fit' | 'color' | 'occasion' | 'comfort';
+
+/** A client's thumbs up or down on one piece of a look, given when asking for changes */
+export interface LookItemFeedback {
+  lookItemId: string;
+  itemId: string;
+  name?: string;
+  verdict: 'up' | 'down';
+  reasons?: LookFeedbackReason[];
+  comment?: string;
+}
+
+/** What the client sends; the server fills in the item id and name */
+export type LookItemFeedbackInput = Pick<LookItemFeedback, 'lookItemId' | 'verdict' | 'reasons' | 'comment'>;
+
+/** One move of a look from one status to another */
+export interface LookStatusEvent {
+  id: string;
+  lookId: string;
+  status: LookStatus;
+  previousStatus: LookStatus;
+  reason?: string;
+  itemFeedback?: LookItemFeedback[];
+  changedBy: string;
+  changedByName?: string;
+  createdAt: string;
+}
+
+/** A look's status with the moves the current user may make and how it got there */
+export interface LookStatusInfo {
+  status: LookStatus;
+  allowed: LookStatus[];
+  history: LookStatusEvent[];
+}
+
+/** One piece of a look template: what kind of item goes where on the canvas */
+export interface LookTemplateSlot {
+  category: ItemCategory;
+  subcategory?: string;
+  label?: string;
+  colorTags?: string[];
+  positionX: number;
+  positionY: number;
+  scale: number;
+}
+
+/** A stylist's reusable outfit formula */
+export interface LookTemplate {
+  id: string;
+  stylistId: string;
+  name: string;
+  description?: string;
+  occasion?: string;
+  slots: LookTemplateSlot[];
+  sourceLookId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A template slot filled for a client: a closet item that matches, or something to buy */
+export interface TemplateLookItemDraft {
+  slotIndex: number;
+  itemType: LookItem['itemType'];
+  itemId: string;
+  newItemDetails?: { name: string; category: ItemCategory; subcategory?: string; colorTags?: string[] };
+  closetItem?: ClosetItem;
+  sortOrder: number;
+  positionX: number;
+  positionY: number;
+  scale: number;
+}
+
+/** Whether suggested outfits must, may or must not include a kind of piece */
+export type OutfitPieceRule = 'required' | 'optional' | 'never';
+
+export interface OutfitRules {
+  shoes: OutfitPieceRule;
+  outerwear: OutfitPieceRule;
+  bag: OutfitPieceRule;
+  avoidColorClashes: boolean;
+  recentWearDays: number;
+  limit: number;
+}
+
+export type OutfitRole = 'outerwear' | 'top' | 'dress' | 'bottom' | 'shoes' | 'bag' | 'accessory';
+
+export interface SuggestedLookItem {
+  itemId: string;
+  role: OutfitRole;
+  closetItem: ClosetItem;
+  sortOrder: number;
+  positionX: number;
+  positionY: number;
+  scale: number;
+}
+
+/** An outfit from POST /looks/suggest, with canvas positions for the look builder */
+export interface OutfitSuggestion {
+  score: number;
+  reasons: string[];
+  items: SuggestedLookItem[];
+}
+
 export interface LookRequest {
   id: string;
   clientId: string;
@@ -176,4 +442,157 @@ export interface Receipt {
   receiptPhotoUrl?: string;
   notes?: string;
   createdAt: string;
+}
+
+export type TrashEntityType = 'client' | 'closet' | 'look' | 'closet_item';
+
+// A deleted client, closet, look or closet item, restorable until expiresAt
+export interface TrashEntry {
+  id: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  label: string;
+  deletedAt: string;
+  deletedBy: string;
+  expiresAt: string;
+  /** Records deleted along with it, e.g. { closetItems: 12, looks: 3 } */
+  dependentCounts: Record<string, number>;
+}
+
+export type BackgroundRemovalStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BackgroundRemovalJob {
+  id: string;
+  itemId: string;
+  status: BackgroundRemovalStatus;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface DuplicateMatch {
+  itemId: string;
+  /** Differing bits between the two photo hashes (0 = same picture) */
+  distance: number;
+}
+
+/** Closet items whose photos look alike, oldest first */
+export interface DuplicateGroup {
+  items: ClosetItem[];
+  distance: number;
+}
+
+/** Items moved to another closet of the same client */
+export interface MoveClosetItemsResult {
+  moved: ClosetItem[];
+  count: number;
+}
+
+export interface MergeClosetItemsResult {
+  item: ClosetItem;
+  mergedItemIds: string[];
+  lookItemsMoved: number;
+  lookItemsRemoved: number;
+  lookRequestsUpdated: number;
+  wearsMoved: number;
+}
+
+/** One day a closet item was worn */
+export interface WearEvent {
+  id: string;
+  itemId: string;
+  /** YYYY-MM-DD */
+  wornOn: string;
+  /** Set when logged for a whole look */
+  lookId?: string;
+  note?: string;
+  loggedBy: string;
+  createdAt: string;
+}
+
+/** Relative weight per category in a well-balanced closet */
+export type TargetMix = Partial<Record<ItemCategory, number>>;
+
+export interface WardrobeGap {
+  category: ItemCategory;
+  /** 0-1 */
+  targetShare: number;
+  actualShare: number;
+  count: number;
+  targetCount: number;
+  missing: number;
+}
+
+/** GET /closets/:id/analytics. Breakdowns cover active (non-archived) items. */
+export interface ClosetAnalytics {
+  closetId: string;
+  totalItems: number;
+  activeItems: number;
+  archivedItems: number;
+  archivedRatio: number;
+  categories: { category: ItemCategory; count: number; subcategories: { name: string; count: number }[] }[];
+  colors: { color: string; count: number }[];
+  brands: { brand: string; count: number }[];
+  unbrandedItems: number;
+  neverUsedInLooks: {
+    count: number;
+    items: Pick<ClosetItem, 'id' | 'name' | 'category' | 'thumbnailUrl' | 'photoUrl'>[];
+  };
+  targetMix: TargetMix;
+  gaps: WardrobeGap[];
+}
+
+export interface WearStats {
+  itemId: string;
+  wearCount: number;
+  lastWorn?: string;
+  /** From purchaseInfo or the linked receipt */
+  price?: number;
+  costPerWear?: number;
+}
+
+/** Facets of the closet search; "tag" filters custom tags */
+export type ClosetSearchFacet =
+  | 'status'
+  | 'category'
+  | 'subcategory'
+  | 'brand'
+  | 'color'
+  | 'season'
+  | 'occasion'
+  | 'fabric'
+  | 'fit'
+  | 'tag';
+
+export type ClosetSearchSort =
+  | 'relevance'
+  | 'newest'
+  | 'oldest'
+  | 'name'
+  | 'brand'
+  | 'most_worn'
+  | 'least_worn'
+  | 'recently_worn';
+
+export interface ClosetSearchParams {
+  q?: string;
+  filters?: Partial<Record<ClosetSearchFacet, string[]>>;
+  /** all: items match every filtered facet (AND); any: at least one (OR) */
+  match?: 'all' | 'any';
+  sort?: ClosetSearchSort;
+  archived?: boolean;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/** GET /closet-items?closetId=. Facet counts ignore the facet's own selection. */
+export interface ClosetSearchResult {
+  items: ClosetItem[];
+  total: number;
+  facets: Record<ClosetSearchFacet, FacetValue[]>;
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { ChangeLogEntry, ItemStatus } from '@/types';
+import { ITEM_STATUS_LABELS } from './itemStatus';
+
+export const CHANGE_ACTION_LABELS: Record<ChangeLogEntry['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Moved to trash',
+  restore: 'Restored from trash',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  closetId: 'Closet',
+  colorTags: 'Colors',
+  photoUrl: 'Photo',
+  profilePhotoUrl: 'Profile photo',
+  itemType: 'Type',
+  purchaseInfo: 'Purchase info',
+  receiptId: 'Receipt',
+  statusChangedOn: 'Status date',
+  expectedBackOn: 'Expected back',
+  eventDate: 'Event date',
+  stylingNotes: 'Styling notes',
+  parentLookId: 'Based on look',
+  clientId: 'Client',
+  stylistId: 'Stylist',
+  braSize: 'Bra size',
+  instagramHandle: 'Instagram',
+};
+
+/** Photos are shown as replaced or removed rather than as URLs */
+export const PHOTO_FIELDS = ['photoUrl', 'profilePhotoUrl'];
+
+/** Readable name of a logged field, e.g. sizeTop -> "Size top" */
+export const changeFieldLabel = (field: string): string => {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * A logged value as text. `names` maps ids (closets, clients) to display names;
+ * missing values read as "none".
+ */
+export const formatChangeValue = (field: string, value: unknown, names: Record<string, string> = {}): string => {
+  if (value === undefined || value === null || value === '') return 'none';
+  if (field === 'status' && typeof value === 'string') {
+    return ITEM_STATUS_LABELS[value as ItemStatus] ?? value;
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value === 'string') return names[value] ?? value;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  if (typeof value === 'object') {
+    // Structured tags: { season: [...], fabric: [...] }
+    const parts = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => !Array.isArray(v) || v.length > 0)
+      .map(([key, v]) => `${key}: ${Array.isArray(v) ? v.join(', ') : String(v)}`);
+    return parts.length > 0 ? parts.join('; ') : 'none';
+  }
+  return String(value);
+};
@@ -1,4 +1,4 @@
-import { Closet, ClosetItem, ItemCategory } from '@/types';
+import { BackgroundRemovalJob, ClientProceeds, Closet, ClosetAnalytics, ClosetItem, ClosetSearchParams, ClosetSearchResult, DuplicateGroup, DuplicateMatch, ItemCategory, ItemStatus, ItemStatusChange, ItemStatusEvent, MergeClosetItemsResult, MoveClosetItemsResult, WearEvent, WearStats } from '@/types';
 import { getCurrentUser } from './mockAuth';
 import { apiRequest, ApiResponse } from './api';
 
@@ -106,6 +106,35 @@ export const createCloset = async (ownerId: string, name: string): Promise<Close
   return response.data;
 };
 
+/** Rename a closet. Throws with the server's message, e.g. for a name the client already uses. */
+export const renameCloset = async (closetId: string, name: string): Promise<Closet> => {
+  const trimmed = (name ?? '').trim();
+  if (!trimmed) throw new Error('Closet name is required');
+  const response = await apiRequest<ApiResponse<Closet>>(`/closets/${closetId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ name: trimmed }),
+  });
+  if (!response.data) throw new Error('Failed to rename closet');
+  return response.data;
+};
+
+/**
+ * Move a closet to the trash. With moveItemsTo, its items move to that closet first
+ * instead of going to the trash with it. Throws with the server's message.
+ */
+export const deleteCloset = async (
+  closetId: string,
+  moveItemsTo?: string
+): Promise<{ trashId: string; movedItems: number }> => {
+  const query = moveItemsTo ? `?moveItemsTo=${encodeURIComponent(moveItemsTo)}` : '';
+  const response = await apiRequest<ApiResponse<{ success: boolean; trashId: string; movedItems: number }>>(
+    `/closets/${closetId}${query}`,
+    { method: 'DELETE' }
+  );
+  if (!response.data) throw new Error('Failed to delete closet');
+  return response.data;
+};
+
 /**
  * Get the client's own closet (stylist-only). Use when editing a look so that
  * look itemIds, which reference the client's closet, resolve correctly.
@@ -190,24 +219,217 @@ export const deleteClosetItem = async (itemId: string): Promise<boolean> => {
   }
 };
 
+export const getBackgroundRemoval = async (
+  itemId: string
+): Promise<{ job: BackgroundRemovalJob | null; cutoutUrl: string | null } | null> => {
+  try {
+    const response = await apiRequest<ApiResponse<{ job: BackgroundRemovalJob | null; cutoutUrl: string | null }>>(
+      `/closet-items/${itemId}/background-removal`
+    );
+    return response.data ?? null;
+  } catch (error) {
+    console.error('Error fetching background removal status:', error);
+    return null;
+  }
+};
+
+/** Queue the item's photo for background removal again. Throws with the server's message (e.g. external photo URL). */
+export const rerunBackgroundRemoval = async (itemId: string): Promise<BackgroundRemovalJob> => {
+  const response = await apiRequest<ApiResponse<BackgroundRemovalJob>>(`/closet-items/${itemId}/background-removal`, {
+    method: 'POST',
+  });
+  if (!response.data) {
+    throw new Error('Failed to queue background removal');
+  }
+  return response.data;
+};
+
+export const restoreOriginalPhoto = async (itemId: string): Promise<ClosetItem | null> => {
+  try {
+    const response = await apiRequest<ApiResponse<ClosetItem>>(`/closet-items/${itemId}/background-removal`, {
+      method: 'DELETE',
+    });
+    return response.data ?? null;
+  } catch (error) {
+    console.error('Error restoring original photo:', error);
+    return null;
+  }
+};
+
+export const getClosetDuplicates = async (closetId: string): Promise<DuplicateGroup[]> => {
+  try {
+    const response = await apiRequest<ApiResponse<DuplicateGroup[]>>(
+      `/closet-items/duplicates?closetId=${encodeURIComponent(closetId)}`
+    );
+    return response.data || [];
+  } catch (error) {
+    console.error('Error fetching duplicate closet items:', error);
+    return [];
+  }
+};
+
+/** Merge duplicates into the kept item (their looks and requests move to it). Throws with the server's message. */
+export const mergeClosetItems = async (keepItemId: string, itemIds: string[]): Promise<MergeClosetItemsResult> => {
+  const response = await apiRequest<ApiResponse<MergeClosetItemsResult>>(`/closet-items/${keepItemId}/merge`, {
+    method: 'POST',
+    body: JSON.stringify({ itemIds }),
+  });
+  if (!response.data) {
+    throw new Error('Failed to merge items');
+  }
+  return response.data;
+};
+
+/** Move items to another closet of the same client. Throws with the server's message. */
+export const moveClosetItems = async (itemIds: string[], toClosetId: string): Promise<MoveClosetItemsResult> => {
+  const response = await apiRequest<ApiResponse<MoveClosetItemsResult>>('/closet-items/move', {
+    method: 'POST',
+    body: JSON.stringify({ itemIds, toClosetId }),
+  });
+  if (!response.data) {
+    throw new Error('Failed to move items');
+  }
+  return response.data;
+};
+
+export const getClosetAnalytics = async (closetId: string): Promise<ClosetAnalytics | null> => {
+  try {
+    const response = await apiRequest<ApiResponse<ClosetAnalytics>>(`/closets/${closetId}/analytics`);
+    return response.data || null;
+  } catch (error) {
+    console.error('Error fetching closet analytics:', error);
+    return null;
+  }
+};
+
+export const getClosetWearStats = async (closetId: string): Promise<WearStats[]> => {
+  try {
+    const response = await apiRequest<ApiResponse<WearStats[]>>(
+      `/closet-items/wear-stats?closetId=${encodeURIComponent(closetId)}`
+    );
+    return response.data || [];
+  } catch (error) {
+    console.error('Error fetching wear stats:', error);
+    return [];
+  }
+};
+
+export const getItemWears = async (itemId: string): Promise<{ wears: WearEvent[]; stats: WearStats } | null> => {
+  try {
+    const response = await apiRequest<ApiResponse<{ wears: WearEvent[]; stats: WearStats }>>(`/closet-items/${itemId}/wears`);
+    return response.data || null;
+  } catch (error) {
+    console.error('Error fetching wears:', error);
+    return null;
+  }
+};
+
+/** Log a wear (wornOn is YYYY-MM-DD, default today). Throws with the server's message, e.g. when already logged that day. */
+export const logItemWear = async (itemId: string, wear: { wornOn?: string; note?: string } = {}): Promise<WearEvent> => {
+  const response = await apiRequest<ApiResponse<WearEvent>>(`/closet-items/${itemId}/wears`, {
+    method: 'POST',
+    body: JSON.stringify(wear),
+  });
+  if (!response.data) {
+    throw new Error('Failed to log wear');
+  }
+  return response.data;
+};
+
+export const deleteItemWear = async (itemId: string, wearId: string): Promise<boolean> => {
+  try {
+    await apiRequest<ApiResponse<{ success: boolean }>>(`/closet-items/${itemId}/wears/${wearId}`, {
+      method: 'DELETE',
+    });
+    return true;
+  } catch (error) {
+    console.error('Error deleting wear:', error);
+    return false;
+  }
+};
+
+export const getItemStatusHistory = async (
+  itemId: string
+): Promise<{ status: ItemStatus; expectedBackOn?: string; history: ItemStatusEvent[] } | null> => {
+  try {
+    const response = await apiRequest<
+      ApiResponse<{ status: ItemStatus; expectedBackOn?: string; history: ItemStatusEvent[] }>
+    >(`/closet-items/${itemId}/status`);
+    return response.data || null;
+  } catch (error) {
+    console.error('Error fetching item status history:', error);
+    return null;
+  }
+};
+
+/** Change an item's lifecycle status. Throws with the server's message, e.g. for an amount on a lent-out item. */
+export const changeItemStatus = async (
+  itemId: string,
+  change: ItemStatusChange
+): Promise<{ item: ClosetItem; event: ItemStatusEvent }> => {
+  const response = await apiRequest<ApiResponse<{ item: ClosetItem; event: ItemStatusEvent }>>(
+    `/closet-items/${itemId}/status`,
+    {
+      method: 'POST',
+      body: JSON.stringify(change),
+    }
+  );
+  if (!response.data) {
+    throw new Error('Failed to change status');
+  }
+  return response.data;
+};
+
+/** Archive an item or bring it back. Throws with the server's message, e.g. for a sold item. */
+export const setClosetItemArchived = async (itemId: string, archived: boolean): Promise<ClosetItem> => {
+  const response = await apiRequest<ApiResponse<ClosetItem>>(`/closet-items/${itemId}/archive`, {
+    method: 'POST',
+    body: JSON.stringify({ archived }),
+  });
+  if (!response.data) {
+    throw new Error('Failed to update item');
+  }
+  return response.data;
+};
+
+/** Consigned and sold items per client; clientId limits it to one client */
+export const getProceedsReport = async (clientId?: string): Promise<ClientProceeds[]> => {
+  try {
+    const query = clientId ? `?clientId=${encodeURIComponent(clientId)}` : '';
+    const response = await apiRequest<ApiResponse<ClientProceeds[]>>(`/closet-items/proceeds${query}`);
+    return response.data || [];
+  } catch (error) {
+    console.error('Error fetching proceeds report:', error);
+    return [];
+  }
+};
+
 const BULK_CHUNK_SIZE = 25;
 
+/** Items created by a bulk upload, plus any that look like items already in the closet (or each other) */
+export interface BulkAddResult {
+  items: ClosetItem[];
+  duplicates: { itemId: string; matches: DuplicateMatch[] }[];
+}
+
 export const bulkAddClosetItems = async (
   itemsData: Omit<ClosetItem, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy' | 'archived'>[]
-): Promise<ClosetItem[]> => {
+): Promise<BulkAddResult> => {
   try {
-    if (itemsData.length === 0) return [];
-    const allCreated: ClosetItem[] = [];
+    const result: BulkAddResult = { items: [], duplicates: [] };
     for (let i = 0; i < itemsData.length; i += BULK_CHUNK_SIZE) {
       const chunk = itemsData.slice(i, i + BULK_CHUNK_SIZE);
-      const response = await apiRequest<ApiResponse<ClosetItem[]>>('/closet-items/bulk', {
-        method: 'POST',
-        body: JSON.stringify({ items: chunk }),
-      });
-      const created = response.data || [];
-      allCreated.push(...created);
+      const response = await apiRequest<ApiResponse<ClosetItem[]> & { duplicates?: BulkAddResult['duplicates'] }>(
+        '/closet-items/bulk',
+        {
+          method: 'POST',
+          body: JSON.stringify({ items: chunk }),
+        }
+      );
+      result.items.push(...(response.data || []));
+      result.duplicates.push(...(response.duplicates || []));
     }
-    return allCreated;
+    return result;
   } catch (error) {
     console.error('Error bulk adding closet items:', error);
     throw error;
@@ -216,18 +438,24 @@ export const bulkAddClosetItems = async (
 
 export const searchClosetItems = async (
   closetId: string,
-  query: string,
-  category?: ItemCategory
-): Promise<ClosetItem[]> => {
+  params: ClosetSearchParams
+): Promise<ClosetSearchResult | null> => {
   try {
-    const params = new URLSearchParams({ closetId });
-    if (query) params.append('search', query);
-    if (category) params.append('category', category);
-    
-    const response = await apiRequest<ApiResponse<ClosetItem[]>>(`/closet-items?${params.toString()}`);
-    return response.data || [];
+    const query = new URLSearchParams({ closetId });
+    if (params.q?.trim()) query.append('q', params.q.trim());
+    Object.entries(params.filters ?? {}).forEach(([facet, values]) => {
+      if (values && values.length > 0) query.append(facet, values.join(','));
+    });
+    if (params.match) query.append('match', params.match);
+    if (params.sort) query.append('sort', params.sort);
+    if (params.archived !== undefined) query.append('archived', String(params.archived));
+
+    const response = await apiRequest<ApiResponse<ClosetItem[]> & Omit<ClosetSearchResult, 'items'>>(
+      `/closet-items?${query.toString()}`
+    );
+    return { items: response.data || [], total: response.total, facets: response.facets };
   } catch (error) {
     console.error('Error searching closet items:', error);
-    return [];
+    return null;
   }
 };
@@ -1,8 +1,9 @@
 /**
  * File Upload Service
- * MVP: Converts files to data URLs (base64)
- * In production, this would upload to cloud storage (S3, Cloudinary, etc.)
+ * Uploads images to the backend media store (POST /media) and returns their stable URL.
+ * Data URLs are only used for local previews before saving.
  */
+import { apiRequest, ApiResponse } from './api';
 
 /**
  * Convert Google Drive URLs to full-size image URLs.
@@ -48,8 +49,7 @@ export const toFullSizeImageUrl = (url: string): string => {
 };
 
 /**
- * Convert file to base64 data URL
- * This is an MVP solution - in production, upload to cloud storage
+ * Read a file as a data URL, for previews shown before the file is uploaded
  */
 export const fileToDataURL = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -67,27 +67,31 @@ export const fileToDataURL = (file: File): Promise<string> => {
 };
 
 /**
- * Upload image file and return URL
- * MVP: Returns data URL (base64)
- * Production: Would upload to cloud storage and return CDN URL
+ * Upload an image file (or blob, e.g. a rendered canvas) and return its media URL
  */
-export const uploadImage = async (file: File): Promise<string> => {
+export const uploadImage = async (file: Blob): Promise<string> => {
   // Validate file type
   if (!file.type.startsWith('image/')) {
     throw new Error('File must be an image');
   }
 
-  // Validate file size (max 10MB for MVP)
+  // Validate file size (max 10MB, matches the backend's default MEDIA_MAX_UPLOAD_MB)
   const maxSize = 10 * 1024 * 1024; // 10MB
   if (file.size > maxSize) {
     throw new Error('Image size must be less than 10MB');
   }
 
-  // MVP: Return data URL
-  // Production: Upload to S3/Cloudinary/etc. and return CDN URL
-  const dataURL = await fileToDataURL(file);
-  
-  return dataURL;
+  const formData = new FormData();
+  formData.append('file', file, file instanceof File ? file.name : 'image');
+
+  const response = await apiRequest<ApiResponse<{ url: string; key: string }>>('/media', {
+    method: 'POST',
+    body: formData,
+  });
+  if (!response.data?.url) {
+    throw new Error('Upload failed');
+  }
+  return response.data.url;
 };
 
 /**
@@ -0,0 +1,19 @@
+import { ChangeLogEntityType, ChangeLogEntry } from '@/types';
+import { apiRequest, ApiResponse } from './api';
+
+const HISTORY_PATHS: Record<ChangeLogEntityType, string> = {
+  closet_item: 'closet-items',
+  look: 'looks',
+  client: 'clients',
+};
+
+/** Change history of a closet item, look or client, most recent first */
+export const getChangeHistory = async (entityType: ChangeLogEntityType, id: string): Promise<ChangeLogEntry[]> => {
+  try {
+    const response = await apiRequest<ApiResponse<ChangeLogEntry[]>>(`/${HISTORY_PATHS[entityType]}/${id}/history`);
+    return response.data || [];
+  } catch (error) {
+    console.error('Error fetching change history:', error);
+    return [];
+  }
+};
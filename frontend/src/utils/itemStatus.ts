@@ -0,0 +1,33 @@
+import { ClosetItem, ItemStatus } from '@/types';
+
+export const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
+  active: 'Active',
+  tailoring: 'In tailoring',
+  dry_cleaning: 'At dry cleaning',
+  lent_out: 'Lent out',
+  consigned: 'Consigned',
+  donated: 'Donated',
+  sold: 'Sold',
+};
+
+export const ITEM_STATUSES = Object.keys(ITEM_STATUS_LABELS) as ItemStatus[];
+
+/** Out of the closet for now; these can have an expected return date */
+export const AWAY_STATUSES: ItemStatus[] = ['tailoring', 'dry_cleaning', 'lent_out', 'consigned'];
+
+/** States a change can record an amount for (payout or sale price) */
+export const AMOUNT_STATUSES: ItemStatus[] = ['consigned', 'sold'];
+
+export const itemStatusOf = (item: ClosetItem): ItemStatus => item.status ?? 'active';
+
+/**
+ * Whether the item can be worn on a day (YYYY-MM-DD): active items always, away items only
+ * when expected back by then, archived (including donated and sold) items never.
+ */
+export const isItemAvailable = (item: ClosetItem, onDate?: string): boolean => {
+  if (item.archived) return false;
+  const status = itemStatusOf(item);
+  if (status === 'active') return true;
+  if (!AWAY_STATUSES.includes(status)) return false;
+  return !!onDate && !!item.expectedBackOn && item.expectedBackOn <= onDate.slice(0, 10);
+};
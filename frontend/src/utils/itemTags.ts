@@ -0,0 +1,43 @@
+import { ItemTags, Season, TagGroup } from '@/types';
+
+export const SEASONS: { value: Season; label: string }[] = [
+  { value: 'spring', label: 'Spring' },
+  { value: 'summer', label: 'Summer' },
+  { value: 'autumn', label: 'Autumn' },
+  { value: 'winter', label: 'Winter' },
+];
+
+/** Free-text tag groups, edited as comma-separated lists */
+export const TEXT_TAG_GROUPS: { value: Exclude<TagGroup, 'season'>; label: string; placeholder: string }[] = [
+  { value: 'occasion', label: 'Occasion', placeholder: 'e.g., work, evening, vacation' },
+  { value: 'fabric', label: 'Fabric', placeholder: 'e.g., cotton, wool' },
+  { value: 'fit', label: 'Fit', placeholder: 'e.g., slim, oversized' },
+  { value: 'custom', label: 'Custom tags', placeholder: 'e.g., capsule, needs tailoring' },
+];
+
+/** Form state for item tags: seasons as a selection, the other groups as typed text */
+export type ItemTagDraft = { season: Season[] } & Record<Exclude<TagGroup, 'season'>, string>;
+
+export const emptyTagDraft = (): ItemTagDraft => ({ season: [], occasion: '', fabric: '', fit: '', custom: '' });
+
+export const tagsToDraft = (tags?: ItemTags): ItemTagDraft => ({
+  season: tags?.season ?? [],
+  occasion: (tags?.occasion ?? []).join(', '),
+  fabric: (tags?.fabric ?? []).join(', '),
+  fit: (tags?.fit ?? []).join(', '),
+  custom: (tags?.custom ?? []).join(', '),
+});
+
+const parseTagList = (text: string): string[] =>
+  [...new Set(text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+/** Tags to send to the server; an empty object clears an item's tags */
+export const draftToTags = (draft: ItemTagDraft): ItemTags => {
+  const tags: ItemTags = {};
+  if (draft.season.length > 0) tags.season = draft.season;
+  TEXT_TAG_GROUPS.forEach(({ value }) => {
+    const list = parseTagList(draft[value]);
+    if (list.length > 0) tags[value] = list;
+  });
+  return tags;
+};
@@ -0,0 +1,39 @@
+import { ClosetItem, LookFeedbackReason, LookItemFeedback } from '@/types';
+import { isItemAvailable } from '@/utils/itemStatus';
+
+export const FEEDBACK_REASON_LABELS: Record<LookFeedbackReason, string> = {
+  fit: 'Fit',
+  color: 'Color',
+  occasion: 'Occasion',
+  comfort: 'Comfort',
+};
+
+export const FEEDBACK_REASONS = Object.keys(FEEDBACK_REASON_LABELS) as LookFeedbackReason[];
+
+/** "Fit, color: too tight" — the reasons and comment of one piece's feedback */
+export const describeItemFeedback = (feedback: LookItemFeedback): string => {
+  const reasons = (feedback.reasons ?? []).map((r) => FEEDBACK_REASON_LABELS[r].toLowerCase()).join(', ');
+  const text = [reasons && reasons[0].toUpperCase() + reasons.slice(1), feedback.comment].filter(Boolean);
+  return text.join(': ');
+};
+
+/**
+ * Pieces that could stand in for one the client turned down: same category, wearable on the
+ * event date and not already in the look
+ */
+export const replacementCandidates = (
+  rejected: ClosetItem,
+  closetItems: ClosetItem[],
+  selectedIds: Set<string>,
+  eventDate?: string,
+  limit = 4
+): ClosetItem[] =>
+  closetItems
+    .filter(
+      (item) =>
+        item.id !== rejected.id &&
+        item.category === rejected.category &&
+        !selectedIds.has(item.id) &&
+        isItemAvailable(item, eventDate)
+    )
+    .slice(0, limit);
@@ -1,7 +1,13 @@
-import { Look, LookItem, LookStatus, Client, ClosetItem } from '@/types';
+import { Look, LookItem, LookRevision, LookRevisionDiff, LookStatus, LookStatusEvent, LookStatusInfo, LookItemFeedbackInput, Client, ClosetItem, OutfitRules, OutfitSuggestion, Season, WearEvent } from '@/types';
 import { getCurrentUser } from './mockAuth';
 import { apiRequest, ApiResponse } from './api';
 
+/**
+ * The server re-renders a look's composite image shortly after its items stop changing.
+ * Refetch after this long to show the new image.
+ */
+export const LOOK_COMPOSITE_RENDER_DELAY_MS = 2500;
+
 // Looks API
 export const getLooks = async (clientId?: string): Promise<Look[]> => {
   try {
@@ -113,6 +119,114 @@ export const updateLookStatus = async (lookId: string, status: LookStatus): Prom
   return updateLook(lookId, { status });
 };
 
+export const getLookStatus = async (lookId: string): Promise<LookStatusInfo | null> => {
+  try {
+    const response = await apiRequest<ApiResponse<LookStatusInfo>>(`/looks/${lookId}/status`);
+    return response.data ?? null;
+  } catch (error) {
+    console.error('Error fetching look status:', error);
+    return null;
+  }
+};
+
+/**
+ * Move a look to another status, optionally saying why. A client requesting changes can add
+ * feedback per item. Throws with the server's message.
+ */
+export const changeLookStatus = async (
+  lookId: string,
+  status: LookStatus,
+  details: { reason?: string; itemFeedback?: LookItemFeedbackInput[] } = {}
+): Promise<Look> => {
+  const { reason, itemFeedback } = details;
+  const response = await apiRequest<ApiResponse<Look>>(`/looks/${lookId}/status`, {
+    method: 'POST',
+    body: JSON.stringify({ status, ...(reason && { reason }), ...(itemFeedback?.length && { itemFeedback }) }),
+  });
+  if (!response.data) {
+    throw new Error('Failed to change look status');
+  }
+  return response.data;
+};
+
+/** The client's latest request for changes, until the look is sent to them again */
+export const getLookFeedback = async (lookId: string): Promise<LookStatusEvent | null> => {
+  try {
+    const response = await apiRequest<ApiResponse<LookStatusEvent | null>>(`/looks/${lookId}/feedback`);
+    return response.data ?? null;
+  } catch (error) {
+    console.error('Error fetching look feedback:', error);
+    return null;
+  }
+};
+
+/**
+ * Outfits for a client from their closet, best first. Anchor items are in every outfit; rules
+ * override the server's defaults. Nothing is saved. Throws with the server's message.
+ */
+export const suggestLooks = async (request: {
+  clientId: string;
+  occasion?: string;
+  season?: Season;
+  eventDate?: string;
+  anchorItemIds?: string[];
+  rules?: Partial<OutfitRules>;
+}): Promise<OutfitSuggestion[]> => {
+  const response = await apiRequest<ApiResponse<{ rules: OutfitRules; suggestions: OutfitSuggestion[] }>>('/looks/suggest', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  if (!response.data) {
+    throw new Error('Failed to suggest outfits');
+  }
+  return response.data.suggestions;
+};
+
+/** Log a wear for every closet item in an approved look. Throws with the server's message. */
+export const logLookWear = async (lookId: string, wear: { wornOn?: string; note?: string } = {}): Promise<WearEvent[]> => {
+  const response = await apiRequest<ApiResponse<WearEvent[]>>(`/looks/${lookId}/wears`, {
+    method: 'POST',
+    body: JSON.stringify(wear),
+  });
+  if (!response.data) {
+    throw new Error('Failed to log look as worn');
+  }
+  return response.data;
+};
+
+/** Versions of a look the client was sent, newest first */
+export const getLookRevisions = async (lookId: string): Promise<LookRevision[]> => {
+  try {
+    const response = await apiRequest<ApiResponse<LookRevision[]>>(`/looks/${lookId}/revisions`);
+    return response.data || [];
+  } catch (error) {
+    console.error('Error fetching look revisions:', error);
+    return [];
+  }
+};
+
+export const diffLookRevisions = async (lookId: string, from: number, to: number): Promise<LookRevisionDiff | null> => {
+  try {
+    const response = await apiRequest<ApiResponse<LookRevisionDiff>>(`/looks/${lookId}/revisions/diff?from=${from}&to=${to}`);
+    return response.data ?? null;
+  } catch (error) {
+    console.error('Error comparing look revisions:', error);
+    return null;
+  }
+};
+
+/** Start a new draft look from an old revision. Throws with the server's message. */
+export const restoreLookRevision = async (lookId: string, revision: number): Promise<Look> => {
+  const response = await apiRequest<ApiResponse<{ look: Look; items: LookItem[] }>>(
+    `/looks/${lookId}/revisions/${revision}/restore`,
+    { method: 'POST' }
+  );
+  if (!response.data) {
+    throw new Error('Failed to restore revision');
+  }
+  return response.data.look;
+};
+
 export const getLooksByStatus = async (status: LookStatus): Promise<Look[]> => {
   const looks = await getStylistLooks();
   return looks.filter(look => look.status === status);
@@ -168,7 +282,8 @@ export const bulkAddItemsToLook = async (
   lookId: string,
   itemIds: string[],
   itemType: 'closet_item' | 'new_purchase' = 'closet_item',
-  positions?: Array<{ positionX?: number; positionY?: number; scale?: number }>
+  positions?: Array<{ positionX?: number; positionY?: number; scale?: number }>,
+  newItemDetails?: Array<LookItem['newItemDetails']>
 ): Promise<LookItem[]> => {
   try {
     // Get existing items to determine sort order
@@ -185,6 +300,7 @@ export const bulkAddItemsToLook = async (
         positionY: positions[i].positionY,
         scale: positions[i].scale,
       }),
+      ...(newItemDetails?.[i] && { newItemDetails: newItemDetails[i] }),
     }));
     
     const response = await apiRequest<ApiResponse<LookItem[]>>('/look-items/bulk', {
@@ -0,0 +1,67 @@
+import { LookTemplate, LookTemplateSlot, TemplateLookItemDraft } from '@/types';
+import { apiRequest, ApiResponse } from './api';
+
+/** Slots as sent to the server; it lays out slots without a position */
+export type LookTemplateSlotInput = Omit<LookTemplateSlot, 'positionX' | 'positionY' | 'scale'> &
+  Partial<Pick<LookTemplateSlot, 'positionX' | 'positionY' | 'scale'>>;
+
+export type LookTemplateInput = { name: string; description?: string; occasion?: string } & (
+  | { slots: LookTemplateSlotInput[] }
+  | { lookId: string }
+);
+
+export const getLookTemplates = async (): Promise<LookTemplate[]> => {
+  try {
+    const response = await apiRequest<ApiResponse<LookTemplate[]>>('/look-templates');
+    return response.data || [];
+  } catch (error) {
+    console.error('Error fetching look templates:', error);
+    return [];
+  }
+};
+
+/** Build a template from slots, or save a look as one. Throws with the server's message. */
+export const createLookTemplate = async (input: LookTemplateInput): Promise<LookTemplate> => {
+  const response = await apiRequest<ApiResponse<LookTemplate>>('/look-templates', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  if (!response.data) {
+    throw new Error('Failed to save template');
+  }
+  return response.data;
+};
+
+export const deleteLookTemplate = async (id: string): Promise<boolean> => {
+  try {
+    await apiRequest<ApiResponse<{ success: boolean }>>(`/look-templates/${id}`, {
+      method: 'DELETE',
+    });
+    return true;
+  } catch (error) {
+    console.error('Error deleting look template:', error);
+    return false;
+  }
+};
+
+/**
+ * Fill a template's slots from a client's closet: matching closet items, and new_purchase
+ * placeholders for slots nothing fits. Nothing is saved. Throws with the server's message.
+ */
+export const applyLookTemplate = async (
+  id: string,
+  clientId: string,
+  eventDate?: string
+): Promise<TemplateLookItemDraft[]> => {
+  const response = await apiRequest<ApiResponse<{ template: LookTemplate; items: TemplateLookItemDraft[] }>>(
+    `/look-templates/${id}/apply`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ clientId, ...(eventDate && { eventDate }) }),
+    }
+  );
+  if (!response.data) {
+    throw new Error('Failed to apply template');
+  }
+  return response.data.items;
+};
@@ -0,0 +1,37 @@
+import { TrashEntry, TrashEntityType } from '@/types';
+import { apiRequest, ApiResponse } from './api';
+
+export const getTrash = async (type?: TrashEntityType): Promise<TrashEntry[]> => {
+  try {
+    const queryParams = type ? `?type=${type}` : '';
+    const response = await apiRequest<ApiResponse<TrashEntry[]>>(`/trash${queryParams}`);
+    return response.data || [];
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return [];
+  }
+};
+
+/** Restore a trash entry. Throws with the server's message when it can't be restored (e.g. its client was deleted). */
+export const restoreFromTrash = async (id: string): Promise<{ entityType: TrashEntityType; restored: Record<string, number> }> => {
+  const response = await apiRequest<ApiResponse<{ entityType: TrashEntityType; restored: Record<string, number> }>>(
+    `/trash/${id}/restore`,
+    { method: 'POST' }
+  );
+  if (!response.data) {
+    throw new Error('Failed to restore');
+  }
+  return response.data;
+};
+
+export const purgeTrashEntry = async (id: string): Promise<boolean> => {
+  try {
+    await apiRequest<ApiResponse<{ success: boolean }>>(`/trash/${id}`, {
+      method: 'DELETE',
+    });
+    return true;
+  } catch (error) {
+    console.error('Error deleting trash entry:', error);
+    return false;
+  }
+};